@@ -0,0 +1,105 @@
+/**
+ * Publish the static portfolio site from an exported workspace bundle.
+ *
+ *   npm run build:site -- <workspace.json> [--out <dir> | --zip <file>] [--no-snapshots]
+ *
+ * Every image is watermarked. Without a browser there is no PNG encoder, so
+ * uploads are published as SVG previews of their thumbnails (an SVG cannot
+ * hold a full-size original without exposing it) and pages carry no share
+ * image, since social networks reject SVG cards. Publish from the CMS for
+ * full-size previews and share cards.
+ *
+ * --out is emptied before writing, but only when it is empty or holds the
+ * .mandala-site marker left by an earlier run.
+ */
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { DEFAULT_LICENSES } from '../src/lib/licenses';
+import { DEFAULT_SPEC } from '../src/lib/mandala';
+import { DEFAULT_SEO, siteUrlError } from '../src/lib/seo';
+import { buildSite } from '../src/lib/site';
+import { parseWorkspaceBundle } from '../src/lib/storage';
+import { DEFAULT_WATERMARK } from '../src/lib/watermark';
+import { createZip } from '../src/lib/zip';
+
+// Written into every output directory; only directories carrying it are ever cleared
+const MARKER = '.mandala-site';
+
+type Args = { bundle: string; out: string; zip: string | null; includeSnapshots: boolean };
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { bundle: '', out: 'dist/site', zip: null, includeSnapshots: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (!v) throw new Error(`${arg} needs a value`);
+      return v;
+    };
+    if (arg === '--out') args.out = value();
+    else if (arg === '--zip') args.zip = value();
+    else if (arg === '--no-snapshots') args.includeSnapshots = false;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else args.bundle = arg;
+  }
+  if (!args.bundle) throw new Error('Usage: npm run build:site -- <workspace.json> [--out <dir> | --zip <file>] [--no-snapshots]');
+  return args;
+}
+
+// Empty the output directory, refusing to touch one this script did not create
+async function clearOutput(dir: string): Promise<void> {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw e;
+  }
+  if (entries.length > 0 && !entries.includes(MARKER)) {
+    throw new Error(`${resolve(dir)} is not empty and was not written by build:site; choose another --out or empty it first`);
+  }
+  await rm(dir, { recursive: true, force: true });
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const ws = parseWorkspaceBundle(await readFile(args.bundle, 'utf8'));
+  const seo = ws.seo ?? DEFAULT_SEO;
+  const urlError = siteUrlError(seo.siteUrl);
+  if (urlError) console.warn(`Warning: ${urlError}`);
+  console.warn('Warning: no PNG encoder outside the browser, so pages are published without og:image and twitter:image');
+
+  const files = await buildSite(
+    {
+      seo,
+      spec: ws.spec ?? DEFAULT_SPEC,
+      assets: ws.assets ?? [],
+      licenses: ws.licenses ?? DEFAULT_LICENSES,
+      snapshots: ws.snapshots ?? [],
+      watermark: ws.watermark ?? DEFAULT_WATERMARK,
+      loadMedia: async () => null
+    },
+    { includeSnapshots: args.includeSnapshots }
+  );
+
+  if (args.zip) {
+    await mkdir(dirname(resolve(args.zip)), { recursive: true });
+    await writeFile(args.zip, createZip(files));
+    console.log(`Wrote ${files.length} files to ${args.zip}`);
+    return;
+  }
+  await clearOutput(args.out);
+  await mkdir(args.out, { recursive: true });
+  await writeFile(join(args.out, MARKER), '');
+  for (const file of files) {
+    const path = join(args.out, file.path);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.data);
+  }
+  console.log(`Wrote ${files.length} files to ${args.out}`);
+}
+
+main().catch((e: unknown) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -1,177 +1,65 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-
-type License = {
-  id: string;
-  name: string;
-  terms: string;
-};
-
-type Asset = {
-  id: string;
-  name: string;
-  tags: string[];
-  url?: string;
-};
-
-type CartItem = {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-};
-
-type SEOState = {
-  title: string;
-  description: string;
-  keywords: string;
-};
-
-type MandalaSpec = {
-  segments: number;
-  symmetry: 'radial' | 'mirror';
-  color: string;
-  showWatermark: boolean;
-};
-
-const LICENSES: License[] = [
-  {
-    id: 'standard-commercial',
-    name: 'Standard Commercial',
-    terms: 'Allows sales of prints and digital assets with standard attribution not required.'
-  },
-  {
-    id: 'editorial',
-    name: 'Editorial License',
-    terms: 'For editorial use only. No commercial resale of assets.'
-  },
-  {
-    id: 'exclusive',
-    name: 'Exclusive',
-    terms: 'Limited exclusive licensing negotiated with artist.'
-  }
-];
-
-const STORE_ITEMS = [
-  { id: 'print-a4', name: 'Fine Art Print A4', price: 39 },
-  { id: 'print-a3', name: 'Fine Art Print A3', price: 59 },
-  { id: 'svg-asset', name: 'SVG Asset Pack', price: 12 }
-];
-
-function currency(n: number): string {
-  return `$${n.toFixed(2)}`;
-}
-
-function clamp(n: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, n));
-}
-
-function MandalaCanvas({ spec, watermark }: { spec: MandalaSpec; watermark: boolean }) {
-  const cx = 210;
-  const cy = 210;
-  const outerR = 140;
-  const step = 360 / spec.segments;
-  const innerR = outerR * 0.6;
-
-  const wedgesOuter = [] as JSX.Element[];
-  const wedgesInner = [] as JSX.Element[];
-
-  const a2 = (angle: number) => (angle * Math.PI) / 180;
-
-  for (let i = 0; i < spec.segments; i++) {
-    const a1 = i * step;
-    const aStart = a1;
-    const aEnd = a1 + step;
-
-    const p1 = {
-      x: cx + Math.cos(a2(aStart)) * outerR,
-      y: cy + Math.sin(a2(aStart)) * outerR
-    };
-    const p2 = {
-      x: cx + Math.cos(a2(aEnd)) * outerR,
-      y: cy + Math.sin(a2(aEnd)) * outerR
-    };
-
-    wedgesOuter.push(
-      <polygon key={`ow-${i}`} points={`${cx},${cy} ${p1.x},${p1.y} ${p2.x},${p2.y}`} fill={spec.color} opacity={0.8} stroke="none" />
-    );
-
-    const p1i = {
-      x: cx + Math.cos(a2(aStart)) * innerR,
-      y: cy + Math.sin(a2(aStart)) * innerR
-    };
-    const p2i = {
-      x: cx + Math.cos(a2(aEnd)) * innerR,
-      y: cy + Math.sin(a2(aEnd)) * innerR
-    };
-
-    wedgesInner.push(
-      <polygon key={`iw-${i}`} points={`${cx},${cy} ${p1i.x},${p1i.y} ${p2i.x},${p2i.y}`} fill={spec.color} opacity={0.25} stroke="none" />
-    );
-  }
-
-  // If mirror symmetry is enabled, add mirrored wedges across the vertical axis by duplicating with negative angles
-  const wedgesMirror = [] as JSX.Element[];
-  if (spec.symmetry === 'mirror') {
-    for (let i = 0; i < spec.segments; i++) {
-      const a1 = -i * step;
-      const aEnd = -(i * step) - step;
-      const aStart = a1;
-      const p1 = {
-        x: cx + Math.cos((aStart * Math.PI) / 180) * outerR,
-        y: cy + Math.sin((aStart * Math.PI) / 180) * outerR
-      };
-      const p2 = {
-        x: cx + Math.cos((aEnd * Math.PI) / 180) * outerR,
-        y: cy + Math.sin((aEnd * Math.PI) / 180) * outerR
-      };
-      wedgesMirror.push(
-        <polygon key={`mw-${i}`} points={`${cx},${cy} ${p1.x},${p1.y} ${p2.x},${p2.y}`} fill={spec.color} opacity={0.6} stroke="none" />
-      );
-
-      const p1i = {
-        x: cx + Math.cos((aStart * Math.PI) / 180) * innerR,
-        y: cy + Math.sin((aStart * Math.PI) / 180) * innerR
-      };
-      const p2i = {
-        x: cx + Math.cos((aEnd * Math.PI) / 180) * innerR,
-        y: cy + Math.sin((aEnd * Math.PI) / 180) * innerR
-      };
-      wedgesMirror.push(
-        <polygon key={`mi-${i}`} points={`${cx},${cy} ${p1i.x},${p1i.y} ${p2i.x},${p2i.y}`} fill={spec.color} opacity={0.15} stroke="none" />
-      );
-    }
-  }
-
-  return (
-    <svg ref={null} width={420} height={420} viewBox="0 0 420 420" aria-label="Mandala canvas" role="img">
-      <defs>
-        <circle id="grad" cx={cx} cy={cy} r={outerR} fill={spec.color} />
-      </defs>
-      <rect x={0} y={0} width={420} height={420} fill="#111" opacity={0.0} />
-      {wedgesOuter}
-      {wedgesInner}
-      {spec.symmetry === 'mirror' ? wedgesMirror : null}
-      {spec.showWatermark && (
-        <text x={cx} y={cy} textAnchor="middle" fill="white" opacity={0.15} fontSize={42} fontFamily="Inter" style={{ userSelect: 'none' }}>
-          MANDALA
-        </text>
-      )}
-      <circle cx={cx} cy={cy} r={6} fill="#fff" opacity={0.3} />
-    </svg>
-  );
-}
-
-function ExportButton({ onExport }: { onExport: () => void }) {
-  return (
-    <button
-      aria-label="Export mandala as SVG"
-      onClick={onExport}
-      className="px-4 py-2 rounded-md bg-primary text-white hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-    >
-      Export SVG
-    </button>
-  );
-}
+import AnimationPanel from './components/AnimationPanel';
+import ArtworkPreview from './components/ArtworkPreview';
+import CanvasMandala from './components/CanvasMandala';
+import CartPanel from './components/CartPanel';
+import AssetLibrary from './components/AssetLibrary';
+import AssetUploader from './components/AssetUploader';
+import AssetWorkflowPanel from './components/AssetWorkflowPanel';
+import CertificateVerifier from './components/CertificateVerifier';
+import CheckoutPanel from './components/CheckoutPanel';
+import CollectionManager from './components/CollectionManager';
+import FabricationExportPanel from './components/FabricationExportPanel';
+import LayerControls from './components/LayerControls';
+import Link from './components/Link';
+import LicenseCatalogPanel from './components/LicenseCatalogPanel';
+import MandalaCanvas from './components/MandalaCanvas';
+import MotifEditor from './components/MotifEditor';
+import OrdersPanel from './components/OrdersPanel';
+import PalettePanel from './components/PalettePanel';
+import RasterExportPanel from './components/RasterExportPanel';
+import SEOPanel from './components/SEOPanel';
+import SitePublishPanel from './components/SitePublishPanel';
+import SnapshotPanel from './components/SnapshotPanel';
+import SpecSharePanel from './components/SpecSharePanel';
+import SvgExportPanel from './components/SvgExportPanel';
+import TagManager from './components/TagManager';
+import VariationGrid from './components/VariationGrid';
+import WatermarkPanel from './components/WatermarkPanel';
+import WorkspacePanel from './components/WorkspacePanel';
+import { useCheckout } from './hooks/useCheckout';
+import { useHistory } from './hooks/useHistory';
+import { useRoute } from './hooks/useRoute';
+import { useWorkspacePersistence } from './hooks/useWorkspacePersistence';
+import { DEFAULT_ANIMATION, type MandalaAnimation } from './lib/animation';
+import {
+  addToCart as addCartLine,
+  cartItemCount,
+  DEFAULT_CHECKOUT_SETTINGS,
+  formatMoney,
+  priceLabel,
+  STORE_ITEMS,
+  summarizeCheckout,
+  type CheckoutSettings
+} from './lib/cart';
+import { assetFromDesign, createCollection, deleteCollection, findDesign } from './lib/library';
+import { activeLicenses, DEFAULT_LICENSES, findLicense, licenseTerms } from './lib/licenses';
+import { DEFAULT_SPEC, readSpecFromSVG, type MandalaSpec } from './lib/mandala';
+import { issueCertificates, type LicenseCertificate } from './lib/certificates';
+import { createOrder, withdrawnProducts, type Buyer, type Order } from './lib/orders';
+import { BRAND_PALETTES, type SavedPalette } from './lib/palette';
+import { createMockProvider, type PaymentMethod } from './lib/payments';
+import { NAV_ROUTES, type Route } from './lib/router';
+import { applyHeadTags, DEFAULT_SEO, headTags, pageMeta, routePage, type SEOContext } from './lib/seo';
+import { createSnapshot, type DesignSnapshot } from './lib/snapshots';
+import { decodeSpec } from './lib/specLink';
+import { getBlob, type Workspace } from './lib/storage';
+import { DEFAULT_WATERMARK, type WatermarkSettings } from './lib/watermark';
+import { publishDue, publishedProducts, recordChanges, workflowDefaults } from './lib/workflow';
+import type { Asset, CartItem, Collection, License, SEOState, StoreItem } from './types';
+
+// Swap for a real gateway adapter implementing PaymentProvider
+const PAYMENT_PROVIDER = createMockProvider();
 
 function SectionTitle({ title, subtitle }: { title: string; subtitle?: string }) {
   return (
@@ -183,317 +71,598 @@ function SectionTitle({ title, subtitle }: { title: string; subtitle?: string })
 }
 
 export default function App(): JSX.Element {
-  const [active, setActive] = useState<'builder'|'licenses'|'store'|'cms'|'seo'>('builder');
+  const { route, navigate } = useRoute();
 
   // Builder state
-  const [spec, setSpec] = useState<MandalaSpec>({ segments: 12, symmetry: 'radial', color: '#ff7f50', showWatermark: true });
-  const svgRef = useRef<SVGSVGElement | null>(null);
+  const history = useHistory<MandalaSpec>(DEFAULT_SPEC);
+  const spec = history.present;
+  const setSpec = history.set;
+  const { undo, redo } = history;
+  const [snapshots, setSnapshots] = useState<DesignSnapshot[]>([]);
+  const [palettes, setPalettes] = useState<SavedPalette[]>(BRAND_PALETTES);
+  const [watermark, setWatermark] = useState<WatermarkSettings>(DEFAULT_WATERMARK);
+  const [previewWatermark, setPreviewWatermark] = useState(true);
+  const [animation, setAnimation] = useState<MandalaAnimation>(DEFAULT_ANIMATION);
+  // Bitmap preview drawn off the main thread, for designs too large to edit smoothly as SVG
+  const [canvasPreview, setCanvasPreview] = useState(false);
 
   // Licensing
-  const [license, setLicense] = useState<License | null>(LICENSES[0]);
+  const [licenses, setLicenses] = useState<License[]>(DEFAULT_LICENSES);
+  const [licenseId, setLicenseId] = useState<string | null>(DEFAULT_LICENSES[0].id);
+  const license = findLicense(licenses, licenseId);
 
   // Store / Cart
   const [cart, setCart] = useState<CartItem[]>([]);
-  const [storeOpen, setStoreOpen] = useState(false);
-  const [checkoutState, setCheckoutState] = useState<'idle'|'processing'|'success'|null>(null);
+  const [checkoutSettings, setCheckoutSettings] = useState<CheckoutSettings>(DEFAULT_CHECKOUT_SETTINGS);
+  const [printProductId, setPrintProductId] = useState<string | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [paidOrderId, setPaidOrderId] = useState<string | null>(null);
+  const [certificates, setCertificates] = useState<LicenseCertificate[]>([]);
+  // Why issuing certificates failed, by order id (e.g. no crypto.subtle outside a secure context)
+  const [certificateErrors, setCertificateErrors] = useState<Record<string, string>>({});
 
   // CMS
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [editorName, setEditorName] = useState('');
+  const editingAssetId = route.name === 'cms' ? route.assetId : null;
+  const editingAsset = assets.find((a) => a.id === editingAssetId) ?? null;
 
   // SEO
-  const [seo, setSeo] = useState<SEOState>({ title: 'Mandala Portfolio', description: 'A handcrafted mandala portfolio', keywords: 'mandala, portfolio, art' });
+  const [seo, setSeo] = useState<SEOState>(DEFAULT_SEO);
 
   useEffect(() => {
     // Seed initial asset
     if (assets.length === 0) {
-      setAssets([{ id: 'sample-blank', name: 'Sample Mandala Asset', tags: ['sample'] }]);
+      setAssets([{ id: 'sample-blank', name: 'Sample Mandala Asset', tags: ['sample'], ...workflowDefaults('Sample Mandala Asset') }]);
     }
   }, []);
 
-  // Upload handler (CMS)
-  const onBulkUpload = useCallback((ev: React.ChangeEvent<HTMLInputElement>) => {
-    const files = ev.target.files;
-    if (!files || files.length === 0) return;
-    const next: Asset[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const f = files[i];
-      const a: Asset = { id: `asset-${Date.now()}-${i}`, name: f.name, tags: [] };
-      next.push(a);
-    }
-    setAssets((prev) => [...prev, ...next]);
-    // reset value to allow re-upload same files if needed
-    ev.currentTarget.value = '';
+  // Persistence: every slice is saved to IndexedDB and restored on reload
+  const workspace = useMemo<Workspace>(
+    () => ({ spec, licenses, licenseId, cart, assets, collections, seo, snapshots, orders, certificates, editorName, palettes, watermark, animation }),
+    [spec, licenses, licenseId, cart, assets, collections, seo, snapshots, orders, certificates, editorName, palettes, watermark, animation]
+  );
+  const resetSpec = history.reset;
+  const restoreWorkspace = useCallback((ws: Partial<Workspace>) => {
+    if (ws.spec) resetSpec(ws.spec);
+    if (ws.licenses) setLicenses(ws.licenses);
+    if (ws.licenseId !== undefined) setLicenseId(ws.licenseId);
+    if (ws.cart) setCart(ws.cart);
+    if (ws.assets) setAssets(ws.assets);
+    if (ws.collections) setCollections(ws.collections);
+    if (ws.seo) setSeo(ws.seo);
+    if (ws.snapshots) setSnapshots(ws.snapshots);
+    if (ws.orders) setOrders(ws.orders);
+    if (ws.certificates) setCertificates(ws.certificates);
+    if (ws.editorName !== undefined) setEditorName(ws.editorName);
+    if (ws.palettes) setPalettes(ws.palettes);
+    if (ws.watermark) setWatermark(ws.watermark);
+    if (ws.animation) setAnimation(ws.animation);
+  }, [resetSpec]);
+  const persistence = useWorkspacePersistence(workspace, restoreWorkspace);
+
+  // Library edits are recorded in each asset's audit trail
+  const actor = editorName.trim() || 'anonymous';
+  const changeAssets = useCallback((update: (assets: Asset[]) => Asset[]) => {
+    setAssets((prev) => recordChanges(prev, update(prev), actor, Date.now()));
+  }, [actor]);
+
+  // Publish scheduled assets once their time comes
+  useEffect(() => {
+    const tick = () => setAssets((prev) => publishDue(prev, Date.now()));
+    tick();
+    const timer = window.setInterval(tick, 15000);
+    return () => window.clearInterval(timer);
   }, []);
 
-  // Export current mandala as SVG
-  const exportSVG = useCallback(() => {
-    const el = svgRef.current;
-    // If using a dedicated <svg>, ensure we have an outer wrapper to serialize
-    if (!el) return;
-    const serializer = new XMLSerializer();
-    // Wrap the mandala content to ensure a valid standalone SVG
-    const outer = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-    outer.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-    outer.setAttribute('width', '420');
-    outer.setAttribute('height', '420');
-    outer.setAttribute('viewBox', '0 0 420 420');
-
-    // Copy child nodes from existing SVG content
-    const clone = el.cloneNode(true) as SVGSVGElement;
-    // Remove any inner svg wrappers if present
-    while (clone.firstChild) {
-      outer.appendChild(clone.firstChild);
-    }
-
-    const source = serializer.serializeToString(outer);
-    const blob = new Blob([source], { type: 'image/svg+xml;charset=utf-8' });
+  // Open an uploaded asset's original file
+  const openAsset = useCallback(async (asset: Asset) => {
+    if (!asset.file) return;
+    const blob = await getBlob(asset.file.hash);
+    if (!blob) return;
     const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'mandala.svg';
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+    window.open(url, '_blank', 'noopener');
+    window.setTimeout(() => URL.revokeObjectURL(url), 60000);
   }, []);
 
-  // Add to cart
-  const addToCart = useCallback((item: typeof STORE_ITEMS[number]) => {
-    setCart((prev) => {
-      const found = prev.find((p) => p.id === item.id);
-      if (found) {
-        return prev.map((p) => (p.id === item.id ? { ...p, quantity: p.quantity + 1 } : p));
-      }
-      return [...prev, { id: item.id, name: item.name, price: item.price, quantity: 1 }];
-    });
-    setStoreOpen(true);
+  // A design opened in the app is loaded here; /builder/:designId links are loaded once the workspace is restored
+  const designId = route.name === 'builder' ? route.designId : null;
+  const linkedDesign = designId ? findDesign(designId, snapshots, assets) : null;
+  const loadedDesignId = useRef<string | null>(null);
+  const openDesign = useCallback((id: string, design: MandalaSpec) => {
+    setSpec(design);
+    loadedDesignId.current = id;
+    navigate({ name: 'builder', designId: id });
+  }, [navigate]);
+  useEffect(() => {
+    if (!designId) {
+      loadedDesignId.current = null;
+      return;
+    }
+    if (!persistence.ready || !linkedDesign || loadedDesignId.current === designId) return;
+    loadedDesignId.current = designId;
+    setSpec(linkedDesign);
+  }, [designId, linkedDesign, persistence.ready]);
+
+  // Shared links carry the whole design; open it in the builder, replacing the link in history
+  const [shareError, setShareError] = useState<string | null>(null);
+  useEffect(() => {
+    if (route.name !== 'share' || !persistence.ready) return;
+    const result = decodeSpec(route.code);
+    if (result.spec) setSpec(result.spec);
+    setShareError(result.error);
+    navigate({ name: 'builder', designId: null }, { replace: true });
+  }, [route, persistence.ready, navigate]);
+
+  // Designs open in the builder, uploads in a new tab
+  const onOpenAsset = useCallback((asset: Asset) => {
+    if (asset.design) openDesign(asset.id, asset.design);
+    else openAsset(asset);
+  }, [openAsset, openDesign]);
+
+  const onDeleteCollection = useCallback((id: string) => {
+    const next = deleteCollection(collections, assets, id);
+    setCollections(next.collections);
+    setAssets(recordChanges(assets, next.assets, actor, Date.now()));
+  }, [collections, assets, actor]);
+
+  // Restore a design from a previously exported SVG
+  const [importError, setImportError] = useState<string | null>(null);
+  const onImportSVG = useCallback(async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    const restored = readSpecFromSVG(await file.text());
+    if (!restored) {
+      setImportError(`${file.name} does not contain a mandala design`);
+      return;
+    }
+    setImportError(null);
+    setSpec(restored);
   }, []);
 
-  // Checkout simulation
-  const checkout = useCallback(async () => {
-    if (cart.length === 0) return;
-    setCheckoutState('processing');
-    await new Promise((r) => setTimeout(r, 1000));
-    setCheckoutState('success');
+  // Add to cart under the selected license
+  const [cartError, setCartError] = useState<string | null>(null);
+  const withdrawn = useMemo(() => withdrawnProducts(orders, licenses, spec), [orders, licenses, spec]);
+  const addToCart = useCallback((item: StoreItem) => {
+    if (!license) {
+      setCartError('Select a license first');
+      return;
+    }
+    const result = addCartLine(cart, item, license, withdrawn);
+    setCartError(result.error);
+    if (result.error) return;
+    setCart(result.cart);
+  }, [cart, license, withdrawn]);
+
+  const summary = useMemo(() => summarizeCheckout(cart, licenses, checkoutSettings, withdrawn), [cart, licenses, checkoutSettings, withdrawn]);
+
+  // Checkout through the payment provider; orders follow its status events
+  const issue = useCallback((order: Order) => {
+    setCertificateErrors(({ [order.id]: _, ...rest }) => rest);
+    issueCertificates(order, licenses)
+      .then((certs) => setCertificates((prev) => [...certs, ...prev]))
+      .catch((e: unknown) => setCertificateErrors((prev) => ({ ...prev, [order.id]: e instanceof Error ? e.message : String(e) })));
+  }, [licenses]);
+  const onPaid = useCallback((order: Order) => {
+    setPaidOrderId(order.id);
     setCart([]);
-  }, [cart]);
-
-  const cartTotal = useMemo(() => cart.reduce((sum, it) => sum + it.price * it.quantity, 0), [cart]);
-
-  // Update document title for SEO mimicry
+    issue(order);
+  }, [issue]);
+  const checkout = useCheckout(PAYMENT_PROVIDER, { setOrders, onPaid });
+  const paidOrder = orders.find((o) => o.id === paidOrderId) ?? null;
+  const payForCart = checkout.pay;
+  const onPay = useCallback((method: PaymentMethod, buyer: Buyer) => {
+    payForCart(() => createOrder({
+      summary,
+      settings: checkoutSettings,
+      licenses,
+      provider: PAYMENT_PROVIDER.name,
+      buyer,
+      design: spec
+    }), method);
+  }, [payForCart, summary, checkoutSettings, licenses, spec]);
+  const published = useMemo(() => publishedProducts(assets), [assets]);
+  const seoContext = useMemo<SEOContext>(() => ({ licenses, products: [...STORE_ITEMS, ...published], assets }), [licenses, published, assets]);
+
+  // Undo/redo shortcuts; text fields keep their native undo
   useEffect(() => {
-    document.title = seo.title || 'Mandala Portfolio';
-  }, [seo.title]);
-
-  // Watermark toggle affects mandala by re-rendering
-  const mandalaColor = spec.color;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLInputElement && !['range', 'color', 'checkbox', 'radio', 'button'].includes(target.type)) return;
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
-  // UI
-  return (
-    <div className="min-h-screen bg-white" style={{ fontFamily: 'Inter, ui-sans-serif, system-ui' }}>
-      <header className="bg-primary text-white p-4 shadow-md">
-        <div className="max-w-6xl mx-auto flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 rounded-full bg-white/90" aria-label="Mandala Logo" />
-            <h1 className="text-xl font-semibold">Mandala Portfolio Builder</h1>
+  // Keep the document head in step with the page being viewed
+  useEffect(() => {
+    applyHeadTags(document, headTags(seo, pageMeta(seo, routePage(route.name), seoContext)));
+  }, [route.name, seo, seoContext]);
+
+  const licensePicker = (
+    <section className="bg-white shadow rounded-md p-4">
+      <SectionTitle title="Licensing" />
+      <div className="space-y-2" aria-label="Licenses">
+        {activeLicenses(licenses).map((l) => (
+          <div key={l.id} className={"p-2 rounded-md border" + (license?.id === l.id ? ' border-primary' : ' border-gray-200')}>
+            <label className="flex items-center justify-between w-full">
+              <span>{l.name}</span>
+              <button onClick={()=> setLicenseId(l.id)} className="px-2 py-1 rounded bg-primary text-white text-sm">Select</button>
+            </label>
           </div>
-          <nav aria-label="Main navigation" className="flex items-center gap-3">
-            {[
-              { key: 'builder', label: 'Builder' },
-              { key: 'licenses', label: 'Licensing' },
-              { key: 'store', label: 'Store' },
-              { key: 'cms', label: 'CMS' },
-              { key: 'seo', label: 'SEO' }
-            ].map((n) => (
-              <button key={n.key}
-                onClick={() => setActive(n.key as any)}
-                className={"px-3 py-2 rounded-md text-white" + (active === (n.key as any) ? ' bg-primary-600' : ' bg-white/20')}
-                aria-label={n.label}
-              >
-                {n.label}
-              </button>
-            ))}
-          </nav>
+        ))}
+      </div>
+      {license && (
+        <div className="mt-2 text-sm text-gray-700">
+          <strong>Selected:</strong> {license.name}
+          <div className="text-xs mt-1">{licenseTerms(license)}</div>
         </div>
-      </header>
-
-      <main className="max-w-6xl mx-auto p-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Sidebar quick stats / controls */}
-        <aside className="lg:col-span-1 space-y-6">
-          <section className="bg-white shadow rounded-md p-4">
-            <SectionTitle title="Mandala Builder" />
-            <div className="space-y-3">
-              <label className="block text-sm">Segments: {spec.segments}</label>
-              <input type="range" min={3} max={48} step={1} value={spec.segments}
-                onChange={(e) => setSpec((s) => ({ ...s, segments: Number(e.target.value) }))}
-                className="w-full"
-              />
-              <label className="block text-sm mt-2">Symmetry</label>
-              <div className="flex gap-2">
-                {(['radial','mirror'] as const).map((t) => (
-                  <button key={t} onClick={() => setSpec((s)=> ({ ...s, symmetry: t }))}
-                    className={"px-3 py-1 rounded-md border text-sm" + (spec.symmetry === t ? ' border-primary text-primary' : ' border-gray-200')}
-                  >{t}</button>
-                ))}
-              </div>
-              <label className="block text-sm mt-2">Color</label>
-              <input type="color" value={spec.color}
-                onChange={(e) => setSpec((s)=> ({ ...s, color: e.target.value }))}
-                aria-label="Mandala color" className="w-16 h-9 p-0 border rounded"/>
-              <label className="flex items-center gap-2 mt-2">
-                <input type="checkbox" checked={spec.showWatermark} onChange={(e)=> setSpec((s)=> ({ ...s, showWatermark: e.target.checked }))} />
-                <span>Watermark</span>
-              </label>
-            </div>
-            <hr className="my-3" />
-            <ExportButton onExport={exportSVG} />
-          </section>
+      )}
+    </section>
+  );
 
-          <section className="bg-white shadow rounded-md p-4">
-            <SectionTitle title="Licensing" />
-            <div className="space-y-2" aria-label="Licenses">
-              {LICENSES.map((l) => (
-                <div key={l.id} className={"p-2 rounded-md border" + (license?.id === l.id ? ' border-primary' : ' border-gray-200')}>
-                  <label className="flex items-center justify-between w-full">
-                    <span>{l.name}</span>
-                    <button onClick={()=> setLicense(l)} className="px-2 py-1 rounded bg-primary text-white text-sm">Select</button>
-                  </label>
+  const page = (r: Route): JSX.Element => {
+    switch (r.name) {
+      case 'builder':
+        return (
+          <>
+            {/* Sidebar quick stats / controls */}
+            <aside className="lg:col-span-1 space-y-6">
+              <section className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Mandala Builder" />
+                <div className="flex gap-2 mb-3">
+                  <button onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" className="flex-1 px-3 py-1 rounded border text-sm disabled:opacity-50">Undo</button>
+                  <button onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" className="flex-1 px-3 py-1 rounded border text-sm disabled:opacity-50">Redo</button>
                 </div>
-              ))}
-            </div>
-            {license && (
-              <div className="mt-2 text-sm text-gray-700">
-                <strong>Selected:</strong> {license.name}
-                <div className="text-xs mt-1">{license.terms}</div>
-              </div>
-            )}
-          </section>
-        </aside>
-
-        {/* Main Builder View */}
-        <section className="lg:col-span-2 bg-white shadow rounded-md p-4" aria-label="Mandala Builder">
-          {active === 'builder' && (
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
-              <div className="flex flex-col items-center justify-center">
-                <div ref={undefined} aria-label="Mandala SVG canvas">
-                  <svg ref={svgRef} width={420} height={420} viewBox="0 0 420 420" role="img" aria-label="Mandala SVG" style={{ display: 'block' }}>
-                    <g>
-                      <MandalaCanvas spec={spec} watermark={spec.showWatermark} />
-                    </g>
-                  </svg>
+                <div className="space-y-3">
+                  <LayerControls spec={spec} onChange={setSpec} />
+                  <label className="block text-sm mt-2">Symmetry</label>
+                  <div className="flex gap-2">
+                    {([['cyclic', 'Cn rotate'], ['dihedral', 'Dn kaleidoscope']] as const).map(([t, label]) => (
+                      <button key={t} onClick={() => setSpec((s)=> ({ ...s, symmetry: t }))}
+                        className={"px-3 py-1 rounded-md border text-sm" + (spec.symmetry === t ? ' border-primary text-primary' : ' border-gray-200')}
+                      >{label}</button>
+                    ))}
+                  </div>
+                  <MotifEditor spec={spec} onChange={setSpec} />
+                  <PalettePanel spec={spec} onChange={setSpec} palettes={palettes} onPalettesChange={setPalettes} watermark={watermark} />
                 </div>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <h3 className="text-lg font-semibold" style={{ fontFamily: 'Inter' }}>Live Preview</h3>
-                  <p className="text-sm text-gray-600">Symmetry-optimized mandalas generated on the fly. Export SVG or tweak settings for publication-ready assets.</p>
+                <hr className="my-3" />
+                <SvgExportPanel spec={spec} license={license} title={seo.title} description={seo.description} watermark={watermark} />
+                <label className="block text-sm mt-3">Import design (.svg)</label>
+                <input type="file" accept=".svg,image/svg+xml" onChange={onImportSVG} aria-label="Import design from SVG" className="w-full text-sm" />
+                {importError && <p className="text-xs text-red-600 mt-1" role="alert">{importError}</p>}
+                <hr className="my-3" />
+                <SpecSharePanel spec={spec} onImport={(next) => { setSpec(next); setShareError(null); }} />
+              </section>
+
+              <section className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Watermark" />
+                <WatermarkPanel settings={watermark} onChange={setWatermark} preview={previewWatermark} onPreviewChange={setPreviewWatermark} />
+              </section>
+
+              {licensePicker}
+
+              <section className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Workspace" subtitle="Move your designs, cart, assets and SEO between machines" />
+                <WorkspacePanel workspace={workspace} ready={persistence.ready} storageError={persistence.loadError ?? persistence.error} onImport={restoreWorkspace} />
+              </section>
+            </aside>
+
+            {/* Main Builder View */}
+            <section className="lg:col-span-2 bg-white shadow rounded-md p-4" aria-label="Mandala Builder">
+              {shareError && (
+                <p className="mb-3 text-sm text-red-600" role="alert">
+                  Could not open the shared design: {shareError}{' '}
+                  <button onClick={() => setShareError(null)} className="underline">Dismiss</button>
+                </p>
+              )}
+              {r.designId && persistence.ready && !linkedDesign && (
+                <p className="mb-3 text-sm text-red-600" role="alert">
+                  Design “{r.designId}” was not found in this workspace.{' '}
+                  <Link to={{ name: 'builder', designId: null }} onNavigate={navigate} className="underline">Keep editing the current design</Link>
+                </p>
+              )}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                <div className="flex flex-col items-center justify-center">
+                  <div aria-label={canvasPreview ? 'Mandala bitmap canvas' : 'Mandala SVG canvas'}>
+                    {canvasPreview
+                      ? <CanvasMandala spec={spec} watermark={previewWatermark ? watermark : null} />
+                      : <MandalaCanvas spec={spec} watermark={previewWatermark ? watermark : null} />}
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={canvasPreview} onChange={(e) => setCanvasPreview(e.target.checked)} />
+                    <span>Fast bitmap preview (for very large designs)</span>
+                  </label>
                 </div>
-                <div className="bg-gray-50 border rounded p-3 flex flex-col gap-2">
-                  <div className="text-sm">License</div>
-                  <div className="text-sm font-medium">{license?.name ?? 'None'}</div>
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="text-lg font-semibold" style={{ fontFamily: 'Inter' }}>Live Preview</h3>
+                    <p className="text-sm text-gray-600">Symmetry-optimized mandalas generated on the fly. Export SVG or tweak settings for publication-ready assets.</p>
+                  </div>
+                  <div className="bg-gray-50 border rounded p-3 flex flex-col gap-2">
+                    <div className="text-sm">License</div>
+                    <div className="text-sm font-medium">{license?.name ?? 'None'}</div>
+                  </div>
+                  <Link to={{ name: 'licenses' }} onNavigate={navigate}
+                    className="block text-center w-full py-2 px-4 rounded-md bg-primary text-white hover:bg-primary-600">Open Licensing</Link>
+                  <RasterExportPanel key={printProductId ?? 'free'} spec={spec} watermark={watermark} products={STORE_ITEMS} initialProductId={printProductId} />
+                  <FabricationExportPanel spec={spec} watermark={watermark} />
+                  <SnapshotPanel
+                    snapshots={snapshots}
+                    current={spec}
+                    onSave={(name) => setSnapshots((prev) => [createSnapshot(name, spec), ...prev])}
+                    onRestore={(snapshot) => openDesign(snapshot.id, snapshot.spec)}
+                    onDelete={(id) => setSnapshots((prev) => prev.filter((s) => s.id !== id))}
+                    onAddToLibrary={(snapshot) => changeAssets((prev) => [...prev, assetFromDesign(snapshot.name, snapshot.spec)])}
+                  />
                 </div>
-                <button onClick={()=> setActive('licenses')} className="w-full py-2 px-4 rounded-md bg-primary text-white hover:bg-primary-600">Open Licensing</button>
               </div>
-            </div>
-          )}
-        </section>
-      </main>
-
-      <section className="max-w-6xl mx-auto p-4 mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6" aria-label="Store / CMS / SEO">
-        <div className="bg-white shadow rounded-md p-4">
-          <SectionTitle title="E-Commerce" />
-          <div className="space-y-2">
-            {STORE_ITEMS.map((it) => (
-              <div key={it.id} className="flex items-center justify-between border rounded p-2">
-                <div>
-                  <div className="font-medium">{it.name}</div>
-                  <div className="text-xs text-gray-500">{currency(it.price)}</div>
-                </div>
-                <button onClick={()=> addToCart({ id: it.id, name: it.name, price: it.price, quantity: 1 })}
-                  className="px-3 py-1 rounded bg-primary text-white">Add</button>
+              <div className="mt-6">
+                <AnimationPanel spec={spec} animation={animation} onChange={setAnimation} watermark={watermark}
+                  previewWatermark={previewWatermark ? watermark : null} />
               </div>
-            ))}
-          </div>
-          <div className="mt-3 flex justify-between items-center">
-            <span className="text-sm text-gray-600">Cart items: {cart.length}</span>
-            <button onClick={()=> setStoreOpen((v)=>!v)} className="px-3 py-1 rounded bg-gray-200">Cart</button>
-          </div>
-          {storeOpen && (
-            <div className="mt-2 border rounded p-2 bg-gray-50">
-              {cart.length === 0 ? (
-                <div className="text-sm text-gray-500">Cart is empty</div>
-              ) : (
+            </section>
+          </>
+        );
+      case 'generate':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-4" aria-label="Generator">
+            <SectionTitle title="Generator" subtitle="Seeded designs: the same seed and settings always give the same mandala. Pick favourites to tweak or add to the CMS." />
+            <VariationGrid
+              currentPalette={spec.palette}
+              palettes={palettes}
+              assets={assets}
+              onTweak={(next) => { setSpec(next); navigate({ name: 'builder', designId: null }); }}
+              onAdd={(added) => changeAssets((prev) => [...prev, ...added])}
+            />
+          </section>
+        );
+      case 'licenses':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-4" aria-label="Licensing">
+            <SectionTitle title="License catalog" subtitle="Terms are generated from each license's fields; retired licenses stay on past orders" />
+            <LicenseCatalogPanel licenses={licenses} onChange={setLicenses} />
+          </section>
+        );
+      case 'store':
+        return (
+          <>
+            <section className="lg:col-span-2 space-y-6" aria-label="Store">
+              <div className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Store" subtitle="Prices follow the selected license" />
                 <div className="space-y-2">
-                  {cart.map((c) => (
-                    <div key={c.id} className="flex items-center justify-between text-sm">
-                      <span>{c.name} x{c.quantity}</span>
-                      <span>{currency(c.price * c.quantity)}</span>
+                  {STORE_ITEMS.map((it) => (
+                    <div key={it.id} className="flex items-center justify-between border rounded p-2">
+                      <div>
+                        <div className="font-medium">{it.name}</div>
+                        <div className="text-xs text-gray-500">{priceLabel(it, license, checkoutSettings)}</div>
+                      </div>
+                      <div className="flex gap-1">
+                        {it.printPreset && (
+                          <button onClick={()=> { setPrintProductId(it.id); navigate({ name: 'builder', designId: null }); }}
+                            className="px-3 py-1 rounded border" aria-label={`Print file for ${it.name}`}>Print file</button>
+                        )}
+                        <button onClick={()=> addToCart(it)}
+                          className="px-3 py-1 rounded bg-primary text-white">Add</button>
+                      </div>
                     </div>
                   ))}
-                  <div className="border-t pt-2 flex items-center justify-between">
-                    <strong>Total</strong>
-                    <strong>{currency(cartTotal)}</strong>
-                  </div>
-                  <div className="flex gap-2 mt-2">
-                    <button className="flex-1 px-3 py-2 rounded bg-primary text-white" onClick={checkoutState === 'processing' ? undefined : checkout} disabled={checkoutState==='processing'}>
-                      {checkoutState === 'processing' ? 'Processing...' : 'Checkout'}
-                    </button>
-                    <button className="flex-1 px-3 py-2 rounded border" onClick={()=> setCart([])}>Clear</button>
+                </div>
+                {published.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <div className="text-sm font-medium">Published artwork</div>
+                    {published.map((it) => {
+                      const artwork = assets.find((a) => a.id === it.id);
+                      return (
+                        <div key={it.id} className="flex items-center gap-3 border rounded p-2">
+                          {artwork && <ArtworkPreview asset={artwork} watermark={watermark} size={56} />}
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium">{it.name}</div>
+                            <div className="text-xs text-gray-500">{priceLabel(it, license, checkoutSettings)}</div>
+                          </div>
+                          <button onClick={()=> addToCart(it)} className="px-3 py-1 rounded bg-primary text-white">Add</button>
+                        </div>
+                      );
+                    })}
                   </div>
+                )}
+                {cartError && <p className="text-xs text-red-600 mt-2" role="alert">{cartError}</p>}
+              </div>
+              {licensePicker}
+            </section>
+
+            <aside className="lg:col-span-1 bg-white shadow rounded-md p-4" aria-label="Cart">
+              <SectionTitle title="Cart" subtitle={`${cartItemCount(cart)} items`} />
+              <CartPanel
+                summary={summary}
+                licenses={licenses}
+                settings={checkoutSettings}
+                onSettingsChange={setCheckoutSettings}
+                onCartChange={setCart}
+              />
+              {(cart.length > 0 || checkout.order || checkout.state === 'success') && (
+                <div className="mt-3 border-t pt-2">
+                  <CheckoutPanel
+                    providerName={PAYMENT_PROVIDER.name}
+                    state={checkout.state}
+                    error={checkout.error}
+                    order={checkout.order}
+                    paidOrderId={paidOrderId}
+                    totalLabel={formatMoney(checkout.state === 'requires_action' && checkout.order ? checkout.order.totals.total : summary.total, checkoutSettings)}
+                    disabled={cart.length === 0 || summary.onRequest.length > 0 || summary.blocked.length > 0}
+                    onPay={onPay}
+                    onAuthenticate={checkout.authenticate}
+                    onCancel={checkout.cancel}
+                    onDone={checkout.reset}
+                  />
+                  {paidOrder && certificateErrors[paidOrder.id] && (
+                    <div className="mt-2 space-y-1">
+                      <p className="text-xs text-red-600" role="alert">License certificate not issued: {certificateErrors[paidOrder.id]}</p>
+                      <button onClick={() => issue(paidOrder)} className="px-2 py-1 rounded border text-xs">Retry certificate</button>
+                    </div>
+                  )}
                 </div>
               )}
+            </aside>
+          </>
+        );
+      case 'orders':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-4 space-y-6" aria-label="Orders">
+            <div>
+              <SectionTitle title="Verify a certificate" subtitle="Enter a license certificate id, or check the id hidden in a licensed download" />
+              <CertificateVerifier certificates={certificates} orders={orders} />
             </div>
-          )}
-        </div>
-
-        <div className="bg-white shadow rounded-md p-4">
-          <SectionTitle title="CMS" />
-          <div className="space-y-3">
-            <label className="block text-sm">Bulk Upload</label>
-            <input type="file" multiple accept="image/*" onChange={onBulkUpload} aria-label="Bulk upload images" className="w-full" />
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-              {assets.map((a) => (
-                <div key={a.id} className="border rounded p-2 flex flex-col items-start">
-                  <span className="text-sm font-medium">{a.name}</span>
-                  <input placeholder="tag1, tag2" value={a.tags.join(', ')} onChange={(e)=>{ const tags = e.target.value.split(',').map(t=>t.trim()).filter(Boolean); setAssets((arr)=> arr.map(it => it.id===a.id?{...it, tags}: it)); }} className="text-xs w-full" />
+            <div>
+              <SectionTitle title="Orders" />
+              <OrdersPanel orders={orders} certificates={certificates} issueErrors={certificateErrors} licenses={licenses} products={STORE_ITEMS} onIssue={issue} />
+            </div>
+          </section>
+        );
+      case 'cms':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-4 space-y-6" aria-label="CMS">
+            <div>
+              <div className="flex items-start justify-between gap-2">
+                <SectionTitle title="Asset library" subtitle="Uploads and saved designs; only published assets appear in the store" />
+                <label className="text-sm flex items-center gap-1">
+                  <span className="text-gray-600">Signed in as</span>
+                  <input value={editorName} onChange={(e) => setEditorName(e.target.value)} placeholder="anonymous" aria-label="Editor name"
+                    className="border rounded p-1 w-32" />
+                </label>
+              </div>
+              <div className="mb-3">
+                <AssetUploader assets={assets} onAdd={(added) => changeAssets((prev) => [...prev, ...added])} />
+              </div>
+              {r.assetId && persistence.ready && !editingAsset && (
+                <p className="mb-3 text-sm text-red-600" role="alert">
+                  Asset “{r.assetId}” was not found.{' '}
+                  <Link to={{ name: 'cms', assetId: null }} onNavigate={navigate} className="underline">Back to the library</Link>
+                </p>
+              )}
+              {editingAsset && (
+                <div className="mb-3">
+                  <AssetWorkflowPanel
+                    asset={editingAsset}
+                    licenses={licenses}
+                    actor={actor}
+                    onEdit={(patch) => changeAssets((prev) => prev.map((a) => (a.id === editingAsset.id ? { ...a, ...patch } : a)))}
+                    onTransition={(next) => setAssets((prev) => prev.map((a) => (a.id === next.id ? next : a)))}
+                    onClose={() => navigate({ name: 'cms', assetId: null })}
+                  />
                 </div>
-              ))}
+              )}
+              <AssetLibrary assets={assets} collections={collections} onChange={changeAssets} onOpen={onOpenAsset}
+                onEdit={(asset) => navigate({ name: 'cms', assetId: asset.id })} />
             </div>
-          </div>
-        </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <SectionTitle title="Collections" />
+                <CollectionManager
+                  collections={collections}
+                  assets={assets}
+                  onCreate={(name) => setCollections((prev) => [...prev, createCollection(name)])}
+                  onUpdate={(id, patch) => setCollections((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)))}
+                  onDelete={onDeleteCollection}
+                />
+              </div>
+              <div>
+                <SectionTitle title="Tags" />
+                <TagManager assets={assets} onChange={changeAssets} />
+              </div>
+            </div>
+          </section>
+        );
+      case 'seo':
+        return (
+          <>
+            <aside className="lg:col-span-1 space-y-6">
+              <section className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Site defaults" subtitle="Used wherever a page has no override" />
+                <div className="space-y-2">
+                  <label className="block text-sm">Title</label>
+                  <input className="w-full border rounded p-2" value={seo.title} onChange={(e)=> setSeo((s)=> ({ ...s, title: e.target.value }))} />
+                  <label className="block text-sm">Description</label>
+                  <textarea className="w-full border rounded p-2" value={seo.description} onChange={(e)=> setSeo((s)=> ({ ...s, description: e.target.value }))} />
+                  <label className="block text-sm">Keywords</label>
+                  <input className="w-full border rounded p-2" value={seo.keywords} onChange={(e)=> setSeo((s)=> ({ ...s, keywords: e.target.value }))} />
+                </div>
+              </section>
+              <section className="bg-white shadow rounded-md p-4">
+                <SectionTitle title="Publish site" subtitle="Or run npm run build:site with an exported workspace" />
+                <SitePublishPanel seo={seo} spec={spec} assets={assets} licenses={licenses} snapshots={snapshots} watermark={watermark} />
+              </section>
+            </aside>
+            <section className="lg:col-span-2 bg-white shadow rounded-md p-4" aria-label="SEO">
+              <SectionTitle title="Search & social" subtitle="Per-page metadata, share cards, structured data and sitemap" />
+              <SEOPanel
+                seo={seo}
+                onChange={setSeo}
+                context={seoContext}
+                spec={spec}
+                watermark={watermark}
+                onAssetChange={(id, meta) => changeAssets((prev) => prev.map((a) => (a.id === id ? { ...a, seo: meta } : a)))}
+                onEditAsset={(id) => navigate({ name: 'cms', assetId: id })}
+              />
+            </section>
+          </>
+        );
+      case 'share':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-8 text-center text-sm text-gray-500" aria-label="Shared design">
+            Opening shared design…
+          </section>
+        );
+      case 'not-found':
+        return (
+          <section className="lg:col-span-3 bg-white shadow rounded-md p-8 text-center" aria-label="Page not found">
+            <h2 className="text-2xl font-semibold" style={{ fontFamily: 'Inter' }}>Page not found</h2>
+            <p className="text-sm text-gray-500 mt-2">Nothing lives at <code>{r.path}</code>.</p>
+            <Link to={{ name: 'builder', designId: null }} onNavigate={navigate}
+              className="inline-block mt-4 py-2 px-4 rounded-md bg-primary text-white hover:bg-primary-600">Go to the builder</Link>
+          </section>
+        );
+    }
+  };
 
-        <div className="bg-white shadow rounded-md p-4">
-          <SectionTitle title="SEO" />
-          <div className="space-y-2">
-            <label className="block text-sm">Title</label>
-            <input className="w-full border rounded p-2" value={seo.title} onChange={(e)=> setSeo((s)=> ({ ...s, title: e.target.value }))} />
-            <label className="block text-sm">Description</label>
-            <textarea className="w-full border rounded p-2" value={seo.description} onChange={(e)=> setSeo((s)=> ({ ...s, description: e.target.value }))} />
-            <label className="block text-sm">Keywords</label>
-            <input className="w-full border rounded p-2" value={seo.keywords} onChange={(e)=> setSeo((s)=> ({ ...s, keywords: e.target.value }))} />
-            <button
-              onClick={()=>{
-                // apply SEO to document and offer a download of meta data
-                const meta = document.querySelector('meta[name="description"]') as HTMLMetaElement | null;
-                if (meta) meta.content = seo.description; else {
-                  const m = document.createElement('meta');
-                  m.name = 'description';
-                  m.content = seo.description;
-                  document.head.appendChild(m);
-                }
-                document.title = seo.title;
-                const data = { title: seo.title, description: seo.description, keywords: seo.keywords };
-                const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url; a.download = 'seo.json'; a.click(); URL.revokeObjectURL(url);
-              }}
-              className="w-full py-2 rounded bg-accent text-black mt-2"
-              aria-label="Publish SEO data"
-            >Publish SEO Data</button>
-          </div>
+  // UI
+  return (
+    <div className="min-h-screen bg-white" style={{ fontFamily: 'Inter, ui-sans-serif, system-ui' }}>
+      <header className="bg-primary text-white p-4 shadow-md">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <Link to={{ name: 'builder', designId: null }} onNavigate={navigate} className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-full bg-white/90" aria-label="Mandala Logo" />
+            <h1 className="text-xl font-semibold">Mandala Portfolio Builder</h1>
+          </Link>
+          <nav aria-label="Main navigation" className="flex items-center gap-3">
+            {NAV_ROUTES.map((n) => (
+              <Link key={n.route.name} to={n.route} onNavigate={navigate}
+                aria-current={route.name === n.route.name ? 'page' : undefined}
+                className={"px-3 py-2 rounded-md text-white" + (route.name === n.route.name ? ' bg-primary-600' : ' bg-white/20')}
+              >
+                {n.label}
+              </Link>
+            ))}
+          </nav>
         </div>
-      </section>
+      </header>
+
+      {persistence.loadError && (
+        <p className="max-w-6xl mx-auto mt-4 px-4 py-2 rounded-md bg-red-50 text-sm text-red-600" role="alert">
+          Saved work could not be loaded, so changes in this tab are not being saved: {persistence.loadError}
+        </p>
+      )}
+
+      <main className="max-w-6xl mx-auto p-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {page(route)}
+      </main>
 
       <footer className="border-t mt-8 py-6 text-center text-sm text-gray-500">
         © Mandala Portfolio Builder. Brand colors: primary #5200ff, accent #ffd600. Font: Inter.
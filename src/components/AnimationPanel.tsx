@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import {
+  animationFrame,
+  FRAME_RATES,
+  frameTimes,
+  isAnimated,
+  layerAnimation,
+  MAX_DURATION,
+  MAX_PULSE,
+  MAX_SPIN,
+  MIN_DURATION,
+  spinDegreesPerSecond,
+  updateLayerAnimation,
+  type LayerAnimation,
+  type MandalaAnimation
+} from '../lib/animation';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_SIZES,
+  DEFAULT_ANIMATION_EXPORT,
+  exportAnimation,
+  type AnimationExportOptions,
+  type AnimationFormat
+} from '../lib/animationExport';
+import { MOTIF_SHAPES, type MandalaSpec } from '../lib/mandala';
+import { downloadBlob } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+
+type Props = {
+  spec: MandalaSpec;
+  animation: MandalaAnimation;
+  onChange: (animation: MandalaAnimation) => void;
+  /** Builder exports are always watermarked; clean files come from licensed orders */
+  watermark: WatermarkSettings;
+  /** Watermark shown on the preview, or null when the user hid it */
+  previewWatermark: WatermarkSettings | null;
+};
+
+export default function AnimationPanel({ spec, animation, onChange, watermark, previewWatermark }: Props) {
+  const reducedMotion = usePrefersReducedMotion();
+  const [playing, setPlaying] = useState(!reducedMotion);
+  const [time, setTime] = useState(0);
+  const [options, setOptions] = useState<AnimationExportOptions>(DEFAULT_ANIMATION_EXPORT);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const animated = isAnimated(animation, spec);
+  const frame = useMemo(() => animationFrame(spec, animation, time), [spec, animation, time]);
+  const set = (patch: Partial<AnimationExportOptions>) => setOptions((o) => ({ ...o, ...patch }));
+  const setLayer = (id: string, patch: Partial<LayerAnimation>) => onChange(updateLayerAnimation(animation, id, patch));
+
+  useEffect(() => {
+    if (reducedMotion) setPlaying(false);
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let handle = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      setTime((t) => (t + (now - last) / 1000) % animation.duration);
+      last = now;
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing, animation.duration]);
+
+  const onExport = async () => {
+    setBusy(true);
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await exportAnimation(spec, animation, options, watermark, setProgress);
+      const extension = ANIMATION_FORMATS.find((f) => f.id === options.format)?.extension ?? 'bin';
+      downloadBlob(blob, options.format === 'png-frames' ? `mandala-frames-${options.fps}fps.zip` : `mandala-animated.${extension}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const frameCount = frameTimes(animation.duration, options.fps).length;
+
+  return (
+    <div className="bg-gray-50 border rounded p-3 space-y-3 text-sm" aria-label="Animation">
+      <div className="font-medium">Animation</div>
+      <div className="flex flex-col items-center gap-2">
+        <MandalaCanvas spec={spec} watermark={previewWatermark} frame={frame} size={240} />
+        <div className="flex items-center gap-2 w-full">
+          <button onClick={() => setPlaying((p) => !p)} disabled={!animated} aria-pressed={playing}
+            className="px-3 py-1 rounded-md border border-primary text-primary disabled:opacity-50">{playing ? 'Pause' : 'Play'}</button>
+          <input type="range" min={0} max={animation.duration} step={0.01} value={time} aria-label="Animation time"
+            onChange={(e) => { setPlaying(false); setTime(Number(e.target.value)); }} className="flex-1" />
+          <span className="w-12 text-right tabular-nums">{time.toFixed(1)} s</span>
+        </div>
+        {reducedMotion && <p className="text-xs text-gray-500">Your system asks for reduced motion, so the preview does not play by itself.</p>}
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="animation-duration">Loop length</label>
+        <input id="animation-duration" type="number" min={MIN_DURATION} max={MAX_DURATION} step={0.5} value={animation.duration}
+          onChange={(e) => onChange({ ...animation, duration: Math.min(MAX_DURATION, Math.max(MIN_DURATION, Number(e.target.value) || MIN_DURATION)) })}
+          className="w-16 border rounded p-1" />
+        <span>seconds</span>
+      </div>
+      <ol className="space-y-2" aria-label="Ring animations">
+        {spec.layers.map((layer, i) => {
+          const a = layerAnimation(animation, layer.id);
+          const name = `${i + 1}. ${MOTIF_SHAPES.find((m) => m.id === layer.motif)?.label}`;
+          return (
+            <li key={layer.id} className="border rounded p-2 space-y-1 bg-white">
+              <div className="font-medium">{name}</div>
+              <label className="block">
+                Spin: {a.spin} segments per loop ({spinDegreesPerSecond(layer, a, animation.duration).toFixed(1)}°/s)
+              </label>
+              <input type="range" min={-MAX_SPIN} max={MAX_SPIN} step={1} value={a.spin} aria-label={`Spin of ring ${i + 1}`}
+                onChange={(e) => setLayer(layer.id, { spin: Number(e.target.value) })} className="w-full" />
+              <label className="block">Pulse: {Math.round(a.pulse * 100)}%</label>
+              <input type="range" min={0} max={MAX_PULSE} step={0.01} value={a.pulse} aria-label={`Pulse of ring ${i + 1}`}
+                onChange={(e) => setLayer(layer.id, { pulse: Number(e.target.value) })} className="w-full" />
+              <div className="flex gap-4">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={a.colorCycle} disabled={spec.palette.length < 2} onChange={(e) => setLayer(layer.id, { colorCycle: e.target.checked })} />
+                  <span>Colour cycle</span>
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={a.bloom} onChange={(e) => setLayer(layer.id, { bloom: e.target.checked })} />
+                  <span>Bloom</span>
+                </label>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      <label className="block">Format</label>
+      <select value={options.format} onChange={(e) => set({ format: e.target.value as AnimationFormat })} aria-label="Animation format" className="w-full border rounded p-1">
+        {ANIMATION_FORMATS.map((f) => (
+          <option key={f.id} value={f.id}>{f.label}</option>
+        ))}
+      </select>
+      {options.format !== 'svg' && (
+        <>
+          <label className="block">Frame rate</label>
+          <div className="flex gap-2">
+            {FRAME_RATES.map((fps) => (
+              <button key={fps} onClick={() => set({ fps })}
+                className={"px-3 py-1 rounded-md border" + (options.fps === fps ? ' border-primary text-primary' : ' border-gray-200')}
+              >{fps} fps</button>
+            ))}
+          </div>
+          <div className="flex gap-2 items-center">
+            <label htmlFor="animation-size">Size</label>
+            <select id="animation-size" value={options.size} onChange={(e) => set({ size: Number(e.target.value) })} className="border rounded p-1">
+              {ANIMATION_SIZES.map((s) => (
+                <option key={s} value={s}>{s} × {s} px</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 ml-auto">
+              <input type="checkbox" checked={options.background === 'transparent'} onChange={(e) => set({ background: e.target.checked ? 'transparent' : '#ffffff' })} />
+              <span>Transparent</span>
+            </label>
+            {options.background !== 'transparent' && (
+              <input type="color" value={options.background} onChange={(e) => set({ background: e.target.value })} aria-label="Animation background colour" className="w-10 h-7 p-0 border rounded" />
+            )}
+          </div>
+          <div className="text-xs text-gray-600">{frameCount} frames</div>
+        </>
+      )}
+      <p className="text-xs text-gray-500">Watermarked preview. The animated SVG stands still for viewers who ask for reduced motion.</p>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <button onClick={onExport} disabled={busy || !animated} className="w-full py-2 rounded bg-primary text-white disabled:opacity-50">
+        {busy ? `Rendering… ${Math.round(progress * 100)}%` : `Export ${ANIMATION_FORMATS.find((f) => f.id === options.format)?.label}`}
+      </button>
+    </div>
+  );
+}
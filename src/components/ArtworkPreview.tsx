@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import WatermarkMarks from './WatermarkMarks';
+import { watermarkLayer, type WatermarkSettings } from '../lib/watermark';
+import type { Asset } from '../types';
+
+type Props = {
+  asset: Asset;
+  watermark: WatermarkSettings;
+  size: number;
+};
+
+/** Public preview of an asset: always watermarked, and only ever its thumbnail */
+export default function ArtworkPreview({ asset, watermark, size }: Props) {
+  const file = asset.file;
+  const mark = useMemo(() => (file ? watermarkLayer(watermark, file.width, file.height) : null), [file, watermark]);
+  if (asset.design) return <MandalaCanvas spec={asset.design} watermark={watermark} size={size} />;
+  if (!file) return <div style={{ width: size, height: size }} className="bg-gray-100 rounded" aria-hidden="true" />;
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${file.width} ${file.height}`} role="img" aria-label={asset.altText || asset.name}>
+      <image href={file.thumbnail} width={file.width} height={file.height} preserveAspectRatio="xMidYMid meet" />
+      {mark && <WatermarkMarks layer={mark} />}
+    </svg>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import { formatBytes } from '../lib/ingest';
+import {
+  DEFAULT_QUERY,
+  deleteAssets,
+  moveToCollection,
+  parseTags,
+  searchAssets,
+  SORTS,
+  tagAssets,
+  tagUsage,
+  type AssetKind,
+  type AssetQuery,
+  type AssetSort
+} from '../lib/library';
+import { STATUS_LABELS } from '../lib/workflow';
+import type { Asset, AssetStatus, Collection } from '../types';
+
+type Props = {
+  assets: Asset[];
+  collections: Collection[];
+  onChange: (update: (assets: Asset[]) => Asset[]) => void;
+  onOpen: (asset: Asset) => void;
+  onEdit: (asset: Asset) => void;
+};
+
+function AssetPreview({ asset, onOpen }: { asset: Asset; onOpen: (asset: Asset) => void }) {
+  if (asset.design) {
+    return (
+      <button onClick={() => onOpen(asset)} className="w-full aspect-square bg-gray-50 rounded mb-1 flex items-center justify-center" aria-label={`Open ${asset.name} in the builder`}>
+        <MandalaCanvas spec={asset.design} watermark={null} size={120} />
+      </button>
+    );
+  }
+  if (asset.file) {
+    return (
+      <button onClick={() => onOpen(asset)} className="w-full aspect-square bg-gray-50 rounded mb-1" aria-label={`Open ${asset.name}`}>
+        <img src={asset.file.thumbnail} alt={asset.description || asset.name} className="w-full h-full object-contain" />
+      </button>
+    );
+  }
+  return null;
+}
+
+export default function AssetLibrary({ assets, collections, onChange, onOpen, onEdit }: Props) {
+  const [query, setQuery] = useState<AssetQuery>(DEFAULT_QUERY);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkTags, setBulkTags] = useState('');
+  const results = useMemo(() => searchAssets(assets, query), [assets, query]);
+  const tags = useMemo(() => tagUsage(assets).map((t) => t.tag), [assets]);
+  const set = (patch: Partial<AssetQuery>) => setQuery((q) => ({ ...q, ...patch }));
+  const update = (id: string, patch: Partial<Asset>) => onChange((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+
+  // Selection only covers assets that still exist
+  const selection = selected.filter((id) => assets.some((a) => a.id === id));
+  const allShownSelected = results.length > 0 && results.every((a) => selection.includes(a.id));
+  const toggle = (id: string) => setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <input value={query.text} onChange={(e) => set({ text: e.target.value })} placeholder="Search name, tags, description"
+          aria-label="Search assets" className="md:col-span-2 border rounded p-1" />
+        <select value={query.collectionId ?? ''} onChange={(e) => set({ collectionId: e.target.value || null })} aria-label="Collection filter"
+          className="border rounded p-1">
+          <option value="">All collections</option>
+          <option value="none">Not in a collection</option>
+          {collections.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select value={query.status ?? ''} onChange={(e) => set({ status: (e.target.value || null) as AssetStatus | null })} aria-label="Status filter"
+            className="flex-1 border rounded p-1">
+            <option value="">Any status</option>
+            {(Object.keys(STATUS_LABELS) as AssetStatus[]).map((st) => (
+              <option key={st} value={st}>{STATUS_LABELS[st]}</option>
+            ))}
+          </select>
+          <select value={query.kind} onChange={(e) => set({ kind: e.target.value as AssetKind })} aria-label="Asset type" className="flex-1 border rounded p-1">
+            <option value="all">All types</option>
+            <option value="image">Images</option>
+            <option value="design">Designs</option>
+          </select>
+          <select value={query.sort} onChange={(e) => set({ sort: e.target.value as AssetSort })} aria-label="Sort" className="flex-1 border rounded p-1">
+            {SORTS.map((s) => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" aria-label="Tag filter">
+          {tags.map((t) => {
+            const on = query.tags.includes(t);
+            return (
+              <button key={t} onClick={() => set({ tags: on ? query.tags.filter((x) => x !== t) : [...query.tags, t] })}
+                aria-pressed={on} className={"px-2 py-0.5 rounded-full border text-xs" + (on ? ' bg-primary text-white border-primary' : ' border-gray-200')}>
+                {t}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border rounded p-2 bg-gray-50">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={allShownSelected}
+            onChange={() => setSelected(allShownSelected ? [] : results.map((a) => a.id))} />
+          <span>{selection.length} selected</span>
+        </label>
+        <form className="flex gap-1" onSubmit={(e) => {
+          e.preventDefault();
+          onChange((prev) => tagAssets(prev, selection, parseTags(bulkTags)));
+          setBulkTags('');
+        }}>
+          <input value={bulkTags} onChange={(e) => setBulkTags(e.target.value)} placeholder="tag1, tag2" aria-label="Tags to add to selection"
+            disabled={selection.length === 0} className="border rounded px-1" />
+          <button type="submit" disabled={selection.length === 0 || !bulkTags.trim()} className="px-2 rounded border disabled:opacity-50">Tag</button>
+        </form>
+        <select value="" disabled={selection.length === 0} aria-label="Move selection to collection"
+          onChange={(e) => onChange((prev) => moveToCollection(prev, selection, e.target.value === 'none' ? null : e.target.value))}
+          className="border rounded p-1">
+          <option value="" disabled>Move to…</option>
+          <option value="none">No collection</option>
+          {collections.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <button disabled={selection.length === 0}
+          onClick={() => {
+            if (!window.confirm(`Delete ${selection.length} asset${selection.length === 1 ? '' : 's'}?`)) return;
+            onChange((prev) => deleteAssets(prev, selection));
+            setSelected([]);
+          }}
+          className="px-2 py-1 rounded border text-red-600 disabled:opacity-50">Delete</button>
+      </div>
+
+      <div className="text-xs text-gray-500">{results.length} of {assets.length} assets</div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {results.map((a) => (
+          <div key={a.id} className={"border rounded p-2 flex flex-col items-start gap-1" + (selection.includes(a.id) ? ' border-primary' : '')}>
+            <div className="flex items-center justify-between w-full text-xs">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={selection.includes(a.id)} onChange={() => toggle(a.id)} />
+                <span>Select</span>
+              </label>
+              <button onClick={() => onEdit(a)} className={"px-2 rounded-full" + (a.status === 'published' ? ' bg-green-100 text-green-800' : ' bg-gray-100 text-gray-700')}
+                aria-label={`Edit publishing for ${a.name}`}>
+                {STATUS_LABELS[a.status]}
+              </button>
+            </div>
+            <AssetPreview asset={a} onOpen={onOpen} />
+            <input value={a.name} onChange={(e) => update(a.id, { name: e.target.value })} aria-label="Asset name"
+              className="text-sm font-medium w-full border-b border-transparent focus:border-gray-300 outline-none" />
+            {a.file && <span className="text-xs text-gray-500">{a.file.width}×{a.file.height} · {formatBytes(a.file.size)}</span>}
+            <textarea value={a.description ?? ''} onChange={(e) => update(a.id, { description: e.target.value })} placeholder="Description"
+              aria-label={`Description of ${a.name}`} rows={2} className="text-xs w-full border rounded p-1" />
+            <input placeholder="tag1, tag2" defaultValue={a.tags.join(', ')} key={a.tags.join(',')}
+              onBlur={(e) => update(a.id, { tags: parseTags(e.target.value) })} aria-label={`Tags of ${a.name}`} className="text-xs w-full" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
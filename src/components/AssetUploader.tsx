@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ACCEPTED_TYPES, formatBytes, ingestFiles, MAX_FILE_BYTES, type IngestProgress, type IngestResult } from '../lib/ingest';
+import type { Asset } from '../types';
+
+type Props = {
+  assets: Asset[];
+  onAdd: (assets: Asset[]) => void;
+};
+
+export default function AssetUploader({ assets, onAdd }: Props) {
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [results, setResults] = useState<IngestResult[]>([]);
+  const busy = progress !== null && progress.current !== null;
+
+  const onFiles = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(ev.target.files ?? []);
+    // reset value to allow re-upload same files if needed
+    ev.currentTarget.value = '';
+    if (files.length === 0) return;
+    setResults([]);
+    const out = await ingestFiles(files, assets, setProgress);
+    const added = out.flatMap((r) => (r.status === 'added' ? [r.asset] : []));
+    if (added.length > 0) onAdd(added);
+    setResults(out);
+  };
+
+  const added = results.filter((r) => r.status === 'added').length;
+  const problems = results.filter((r) => r.status !== 'added');
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm">Bulk Upload</label>
+      <input type="file" multiple accept={Object.keys(ACCEPTED_TYPES).join(',')} onChange={onFiles} disabled={busy}
+        aria-label="Bulk upload images" className="w-full" />
+      <p className="text-xs text-gray-500">{Object.values(ACCEPTED_TYPES).join(', ')} up to {formatBytes(MAX_FILE_BYTES)} each</p>
+      {busy && progress && (
+        <div role="status" aria-live="polite">
+          <progress max={progress.bytesTotal} value={progress.bytesDone} className="w-full" />
+          <div className="text-xs text-gray-600 truncate">
+            {progress.done + 1} of {progress.total}: {progress.current} ({formatBytes(progress.bytesDone)} / {formatBytes(progress.bytesTotal)})
+          </div>
+        </div>
+      )}
+      {!busy && results.length > 0 && (
+        <div className="text-xs space-y-1">
+          <p className="text-gray-600">Added {added} of {results.length} files</p>
+          {problems.length > 0 && (
+            <ul className="space-y-1" aria-label="Upload problems">
+              {problems.map((r, i) => (
+                <li key={i} className={r.status === 'error' ? 'text-red-600' : 'text-gray-600'}>
+                  <span className="font-medium">{r.fileName}</span>: {r.status === 'error' ? r.message : `duplicate of ${r.existing.name}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { formatDate } from '../lib/utils';
+import { publishProblems, STATUS_LABELS, transition, TRANSITION_LABELS, TRANSITIONS } from '../lib/workflow';
+import type { Asset, AssetStatus, License } from '../types';
+
+type Props = {
+  asset: Asset;
+  licenses: License[];
+  actor: string;
+  /** Field edits; the caller records them in the audit trail */
+  onEdit: (patch: Partial<Asset>) => void;
+  /** Replace the asset after a state change that is already audited */
+  onTransition: (asset: Asset) => void;
+  onClose: () => void;
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(t: number): string {
+  const d = new Date(t - new Date(t).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+}
+
+export default function AssetWorkflowPanel({ asset, licenses, actor, onEdit, onTransition, onClose }: Props) {
+  const [publishAt, setPublishAt] = useState(() => toLocalInput(asset.publishAt ?? Date.now() + 24 * 3600 * 1000));
+  const [error, setError] = useState<string | null>(null);
+  const problems = publishProblems(asset);
+
+  const move = (to: AssetStatus) => {
+    const result = transition(asset, to, { actor, now: Date.now(), publishAt: to === 'scheduled' ? new Date(publishAt).getTime() : undefined });
+    setError(result.error);
+    if (!result.error) onTransition(result.asset);
+  };
+
+  const toggleLicense = (id: string) =>
+    onEdit({ licenseIds: asset.licenseIds.includes(id) ? asset.licenseIds.filter((l) => l !== id) : [...asset.licenseIds, id] });
+
+  return (
+    <div className="border rounded p-3 space-y-3 text-sm bg-gray-50" aria-label={`Publishing ${asset.title || asset.name}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium">{asset.title || asset.name}</div>
+          <div className="text-xs text-gray-500">
+            {STATUS_LABELS[asset.status]}
+            {asset.status === 'scheduled' && asset.publishAt !== null && ` for ${new Date(asset.publishAt).toLocaleString()}`}
+            {asset.status === 'published' && asset.publishAt !== null && ` since ${formatDate(asset.publishAt)}`}
+          </div>
+        </div>
+        <button onClick={onClose} aria-label="Close editor" className="px-2 text-gray-500">×</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <label className="block">
+          <span className="block text-xs text-gray-600">Title</span>
+          <input value={asset.title} onChange={(e) => onEdit({ title: e.target.value })} className="w-full border rounded p-1" />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">Price (USD)</span>
+          <input type="number" min={0} step={0.5} value={asset.price ?? ''}
+            onChange={(e) => onEdit({ price: e.target.value === '' ? null : Number(e.target.value) })} className="w-full border rounded p-1" />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="block text-xs text-gray-600">Description</span>
+          <textarea value={asset.description ?? ''} onChange={(e) => onEdit({ description: e.target.value })} rows={2} className="w-full border rounded p-1" />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="block text-xs text-gray-600">Alt text</span>
+          <input value={asset.altText} onChange={(e) => onEdit({ altText: e.target.value })} placeholder="Describe the image for screen readers"
+            className="w-full border rounded p-1" />
+        </label>
+      </div>
+      <fieldset>
+        <legend className="text-xs text-gray-600">Licenses offered</legend>
+        <div className="flex flex-wrap gap-3">
+          {licenses.map((l) => (
+            <label key={l.id} className={"flex items-center gap-1" + (l.status === 'retired' ? ' opacity-60' : '')}>
+              <input type="checkbox" checked={asset.licenseIds.includes(l.id)} onChange={() => toggleLicense(l.id)} />
+              <span>{l.name}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="border-t pt-2 space-y-2">
+        {problems.length > 0 && <p className="text-xs text-gray-600">To publish, add {problems.join(', ')}.</p>}
+        <div className="flex flex-wrap items-center gap-2">
+          {TRANSITIONS[asset.status].map((to) => (
+            to === 'scheduled' ? (
+              <span key={to} className="flex items-center gap-1">
+                <input type="datetime-local" value={publishAt} onChange={(e) => setPublishAt(e.target.value)} aria-label="Publish at" className="border rounded p-1" />
+                <button onClick={() => move(to)} className="px-2 py-1 rounded border">{TRANSITION_LABELS[to]}</button>
+              </span>
+            ) : (
+              <button key={to} onClick={() => move(to)}
+                className={"px-2 py-1 rounded" + (to === 'published' ? ' bg-primary text-white' : ' border')}>{TRANSITION_LABELS[to]}</button>
+            )
+          ))}
+        </div>
+        {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      </div>
+
+      <details>
+        <summary className="text-xs text-gray-600 cursor-pointer">Audit trail ({asset.audit.length})</summary>
+        <ol className="mt-1 space-y-1 text-xs max-h-48 overflow-y-auto">
+          {[...asset.audit].reverse().map((entry, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="text-gray-500 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</span>
+              <span className="font-medium">{entry.actor}</span>
+              <span className="text-gray-700 min-w-0 break-words">
+                {entry.action === 'create' && `created ${entry.to ?? ''}`}
+                {entry.action === 'status' && `moved ${STATUS_LABELS[entry.from as AssetStatus] ?? entry.from} → ${STATUS_LABELS[entry.to as AssetStatus] ?? entry.to}`}
+                {entry.action === 'edit' && `${entry.field}: ${entry.from ?? '—'} → ${entry.to ?? '—'}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { drawMandala } from '../lib/canvasRenderer';
+import { mandalaGeometry } from '../lib/geometry';
+import { CANVAS_SIZE, type MandalaSpec } from '../lib/mandala';
+import { watermarkLayer, type WatermarkSettings } from '../lib/watermark';
+import type { RendererMessage } from '../workers/mandalaRenderer';
+import WatermarkMarks from './WatermarkMarks';
+
+type Props = {
+  spec: MandalaSpec;
+  watermark: WatermarkSettings | null;
+  size?: number;
+};
+
+const supportsWorker = typeof OffscreenCanvas !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+/**
+ * Bitmap preview of a mandala. Drawing happens in a Web Worker on an
+ * OffscreenCanvas where the browser supports it, so large designs do not block
+ * input while sliders are dragged; elsewhere it draws on the main thread.
+ */
+export default function CanvasMandala({ spec, watermark, size = CANVAS_SIZE }: Props) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const targetRef = useRef<{ canvas: HTMLCanvasElement; worker: Worker | null } | null>(null);
+  const pixels = Math.round(size * (window.devicePixelRatio || 1));
+  const mark = useMemo(() => (watermark ? watermarkLayer(watermark, CANVAS_SIZE, CANVAS_SIZE) : null), [watermark]);
+
+  const draw = (target: { canvas: HTMLCanvasElement; worker: Worker | null }) => {
+    if (target.worker) {
+      target.worker.postMessage({ kind: 'draw', spec, size: pixels, background: 'transparent' } satisfies RendererMessage);
+      return;
+    }
+    target.canvas.width = pixels;
+    target.canvas.height = pixels;
+    const ctx = target.canvas.getContext('2d');
+    if (ctx) drawMandala(ctx, mandalaGeometry(spec), pixels, 'transparent');
+  };
+
+  // The canvas is created here rather than in JSX: once its control moves to
+  // a worker it cannot be resized or transferred again, so every mount gets a fresh one
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+    const canvas = document.createElement('canvas');
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    host.prepend(canvas);
+    let worker: Worker | null = null;
+    if (supportsWorker) {
+      worker = new Worker(new URL('../workers/mandalaRenderer.ts', import.meta.url), { type: 'module' });
+      const offscreen = canvas.transferControlToOffscreen();
+      worker.postMessage({ kind: 'init', canvas: offscreen } satisfies RendererMessage, [offscreen]);
+    }
+    targetRef.current = { canvas, worker };
+    draw(targetRef.current);
+    return () => {
+      worker?.terminate();
+      canvas.remove();
+      targetRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (targetRef.current) draw(targetRef.current);
+  }, [spec, pixels]);
+
+  return (
+    <div ref={hostRef} className="relative" style={{ width: size, height: size }} role="img" aria-label="Mandala canvas">
+      {mark && (
+        <svg className="absolute inset-0" width={size} height={size} viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} aria-hidden="true">
+          <WatermarkMarks layer={mark} />
+        </svg>
+      )}
+    </div>
+  );
+}
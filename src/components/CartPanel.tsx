@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import {
+  changeQuantity,
+  CURRENCIES,
+  formatMoney,
+  LOCALES,
+  removeLine,
+  setQuantity,
+  TAX_RULES,
+  type CheckoutSettings,
+  type OrderSummary
+} from '../lib/cart';
+import { findLicense } from '../lib/licenses';
+import type { CartItem, License } from '../types';
+
+type Props = {
+  summary: OrderSummary;
+  licenses: License[];
+  settings: CheckoutSettings;
+  onSettingsChange: (settings: CheckoutSettings) => void;
+  onCartChange: (update: (cart: CartItem[]) => CartItem[]) => void;
+};
+
+type QuantityInputProps = {
+  label: string;
+  quantity: number;
+  onCommit: (quantity: number) => void;
+};
+
+// Typing edits a draft so clearing the box to enter a new number keeps the
+// line; the draft is committed on blur or Enter when it is 1 or more
+function QuantityInput({ label, quantity, onCommit }: QuantityInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    const q = Math.floor(Number(draft));
+    if (draft !== null && draft.trim() !== '' && Number.isFinite(q) && q >= 1 && q !== quantity) onCommit(q);
+    setDraft(null);
+  };
+  return (
+    <input type="number" min={1} value={draft ?? quantity} aria-label={label}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className="w-12 border rounded text-center" />
+  );
+}
+
+export default function CartPanel({ summary, licenses, settings, onSettingsChange, onCartChange }: Props) {
+  const money = (n: number) => formatMoney(n, settings);
+  const set = (patch: Partial<CheckoutSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  if (summary.lines.length === 0) {
+    return <div className="text-sm text-gray-500">Cart is empty</div>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <ul className="space-y-2" aria-label="Cart lines">
+        {summary.lines.map(({ line, unitPrice, total, error }) => (
+          <li key={line.id} className="border-b pb-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{line.name}</span>
+              <span>{total === null ? 'Price on request' : money(total)}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>{findLicense(licenses, line.licenseId)?.name ?? line.licenseId}{unitPrice !== null && ` · ${money(unitPrice)} each`}</span>
+              <span className="flex items-center gap-1">
+                <button onClick={() => onCartChange((c) => changeQuantity(c, line.id, -1))} disabled={line.quantity <= 1}
+                  aria-label={`Decrease ${line.name}`} className="px-2 border rounded disabled:opacity-30">−</button>
+                <QuantityInput label={`Quantity of ${line.name}`} quantity={line.quantity}
+                  onCommit={(q) => onCartChange((c) => setQuantity(c, line.id, q))} />
+                <button onClick={() => onCartChange((c) => changeQuantity(c, line.id, 1))} aria-label={`Increase ${line.name}`} className="px-2 border rounded">+</button>
+                <button onClick={() => onCartChange((c) => removeLine(c, line.id))} aria-label={`Remove ${line.name}`} className="px-1 text-red-600">×</button>
+              </span>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <input value={settings.couponCode} onChange={(e) => set({ couponCode: e.target.value })} placeholder="Coupon code" aria-label="Coupon code" className="flex-1 border rounded p-1" />
+      </div>
+      {summary.couponError && <p className="text-xs text-red-600">{summary.couponError}</p>}
+      <select value={settings.taxRuleId} onChange={(e) => set({ taxRuleId: e.target.value })} aria-label="Tax rule" className="w-full border rounded p-1">
+        {TAX_RULES.map((t) => (
+          <option key={t.id} value={t.id}>{t.label}</option>
+        ))}
+      </select>
+      <div className="flex gap-2">
+        <select value={settings.currency} onChange={(e) => set({ currency: e.target.value })} aria-label="Currency" className="flex-1 border rounded p-1">
+          {CURRENCIES.map((c) => (
+            <option key={c.code} value={c.code}>{c.code} · {c.label}</option>
+          ))}
+        </select>
+        <select value={settings.locale} onChange={(e) => set({ locale: e.target.value })} aria-label="Locale" className="flex-1 border rounded p-1">
+          {LOCALES.map((l) => (
+            <option key={l} value={l}>{l}</option>
+          ))}
+        </select>
+      </div>
+
+      <dl className="border-t pt-2 space-y-1" aria-label="Order summary">
+        <div className="flex justify-between"><dt>Subtotal</dt><dd>{money(summary.subtotal)}</dd></div>
+        {summary.coupon && (
+          <div className="flex justify-between text-green-700"><dt>Discount ({summary.coupon.code})</dt><dd>−{money(summary.discount)}</dd></div>
+        )}
+        <div className="flex justify-between"><dt>Tax{summary.taxRule.rate > 0 && ` (${summary.taxRule.label})`}</dt><dd>{money(summary.tax)}</dd></div>
+        <div className="flex justify-between font-semibold"><dt>Total</dt><dd>{money(summary.total)}</dd></div>
+      </dl>
+      {summary.onRequest.length > 0 && (
+        <p className="text-xs text-gray-600">
+          {summary.onRequest.map((l) => l.line.name).join(', ')} {summary.onRequest.length === 1 ? 'is' : 'are'} priced on request. Remove {summary.onRequest.length === 1 ? 'it' : 'them'} to check out, or contact the artist.
+        </p>
+      )}
+
+      <button className="w-full px-3 py-1 rounded border" onClick={() => onCartChange(() => [])}>Clear cart</button>
+    </div>
+  );
+}
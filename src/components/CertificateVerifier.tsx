@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { verifyCertificate, type LicenseCertificate, type VerificationResult } from '../lib/certificates';
+import type { Order } from '../lib/orders';
+import { imagePixels } from '../lib/rasterExport';
+import { formatDate } from '../lib/utils';
+import { readPixelFingerprint, readSVGFingerprint } from '../lib/watermark';
+
+type Props = {
+  certificates: LicenseCertificate[];
+  orders: Order[];
+};
+
+// The id hidden in a licensed download, if any
+async function fileFingerprint(file: File): Promise<string | null> {
+  if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) return readSVGFingerprint(await file.text());
+  return readPixelFingerprint((await imagePixels(file)).data);
+}
+
+export default function CertificateVerifier({ certificates, orders }: Props) {
+  const [id, setId] = useState('');
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id.trim()) return;
+    setResult(await verifyCertificate(id, certificates, orders));
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    setResult(null);
+    setFileError(null);
+    try {
+      const found = await fileFingerprint(file);
+      if (!found) {
+        setFileError(`${file.name} carries no license fingerprint. Watermarked proofs, edited files and lossy re-encodes have none.`);
+        return;
+      }
+      setId(found);
+      setResult(await verifyCertificate(found, certificates, orders));
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <form className="flex gap-2" onSubmit={onVerify}>
+        <input value={id} onChange={(e) => { setId(e.target.value); setResult(null); }} placeholder="MLC-XXXX-XXXX-XXXX-XXXX"
+          aria-label="Certificate id" className="flex-1 border rounded p-1 font-mono" />
+        <button type="submit" className="px-3 py-1 rounded bg-primary text-white">Verify</button>
+      </form>
+      <label className="block text-xs text-gray-600">Or check a downloaded file (.svg, .png)</label>
+      <input type="file" accept=".svg,.png,image/svg+xml,image/png" onChange={onFile} aria-label="Check a downloaded file" className="w-full text-sm" />
+      {fileError && <p className="text-red-600" role="alert">{fileError}</p>}
+      {result && (
+        result.status === 'not_found' ? (
+          <p className="text-red-600" role="alert">No certificate {result.id} was issued here.</p>
+        ) : result.status === 'tampered' ? (
+          <p className="text-red-600" role="alert">Certificate {result.certificate.id} does not match its digest and may have been altered.</p>
+        ) : (
+          <div className={"border rounded p-2" + (result.status === 'valid' ? ' border-green-600' : ' border-red-600')} role="status">
+            <div className={"font-medium" + (result.status === 'valid' ? ' text-green-700' : ' text-red-600')}>
+              {result.status === 'valid' ? 'Valid certificate' : `Revoked: order ${result.order.status}`}
+            </div>
+            <div className="text-xs text-gray-600">
+              {result.certificate.license.name} licensed to {result.certificate.buyer.name || 'an unnamed buyer'} on {formatDate(result.certificate.purchasedAt)}
+            </div>
+            {result.certificate.designFingerprint && (
+              <div className="text-xs font-mono break-all text-gray-500">{result.certificate.designFingerprint}</div>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { CheckoutState } from '../hooks/useCheckout';
+import type { Buyer, Order } from '../lib/orders';
+import { MOCK_CARDS, type PaymentMethod } from '../lib/payments';
+
+type Props = {
+  providerName: string;
+  state: CheckoutState;
+  error: string | null;
+  /** Order being paid, if a payment is under way or can be retried */
+  order: Order | null;
+  /** Id of the last paid order, shown after success */
+  paidOrderId: string | null;
+  totalLabel: string;
+  /** The cart cannot be paid for as it stands, even on retry */
+  disabled: boolean;
+  onPay: (method: PaymentMethod, buyer: Buyer) => void;
+  onAuthenticate: (approved: boolean) => void;
+  onCancel: () => void;
+  onDone: () => void;
+};
+
+export default function CheckoutPanel({ providerName, state, error, order, paidOrderId, totalLabel, disabled, onPay, onAuthenticate, onCancel, onDone }: Props) {
+  const [card, setCard] = useState(MOCK_CARDS[0].number);
+  const [buyer, setBuyer] = useState<Buyer>({ name: '', email: '' });
+  const buyerValid = buyer.name.trim() !== '' && /^[^\s@]+@[^\s@]+$/.test(buyer.email.trim());
+
+  if (state === 'success') {
+    return (
+      <div className="text-sm space-y-2" role="status">
+        <p className="text-green-700">Payment received. Order {paidOrderId} is confirmed; its license certificate is under Orders.</p>
+        <button onClick={onDone} className="w-full px-3 py-2 rounded border">Continue shopping</button>
+      </div>
+    );
+  }
+
+  if (state === 'requires_action') {
+    return (
+      <div className="text-sm space-y-2 border rounded p-2 bg-white" role="dialog" aria-label="3-D Secure verification">
+        <p className="font-medium">Your bank needs to confirm this payment</p>
+        <p className="text-xs text-gray-500">Simulated 3-D Secure challenge for {totalLabel}</p>
+        <div className="flex gap-2">
+          <button onClick={() => onAuthenticate(true)} className="flex-1 px-3 py-2 rounded bg-primary text-white">Complete</button>
+          <button onClick={() => onAuthenticate(false)} className="flex-1 px-3 py-2 rounded border">Fail</button>
+        </div>
+        <button onClick={onCancel} className="w-full text-xs text-gray-500 underline">Cancel order</button>
+      </div>
+    );
+  }
+
+  const processing = state === 'processing';
+
+  return (
+    <div className="text-sm space-y-2">
+      <label htmlFor="checkout-name" className="block">Licensee</label>
+      <input id="checkout-name" value={buyer.name} onChange={(e) => setBuyer((b) => ({ ...b, name: e.target.value }))} placeholder="Full name"
+        autoComplete="name" disabled={processing || order !== null} className="w-full border rounded p-1" />
+      <input value={buyer.email} onChange={(e) => setBuyer((b) => ({ ...b, email: e.target.value }))} placeholder="Email" type="email"
+        aria-label="Email" autoComplete="email" disabled={processing || order !== null} className="w-full border rounded p-1" />
+      <label htmlFor="checkout-card" className="block">Card ({providerName})</label>
+      <input id="checkout-card" value={card} onChange={(e) => setCard(e.target.value)} inputMode="numeric" autoComplete="cc-number"
+        disabled={processing} className="w-full border rounded p-1 font-mono" />
+      <select value={MOCK_CARDS.some((c) => c.number === card) ? card : ''} onChange={(e) => setCard(e.target.value)}
+        aria-label="Test card" disabled={processing} className="w-full border rounded p-1 text-xs">
+        <option value="" disabled>Custom card number</option>
+        {MOCK_CARDS.map((c) => (
+          <option key={c.number} value={c.number}>{c.label} · {c.number}</option>
+        ))}
+      </select>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <div className="flex gap-2">
+        <button className="flex-1 px-3 py-2 rounded bg-primary text-white disabled:opacity-50" onClick={() => onPay({ card }, buyer)}
+          disabled={processing || disabled || (!order && !buyerValid)}>
+          {processing ? 'Processing...' : state === 'failed' ? `Retry ${totalLabel}` : `Pay ${totalLabel}`}
+        </button>
+        {order && !processing && (
+          <button className="px-3 py-2 rounded border" onClick={onCancel}>Cancel order</button>
+        )}
+      </div>
+    </div>
+  );
+}
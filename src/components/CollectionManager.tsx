@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import type { Asset, Collection } from '../types';
+
+type Props = {
+  collections: Collection[];
+  assets: Asset[];
+  onCreate: (name: string) => void;
+  onUpdate: (id: string, patch: Partial<Pick<Collection, 'name' | 'description'>>) => void;
+  onDelete: (id: string) => void;
+};
+
+export default function CollectionManager({ collections, assets, onCreate, onUpdate, onDelete }: Props) {
+  const [name, setName] = useState('');
+
+  return (
+    <div className="space-y-2 text-sm">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onCreate(name);
+          setName('');
+        }}
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="New collection or series" aria-label="Collection name"
+          className="flex-1 border rounded p-1" />
+        <button type="submit" className="px-2 py-1 rounded bg-primary text-white">Add</button>
+      </form>
+      {collections.length === 0 ? (
+        <div className="text-xs text-gray-500">No collections yet</div>
+      ) : (
+        <ul className="space-y-2" aria-label="Collections">
+          {collections.map((c) => (
+            <li key={c.id} className="border rounded p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <input value={c.name} onChange={(e) => onUpdate(c.id, { name: e.target.value })} aria-label="Collection name"
+                  className="flex-1 font-medium border-b border-transparent focus:border-gray-300 outline-none" />
+                <span className="text-xs text-gray-500">{assets.filter((a) => a.collectionId === c.id).length} assets</span>
+                <button onClick={() => onDelete(c.id)} aria-label={`Delete collection ${c.name}`} className="px-1 text-red-600">×</button>
+              </div>
+              <input value={c.description} onChange={(e) => onUpdate(c.id, { description: e.target.value })} placeholder="Description"
+                aria-label={`Description of ${c.name}`} className="w-full text-xs border rounded p-1" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
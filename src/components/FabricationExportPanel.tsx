@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import {
+  DEFAULT_FABRICATION_OPTIONS,
+  FABRICATION_FORMATS,
+  FABRICATION_MODES,
+  fabricationFile,
+  fabricationPlan,
+  MAX_FABRICATION_SIZE,
+  MAX_KERF,
+  MIN_FABRICATION_SIZE,
+  type FabricationMode,
+  type FabricationOptions,
+  type FabricationPlan,
+  type GcodeTool
+} from '../lib/fabrication';
+import type { MandalaSpec } from '../lib/mandala';
+import { clamp, downloadBlob, formatNumber } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+
+type Props = {
+  spec: MandalaSpec;
+  /** Builder exports are always watermarked; clean files come from licensed orders */
+  watermark: WatermarkSettings;
+};
+
+export default function FabricationExportPanel({ spec, watermark }: Props) {
+  const [options, setOptions] = useState<FabricationOptions>(DEFAULT_FABRICATION_OPTIONS);
+  const [plan, setPlan] = useState<FabricationPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<FabricationOptions>) => setOptions((o) => ({ ...o, ...patch }));
+  const mode = FABRICATION_MODES.find((m) => m.id === options.mode);
+
+  const onExport = () => {
+    setError(null);
+    try {
+      const next = fabricationPlan(spec, options, watermark);
+      if (next.paths.length === 0) throw new Error('Nothing to cut: the design has no visible edges');
+      setPlan(next);
+      const extension = FABRICATION_FORMATS.find((f) => f.id === options.format)?.extension ?? 'txt';
+      downloadBlob(fabricationFile(next, options), `mandala-${options.mode}-${options.sizeMm}mm.${extension}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border rounded p-3 space-y-2 text-sm" aria-label="Fabrication export">
+      <div className="font-medium">Plotter and cutter export</div>
+      <label className="block">Outlines</label>
+      <select value={options.mode} onChange={(e) => set({ mode: e.target.value as FabricationMode })} aria-label="Outline mode" className="w-full border rounded p-1">
+        {FABRICATION_MODES.map((m) => (
+          <option key={m.id} value={m.id}>{m.label}</option>
+        ))}
+      </select>
+      {mode && <p className="text-xs text-gray-500">{mode.hint}. Hidden edges are always removed.</p>}
+      <div className="flex gap-2 items-center">
+        <label htmlFor="fabrication-size">Size</label>
+        <input id="fabrication-size" type="number" min={MIN_FABRICATION_SIZE} max={MAX_FABRICATION_SIZE} value={options.sizeMm}
+          onChange={(e) => set({ sizeMm: clamp(Number(e.target.value) || MIN_FABRICATION_SIZE, MIN_FABRICATION_SIZE, MAX_FABRICATION_SIZE) })}
+          className="w-20 border rounded p-1" />
+        <span>mm</span>
+        <label htmlFor="fabrication-kerf" className="ml-auto">Kerf</label>
+        <input id="fabrication-kerf" type="number" min={0} max={MAX_KERF} step={0.05} value={options.kerfMm}
+          onChange={(e) => set({ kerfMm: clamp(Number(e.target.value) || 0, 0, MAX_KERF) })} className="w-16 border rounded p-1" />
+        <span>mm</span>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={options.optimizeOrder} onChange={(e) => set({ optimizeOrder: e.target.checked })} />
+        <span>Order paths to shorten pen-up travel</span>
+      </label>
+      <label className="block">Format</label>
+      <div className="flex gap-2 flex-wrap">
+        {FABRICATION_FORMATS.map((f) => (
+          <button key={f.id} onClick={() => set({ format: f.id })}
+            className={"px-3 py-1 rounded-md border" + (options.format === f.id ? ' border-primary text-primary' : ' border-gray-200')}
+          >{f.label}</button>
+        ))}
+      </div>
+      {options.format === 'gcode' && (
+        <div className="flex gap-2 items-center">
+          <select value={options.gcodeTool} onChange={(e) => set({ gcodeTool: e.target.value as GcodeTool })} aria-label="G-code tool" className="border rounded p-1">
+            <option value="pen">Pen (Z up/down)</option>
+            <option value="laser">Laser (M3/M5)</option>
+          </select>
+          <label htmlFor="fabrication-feed" className="ml-auto">Feed</label>
+          <input id="fabrication-feed" type="number" min={100} max={20000} step={100} value={options.feedRate}
+            onChange={(e) => set({ feedRate: clamp(Number(e.target.value) || 100, 100, 20000) })} className="w-20 border rounded p-1" />
+          <span>mm/min</span>
+        </div>
+      )}
+      {plan && (
+        <div className="text-xs text-gray-600">
+          {formatNumber(plan.paths.length)} paths · {formatNumber(Math.round(plan.cutLength))} mm cut · {formatNumber(Math.round(plan.travel))} mm travel
+          {options.optimizeOrder && plan.travelUnordered > plan.travel && ` (${formatNumber(Math.round(plan.travelUnordered))} mm unordered)`}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">The watermark text is drawn into the file. Licensed buyers download a clean DXF from their order.</p>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <button onClick={onExport} className="w-full py-2 rounded bg-primary text-white">Export {FABRICATION_FORMATS.find((f) => f.id === options.format)?.label}</button>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import {
+  addLayer,
+  GRADIENT_KINDS,
+  MAX_LAYERS,
+  MAX_RADIUS,
+  MAX_SEGMENTS,
+  MIN_SEGMENTS,
+  MOTIF_SHAPES,
+  moveLayer,
+  removeLayer,
+  updateLayer,
+  type GradientKind,
+  type MandalaLayer,
+  type MandalaSpec,
+  type MotifShape
+} from '../lib/mandala';
+import SwatchPicker from './SwatchPicker';
+
+type Props = {
+  spec: MandalaSpec;
+  /** coalesceKey groups continuous edits (slider drags) into one undo step */
+  onChange: (update: (spec: MandalaSpec) => MandalaSpec, coalesceKey?: string) => void;
+};
+
+export default function LayerControls({ spec, onChange }: Props) {
+  const [selectedId, setSelectedId] = useState<string | null>(spec.layers[0]?.id ?? null);
+  const selected = spec.layers.find((l) => l.id === selectedId) ?? spec.layers[0];
+
+  const patch = (p: Partial<MandalaLayer>, coalesceKey?: string) => {
+    if (!selected) return;
+    onChange((s) => updateLayer(s, selected.id, p), coalesceKey ? `${selected.id}-${coalesceKey}` : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Layers ({spec.layers.length}/{MAX_LAYERS})</span>
+        <button
+          onClick={() => {
+            const next = addLayer(spec);
+            onChange(() => next);
+            setSelectedId(next.layers[next.layers.length - 1]?.id ?? null);
+          }}
+          disabled={spec.layers.length >= MAX_LAYERS}
+          className="px-2 py-1 rounded bg-primary text-white text-sm disabled:opacity-50"
+        >Add layer</button>
+      </div>
+      <ol className="space-y-1" aria-label="Mandala layers">
+        {spec.layers.map((l, i) => (
+          <li key={l.id} className={"flex items-center gap-1 p-1 rounded border text-sm" + (selected?.id === l.id ? ' border-primary' : ' border-gray-200')}>
+            <button onClick={() => setSelectedId(l.id)} className="flex-1 text-left" aria-label={`Edit layer ${i + 1}`}>
+              {i + 1}. {MOTIF_SHAPES.find((m) => m.id === l.motif)?.label} · {l.segments}
+            </button>
+            <button onClick={() => onChange((s) => moveLayer(s, l.id, -1))} disabled={i === 0} aria-label="Move layer up" className="px-1 disabled:opacity-30">↑</button>
+            <button onClick={() => onChange((s) => moveLayer(s, l.id, 1))} disabled={i === spec.layers.length - 1} aria-label="Move layer down" className="px-1 disabled:opacity-30">↓</button>
+            <button onClick={() => onChange((s) => removeLayer(s, l.id))} aria-label="Remove layer" className="px-1 text-red-600">×</button>
+          </li>
+        ))}
+      </ol>
+
+      {selected && (
+        <div className="space-y-2 border-t pt-2">
+          <label className="block text-sm">Motif</label>
+          <select value={selected.motif} onChange={(e) => patch({ motif: e.target.value as MotifShape })} className="w-full border rounded p-1 text-sm">
+            {MOTIF_SHAPES.map((m) => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+          <label className="block text-sm">Segments: {selected.segments}</label>
+          <input type="range" min={MIN_SEGMENTS} max={MAX_SEGMENTS} step={1} value={selected.segments}
+            onChange={(e) => patch({ segments: Number(e.target.value) }, 'segments')}
+            className="w-full"
+          />
+          <label className="block text-sm">Inner radius: {Math.round(selected.innerRadius)}</label>
+          <input type="range" min={0} max={MAX_RADIUS} step={1} value={selected.innerRadius}
+            onChange={(e) => patch({ innerRadius: Number(e.target.value) }, 'innerRadius')}
+            className="w-full"
+          />
+          <label className="block text-sm">Outer radius: {Math.round(selected.outerRadius)}</label>
+          <input type="range" min={4} max={MAX_RADIUS} step={1} value={selected.outerRadius}
+            onChange={(e) => patch({ outerRadius: Number(e.target.value) }, 'outerRadius')}
+            className="w-full"
+          />
+          <label className="block text-sm">Rotation: {Math.round(selected.rotation)}°</label>
+          <input type="range" min={0} max={359} step={1} value={selected.rotation}
+            onChange={(e) => patch({ rotation: Number(e.target.value) }, 'rotation')}
+            className="w-full"
+          />
+          <label className="block text-sm">Opacity: {selected.opacity.toFixed(2)}</label>
+          <input type="range" min={0} max={1} step={0.05} value={selected.opacity}
+            onChange={(e) => patch({ opacity: Number(e.target.value) }, 'opacity')}
+            className="w-full"
+          />
+          <label className="block text-sm">Fill</label>
+          <select value={selected.fill.gradient} onChange={(e) => patch({ fill: { ...selected.fill, gradient: e.target.value as GradientKind } })}
+            aria-label="Layer fill" className="w-full border rounded p-1 text-sm">
+            {GRADIENT_KINDS.map((g) => (
+              <option key={g.id} value={g.id}>{g.label}</option>
+            ))}
+          </select>
+          <SwatchPicker palette={spec.palette} value={selected.fill.from} label={selected.fill.gradient === 'solid' ? 'Layer colour' : 'Gradient start'}
+            onChange={(i) => patch({ fill: { ...selected.fill, from: i, to: selected.fill.gradient === 'solid' ? i : selected.fill.to } })} />
+          {selected.fill.gradient !== 'solid' && (
+            <SwatchPicker palette={spec.palette} value={selected.fill.to} label="Gradient end"
+              onChange={(i) => patch({ fill: { ...selected.fill, to: i } })} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
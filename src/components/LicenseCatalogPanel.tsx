@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { createLicense, licenseTerms, TERRITORIES, updateLicense, validateLicense } from '../lib/licenses';
+import type { License, LicenseTerritory } from '../types';
+
+type Props = {
+  licenses: License[];
+  onChange: (update: (licenses: License[]) => License[]) => void;
+};
+
+export default function LicenseCatalogPanel({ licenses, onChange }: Props) {
+  const [draft, setDraft] = useState<License | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isNew = draft !== null && !licenses.some((l) => l.id === draft.id);
+
+  const edit = (license: License) => {
+    setDraft(license);
+    setError(null);
+  };
+  const patch = (p: Partial<License>) => setDraft((d) => (d ? { ...d, ...p } : d));
+
+  const onSave = () => {
+    if (!draft) return;
+    const problem = validateLicense(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange((prev) => (isNew ? [...prev, draft] : updateLicense(prev, draft.id, draft)));
+    setDraft(null);
+  };
+
+  const setStatus = (license: License, status: License['status']) => {
+    onChange((prev) => updateLicense(prev, license.id, { status }));
+    if (draft?.id === license.id) patch({ status });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+      <div className="space-y-2">
+        <ul className="space-y-2" aria-label="License catalog">
+          {licenses.map((l) => (
+            <li key={l.id} className={"border rounded p-2" + (draft?.id === l.id ? ' border-primary' : '') + (l.status === 'retired' ? ' opacity-60' : '')}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{l.name}</span>
+                <span className="text-xs text-gray-500">
+                  {l.status === 'retired' ? 'Retired' : l.pricing.kind === 'on-request' ? 'On request' : `×${l.pricing.multiplier}`}
+                </span>
+              </div>
+              <p className="text-xs text-gray-600 mt-1">{licenseTerms(l)}</p>
+              <div className="flex gap-2 mt-2">
+                <button onClick={() => edit(l)} className="px-2 py-1 rounded border text-xs">Edit</button>
+                {l.status === 'active' ? (
+                  <button onClick={() => setStatus(l, 'retired')} className="px-2 py-1 rounded border text-xs">Retire</button>
+                ) : (
+                  <button onClick={() => setStatus(l, 'active')} className="px-2 py-1 rounded border text-xs">Reinstate</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <button onClick={() => edit(createLicense(''))} className="w-full px-3 py-2 rounded bg-primary text-white">New license</button>
+      </div>
+
+      {draft && (
+        <form className="space-y-2 border rounded p-3 bg-gray-50" aria-label="Edit license" onSubmit={(e) => { e.preventDefault(); onSave(); }}>
+          <label className="block">Name</label>
+          <input value={draft.name} onChange={(e) => patch({ name: e.target.value })} aria-label="License name" className="w-full border rounded p-1" />
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.commercialUse} onChange={(e) => patch({ commercialUse: e.target.checked })} />
+            <span>Commercial use</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.attributionRequired} onChange={(e) => patch({ attributionRequired: e.target.checked })} />
+            <span>Attribution required</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.resaleAllowed} onChange={(e) => patch({ resaleAllowed: e.target.checked })} />
+            <span>Resale allowed</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.exclusive} onChange={(e) => patch({ exclusive: e.target.checked })} />
+            <span>Exclusive</span>
+          </label>
+          <label className="block" htmlFor="license-prints">Print run limit</label>
+          <div className="flex gap-2">
+            <select value={draft.printRunLimit === null ? 'unlimited' : draft.printRunLimit === 0 ? 'none' : 'limited'}
+              onChange={(e) => patch({ printRunLimit: e.target.value === 'unlimited' ? null : e.target.value === 'none' ? 0 : 100 })}
+              aria-label="Print rights" className="flex-1 border rounded p-1">
+              <option value="none">No prints</option>
+              <option value="limited">Limited</option>
+              <option value="unlimited">Unlimited</option>
+            </select>
+            {draft.printRunLimit !== null && draft.printRunLimit > 0 && (
+              <input id="license-prints" type="number" min={1} value={draft.printRunLimit}
+                onChange={(e) => patch({ printRunLimit: Number(e.target.value) })} className="w-24 border rounded p-1" />
+            )}
+          </div>
+          <label className="block" htmlFor="license-territory">Territory</label>
+          <select id="license-territory" value={draft.territory} onChange={(e) => patch({ territory: e.target.value as LicenseTerritory })}
+            className="w-full border rounded p-1">
+            {TERRITORIES.map((t) => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+          <label className="block" htmlFor="license-duration">Duration</label>
+          <div className="flex gap-2">
+            <select value={draft.durationMonths === null ? 'perpetual' : 'term'}
+              onChange={(e) => patch({ durationMonths: e.target.value === 'perpetual' ? null : 12 })} aria-label="Duration kind"
+              className="flex-1 border rounded p-1">
+              <option value="perpetual">Perpetual</option>
+              <option value="term">Fixed term</option>
+            </select>
+            {draft.durationMonths !== null && (
+              <input id="license-duration" type="number" min={1} value={draft.durationMonths}
+                onChange={(e) => patch({ durationMonths: Number(e.target.value) })} aria-label="Duration in months" className="w-24 border rounded p-1" />
+            )}
+          </div>
+          <label className="block" htmlFor="license-price">Price modifier</label>
+          <div className="flex gap-2">
+            <select value={draft.pricing.kind}
+              onChange={(e) => patch({ pricing: e.target.value === 'on-request' ? { kind: 'on-request' } : { kind: 'multiplier', multiplier: 1 } })}
+              aria-label="Pricing" className="flex-1 border rounded p-1">
+              <option value="multiplier">Multiplier</option>
+              <option value="on-request">On request</option>
+            </select>
+            {draft.pricing.kind === 'multiplier' && (
+              <input id="license-price" type="number" min={0.05} step={0.05} value={draft.pricing.multiplier}
+                onChange={(e) => patch({ pricing: { kind: 'multiplier', multiplier: Number(e.target.value) } })} className="w-24 border rounded p-1" />
+            )}
+          </div>
+          <div className="text-xs text-gray-600 border-t pt-2" aria-label="Generated terms">{licenseTerms(draft)}</div>
+          {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" className="flex-1 px-3 py-2 rounded bg-primary text-white">{isNew ? 'Create license' : 'Save license'}</button>
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 px-3 py-2 rounded border">Cancel</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type React from 'react';
+import { routePath, type Route } from '../lib/router';
+
+type Props = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href' | 'onClick'> & {
+  to: Route;
+  onNavigate: (to: Route) => void;
+};
+
+// A real link, so it can be opened in a new tab or copied; plain clicks stay in the app
+export default function Link({ to, onNavigate, children, ...rest }: Props) {
+  return (
+    <a
+      {...rest}
+      href={routePath(to)}
+      onClick={(e) => {
+        if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        onNavigate(to);
+      }}
+    >
+      {children}
+    </a>
+  );
+}
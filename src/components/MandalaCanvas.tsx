@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import type { AnimationFrame } from '../lib/animation';
+import { copyTransform, mandalaGeometry } from '../lib/geometry';
+import { CANVAS_SIZE, CENTER, type MandalaGradient, type MandalaShape, type MandalaSpec } from '../lib/mandala';
+import { watermarkLayer, type WatermarkSettings } from '../lib/watermark';
+import WatermarkMarks from './WatermarkMarks';
+
+type Props = {
+  spec: MandalaSpec;
+  watermark: WatermarkSettings | null;
+  size?: number;
+  /** A moment of the animation to draw instead of the still design */
+  frame?: AnimationFrame | null;
+};
+
+function gradientElement(g: MandalaGradient) {
+  const stops = g.stops.map((s) => <stop key={s.offset} offset={s.offset} stopColor={s.color} />);
+  return g.kind === 'radial'
+    ? <radialGradient key={g.id} id={g.id} gradientUnits="userSpaceOnUse" cx={g.cx} cy={g.cy} r={g.r}>{stops}</radialGradient>
+    : <linearGradient key={g.id} id={g.id} gradientUnits="userSpaceOnUse" x1={g.x1} y1={g.y1} x2={g.x2} y2={g.y2}>{stops}</linearGradient>;
+}
+
+function shapeElement(s: MandalaShape, key: string, id?: string) {
+  return s.kind === 'circle' ? (
+    <circle key={key} id={id} cx={s.cx} cy={s.cy} r={s.r} fill={s.fill} opacity={s.opacity} />
+  ) : (
+    <path key={key} id={id} d={s.d} fill={s.fill} stroke={s.stroke ?? 'none'} strokeWidth={s.strokeWidth} strokeLinecap="round" strokeLinejoin="round" opacity={s.opacity} transform={s.transform} />
+  );
+}
+
+export default function MandalaCanvas({ spec, watermark, size = CANVAS_SIZE, frame = null }: Props) {
+  // Each segment template is defined once and placed with <use>; the elements
+  // are memoised on the spec so unrelated re-renders do not rebuild thousands of them
+  const still = useMemo(() => {
+    const geometry = mandalaGeometry(spec);
+    return (
+      <>
+        <defs>
+          {geometry.gradients.map(gradientElement)}
+          {geometry.groups.map((g, i) => shapeElement(g.template, `t${i}`, g.id))}
+        </defs>
+        {geometry.groups.map((g, i) => g.copies.map((c, j) => <use key={`${i}-${j}`} href={`#${g.id}`} transform={copyTransform(c) || undefined} />))}
+      </>
+    );
+  }, [spec]);
+  const mark = useMemo(() => (watermark ? watermarkLayer(watermark, CANVAS_SIZE, CANVAS_SIZE) : null), [watermark]);
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} aria-label="Mandala canvas" role="img">
+      {frame ? (
+        <>
+          {frame.gradients.length > 0 && <defs>{frame.gradients.map(gradientElement)}</defs>}
+          {frame.shapes.map((s) => shapeElement(s, s.key))}
+        </>
+      ) : still}
+      <circle cx={CENTER} cy={CENTER} r={6} fill="#fff" opacity={0.3} />
+      {mark && <WatermarkMarks layer={mark} />}
+    </svg>
+  );
+}
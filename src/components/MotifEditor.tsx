@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import {
+  createStroke,
+  fundamentalAngle,
+  MAX_SEGMENTS,
+  MIN_SEGMENTS,
+  paletteColor,
+  smoothPath,
+  symmetryLabel,
+  type MandalaSpec,
+  type MotifPoint,
+  type MotifStroke
+} from '../lib/mandala';
+import SwatchPicker from './SwatchPicker';
+
+type Props = {
+  spec: MandalaSpec;
+  /** coalesceKey groups continuous edits (slider drags) into one undo step */
+  onChange: (update: (spec: MandalaSpec) => MandalaSpec, coalesceKey?: string) => void;
+};
+
+// The fundamental wedge is shown unwrapped: angle runs left to right, radius bottom to top
+const W = 240;
+const H = 200;
+
+const toView = (pt: MotifPoint) => ({ x: pt.t * W, y: H - pt.r * H });
+
+function strokeD(kind: MotifStroke['kind'], points: MotifPoint[], closed: boolean): string {
+  return smoothPath(points.map(toView), kind === 'bezier', closed);
+}
+
+export default function MotifEditor({ spec, onChange }: Props) {
+  const [mode, setMode] = useState<MotifStroke['kind']>('freeform');
+  const [closed, setClosed] = useState(false);
+  const [width, setWidth] = useState(2);
+  const [draft, setDraft] = useState<MotifPoint[]>([]);
+  const drawing = useRef(false);
+  const { segments, strokes } = spec.motif;
+  const color = paletteColor(spec.palette, spec.motif.color);
+
+  const pointFromEvent = (e: React.PointerEvent<SVGSVGElement>): MotifPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      t: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      r: Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const commit = (points: MotifPoint[]) => {
+    setDraft([]);
+    if (points.length < 2) return;
+    const stroke = createStroke(mode, points, { closed, width });
+    onChange((s) => ({ ...s, motif: { ...s.motif, strokes: [...s.motif.strokes, stroke] } }));
+  };
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const pt = pointFromEvent(e);
+    if (mode === 'bezier') {
+      setDraft((d) => [...d, pt]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    setDraft([pt]);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawing.current) return;
+    const pt = pointFromEvent(e);
+    setDraft((d) => {
+      const last = d[d.length - 1];
+      if (last && Math.hypot(last.r - pt.r, last.t - pt.t) < 0.01) return d;
+      return [...d, pt];
+    });
+  };
+
+  const onPointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    commit(draft);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Segment motif ({symmetryLabel(spec.symmetry, segments)})</span>
+        <span className="text-xs text-gray-500">wedge {fundamentalAngle(spec.symmetry, segments).toFixed(1)}°</span>
+      </div>
+      <label className="block text-sm">Motif segments: {segments}</label>
+      <input type="range" min={MIN_SEGMENTS} max={MAX_SEGMENTS} step={1} value={segments}
+        onChange={(e) => onChange((s) => ({ ...s, motif: { ...s.motif, segments: Number(e.target.value) } }), 'motif-segments')}
+        className="w-full"
+      />
+      <label className="block text-sm">Stroke colour</label>
+      <SwatchPicker palette={spec.palette} value={spec.motif.color} label="Motif colour"
+        onChange={(i) => onChange((s) => ({ ...s, motif: { ...s.motif, color: i } }))} />
+      <div className="flex gap-2">
+        {(['freeform', 'bezier'] as const).map((m) => (
+          <button key={m} onClick={() => { setMode(m); setDraft([]); }}
+            className={"px-3 py-1 rounded-md border text-sm" + (mode === m ? ' border-primary text-primary' : ' border-gray-200')}
+          >{m}</button>
+        ))}
+      </div>
+      <svg
+        width={W} height={H} viewBox={`0 0 ${W} ${H}`}
+        className="w-full border rounded bg-gray-50 touch-none cursor-crosshair"
+        aria-label="Fundamental wedge motif editor" role="img"
+        onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}
+      >
+        {[0.25, 0.5, 0.75].map((f) => (
+          <g key={f} stroke="#e5e7eb">
+            <line x1={0} x2={W} y1={H - f * H} y2={H - f * H} />
+            <line x1={f * W} x2={f * W} y1={0} y2={H} />
+          </g>
+        ))}
+        {strokes.map((s) => (
+          <path key={s.id} d={strokeD(s.kind, s.points, s.closed)} fill={s.closed ? color : 'none'} fillOpacity={0.3} stroke={color} strokeWidth={s.width} />
+        ))}
+        {draft.length > 0 && (
+          <path d={strokeD(mode, draft, closed && mode === 'bezier')} fill="none" stroke="#5200ff" strokeWidth={width} strokeDasharray={mode === 'bezier' ? '4 3' : undefined} />
+        )}
+        {mode === 'bezier' && draft.map((pt, i) => {
+          const v = toView(pt);
+          return <circle key={i} cx={v.x} cy={v.y} r={3} fill="#5200ff" />;
+        })}
+        <text x={4} y={H - 4} fontSize={10} fill="#6b7280">centre · angle →</text>
+      </svg>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={closed} onChange={(e) => setClosed(e.target.checked)} />
+        <span>Closed shape (filled)</span>
+      </label>
+      <label className="block text-sm">Stroke width: {width}</label>
+      <input type="range" min={0.5} max={12} step={0.5} value={width} onChange={(e) => setWidth(Number(e.target.value))} className="w-full" />
+      <div className="flex flex-wrap gap-2">
+        {mode === 'bezier' && (
+          <button onClick={() => commit(draft)} disabled={draft.length < 2} className="px-2 py-1 rounded bg-primary text-white text-sm disabled:opacity-50">Finish curve</button>
+        )}
+        <button
+          onClick={() => onChange((s) => ({ ...s, motif: { ...s.motif, strokes: s.motif.strokes.slice(0, -1) } }))}
+          disabled={strokes.length === 0}
+          className="px-2 py-1 rounded border text-sm disabled:opacity-50"
+        >Remove last stroke</button>
+        <button
+          onClick={() => { setDraft([]); onChange((s) => ({ ...s, motif: { ...s.motif, strokes: [] } })); }}
+          disabled={strokes.length === 0 && draft.length === 0}
+          className="px-2 py-1 rounded border text-sm disabled:opacity-50"
+        >Clear motif</button>
+      </div>
+    </div>
+  );
+}
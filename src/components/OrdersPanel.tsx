@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import { formatMoney } from '../lib/cart';
+import { CERTIFICATE_ISSUER, certificateHTML, certificateJSON, type LicenseCertificate } from '../lib/certificates';
+import type { Order, OrderStatus } from '../lib/orders';
+import { DEFAULT_FABRICATION_OPTIONS, fabricationFile, fabricationPlan } from '../lib/fabrication';
+import { DEFAULT_RASTER_OPTIONS, exportRaster, printPresetOptions } from '../lib/rasterExport';
+import { buildSVGDocument } from '../lib/svgExport';
+import type { License, StoreItem } from '../types';
+import { downloadBlob, formatDate } from '../lib/utils';
+
+type Props = {
+  orders: Order[];
+  certificates: LicenseCertificate[];
+  /** Why issuing certificates failed, by order id */
+  issueErrors: Record<string, string>;
+  licenses: License[];
+  /** Catalog, for the print preset of licensed print files */
+  products: StoreItem[];
+  onIssue: (order: Order) => void;
+};
+
+const STATUS_STYLE: Record<OrderStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  requires_action: 'bg-accent text-black',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-700',
+  canceled: 'bg-gray-100 text-gray-500',
+  refunded: 'bg-gray-100 text-gray-500',
+  partially_refunded: 'bg-accent text-black'
+};
+
+const LICENSED: OrderStatus[] = ['paid', 'partially_refunded'];
+
+export default function OrdersPanel({ orders, certificates, issueErrors, licenses, products, onIssue }: Props) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (orders.length === 0) {
+    return <div className="text-sm text-gray-500">No orders yet</div>;
+  }
+
+  const download = (cert: LicenseCertificate, order: Order, format: 'html' | 'json') => {
+    const blob = format === 'html'
+      ? new Blob([certificateHTML(cert, order.design)], { type: 'text/html;charset=utf-8' })
+      : new Blob([certificateJSON(cert)], { type: 'application/json' });
+    downloadBlob(blob, `license-${cert.id}.${format}`);
+  };
+
+  // The only clean copies of a design: unwatermarked, with the certificate id hidden inside
+  const downloadArtwork = async (cert: LicenseCertificate, order: Order, format: 'svg' | 'png' | 'dxf') => {
+    if (!order.design) return;
+    setBusy(`${cert.id}:${format}`);
+    setError(null);
+    try {
+      if (format === 'svg') {
+        const svg = buildSVGDocument(order.design, {
+          precision: 2,
+          variant: 'filled',
+          watermark: null,
+          fingerprint: cert.id,
+          embedSpec: false,
+          metadata: {
+            title: `Mandala, licensed under ${cert.license.name}`,
+            description: `Licensed to ${cert.buyer.name || 'the buyer'} by certificate ${cert.id}`,
+            artist: CERTIFICATE_ISSUER,
+            license: licenses.find((l) => l.id === cert.license.id) ?? null,
+            createdAt: new Date(cert.purchasedAt)
+          }
+        });
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `mandala-${cert.id}.svg`);
+      } else if (format === 'dxf') {
+        const options = { ...DEFAULT_FABRICATION_OPTIONS, format: 'dxf' as const };
+        const plan = fabricationPlan(order.design, options, null);
+        downloadBlob(fabricationFile(plan, options, `Licensed under ${cert.license.name} by certificate ${cert.id}`), `mandala-${cert.id}.dxf`);
+      } else {
+        const preset = products.find((p) => p.printPreset && cert.items.some((i) => i.productId === p.id))?.printPreset;
+        const options = { ...(preset ? printPresetOptions(preset) : DEFAULT_RASTER_OPTIONS), format: 'png' as const };
+        downloadBlob(await exportRaster(order.design, options, null, cert.id), `mandala-${cert.id}.png`);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <ul className="space-y-3" aria-label="Orders">
+        {orders.map((order) => {
+          const certs = certificates.filter((c) => c.orderId === order.id);
+          const money = (n: number) => formatMoney(n, order.display);
+          return (
+            <li key={order.id} className="border rounded p-3 text-sm space-y-2">
+              <div className="flex items-start gap-3">
+                {order.design && <MandalaCanvas spec={order.design} watermark={null} size={56} />}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-xs truncate">{order.id}</span>
+                    <span className={"px-2 py-0.5 rounded text-xs " + STATUS_STYLE[order.status]}>{order.status.replace(/_/g, ' ')}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(order.createdAt)} · {order.buyer.name || 'Unnamed buyer'}{order.buyer.email && ` · ${order.buyer.email}`}
+                  </div>
+                </div>
+              </div>
+              <ul className="text-xs">
+                {order.lines.map((l) => (
+                  <li key={`${l.productId}:${l.license.id}`} className="flex justify-between">
+                    <span>{l.name} × {l.quantity} · {l.license.name}</span>
+                    <span>{money(l.total)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{money(order.totals.total)}{order.totals.refunded > 0 && ` (${money(order.totals.refunded)} refunded)`}</span>
+              </div>
+              {order.failureReason && <p className="text-xs text-red-600">{order.failureReason}</p>}
+              {certs.map((cert) => (
+                <div key={cert.id} className="flex items-center gap-2 bg-gray-50 border rounded p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono text-xs">{cert.id}</div>
+                    <div className="text-xs text-gray-500">{cert.license.name}</div>
+                  </div>
+                  <button onClick={() => download(cert, order, 'html')} className="px-2 py-1 rounded border text-xs">Certificate</button>
+                  <button onClick={() => download(cert, order, 'json')} className="px-2 py-1 rounded border text-xs">JSON</button>
+                  {order.design && LICENSED.includes(order.status) && (['svg', 'png', 'dxf'] as const).map((format) => (
+                    <button key={format} onClick={() => downloadArtwork(cert, order, format)} disabled={busy !== null}
+                      title="Clean file with the certificate id hidden in it" className="px-2 py-1 rounded bg-primary text-white text-xs uppercase disabled:opacity-50">
+                      {busy === `${cert.id}:${format}` ? '…' : format}
+                    </button>
+                  ))}
+                </div>
+              ))}
+              {certs.length === 0 && issueErrors[order.id] && (
+                <p className="text-xs text-red-600" role="alert">License certificate not issued: {issueErrors[order.id]}</p>
+              )}
+              {certs.length === 0 && LICENSED.includes(order.status) && (
+                <button onClick={() => onIssue(order)} className="px-2 py-1 rounded border text-xs">
+                  {issueErrors[order.id] ? 'Retry license certificate' : 'Issue license certificate'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
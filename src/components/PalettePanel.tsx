@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { MAX_PALETTE_COLORS, type MandalaSpec } from '../lib/mandala';
+import {
+  createPalette,
+  harmony,
+  HARMONIES,
+  paletteToASE,
+  paletteToGPL,
+  paletteToJSON,
+  parsePaletteFile,
+  removePaletteColor,
+  spreadPalette,
+  watermarkContrast,
+  type HarmonyKind,
+  type SavedPalette
+} from '../lib/palette';
+import { downloadBlob } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+
+type Props = {
+  spec: MandalaSpec;
+  /** coalesceKey groups continuous edits (colour drags) into one undo step */
+  onChange: (update: (spec: MandalaSpec) => MandalaSpec, coalesceKey?: string) => void;
+  palettes: SavedPalette[];
+  onPalettesChange: (palettes: SavedPalette[]) => void;
+  watermark: WatermarkSettings;
+};
+
+const LEVEL_STYLES = { AAA: 'bg-green-100 text-green-800', AA: 'bg-green-50 text-green-700', fail: 'bg-red-100 text-red-700' };
+
+export default function PalettePanel({ spec, onChange, palettes, onPalettesChange, watermark }: Props) {
+  const [kind, setKind] = useState<HarmonyKind>('analogous');
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+  const contrast = watermarkContrast(spec, watermark);
+  const current: SavedPalette = { id: 'current', name: name.trim() || 'Mandala palette', colors: spec.palette };
+  const fileBase = (current.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'palette');
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    const result = parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!result.palette) {
+      setMessage({ kind: 'error', text: result.error ?? 'Import failed' });
+      return;
+    }
+    onPalettesChange([...palettes, result.palette]);
+    setMessage({ kind: 'ok', text: `Imported ${result.palette.name} (${result.palette.colors.length} colours)` });
+  };
+
+  return (
+    <div className="space-y-3" aria-label="Palette">
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Palette ({spec.palette.length}/{MAX_PALETTE_COLORS})</span>
+          <button
+            onClick={() => onChange((s) => ({ ...s, palette: [...s.palette, s.palette[s.palette.length - 1]] }))}
+            disabled={spec.palette.length >= MAX_PALETTE_COLORS}
+            className="px-2 py-1 rounded border text-sm disabled:opacity-50"
+          >Add colour</button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {spec.palette.map((c, i) => (
+            <div key={i} className="flex items-center">
+              <input type="color" value={c} aria-label={`Palette colour ${i + 1}`}
+                onChange={(e) => onChange((s) => ({ ...s, palette: s.palette.map((p, j) => (j === i ? e.target.value : p)) }), `palette-${i}`)}
+                className="w-9 h-9 p-0 border rounded" />
+              <button onClick={() => onChange((s) => removePaletteColor(s, i))} disabled={spec.palette.length <= 1}
+                aria-label={`Remove colour ${i + 1}`} className="px-1 text-red-600 disabled:opacity-30">×</button>
+            </div>
+          ))}
+        </div>
+        <button onClick={() => onChange(spreadPalette)} disabled={spec.palette.length <= 1}
+          title="Give each layer its own colour" className="mt-2 px-2 py-1 rounded border text-sm disabled:opacity-50">Spread over layers</button>
+      </div>
+
+      <div>
+        <label className="block text-sm">Harmony from colour 1</label>
+        <div className="flex gap-2">
+          <select value={kind} onChange={(e) => setKind(e.target.value as HarmonyKind)} aria-label="Harmony" className="flex-1 border rounded p-1 text-sm">
+            {HARMONIES.map((h) => (
+              <option key={h.id} value={h.id}>{h.label}</option>
+            ))}
+          </select>
+          <button onClick={() => onChange((s) => ({ ...s, palette: harmony(s.palette[0], kind) }))}
+            className="px-2 py-1 rounded bg-primary text-white text-sm">Generate</button>
+        </div>
+        <div className="flex gap-1 mt-1" aria-hidden="true">
+          {harmony(spec.palette[0], kind).map((c, i) => <span key={i} className="w-5 h-5 rounded border" style={{ background: c }} />)}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm font-medium">Saved palettes</div>
+        <ul className="space-y-1 mt-1">
+          {palettes.map((p) => (
+            <li key={p.id} className="flex items-center gap-2 border rounded p-1">
+              <div className="flex gap-0.5">
+                {p.colors.map((c, i) => <span key={i} className="w-4 h-4 rounded-sm" style={{ background: c }} />)}
+              </div>
+              <span className="flex-1 min-w-0 text-sm truncate">{p.name}</span>
+              <button onClick={() => onChange((s) => ({ ...s, palette: p.colors }))} className="px-2 py-0.5 rounded border text-xs">Use</button>
+              <button onClick={() => onPalettesChange(palettes.filter((x) => x.id !== p.id))} aria-label={`Delete palette ${p.name}`} className="px-1 text-red-600">×</button>
+            </li>
+          ))}
+        </ul>
+        <form
+          className="flex gap-2 mt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onPalettesChange([...palettes, createPalette(name, spec.palette)]);
+            setName('');
+          }}
+        >
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Palette name" aria-label="Palette name" className="flex-1 min-w-0 border rounded p-1 text-sm" />
+          <button type="submit" className="px-2 py-1 rounded bg-primary text-white text-sm">Save</button>
+        </form>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-sm">Export current palette</div>
+        <div className="flex gap-2">
+          <button onClick={() => downloadBlob(new Blob([paletteToASE(current)], { type: 'application/octet-stream' }), `${fileBase}.ase`)} className="flex-1 px-2 py-1 rounded border text-sm">ASE</button>
+          <button onClick={() => downloadBlob(new Blob([paletteToGPL(current)], { type: 'text/plain' }), `${fileBase}.gpl`)} className="flex-1 px-2 py-1 rounded border text-sm">GPL</button>
+          <button onClick={() => downloadBlob(new Blob([paletteToJSON(current)], { type: 'application/json' }), `${fileBase}.json`)} className="flex-1 px-2 py-1 rounded border text-sm">JSON</button>
+        </div>
+        <label className="block text-sm">Import palette (.ase, .gpl, .json)</label>
+        <input type="file" accept=".ase,.gpl,.json,application/json" onChange={onFile} aria-label="Import palette" className="w-full text-sm" />
+        {message && (
+          <p className={"text-xs" + (message.kind === 'error' ? ' text-red-600' : ' text-green-700')} role={message.kind === 'error' ? 'alert' : 'status'}>{message.text}</p>
+        )}
+      </div>
+
+      <div>
+        <div className="text-sm font-medium">Watermark contrast</div>
+        <p className="text-xs text-gray-500">WCAG large-text contrast of the watermark colour over the fills behind it</p>
+        {contrast.length === 0 ? (
+          <div className="text-xs text-gray-500 mt-1">No fills behind the watermark</div>
+        ) : (
+          <ul className="space-y-1 mt-1">
+            {contrast.map((c) => (
+              <li key={c.color} className="flex items-center gap-2 text-sm">
+                <span className="w-4 h-4 rounded-sm border" style={{ background: c.color }} />
+                <span className="font-mono text-xs">{c.color}</span>
+                <span className="flex-1">{c.ratio.toFixed(2)}:1</span>
+                <span className={"px-1 rounded text-xs " + LEVEL_STYLES[c.level]}>{c.level === 'fail' ? 'Fails AA' : c.level}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
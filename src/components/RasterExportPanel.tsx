@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import type { MandalaSpec } from '../lib/mandala';
+import {
+  DPI_PRESETS,
+  exportRaster,
+  layoutError,
+  MAX_BLEED_MM,
+  MAX_CUSTOM_MM,
+  MIN_CUSTOM_MM,
+  PAPER_SIZES,
+  paperMm,
+  printLayout,
+  printPresetOptions,
+  DEFAULT_RASTER_OPTIONS,
+  type PaperSize,
+  type RasterFormat,
+  type RasterOptions
+} from '../lib/rasterExport';
+import type { StoreItem } from '../types';
+import { clamp, downloadBlob, formatNumber } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+
+type Props = {
+  spec: MandalaSpec;
+  /** Builder exports are always watermarked; clean files come from licensed orders */
+  watermark: WatermarkSettings;
+  products: StoreItem[];
+  /** Store product whose print preset the panel starts from */
+  initialProductId?: string | null;
+};
+
+export default function RasterExportPanel({ spec, watermark, products, initialProductId }: Props) {
+  const printProducts = products.filter((p) => p.printPreset);
+  const [productId, setProductId] = useState<string>(initialProductId ?? '');
+  const [options, setOptions] = useState<RasterOptions>(() => {
+    const product = printProducts.find((p) => p.id === initialProductId);
+    return product?.printPreset ? printPresetOptions(product.printPreset) : DEFAULT_RASTER_OPTIONS;
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const layout = useMemo(() => printLayout(options), [options]);
+  const limitError = layoutError(layout);
+  const mm = paperMm(options);
+  const set = (patch: Partial<RasterOptions>) => setOptions((o) => ({ ...o, ...patch }));
+
+  const chooseProduct = (id: string) => {
+    setProductId(id);
+    const preset = printProducts.find((p) => p.id === id)?.printPreset;
+    if (preset) setOptions(printPresetOptions(preset));
+  };
+
+  const onExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const blob = await exportRaster(spec, options, watermark);
+      downloadBlob(blob, `mandala-${options.paper}-${options.dpi}dpi.${options.format === 'jpeg' ? 'jpg' : options.format}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border rounded p-3 space-y-2 text-sm" aria-label="Print export">
+      <div className="font-medium">Print export</div>
+      <label className="block">Product</label>
+      <select value={productId} onChange={(e) => chooseProduct(e.target.value)} className="w-full border rounded p-1">
+        <option value="">No product (free settings)</option>
+        {printProducts.map((p) => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      <label className="block">Paper</label>
+      <select value={options.paper} onChange={(e) => { setProductId(''); set({ paper: e.target.value as PaperSize }); }} className="w-full border rounded p-1">
+        {Object.entries(PAPER_SIZES).map(([id, p]) => (
+          <option key={id} value={id}>{p.label}</option>
+        ))}
+        <option value="custom">Custom</option>
+      </select>
+      {options.paper === 'custom' && (
+        <div className="flex gap-2 items-center">
+          <input type="number" min={MIN_CUSTOM_MM} max={MAX_CUSTOM_MM} value={options.customMm.width} aria-label="Custom width in millimetres"
+            onChange={(e) => set({ customMm: { ...options.customMm, width: clamp(Number(e.target.value) || MIN_CUSTOM_MM, MIN_CUSTOM_MM, MAX_CUSTOM_MM) } })} className="w-20 border rounded p-1" />
+          <span>×</span>
+          <input type="number" min={MIN_CUSTOM_MM} max={MAX_CUSTOM_MM} value={options.customMm.height} aria-label="Custom height in millimetres"
+            onChange={(e) => set({ customMm: { ...options.customMm, height: clamp(Number(e.target.value) || MIN_CUSTOM_MM, MIN_CUSTOM_MM, MAX_CUSTOM_MM) } })} className="w-20 border rounded p-1" />
+          <span>mm</span>
+        </div>
+      )}
+      <label className="block">Resolution</label>
+      <div className="flex gap-2">
+        {DPI_PRESETS.map((dpi) => (
+          <button key={dpi} onClick={() => set({ dpi })}
+            className={"px-3 py-1 rounded-md border" + (options.dpi === dpi ? ' border-primary text-primary' : ' border-gray-200')}
+          >{dpi} DPI</button>
+        ))}
+      </div>
+      <div className="flex gap-2 items-center">
+        <label>Bleed</label>
+        <input type="number" min={0} max={MAX_BLEED_MM} step={0.5} value={options.bleedMm} onChange={(e) => set({ bleedMm: clamp(Number(e.target.value) || 0, 0, MAX_BLEED_MM) })} className="w-16 border rounded p-1" aria-label="Bleed in millimetres" />
+        <span>mm</span>
+        <label className="flex items-center gap-1 ml-auto">
+          <input type="checkbox" checked={options.cropMarks} onChange={(e) => set({ cropMarks: e.target.checked })} />
+          <span>Crop marks</span>
+        </label>
+      </div>
+      <div className="flex gap-2 items-center">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.background === 'transparent'} disabled={options.format === 'jpeg'}
+            onChange={(e) => set({ background: e.target.checked ? 'transparent' : '#ffffff' })} />
+          <span>Transparent</span>
+        </label>
+        {options.background !== 'transparent' && (
+          <input type="color" value={options.background} onChange={(e) => set({ background: e.target.value })} aria-label="Background colour" className="w-10 h-7 p-0 border rounded" />
+        )}
+      </div>
+      <label className="block">Format</label>
+      <div className="flex gap-2">
+        {(['png', 'webp', 'jpeg'] as RasterFormat[]).map((f) => (
+          <button key={f}
+            onClick={() => set({ format: f, background: f === 'jpeg' && options.background === 'transparent' ? '#ffffff' : options.background })}
+            className={"px-3 py-1 rounded-md border uppercase" + (options.format === f ? ' border-primary text-primary' : ' border-gray-200')}
+          >{f}</button>
+        ))}
+      </div>
+      {options.format !== 'png' && (
+        <>
+          <label className="block">Quality: {Math.round(options.quality * 100)}</label>
+          <input type="range" min={0.5} max={1} step={0.01} value={options.quality} onChange={(e) => set({ quality: Number(e.target.value) })} className="w-full" />
+        </>
+      )}
+      <p className="text-xs text-gray-500">Watermarked proof. Clean print files are downloaded from licensed orders.</p>
+      <div className="text-xs text-gray-600">
+        {mm.width} × {mm.height} mm trim · {formatNumber(layout.width)} × {formatNumber(layout.height)} px
+      </div>
+      {(limitError || error) && <p className="text-xs text-red-600" role="alert">{limitError ?? error}</p>}
+      <button onClick={onExport} disabled={busy || !!limitError} className="w-full py-2 rounded bg-primary text-white disabled:opacity-50">
+        {busy ? 'Rendering…' : `Export ${options.format.toUpperCase()}`}
+      </button>
+    </div>
+  );
+}
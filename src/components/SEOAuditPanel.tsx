@@ -0,0 +1,74 @@
+import type { SEOIssue, SEOReport } from '../lib/seoAudit';
+
+type Props = {
+  site: SEOIssue[];
+  reports: SEOReport[];
+  /** Jump to the asset or field an issue is about */
+  onFix: (issue: SEOIssue) => void;
+};
+
+const FIELD_LABELS: Record<SEOIssue['field'], string> = {
+  siteUrl: 'Edit site URL',
+  title: 'Edit title',
+  description: 'Edit description',
+  keywords: 'Edit keywords',
+  altText: 'Add alt text'
+};
+
+function scoreClass(score: number): string {
+  if (score >= 80) return ' bg-green-100 text-green-800';
+  if (score >= 50) return ' bg-amber-100 text-amber-800';
+  return ' bg-red-100 text-red-800';
+}
+
+function IssueRow({ issue, onFix }: { issue: SEOIssue; onFix: (issue: SEOIssue) => void }) {
+  return (
+    <li className="flex items-start justify-between gap-2">
+      <span className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-800'}>
+        {issue.severity === 'error' ? '✕ ' : '! '}
+        {issue.message}
+      </span>
+      <button onClick={() => onFix(issue)} className="shrink-0 px-2 rounded border text-xs">{FIELD_LABELS[issue.field]}</button>
+    </li>
+  );
+}
+
+export default function SEOAuditPanel({ site, reports, onFix }: Props) {
+  const average = reports.length > 0 ? Math.round(reports.reduce((n, r) => n + r.score, 0) / reports.length) : 100;
+  const sorted = [...reports].sort((a, b) => a.score - b.score || a.label.localeCompare(b.label));
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className={"px-2 py-0.5 rounded-full font-medium" + scoreClass(average)}>{average}</span>
+        <span className="text-gray-600">Average score across {reports.length} pages and assets</span>
+      </div>
+      {site.length > 0 && (
+        <ul className="border rounded p-2 space-y-1 text-xs" aria-label="Site issues">
+          {site.map((issue, i) => <IssueRow key={i} issue={issue} onFix={onFix} />)}
+        </ul>
+      )}
+      <ul className="space-y-1" aria-label="SEO audit">
+        {sorted.map((r) => (
+          <li key={r.target.kind === 'asset' ? r.target.assetId : r.target.kind === 'page' ? r.target.page : 'site'} className="border rounded">
+            <details open={r.score < 50}>
+              <summary className="flex items-center gap-2 p-2 cursor-pointer">
+                <span className={"w-9 text-center px-1 rounded-full text-xs font-medium" + scoreClass(r.score)}>{r.score}</span>
+                <span className="flex-1 truncate">{r.label}</span>
+                <span className="text-xs text-gray-500">{r.target.kind === 'asset' ? 'Asset' : 'Page'}</span>
+                {r.meta.noindex && <span className="text-xs text-gray-500">noindex</span>}
+              </summary>
+              {r.issues.length === 0 ? (
+                <p className="px-2 pb-2 text-xs text-green-700">No issues</p>
+              ) : (
+                <ul className="px-2 pb-2 space-y-1 text-xs">
+                  {r.issues.map((issue, i) => <IssueRow key={i} issue={issue} onFix={onFix} />)}
+                </ul>
+              )}
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
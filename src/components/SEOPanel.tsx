@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from 'react';
+import SEOAuditPanel from './SEOAuditPanel';
+import SnippetPreview from './SnippetPreview';
+import type { MandalaSpec } from '../lib/mandala';
+import { rasterizeSVG } from '../lib/rasterExport';
+import {
+  assetMeta,
+  assetPath,
+  headHTML,
+  headTags,
+  pageMeta,
+  PAGES,
+  robotsTxt,
+  SHARE_IMAGE,
+  shareImagePath,
+  shareImageSVG,
+  siteUrlError,
+  sitemapXML,
+  type SEOContext
+} from '../lib/seo';
+import { auditSite, SERP_LIMITS, textWidthPx, type AuditField, type SEOIssue } from '../lib/seoAudit';
+import { downloadBlob } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+import type { Asset, PageId, PageMeta, SEOState } from '../types';
+
+type Props = {
+  seo: SEOState;
+  onChange: (update: (seo: SEOState) => SEOState) => void;
+  context: SEOContext;
+  /** Design used for page share images */
+  spec: MandalaSpec;
+  watermark: WatermarkSettings;
+  onAssetChange: (id: string, seo: Partial<PageMeta>) => void;
+  /** Open an asset in the CMS editor, for fixes outside the SEO fields */
+  onEditAsset: (id: string) => void;
+};
+
+// Select value: a page id, or 'asset:<id>'
+type Target = PageId | `asset:${string}`;
+
+const fieldId = (field: AuditField) => `seo-field-${field}`;
+
+function WidthMeter({ text, limit }: { text: string; limit: { maxPx: number; fontSize: number } }) {
+  const px = Math.round(textWidthPx(text, limit.fontSize));
+  return (
+    <span className={"text-xs" + (px > limit.maxPx ? ' text-red-600' : ' text-gray-500')}>
+      {text.length} chars · {px} / {limit.maxPx} px
+    </span>
+  );
+}
+
+// The share image as shown on social cards
+function shareImageSrc(asset: Asset | null, spec: MandalaSpec, watermark: WatermarkSettings): string {
+  if (asset?.file) return asset.file.thumbnail;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(shareImageSVG(asset?.design ?? spec, watermark))}`;
+}
+
+export default function SEOPanel({ seo, onChange, context, spec, watermark, onAssetChange, onEditAsset }: Props) {
+  const [target, setTarget] = useState<Target>('home');
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [focusField, setFocusField] = useState<AuditField | null>(null);
+  const published = context.assets.filter((a) => a.status === 'published');
+  const asset: Asset | null = target.startsWith('asset:') ? context.assets.find((a) => `asset:${a.id}` === target) ?? null : null;
+  const page = asset ? null : (target as PageId);
+
+  const meta = useMemo(
+    () => (asset ? assetMeta(seo, asset, context) : pageMeta(seo, page ?? 'home', context)),
+    [seo, asset, page, context]
+  );
+  const head = useMemo(() => headHTML(headTags(seo, meta)), [seo, meta]);
+  const overrides: Partial<PageMeta> = asset ? asset.seo ?? {} : seo.pages[page ?? 'home'] ?? {};
+  const urlError = siteUrlError(seo.siteUrl);
+  const audit = useMemo(() => auditSite(seo, context), [seo, context]);
+  const imageSrc = useMemo(() => shareImageSrc(asset, spec, watermark), [asset, spec, watermark]);
+
+  // Focus the field a fix points at once its page is selected
+  useEffect(() => {
+    if (!focusField) return;
+    const el = document.getElementById(fieldId(focusField));
+    el?.focus();
+    el?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setFocusField(null);
+  }, [focusField, target]);
+
+  const fix = (issue: SEOIssue) => {
+    if (issue.target.kind === 'asset' && issue.field === 'altText') {
+      onEditAsset(issue.target.assetId);
+      return;
+    }
+    if (issue.target.kind === 'page') setTarget(issue.target.page);
+    if (issue.target.kind === 'asset') setTarget(`asset:${issue.target.assetId}`);
+    setFocusField(issue.field);
+  };
+
+  const setOverride = (patch: Partial<PageMeta>) => {
+    if (asset) onAssetChange(asset.id, { ...overrides, ...patch });
+    else if (page) onChange((s) => ({ ...s, pages: { ...s.pages, [page]: { ...s.pages[page], ...patch } } }));
+  };
+
+  const downloadShareImage = async () => {
+    setImageError(null);
+    try {
+      const svg = shareImageSVG(asset?.design ?? spec, watermark);
+      const png = await rasterizeSVG(svg, SHARE_IMAGE.width, SHARE_IMAGE.height, 'png', 1);
+      downloadBlob(png, shareImagePath(asset ? assetPath(asset) : page ?? 'home').split('/').pop() ?? 'share.png');
+    } catch (e) {
+      setImageError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <label className="block">
+          <span className="block text-xs text-gray-600">Site URL</span>
+          <input id={fieldId('siteUrl')} value={seo.siteUrl} onChange={(e) => onChange((s) => ({ ...s, siteUrl: e.target.value }))} placeholder="https://mandalas.example"
+            className="w-full border rounded p-1" />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">Twitter / X account</span>
+          <input value={seo.twitterHandle} onChange={(e) => onChange((s) => ({ ...s, twitterHandle: e.target.value }))} placeholder="@mandalas"
+            className="w-full border rounded p-1" />
+        </label>
+        {urlError && <p className="md:col-span-2 text-xs text-amber-700">{urlError}</p>}
+      </div>
+
+      <div className="border rounded p-3 space-y-2">
+        <label className="flex items-center gap-2">
+          <span className="text-xs text-gray-600">Page</span>
+          <select value={target} onChange={(e) => setTarget(e.target.value as Target)} aria-label="Page to edit" className="flex-1 border rounded p-1">
+            <optgroup label="Pages">
+              {PAGES.map((p) => (
+                <option key={p.id} value={p.id}>{p.label} ({p.path})</option>
+              ))}
+            </optgroup>
+            {context.assets.length > 0 && (
+              <optgroup label="Assets">
+                {context.assets.filter((a) => a.status !== 'archived').map((a) => (
+                  <option key={a.id} value={`asset:${a.id}`}>{a.title || a.name}{a.status === 'published' ? '' : ' (not published)'}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <div className="text-xs text-gray-500 break-all">{meta.canonical}</div>
+        <label className="block">
+          <span className="flex justify-between text-xs text-gray-600">Title <WidthMeter text={meta.title} limit={SERP_LIMITS.title} /></span>
+          <input id={fieldId('title')} value={overrides.title ?? ''} onChange={(e) => setOverride({ title: e.target.value })} placeholder={meta.title}
+            className="w-full border rounded p-1" />
+        </label>
+        <label className="block">
+          <span className="flex justify-between text-xs text-gray-600">
+            Description <WidthMeter text={meta.description} limit={SERP_LIMITS.description} />
+          </span>
+          <textarea id={fieldId('description')} value={overrides.description ?? ''} onChange={(e) => setOverride({ description: e.target.value })} placeholder={meta.description}
+            rows={2} className="w-full border rounded p-1" />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">Keywords</span>
+          <input id={fieldId('keywords')} value={overrides.keywords ?? ''} onChange={(e) => setOverride({ keywords: e.target.value })} placeholder={meta.keywords}
+            className="w-full border rounded p-1" />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={overrides.noindex ?? false} onChange={(e) => setOverride({ noindex: e.target.checked })} />
+          <span>Hide from search engines (noindex, left out of the sitemap)</span>
+        </label>
+        <SnippetPreview meta={meta} siteName={seo.title} imageSrc={imageSrc} />
+        <details>
+          <summary className="text-xs text-gray-600 cursor-pointer">Generated head tags</summary>
+          <pre className="mt-1 text-xs bg-gray-50 border rounded p-2 overflow-x-auto max-h-64">{head}</pre>
+        </details>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={downloadShareImage} className="px-2 py-1 rounded border">Download share image</button>
+          <button onClick={() => downloadBlob(new Blob([head], { type: 'text/html;charset=utf-8' }), 'head.html')} className="px-2 py-1 rounded border">
+            Download head tags
+          </button>
+        </div>
+        {imageError && <p className="text-xs text-red-600" role="alert">{imageError}</p>}
+      </div>
+
+      <div>
+        <h3 className="font-medium mb-1">Audit</h3>
+        <SEOAuditPanel site={audit.site} reports={audit.reports} onFix={fix} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => downloadBlob(new Blob([sitemapXML(seo, context.assets)], { type: 'application/xml' }), 'sitemap.xml')}
+          className="px-3 py-1 rounded bg-primary text-white">Download sitemap.xml</button>
+        <button onClick={() => downloadBlob(new Blob([robotsTxt(seo)], { type: 'text/plain' }), 'robots.txt')}
+          className="px-3 py-1 rounded border">Download robots.txt</button>
+        <span className="text-xs text-gray-500 self-center">
+          {published.filter((a) => !a.seo?.noindex).length} published assets in the sitemap
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { MandalaSpec } from '../lib/mandala';
+import { rasterizeSVG } from '../lib/rasterExport';
+import { buildSite } from '../lib/site';
+import type { DesignSnapshot } from '../lib/snapshots';
+import { getBlob } from '../lib/storage';
+import { downloadBlob } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+import { createZip } from '../lib/zip';
+import type { Asset, License, SEOState } from '../types';
+
+type Props = {
+  seo: SEOState;
+  spec: MandalaSpec;
+  assets: Asset[];
+  licenses: License[];
+  snapshots: DesignSnapshot[];
+  watermark: WatermarkSettings;
+};
+
+export default function SitePublishPanel({ seo, spec, assets, licenses, snapshots, watermark }: Props) {
+  const [includeSnapshots, setIncludeSnapshots] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+  const published = assets.filter((a) => a.status === 'published').length;
+
+  const onPublish = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const files = await buildSite(
+        {
+          seo,
+          spec,
+          assets,
+          licenses,
+          snapshots,
+          watermark,
+          loadMedia: async (hash) => {
+            const blob = await getBlob(hash).catch(() => null);
+            return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+          },
+          rasterize: async (svg, width, height) => new Uint8Array(await (await rasterizeSVG(svg, width, height, 'png', 1)).arrayBuffer())
+        },
+        { includeSnapshots }
+      );
+      downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `mandala-site-${new Date().toISOString().slice(0, 10)}.zip`);
+      setMessage({ kind: 'ok', text: `Published ${files.length} files` });
+    } catch (e) {
+      setMessage({ kind: 'error', text: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-xs text-gray-600">
+        A static site with the gallery, artwork and product pages, licenses, sitemap and robots.txt, ready to upload to any host. Images are published watermarked.
+        {' '}{published} published asset{published === 1 ? '' : 's'} will be included.
+      </p>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={includeSnapshots} onChange={(e) => setIncludeSnapshots(e.target.checked)} />
+        <span>Include {snapshots.length} saved mandala{snapshots.length === 1 ? '' : 's'}</span>
+      </label>
+      <button onClick={onPublish} disabled={busy} className="px-3 py-1 rounded bg-primary text-white disabled:opacity-50">
+        {busy ? 'Publishing…' : 'Download site (.zip)'}
+      </button>
+      {message && <p className={"text-xs" + (message.kind === 'error' ? ' text-red-600' : ' text-green-700')} role="status">{message.text}</p>}
+    </div>
+  );
+}
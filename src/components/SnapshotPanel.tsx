@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import type { MandalaSpec } from '../lib/mandala';
+import type { DesignSnapshot } from '../lib/snapshots';
+import { formatDate } from '../lib/utils';
+
+type Props = {
+  snapshots: DesignSnapshot[];
+  current: MandalaSpec;
+  onSave: (name: string) => void;
+  onRestore: (snapshot: DesignSnapshot) => void;
+  onDelete: (id: string) => void;
+  onAddToLibrary: (snapshot: DesignSnapshot) => void;
+};
+
+export default function SnapshotPanel({ snapshots, current, onSave, onRestore, onDelete, onAddToLibrary }: Props) {
+  const [name, setName] = useState('');
+
+  return (
+    <div className="bg-gray-50 border rounded p-3 space-y-2" aria-label="Design snapshots">
+      <div className="text-sm font-medium">Snapshots</div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSave(name);
+          setName('');
+        }}
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Snapshot name" aria-label="Snapshot name" className="flex-1 border rounded p-1 text-sm" />
+        <button type="submit" className="px-2 py-1 rounded bg-primary text-white text-sm">Save</button>
+      </form>
+      {snapshots.length === 0 ? (
+        <div className="text-xs text-gray-500">No snapshots yet</div>
+      ) : (
+        <ul className="space-y-1 max-h-72 overflow-y-auto">
+          {snapshots.map((s) => (
+            <li key={s.id} className={"flex items-center gap-2 border rounded p-1 bg-white" + (s.spec === current ? ' border-primary' : '')}>
+              <MandalaCanvas spec={s.spec} watermark={null} size={48} />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{s.name}</div>
+                <div className="text-xs text-gray-500">{formatDate(s.createdAt)}</div>
+              </div>
+              <button onClick={() => onRestore(s)} className="px-2 py-1 rounded border text-xs">Restore</button>
+              <button onClick={() => onAddToLibrary(s)} title="Add to the CMS library" className="px-2 py-1 rounded border text-xs">CMS</button>
+              <button onClick={() => onDelete(s.id)} aria-label={`Delete snapshot ${s.name}`} className="px-1 text-red-600">×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
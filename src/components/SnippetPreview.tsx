@@ -0,0 +1,56 @@
+import type { ResolvedMeta } from '../lib/seo';
+import { SERP_LIMITS, truncateToWidth } from '../lib/seoAudit';
+
+type Props = {
+  meta: ResolvedMeta;
+  siteName: string;
+  /** Image shown on the social cards */
+  imageSrc: string;
+};
+
+function hostAndPath(url: string): { host: string; path: string[] } {
+  try {
+    const u = new URL(url);
+    return { host: u.host, path: u.pathname.split('/').filter(Boolean) };
+  } catch {
+    return { host: 'your-site.example', path: url.split('/').filter(Boolean) };
+  }
+}
+
+export default function SnippetPreview({ meta, siteName, imageSrc }: Props) {
+  const { host, path } = hostAndPath(meta.canonical);
+  const title = truncateToWidth(meta.title, SERP_LIMITS.title.maxPx, SERP_LIMITS.title.fontSize);
+  const description = truncateToWidth(meta.description, SERP_LIMITS.description.maxPx, SERP_LIMITS.description.fontSize);
+
+  return (
+    <div className="space-y-3">
+      <div aria-label="Search result preview" className="border rounded p-3 bg-white" style={{ fontFamily: 'Arial, sans-serif', maxWidth: 652 }}>
+        <div className="flex items-center gap-2">
+          <div className="w-7 h-7 rounded-full bg-gray-100 border flex items-center justify-center text-xs">{siteName.charAt(0)}</div>
+          <div className="leading-tight">
+            <div className="text-sm text-gray-900">{siteName}</div>
+            <div className="text-xs text-gray-600">https://{host}{path.map((p) => ` › ${p}`).join('')}</div>
+          </div>
+        </div>
+        <div className="mt-1 text-[20px] leading-snug text-[#1a0dab]">{title}</div>
+        <div className="text-[14px] leading-snug text-gray-700">{description}</div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div aria-label="Facebook and LinkedIn card preview" className="border rounded overflow-hidden bg-white">
+          <img src={imageSrc} alt={meta.imageAlt} className="w-full aspect-[1.91/1] object-cover bg-gray-50" />
+          <div className="p-2 bg-gray-100 leading-tight">
+            <div className="text-[11px] uppercase text-gray-500">{host}</div>
+            <div className="text-sm font-semibold text-gray-900 line-clamp-2">{meta.title}</div>
+            <div className="text-xs text-gray-600 line-clamp-1">{meta.description}</div>
+          </div>
+        </div>
+        <div aria-label="X / Twitter card preview" className="border rounded-2xl overflow-hidden bg-white relative">
+          <img src={imageSrc} alt={meta.imageAlt} className="w-full aspect-[1.91/1] object-cover bg-gray-50" />
+          <div className="absolute left-2 bottom-2 max-w-[90%] px-1.5 rounded bg-black/60 text-white text-xs truncate">{meta.title}</div>
+          <div className="px-2 py-1 text-xs text-gray-500">From {host}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { MandalaSpec } from '../lib/mandala';
+import { routePath } from '../lib/router';
+import { decodeSpec, encodeSpec, parseSpecFile, specFileJSON } from '../lib/specLink';
+import { downloadBlob } from '../lib/utils';
+
+type Props = {
+  spec: MandalaSpec;
+  onImport: (spec: MandalaSpec) => void;
+};
+
+export default function SpecSharePanel({ spec, onImport }: Props) {
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+  const link = `${window.location.origin}${routePath({ name: 'share', code: encodeSpec(spec) })}`;
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage({ kind: 'ok', text: 'Link copied' });
+    } catch {
+      setMessage({ kind: 'error', text: 'Copy failed; select the link and copy it by hand' });
+    }
+  };
+
+  const apply = (result: { spec: MandalaSpec | null; error: string | null }, source: string) => {
+    if (!result.spec) {
+      setMessage({ kind: 'error', text: result.error ?? 'Import failed' });
+      return;
+    }
+    onImport(result.spec);
+    setMessage({ kind: 'ok', text: `Loaded design from ${source}` });
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    apply(parseSpecFile(await file.text()), file.name);
+  };
+
+  return (
+    <div className="space-y-2" aria-label="Share design">
+      <label className="block text-sm">Share link</label>
+      <div className="flex gap-2">
+        <input readOnly value={link} onFocus={(e) => e.currentTarget.select()} aria-label="Share link" className="flex-1 min-w-0 border rounded p-1 text-xs" />
+        <button onClick={onCopy} className="px-2 py-1 rounded bg-primary text-white text-sm">Copy</button>
+      </div>
+      <button onClick={() => downloadBlob(new Blob([specFileJSON(spec)], { type: 'application/json' }), 'mandala-spec.json')}
+        className="w-full px-3 py-1 rounded border text-sm">Download spec (.json)</button>
+      <form
+        className="space-y-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          apply(decodeSpec(code), 'link');
+          setCode('');
+        }}
+      >
+        <label className="block text-sm" htmlFor="spec-import">Import spec</label>
+        <div className="flex gap-2">
+          <input id="spec-import" value={code} onChange={(e) => setCode(e.target.value)} placeholder="Paste a link or code"
+            className="flex-1 min-w-0 border rounded p-1 text-sm" />
+          <button type="submit" disabled={!code.trim()} className="px-2 py-1 rounded border text-sm disabled:opacity-50">Load</button>
+        </div>
+      </form>
+      <input type="file" accept=".json,application/json" onChange={onFile} aria-label="Import spec from JSON" className="w-full text-sm" />
+      {message && (
+        <p className={"text-xs" + (message.kind === 'error' ? ' text-red-600' : ' text-green-700')} role={message.kind === 'error' ? 'alert' : 'status'}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { MandalaSpec } from '../lib/mandala';
+import { buildSVGDocument, type SVGExportOptions } from '../lib/svgExport';
+import type { License } from '../types';
+import { downloadBlob } from '../lib/utils';
+import type { WatermarkSettings } from '../lib/watermark';
+
+type Props = {
+  spec: MandalaSpec;
+  license: License | null;
+  title: string;
+  description: string;
+  /** Builder exports are always watermarked; clean files come from licensed orders */
+  watermark: WatermarkSettings;
+};
+
+function ExportButton({ onExport }: { onExport: () => void }) {
+  return (
+    <button
+      aria-label="Export mandala as SVG"
+      onClick={onExport}
+      className="px-4 py-2 rounded-md bg-primary text-white hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+    >
+      Export SVG
+    </button>
+  );
+}
+
+export default function SvgExportPanel({ spec, license, title, description, watermark }: Props) {
+  const [artist, setArtist] = useState('');
+  const [precision, setPrecision] = useState(2);
+  const [variant, setVariant] = useState<SVGExportOptions['variant']>('filled');
+
+  const onExport = () => {
+    const svg = buildSVGDocument(spec, {
+      precision,
+      variant,
+      watermark,
+      fingerprint: null,
+      embedSpec: true,
+      metadata: { title, description, artist: artist.trim() || 'Unknown artist', license, createdAt: new Date() }
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), variant === 'stroke' ? 'mandala-plotter.svg' : 'mandala.svg');
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="block">Artist</label>
+      <input value={artist} onChange={(e) => setArtist(e.target.value)} placeholder="Your name" aria-label="Artist name" className="w-full border rounded p-1" />
+      <div className="flex items-center gap-2">
+        <label htmlFor="svg-precision">Precision</label>
+        <select id="svg-precision" value={precision} onChange={(e) => setPrecision(Number(e.target.value))} className="border rounded p-1">
+          {[0, 1, 2, 3].map((p) => (
+            <option key={p} value={p}>{p} decimals</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={variant === 'stroke'} onChange={(e) => setVariant(e.target.checked ? 'stroke' : 'filled')} />
+        <span>Plotter-friendly (stroke only)</span>
+      </label>
+      <p className="text-xs text-gray-500">Exports carry the watermark; licensed buyers download clean files from their order.</p>
+      <ExportButton onExport={onExport} />
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+type Props = {
+  palette: string[];
+  /** Selected palette index; indices past the end wrap like the renderer does */
+  value: number;
+  onChange: (index: number) => void;
+  label: string;
+};
+
+export default function SwatchPicker({ palette, value, onChange, label }: Props) {
+  const selected = palette.length > 0 ? value % palette.length : -1;
+  return (
+    <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={label}>
+      {palette.map((c, i) => (
+        <button key={i} onClick={() => onChange(i)} role="radio" aria-checked={i === selected} aria-label={`${label}: colour ${i + 1} (${c})`}
+          className={"w-6 h-6 rounded border-2" + (i === selected ? ' border-primary' : ' border-gray-200')}
+          style={{ background: c }}
+        />
+      ))}
+    </div>
+  );
+}
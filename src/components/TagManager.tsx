@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { deleteTag, mergeTags, renameTag, tagUsage } from '../lib/library';
+import type { Asset } from '../types';
+
+type Props = {
+  assets: Asset[];
+  onChange: (update: (assets: Asset[]) => Asset[]) => void;
+};
+
+export default function TagManager({ assets, onChange }: Props) {
+  const usage = tagUsage(assets);
+  const [renaming, setRenaming] = useState<{ tag: string; value: string } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+
+  const toggle = (tag: string) => setSelected((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+
+  const onRename = () => {
+    if (!renaming) return;
+    onChange((prev) => renameTag(prev, renaming.tag, renaming.value));
+    setRenaming(null);
+  };
+
+  const onMerge = () => {
+    onChange((prev) => mergeTags(prev, selected, target));
+    setSelected([]);
+    setTarget('');
+  };
+
+  if (usage.length === 0) return <div className="text-sm text-gray-500">No tags yet</div>;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <ul className="space-y-1 max-h-64 overflow-y-auto" aria-label="Tags">
+        {usage.map(({ tag, count }) => (
+          <li key={tag} className="flex items-center gap-2">
+            <input type="checkbox" checked={selected.includes(tag)} onChange={() => toggle(tag)} aria-label={`Select tag ${tag}`} />
+            {renaming?.tag === tag ? (
+              <form className="flex-1 flex gap-1" onSubmit={(e) => { e.preventDefault(); onRename(); }}>
+                <input value={renaming.value} onChange={(e) => setRenaming({ tag, value: e.target.value })} autoFocus
+                  aria-label={`New name for ${tag}`} className="flex-1 border rounded px-1" />
+                <button type="submit" className="px-2 rounded border text-xs">Save</button>
+              </form>
+            ) : (
+              <span className="flex-1">{tag} <span className="text-xs text-gray-500">({count})</span></span>
+            )}
+            <button onClick={() => setRenaming({ tag, value: tag })} className="text-xs underline">Rename</button>
+            <button onClick={() => onChange((prev) => deleteTag(prev, tag))} aria-label={`Delete tag ${tag}`} className="px-1 text-red-600">×</button>
+          </li>
+        ))}
+      </ul>
+      {selected.length > 1 && (
+        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); onMerge(); }}>
+          <input value={target} onChange={(e) => setTarget(e.target.value)} placeholder={`Merge ${selected.length} tags into…`}
+            aria-label="Merged tag name" className="flex-1 border rounded p-1" />
+          <button type="submit" disabled={!target.trim()} className="px-2 py-1 rounded bg-primary text-white disabled:opacity-50">Merge</button>
+        </form>
+      )}
+    </div>
+  );
+}
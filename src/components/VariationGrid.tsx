@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import MandalaCanvas from './MandalaCanvas';
+import {
+  DEFAULT_CONSTRAINTS,
+  generateSpec,
+  MAX_COMPLEXITY,
+  MIN_COMPLEXITY,
+  normalizeConstraints,
+  randomSeed,
+  variationSeeds,
+  type GeneratorConstraints
+} from '../lib/generator';
+import { ingestFiles } from '../lib/ingest';
+import { normalizeTag } from '../lib/library';
+import { MAX_SEGMENTS, MIN_SEGMENTS, type MandalaSpec } from '../lib/mandala';
+import type { SavedPalette } from '../lib/palette';
+import { rasterizeSVG } from '../lib/rasterExport';
+import { buildSVGDocument } from '../lib/svgExport';
+import type { Asset } from '../types';
+
+type Props = {
+  /** Palette of the design open in the builder */
+  currentPalette: string[];
+  palettes: SavedPalette[];
+  assets: Asset[];
+  onTweak: (spec: MandalaSpec) => void;
+  onAdd: (assets: Asset[]) => void;
+};
+
+type ExportFormat = 'svg' | 'png';
+
+const GRID_SIZES = [12, 24, 48];
+const PNG_SIZE = 1024;
+
+async function designFile(spec: MandalaSpec, seed: string, format: ExportFormat): Promise<File> {
+  const svg = buildSVGDocument(spec, {
+    precision: 2,
+    variant: 'filled',
+    // CMS assets are masters; the site and store watermark them on the way out
+    watermark: null,
+    fingerprint: null,
+    embedSpec: true,
+    metadata: { title: `Mandala ${seed}`, description: `Generated from seed ${seed}`, artist: 'Mandala generator', license: null, createdAt: new Date() }
+  });
+  const name = `mandala-${seed}.${format}`;
+  if (format === 'svg') return new File([svg], name, { type: 'image/svg+xml' });
+  return new File([await rasterizeSVG(svg, PNG_SIZE, PNG_SIZE, 'png', 1)], name, { type: 'image/png' });
+}
+
+export default function VariationGrid({ currentPalette, palettes, assets, onTweak, onAdd }: Props) {
+  const [seed, setSeed] = useState(() => randomSeed());
+  const [count, setCount] = useState(24);
+  const [paletteId, setPaletteId] = useState('current');
+  const [constraints, setConstraints] = useState<Omit<GeneratorConstraints, 'palette'>>(DEFAULT_CONSTRAINTS);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('svg');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const palette = paletteId === 'current' ? currentPalette : palettes.find((p) => p.id === paletteId)?.colors ?? currentPalette;
+  const rules = useMemo(() => normalizeConstraints({ ...constraints, palette }), [constraints, palette]);
+  const variations = useMemo(
+    () => variationSeeds(seed.trim() || '0', count).map((s) => ({ seed: s, spec: generateSpec(s, rules) })),
+    [seed, count, rules]
+  );
+  const chosen = variations.filter((v) => selected.includes(v.seed));
+
+  const patch = (p: Partial<GeneratorConstraints>) => setConstraints((c) => ({ ...c, ...p }));
+  const toggle = (s: string) => setSelected((prev) => (prev.includes(s) ? prev.filter((x) => x !== s) : [...prev, s]));
+
+  const onExport = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const files = await Promise.all(chosen.map((v) => designFile(v.spec, v.seed, format)));
+      const results = await ingestFiles(files, assets);
+      const added = results.flatMap((r, i) => (r.status === 'added'
+        ? [{ ...r.asset, design: chosen[i].spec, tags: ['generated', normalizeTag(`seed ${chosen[i].seed}`)] }]
+        : []));
+      if (added.length > 0) onAdd(added);
+      const skipped = results.length - added.length;
+      setMessage({ kind: skipped > 0 ? 'error' : 'ok', text: `Added ${added.length} to the CMS` + (skipped > 0 ? `; ${skipped} skipped (already in the library or failed)` : '') });
+      setSelected([]);
+    } catch (e) {
+      setMessage({ kind: 'error', text: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-3 text-sm">
+        <label className="block" htmlFor="generator-seed">Seed</label>
+        <div className="flex gap-2">
+          <input id="generator-seed" value={seed} onChange={(e) => setSeed(e.target.value)} className="flex-1 min-w-0 border rounded p-1" />
+          <button onClick={() => setSeed(randomSeed())} className="px-2 py-1 rounded bg-accent text-black">Surprise me</button>
+        </div>
+        <label className="block">Palette</label>
+        <select value={paletteId} onChange={(e) => setPaletteId(e.target.value)} aria-label="Generator palette" className="w-full border rounded p-1">
+          <option value="current">Current design</option>
+          {palettes.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <label className="block">Symmetry</label>
+        <select value={constraints.symmetry} onChange={(e) => patch({ symmetry: e.target.value as GeneratorConstraints['symmetry'] })}
+          aria-label="Generator symmetry" className="w-full border rounded p-1">
+          <option value="any">Any</option>
+          <option value="cyclic">Cn rotate</option>
+          <option value="dihedral">Dn kaleidoscope</option>
+        </select>
+        <label className="block">Segments: {rules.minSegments}–{rules.maxSegments}</label>
+        <div className="flex gap-2">
+          <input type="number" min={MIN_SEGMENTS} max={MAX_SEGMENTS} value={constraints.minSegments} aria-label="Minimum segments"
+            onChange={(e) => patch({ minSegments: Number(e.target.value) })} className="w-full border rounded p-1" />
+          <input type="number" min={MIN_SEGMENTS} max={MAX_SEGMENTS} value={constraints.maxSegments} aria-label="Maximum segments"
+            onChange={(e) => patch({ maxSegments: Number(e.target.value) })} className="w-full border rounded p-1" />
+        </div>
+        <label className="block">Complexity: {rules.complexity}</label>
+        <input type="range" min={MIN_COMPLEXITY} max={MAX_COMPLEXITY} step={1} value={constraints.complexity}
+          onChange={(e) => patch({ complexity: Number(e.target.value) })} aria-label="Complexity" className="w-full" />
+        <label className="block">Variations</label>
+        <select value={count} onChange={(e) => setCount(Number(e.target.value))} aria-label="Number of variations" className="w-full border rounded p-1">
+          {GRID_SIZES.map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="font-medium">{chosen.length} favourite{chosen.length === 1 ? '' : 's'}</div>
+          <div className="flex gap-2">
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} aria-label="Export format" className="border rounded p-1">
+              <option value="svg">SVG</option>
+              <option value="png">PNG ({PNG_SIZE}px)</option>
+            </select>
+            <button onClick={onExport} disabled={busy || chosen.length === 0} className="flex-1 px-2 py-1 rounded bg-primary text-white disabled:opacity-50">
+              {busy ? 'Adding…' : 'Add to CMS'}
+            </button>
+          </div>
+          <button onClick={() => setSelected([])} disabled={chosen.length === 0} className="w-full px-2 py-1 rounded border disabled:opacity-50">Clear favourites</button>
+          {message && <p className={"text-xs" + (message.kind === 'error' ? ' text-red-600' : ' text-green-700')} role="status">{message.text}</p>}
+        </div>
+      </div>
+
+      <ul className="lg:col-span-2 grid grid-cols-3 sm:grid-cols-4 gap-2" aria-label="Variations">
+        {variations.map((v) => {
+          const on = selected.includes(v.seed);
+          return (
+            <li key={v.seed} className={"border rounded p-1 flex flex-col items-center" + (on ? ' border-primary bg-primary/5' : ' border-gray-200')}>
+              <button onClick={() => toggle(v.seed)} aria-pressed={on} aria-label={`Favourite ${v.seed}`}>
+                <MandalaCanvas spec={v.spec} watermark={null} size={112} />
+              </button>
+              <div className="flex items-center justify-between w-full text-xs mt-1">
+                <span className="truncate text-gray-500" title={v.seed}>{v.seed}</span>
+                <button onClick={() => onTweak(v.spec)} className="px-1 rounded border">Tweak</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { placementTransform, type WatermarkLayer } from '../lib/watermark';
+
+/** The watermark as SVG elements; rendered over the artwork inside any <svg> */
+export default function WatermarkMarks({ layer }: { layer: WatermarkLayer }) {
+  const { mark } = layer;
+  return mark.kind === 'text' ? (
+    <g opacity={layer.opacity} fill="none" stroke={layer.color} strokeWidth={mark.strokeWidth} strokeLinecap="round" strokeLinejoin="round" pointerEvents="none">
+      {layer.placements.map((p, i) => <path key={i} d={mark.d} transform={placementTransform(p)} />)}
+    </g>
+  ) : (
+    <g opacity={layer.opacity} pointerEvents="none">
+      {layer.placements.map((p, i) => (
+        <image key={i} href={mark.href} x={-mark.width / 2} y={-mark.height / 2} width={mark.width} height={mark.height}
+          preserveAspectRatio="xMidYMid meet" transform={placementTransform(p)} />
+      ))}
+    </g>
+  );
+}
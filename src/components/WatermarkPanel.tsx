@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_WATERMARK,
+  MAX_LOGO_BYTES,
+  MAX_WATERMARK_SIZE,
+  MAX_WATERMARK_TEXT,
+  MIN_WATERMARK_OPACITY,
+  MIN_WATERMARK_SIZE,
+  WATERMARK_PATTERNS,
+  WATERMARK_POSITIONS,
+  type WatermarkPattern,
+  type WatermarkPosition,
+  type WatermarkSettings
+} from '../lib/watermark';
+
+type Props = {
+  settings: WatermarkSettings;
+  onChange: (settings: WatermarkSettings) => void;
+  /** Show the watermark on the builder canvas; exports carry it either way */
+  preview: boolean;
+  onPreviewChange: (preview: boolean) => void;
+};
+
+function readDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function WatermarkPanel({ settings, onChange, preview, onPreviewChange }: Props) {
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<WatermarkSettings>) => onChange({ ...settings, ...patch });
+
+  const onLogo = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    setError(null);
+    if (!file.type.startsWith('image/')) {
+      setError(`${file.name} is not an image`);
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`Logos are limited to ${MAX_LOGO_BYTES / 1024} KB; ${file.name} is ${Math.ceil(file.size / 1024)} KB`);
+      return;
+    }
+    try {
+      set({ logo: await readDataUrl(file) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm" aria-label="Watermark">
+      <p className="text-xs text-gray-500">Drawn on every export from the builder, store previews and the published site. Licensed buyers download clean files from their order.</p>
+      <label className="block" htmlFor="watermark-text">Text</label>
+      <input id="watermark-text" value={settings.text} placeholder={DEFAULT_WATERMARK.text} maxLength={MAX_WATERMARK_TEXT} disabled={!!settings.logo}
+        onChange={(e) => set({ text: e.target.value })} className="w-full border rounded p-1 disabled:opacity-50" />
+      <p className="text-xs text-gray-500">Letters, digits and - . : / _ are drawn; other characters leave a gap.</p>
+      <label className="block">Logo (replaces the text)</label>
+      {settings.logo ? (
+        <div className="flex items-center gap-2">
+          <img src={settings.logo} alt="Watermark logo" className="h-8 max-w-[8rem] object-contain border rounded bg-gray-100" />
+          <button onClick={() => set({ logo: null })} className="px-2 py-1 rounded border">Remove logo</button>
+        </div>
+      ) : (
+        <input type="file" accept="image/png,image/svg+xml,image/webp,image/jpeg" onChange={onLogo} aria-label="Watermark logo" className="w-full text-sm" />
+      )}
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <label className="block">Pattern</label>
+      <select value={settings.pattern} onChange={(e) => set({ pattern: e.target.value as WatermarkPattern })} aria-label="Watermark pattern" className="w-full border rounded p-1">
+        {WATERMARK_PATTERNS.map((p) => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+      {settings.pattern === 'single' && (
+        <>
+          <label className="block">Position</label>
+          <select value={settings.position} onChange={(e) => set({ position: e.target.value as WatermarkPosition })} aria-label="Watermark position" className="w-full border rounded p-1">
+            {WATERMARK_POSITIONS.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </>
+      )}
+      <label className="block">Opacity: {Math.round(settings.opacity * 100)}%</label>
+      <input type="range" min={MIN_WATERMARK_OPACITY} max={1} step={0.05} value={settings.opacity} onChange={(e) => set({ opacity: Number(e.target.value) })}
+        aria-label="Watermark opacity" className="w-full" />
+      <label className="block">Size: {Math.round(settings.size * 100)}% of the short side</label>
+      <input type="range" min={MIN_WATERMARK_SIZE} max={MAX_WATERMARK_SIZE} step={0.01} value={settings.size} onChange={(e) => set({ size: Number(e.target.value) })}
+        aria-label="Watermark size" className="w-full" />
+      <div className="flex items-center gap-2">
+        <label htmlFor="watermark-color">Colour</label>
+        <input id="watermark-color" type="color" value={settings.color} disabled={!!settings.logo}
+          onChange={(e) => set({ color: e.target.value })} className="w-10 h-7 p-0 border rounded disabled:opacity-50" />
+        <label className="flex items-center gap-1 ml-auto">
+          <input type="checkbox" checked={preview} onChange={(e) => onPreviewChange(e.target.checked)} />
+          <span>Show on canvas</span>
+        </label>
+      </div>
+    </div>
+  );
+}
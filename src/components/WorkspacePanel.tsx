@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { collectBundleFiles, createWorkspaceBundle, readWorkspaceBundle, restoreBundleFiles, type Workspace } from '../lib/storage';
+import { downloadBlob } from '../lib/utils';
+
+type Props = {
+  workspace: Workspace;
+  ready: boolean;
+  storageError: string | null;
+  onImport: (ws: Partial<Workspace>) => void;
+};
+
+export default function WorkspacePanel({ workspace, ready, storageError, onImport }: Props) {
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  // Uploaded images travel inside the bundle as data URLs
+  const onExport = async () => {
+    setMessage(null);
+    try {
+      const files = await collectBundleFiles(workspace);
+      const blob = new Blob([createWorkspaceBundle(workspace, files)], { type: 'application/json' });
+      downloadBlob(blob, `mandala-workspace-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (e) {
+      setMessage({ kind: 'error', text: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.currentTarget.value = '';
+    if (!file) return;
+    try {
+      const { workspace: ws, files } = readWorkspaceBundle(await file.text());
+      // Store the files first so the imported assets never point at missing bytes
+      const stored = await restoreBundleFiles(files);
+      onImport(ws);
+      setMessage({ kind: 'ok', text: `Imported ${Object.keys(ws).length} sections and ${stored} files from ${file.name}` });
+    } catch (e) {
+      setMessage({ kind: 'error', text: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500">
+        {storageError ? `Not saved: ${storageError}` : ready ? 'Saved in this browser' : 'Restoring saved work…'}
+      </div>
+      <button onClick={onExport} className="w-full px-3 py-2 rounded border text-sm">Export workspace</button>
+      <label className="block text-sm">Import workspace (.json)</label>
+      <input type="file" accept=".json,application/json" onChange={onFile} aria-label="Import workspace bundle" className="w-full text-sm" />
+      {message && (
+        <p className={"text-xs" + (message.kind === 'error' ? ' text-red-600' : ' text-green-700')} role={message.kind === 'error' ? 'alert' : undefined}>{message.text}</p>
+      )}
+    </div>
+  );
+}
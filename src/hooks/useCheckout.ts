@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { applyPaymentEvent, type Order } from '../lib/orders';
+import { PaymentError, toMinorUnits, withTimeout, type PaymentIntent, type PaymentMethod, type PaymentProvider } from '../lib/payments';
+
+export type CheckoutState = 'idle' | 'processing' | 'requires_action' | 'success' | 'failed';
+
+type Options = {
+  /** Receives order updates; orders are kept newest first */
+  setOrders: (update: (orders: Order[]) => Order[]) => void;
+  /** Called once a payment succeeds, e.g. to empty the cart */
+  onPaid: (order: Order) => void;
+  /** Give up on a provider call after this long */
+  timeoutMs?: number;
+};
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// What the customer is buying and paying; ids, status and timestamps aside
+const contents = (o: Order) => JSON.stringify([o.buyer, o.design, o.lines, o.totals, o.currency, o.display, o.couponCode, o.taxRuleId]);
+
+/**
+ * Drive a checkout through a payment provider. Order records follow the
+ * provider's status events, the way a server would follow its webhooks.
+ * @param provider - The payment provider
+ * @param options - Order sink, success callback and call timeout
+ * @returns The checkout state and actions
+ */
+export function useCheckout(provider: PaymentProvider, { setOrders, onPaid, timeoutMs = 10000 }: Options) {
+  const [state, setState] = useState<CheckoutState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  // Order being paid and its current payment, kept across retries
+  const [current, setCurrent] = useState<{ order: Order; intentId: string | null } | null>(null);
+  const paid = useRef(onPaid);
+
+  useEffect(() => {
+    paid.current = onPaid;
+  });
+
+  useEffect(() => provider.subscribe((event) => {
+    setOrders((orders) => orders.map((o) => (o.id === event.intent.orderId ? applyPaymentEvent(o, event) : o)));
+  }), [provider, setOrders]);
+
+  const succeed = useCallback((order: Order) => {
+    setState('success');
+    setCurrent(null);
+    paid.current(order);
+  }, []);
+
+  const settle = useCallback((order: Order, intent: PaymentIntent) => {
+    if (intent.status === 'succeeded') {
+      succeed(order);
+    } else if (intent.status === 'requires_action') {
+      setState('requires_action');
+    } else {
+      setState('failed');
+      setError(intent.failureReason ?? `Payment ${intent.status.replace(/_/g, ' ')}`);
+    }
+  }, [succeed]);
+
+  const fail = useCallback((order: Order, intentId: string | null, e: unknown) => {
+    setState('failed');
+    setError(message(e));
+    // A timed-out payment may still go through later; void it so a retry
+    // cannot charge twice, and start the retry with a fresh payment
+    if (e instanceof PaymentError && e.code === 'timeout' && intentId) {
+      provider.cancel(intentId).catch(() => undefined);
+      setCurrent({ order, intentId: null });
+    }
+  }, [provider]);
+
+  // Void an order that will not be paid: its payment if one was started, else the record itself
+  const abandon = useCallback(async ({ order, intentId }: { order: Order; intentId: string | null }) => {
+    if (intentId) {
+      await provider.cancel(intentId).catch(() => undefined);
+    } else {
+      setOrders((orders) => orders.map((o) => (o.id === order.id ? { ...o, status: 'canceled', updatedAt: Date.now() } : o)));
+    }
+  }, [provider, setOrders]);
+
+  /**
+   * Pay for the cart. The order is rebuilt on every attempt: a retry reuses
+   * the failed order only while the cart, coupon, tax and buyer are unchanged,
+   * otherwise that order is voided and the buyer sent back to review the new
+   * total rather than charged for it.
+   * @param createOrder - Builds the order from the current cart
+   * @param method - The payment method
+   */
+  const pay = useCallback(async (createOrder: () => Order, method: PaymentMethod) => {
+    const fresh = createOrder();
+    if (current && contents(current.order) !== contents(fresh)) {
+      await abandon(current);
+      setCurrent(null);
+      setState('idle');
+      setError('Your cart changed since the last attempt. Check the total and pay again.');
+      return;
+    }
+    if (fresh.lines.length === 0) {
+      setState('idle');
+      setError('There is nothing to pay for');
+      return;
+    }
+    const order = current?.order ?? fresh;
+    let intentId = current?.intentId ?? null;
+    if (!current) {
+      setOrders((orders) => [fresh, ...orders]);
+      setCurrent({ order, intentId: null });
+    }
+    setState('processing');
+    setError(null);
+    // Fully discounted orders with something in them need no payment
+    if (order.totals.total <= 0) {
+      const now = Date.now();
+      const free: Order = { ...order, status: 'paid', updatedAt: now, paidAt: now };
+      setOrders((orders) => orders.map((o) => (o.id === free.id ? free : o)));
+      succeed(free);
+      return;
+    }
+    try {
+      if (!intentId) {
+        const intent = await withTimeout(
+          provider.createIntent({ orderId: order.id, amount: toMinorUnits(order.totals.total), currency: order.currency }),
+          timeoutMs
+        );
+        intentId = intent.id;
+      }
+      setCurrent({ order, intentId });
+      settle(order, await withTimeout(provider.confirm(intentId, method), timeoutMs));
+    } catch (e) {
+      fail(order, intentId, e);
+    }
+  }, [current, provider, timeoutMs, setOrders, succeed, settle, fail, abandon]);
+
+  /**
+   * Answer the 3-D Secure challenge for the current payment
+   * @param approved - Whether the customer passed the challenge
+   */
+  const authenticate = useCallback(async (approved: boolean) => {
+    if (!current?.intentId) return;
+    setState('processing');
+    try {
+      settle(current.order, await withTimeout(provider.completeAction(current.intentId, approved), timeoutMs));
+    } catch (e) {
+      fail(current.order, current.intentId, e);
+    }
+  }, [current, provider, timeoutMs, settle, fail]);
+
+  /** Abandon the current order */
+  const cancel = useCallback(async () => {
+    if (current) await abandon(current);
+    setCurrent(null);
+    setState('idle');
+    setError(null);
+  }, [current, abandon]);
+
+  /** Dismiss the result of a finished checkout */
+  const reset = useCallback(() => {
+    setState('idle');
+    setError(null);
+  }, []);
+
+  return { state, error, order: current?.order ?? null, pay, authenticate, cancel, reset };
+}
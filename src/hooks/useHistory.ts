@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Coalescing key of the change that opened the current gesture */
+  lastKey: string | null;
+};
+
+type Options = {
+  /** Maximum number of undo steps kept */
+  limit?: number;
+};
+
+export type History<T> = {
+  present: T;
+  set: (update: T | ((prev: T) => T), coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: (value: T) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+// A gesture ends when the pointer goes down or up, or a control commits its
+// value (a range input on release or arrow key, a colour input when its picker closes)
+const GESTURE_EVENTS = ['pointerdown', 'pointerup', 'pointercancel', 'change'] as const;
+
+/**
+ * State with an undo/redo stack. Changes with the same coalesceKey inside one
+ * gesture (a slider drag, a colour picker session) are recorded as one step;
+ * each new drag or committed edit starts a new step.
+ * @param initial - The initial value
+ * @param options - Stack limit
+ * @returns The present value and history controls
+ */
+export function useHistory<T>(initial: T, { limit = 100 }: Options = {}): History<T> {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [], lastKey: null });
+
+  useEffect(() => {
+    const endGesture = () => setState((h) => (h.lastKey === null ? h : { ...h, lastKey: null }));
+    GESTURE_EVENTS.forEach((type) => window.addEventListener(type, endGesture));
+    return () => GESTURE_EVENTS.forEach((type) => window.removeEventListener(type, endGesture));
+  }, []);
+
+  const set = useCallback((update: T | ((prev: T) => T), coalesceKey?: string) => {
+    setState((h) => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(h.present) : update;
+      if (Object.is(next, h.present)) return h;
+      const key = coalesceKey ?? null;
+      if (key !== null && key === h.lastKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return { past: [...h.past, h.present].slice(-limit), present: next, future: [], lastKey: key };
+    });
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    setState((h) => {
+      if (h.past.length === 0) return h;
+      const previous = h.past[h.past.length - 1];
+      return { past: h.past.slice(0, -1), present: previous, future: [h.present, ...h.future], lastKey: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((h) => {
+      if (h.future.length === 0) return h;
+      const [next, ...future] = h.future;
+      return { past: [...h.past, h.present], present: next, future, lastKey: null };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [], lastKey: null });
+  }, []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+}
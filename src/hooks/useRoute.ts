@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import { parseRoute, routePath, type Route } from '../lib/router';
+
+/**
+ * The current route, kept in step with the address bar and browser history
+ * @returns The route and a navigate function; `replace` swaps the current history entry instead of adding one
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const onPopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((to: Route, options: { replace?: boolean } = {}) => {
+    const path = routePath(to);
+    if (path !== window.location.pathname) {
+      if (options.replace) window.history.replaceState(null, '', path);
+      else window.history.pushState(null, '', path);
+      window.scrollTo(0, 0);
+    }
+    setRoute(parseRoute(path));
+  }, []);
+
+  return { route, navigate };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadWorkspace, saveSlices, SLICES, type Workspace } from '../lib/storage';
+
+/**
+ * Restore the workspace from IndexedDB once, then save every slice that
+ * changes. Saving starts only after a successful restore so defaults never
+ * overwrite stored work; when the restore fails (a newer schema, IndexedDB
+ * unavailable) saving stays off for the session and loadError says why.
+ * @param workspace - Current slices; memoise it so unchanged slices keep their identity
+ * @param onRestore - Receives the stored slices on startup
+ * @returns Whether the restore finished, why it failed and the last save error
+ */
+export function useWorkspacePersistence(workspace: Workspace, onRestore: (ws: Partial<Workspace>) => void) {
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const saved = useRef<Partial<Workspace>>({});
+  const restore = useRef(onRestore);
+
+  useEffect(() => {
+    restore.current = onRestore;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then((ws) => {
+        if (cancelled) return;
+        if (ws) {
+          saved.current = ws;
+          restore.current(ws);
+        }
+        setReady(true);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setLoadError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = window.setTimeout(() => {
+      const changed: Partial<Workspace> = {};
+      for (const name of SLICES) {
+        if (saved.current[name] !== workspace[name]) Object.assign(changed, { [name]: workspace[name] });
+      }
+      if (Object.keys(changed).length === 0) return;
+      saved.current = { ...saved.current, ...changed };
+      saveSlices(changed)
+        .then(() => setError(null))
+        .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)));
+    }, 300);
+    return () => window.clearTimeout(timer);
+  }, [ready, workspace]);
+
+  return { ready, error, loadError };
+}
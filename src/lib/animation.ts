@@ -0,0 +1,289 @@
+import {
+  CANVAS_SIZE,
+  CENTER,
+  gradientMarkup,
+  layerShapes,
+  mandalaGradients,
+  motifShapes,
+  paletteColor,
+  shapeMarkup,
+  type MandalaGradient,
+  type MandalaLayer,
+  type MandalaShape,
+  type MandalaSpec
+} from './mandala';
+import { hexToRgb, rgbToHex } from './palette';
+import { clamp } from './utils';
+import { watermarkMarkup, type WatermarkSettings } from './watermark';
+
+/**
+ * Motion of one ring over a loop. Every effect completes a whole number of
+ * cycles per loop, so exported animations repeat without a visible seam.
+ */
+export type LayerAnimation = {
+  /** Segments the ring turns by per loop; negative turns anticlockwise */
+  spin: number;
+  /** Radial pulse as a fraction of the ring's size: one swell and shrink per loop */
+  pulse: number;
+  /** Step the ring's fill through the palette, starting at its own colour */
+  colorCycle: boolean;
+  /** Reveal the ring segment by segment over the first half of the loop */
+  bloom: boolean;
+};
+
+export type MandalaAnimation = {
+  /** Loop length in seconds */
+  duration: number;
+  /** Keyed by layer id; layers without an entry stand still */
+  layers: Record<string, LayerAnimation>;
+};
+
+/** What to draw at one moment of the loop */
+export type AnimationFrame = { shapes: MandalaShape[]; gradients: MandalaGradient[] };
+
+export const MIN_DURATION = 1;
+export const MAX_DURATION = 20;
+export const MAX_SPIN = 12;
+export const MAX_PULSE = 0.3;
+export const FRAME_RATES = [10, 15, 24, 30];
+/** Upper bound on exported frames, to keep GIF and ZIP sizes sane */
+export const MAX_FRAMES = 600;
+
+export const STILL: LayerAnimation = { spin: 0, pulse: 0, colorCycle: false, bloom: false };
+
+export const DEFAULT_ANIMATION: MandalaAnimation = { duration: 6, layers: {} };
+
+/**
+ * A ring's animation, or STILL when it has none
+ * @param animation - The animation
+ * @param layerId - The layer id
+ * @returns The ring's animation
+ */
+export function layerAnimation(animation: MandalaAnimation, layerId: string): LayerAnimation {
+  return animation.layers[layerId] ?? STILL;
+}
+
+/**
+ * Whether anything moves at all
+ * @param animation - The animation
+ * @param spec - The design, so entries for deleted layers are ignored
+ * @returns True when at least one ring is animated
+ */
+export function isAnimated(animation: MandalaAnimation, spec: MandalaSpec): boolean {
+  return spec.layers.some((l) => {
+    const a = layerAnimation(animation, l.id);
+    return a.spin !== 0 || a.pulse > 0 || a.colorCycle || a.bloom;
+  });
+}
+
+function coerceLayerAnimation(value: unknown): LayerAnimation | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  return {
+    spin: typeof v.spin === 'number' && Number.isFinite(v.spin) ? Math.round(clamp(v.spin, -MAX_SPIN, MAX_SPIN)) : 0,
+    pulse: typeof v.pulse === 'number' && Number.isFinite(v.pulse) ? clamp(v.pulse, 0, MAX_PULSE) : 0,
+    colorCycle: v.colorCycle === true,
+    bloom: v.bloom === true
+  };
+}
+
+/**
+ * Validate a stored animation
+ * @param value - Parsed JSON
+ * @returns The animation with every field in range, or null when the value is not an animation
+ */
+export function coerceAnimation(value: unknown): MandalaAnimation | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  const layers: Record<string, LayerAnimation> = {};
+  if (typeof v.layers === 'object' && v.layers !== null) {
+    for (const [id, entry] of Object.entries(v.layers)) {
+      const a = coerceLayerAnimation(entry);
+      if (a) layers[id] = a;
+    }
+  }
+  const duration = typeof v.duration === 'number' && Number.isFinite(v.duration) ? clamp(v.duration, MIN_DURATION, MAX_DURATION) : DEFAULT_ANIMATION.duration;
+  return { duration, layers };
+}
+
+/**
+ * Change one ring's animation
+ * @param animation - The animation
+ * @param layerId - The layer id
+ * @param patch - Fields to change
+ * @returns The updated animation
+ */
+export function updateLayerAnimation(animation: MandalaAnimation, layerId: string, patch: Partial<LayerAnimation>): MandalaAnimation {
+  return { ...animation, layers: { ...animation.layers, [layerId]: { ...layerAnimation(animation, layerId), ...patch } } };
+}
+
+/**
+ * Spin speed for display
+ * @param layer - The layer
+ * @param a - Its animation
+ * @param duration - Loop length in seconds
+ * @returns Degrees per second, clockwise positive
+ */
+export function spinDegreesPerSecond(layer: MandalaLayer, a: LayerAnimation, duration: number): number {
+  return (a.spin * 360) / layer.segments / duration;
+}
+
+const mix = (a: string, b: string, f: number) => {
+  const x = hexToRgb(a);
+  const y = hexToRgb(b);
+  return rgbToHex({ r: x.r + (y.r - x.r) * f, g: x.g + (y.g - x.g) * f, b: x.b + (y.b - x.b) * f });
+};
+
+// Colours the cycle passes through, one per palette entry, starting at the ring's own
+function cycleColors(layer: MandalaLayer, palette: string[]): string[] {
+  return palette.map((_, k) => paletteColor(palette, layer.fill.from + k));
+}
+
+function pulseScale(a: LayerAnimation, phase: number): number {
+  return 1 + a.pulse * Math.sin(phase * Math.PI * 2);
+}
+
+// Segment i of n fades in over its own slot in the first half of the loop
+function bloomOpacity(i: number, n: number, phase: number): number {
+  const slot = 0.5 / n;
+  return clamp((phase - i * slot) / slot, 0, 1);
+}
+
+/**
+ * Shapes of the mandala at one moment of the loop; the motif does not move
+ * @param spec - The mandala spec
+ * @param animation - The animation
+ * @param time - Seconds since the loop started; wraps around
+ * @returns Shapes and the gradients they reference
+ */
+export function animationFrame(spec: MandalaSpec, animation: MandalaAnimation, time: number): AnimationFrame {
+  const phase = (((time / animation.duration) % 1) + 1) % 1;
+  const shapes: MandalaShape[] = [];
+  const gradients = new Map<string, MandalaGradient>();
+  for (const layer of spec.layers) {
+    const a = layerAnimation(animation, layer.id);
+    const scale = pulseScale(a, phase);
+    const moved: MandalaLayer = {
+      ...layer,
+      innerRadius: layer.innerRadius * scale,
+      outerRadius: layer.outerRadius * scale,
+      rotation: layer.rotation + (a.spin * 360 * phase) / layer.segments
+    };
+    let color: string | null = null;
+    if (a.colorCycle && spec.palette.length > 1) {
+      const colors = cycleColors(layer, spec.palette);
+      const at = phase * colors.length;
+      const k = Math.floor(at);
+      color = mix(colors[k % colors.length], colors[(k + 1) % colors.length], at - k);
+    } else {
+      for (const g of mandalaGradients({ ...spec, layers: [moved] })) gradients.set(g.id, g);
+    }
+    layerShapes(moved, spec.palette).forEach((s, i) => {
+      const opacity = a.bloom ? s.opacity * bloomOpacity(i, layer.segments, phase) : s.opacity;
+      if (opacity <= 0) return;
+      const paint = color && s.kind === 'path' && s.stroke ? { stroke: color } : color ? { fill: color } : {};
+      shapes.push({ ...s, ...paint, opacity } as MandalaShape);
+    });
+  }
+  shapes.push(...motifShapes(spec));
+  return { shapes, gradients: [...gradients.values()] };
+}
+
+/**
+ * Times of the frames of one loop
+ * @param duration - Loop length in seconds
+ * @param fps - Frames per second
+ * @returns Frame times in seconds, at most MAX_FRAMES of them
+ */
+export function frameTimes(duration: number, fps: number): number[] {
+  const count = Math.min(MAX_FRAMES, Math.max(1, Math.round(duration * fps)));
+  return Array.from({ length: count }, (_, i) => (i * duration) / count);
+}
+
+/**
+ * One frame as a standalone SVG document, ready for rasterizeSVG
+ * @param spec - The mandala spec
+ * @param animation - The animation
+ * @param time - Seconds since the loop started
+ * @param size - Output size in pixels
+ * @param background - 'transparent' or a CSS colour
+ * @param watermark - Watermark settings, or null for a clean frame
+ * @returns SVG markup
+ */
+export function frameSVG(spec: MandalaSpec, animation: MandalaAnimation, time: number, size: number, background: string, watermark: WatermarkSettings | null): string {
+  const frame = animationFrame(spec, animation, time);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">`,
+    background === 'transparent' ? '' : `<rect width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" fill="${background}"/>`,
+    frame.gradients.length > 0 ? `<defs>${frame.gradients.map(gradientMarkup).join('')}</defs>` : '',
+    ...frame.shapes.map(shapeMarkup),
+    `<circle cx="${CENTER}" cy="${CENTER}" r="6" fill="#fff" opacity="0.3"/>`,
+    watermark ? watermarkMarkup(watermark, CANVAS_SIZE, CANVAS_SIZE) : '',
+    '</svg>'
+  ].join('');
+}
+
+const pct = (n: number) => `${Math.round(n * 10000) / 100}%`;
+
+/**
+ * The animation as one SVG file driven by CSS keyframes. Viewers that ask for
+ * reduced motion get the still design.
+ * @param spec - The mandala spec
+ * @param animation - The animation
+ * @param watermark - Watermark settings, or null for a clean file
+ * @returns SVG file contents
+ */
+export function animatedSVG(spec: MandalaSpec, animation: MandalaAnimation, watermark: WatermarkSettings | null): string {
+  const dur = `${animation.duration}s`;
+  const origin = `transform-origin:${CENTER}px ${CENTER}px;transform-box:view-box`;
+  const css: string[] = [];
+  const body: string[] = [];
+  spec.layers.forEach((layer, li) => {
+    const a = layerAnimation(animation, layer.id);
+    const cycle = a.colorCycle && spec.palette.length > 1;
+    let shapes = layerShapes(layer, spec.palette).map((s, i) => {
+      const cls = a.bloom ? ` class="ml-b${li}-${i}"` : '';
+      if (!cycle) return shapeMarkup(s).replace(/^<(\w+)/, `<$1${cls}`);
+      const paint = s.kind === 'path' && s.stroke ? { stroke: 'inherit' } : { fill: 'inherit' };
+      return shapeMarkup({ ...s, ...paint } as MandalaShape).replace(/^<(\w+)/, `<$1${cls}`);
+    }).join('');
+    if (a.bloom) {
+      const n = layer.segments;
+      for (let i = 0; i < n; i++) {
+        const start = (i * 0.5) / n;
+        css.push(`@keyframes ml-b${li}-${i}{${start > 0 ? `0%,${pct(start)}` : '0%'}{opacity:0}${pct(start + 0.5 / n)},100%{opacity:${layer.opacity}}}`,
+          `.ml-b${li}-${i}{animation:ml-b${li}-${i} ${dur} linear infinite}`);
+      }
+    }
+    if (cycle) {
+      const colors = cycleColors(layer, spec.palette);
+      const stops = [...colors, colors[0]].map((c, k) => `${pct(k / colors.length)}{fill:${c};stroke:${c}}`).join('');
+      css.push(`@keyframes ml-c${li}{${stops}}`, `.ml-c${li}{animation:ml-c${li} ${dur} linear infinite}`);
+      shapes = `<g class="ml-c${li}" fill="${colors[0]}" stroke="${colors[0]}">${shapes}</g>`;
+    }
+    if (a.pulse > 0) {
+      css.push(`@keyframes ml-p${li}{0%,50%,100%{transform:scale(1)}25%{transform:scale(${1 + a.pulse})}75%{transform:scale(${1 - a.pulse})}}`,
+        `.ml-p${li}{animation:ml-p${li} ${dur} ease-in-out infinite;${origin}}`);
+      shapes = `<g class="ml-p${li}">${shapes}</g>`;
+    }
+    if (a.spin !== 0) {
+      css.push(`@keyframes ml-s${li}{to{transform:rotate(${Math.round(((a.spin * 360) / layer.segments) * 100) / 100}deg)}}`,
+        `.ml-s${li}{animation:ml-s${li} ${dur} linear infinite;${origin}}`);
+      shapes = `<g class="ml-s${li}">${shapes}</g>`;
+    }
+    body.push(shapes);
+  });
+  css.push('@media (prefers-reduced-motion:reduce){*{animation:none!important}}');
+  const gradients = mandalaGradients(spec);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">`,
+    `<style>${css.join('')}</style>`,
+    gradients.length > 0 ? `<defs>${gradients.map(gradientMarkup).join('')}</defs>` : '',
+    ...body,
+    ...motifShapes(spec).map(shapeMarkup),
+    `<circle cx="${CENTER}" cy="${CENTER}" r="6" fill="#fff" opacity="0.3"/>`,
+    watermark ? watermarkMarkup(watermark, CANVAS_SIZE, CANVAS_SIZE) : '',
+    '</svg>\n'
+  ].join('');
+}
@@ -0,0 +1,78 @@
+import { animatedSVG, frameSVG, frameTimes, type MandalaAnimation } from './animation';
+import { encodeGif } from './gif';
+import type { MandalaSpec } from './mandala';
+import { rasterizeSVG, renderPixels } from './rasterExport';
+import type { WatermarkSettings } from './watermark';
+import { muxAnimatedWebP } from './webp';
+import { createZip } from './zip';
+
+export type AnimationFormat = 'svg' | 'gif' | 'webp' | 'png-frames';
+
+export type AnimationExportOptions = {
+  format: AnimationFormat;
+  fps: number;
+  /** Output size in pixels; the animated SVG ignores it */
+  size: number;
+  /** 'transparent' or a CSS colour */
+  background: string;
+};
+
+export const ANIMATION_FORMATS: { id: AnimationFormat; label: string; extension: string }[] = [
+  { id: 'svg', label: 'Animated SVG (CSS)', extension: 'svg' },
+  { id: 'gif', label: 'Animated GIF', extension: 'gif' },
+  { id: 'webp', label: 'Animated WebP', extension: 'webp' },
+  { id: 'png-frames', label: 'PNG frames (ZIP)', extension: 'zip' }
+];
+
+export const ANIMATION_SIZES = [240, 420, 640, 1080];
+
+// The GIF encoder needs every frame in memory to pick one palette for all of them
+const MAX_GIF_PIXELS = 120_000_000;
+
+export const DEFAULT_ANIMATION_EXPORT: AnimationExportOptions = { format: 'gif', fps: 15, size: 420, background: '#ffffff' };
+
+/**
+ * Render the animation to a file
+ * @param spec - The mandala spec
+ * @param animation - The animation
+ * @param options - Export options
+ * @param watermark - Watermark drawn on every frame, or null for a clean file
+ * @param onProgress - Called with the fraction of frames rendered
+ * @returns The file
+ */
+export async function exportAnimation(
+  spec: MandalaSpec,
+  animation: MandalaAnimation,
+  options: AnimationExportOptions,
+  watermark: WatermarkSettings | null,
+  onProgress: (done: number) => void = () => {}
+): Promise<Blob> {
+  if (options.format === 'svg') return new Blob([animatedSVG(spec, animation, watermark)], { type: 'image/svg+xml' });
+  const times = frameTimes(animation.duration, options.fps);
+  const delay = 1000 / options.fps;
+  const { size, background } = options;
+  const svgAt = (t: number) => frameSVG(spec, animation, t, size, background, watermark);
+
+  if (options.format === 'gif') {
+    if (times.length * size * size > MAX_GIF_PIXELS) throw new Error('Too many frames for a GIF at this size; lower the size, frame rate or loop length');
+    const frames = [];
+    for (const [i, t] of times.entries()) {
+      frames.push({ data: (await renderPixels(svgAt(t), size, size)).data, delay });
+      onProgress((i + 1) / times.length);
+    }
+    return new Blob([encodeGif(size, size, frames)], { type: 'image/gif' });
+  }
+
+  const stills: Uint8Array<ArrayBuffer>[] = [];
+  for (const [i, t] of times.entries()) {
+    const blob = await rasterizeSVG(svgAt(t), size, size, options.format === 'webp' ? 'webp' : 'png', 0.9);
+    stills.push(new Uint8Array(await blob.arrayBuffer()));
+    onProgress((i + 1) / times.length);
+  }
+  if (options.format === 'webp') {
+    return new Blob([muxAnimatedWebP(size, size, stills.map((bytes) => ({ bytes, delay })))], { type: 'image/webp' });
+  }
+  const digits = String(stills.length).length;
+  const entries = stills.map((data, i) => ({ path: `frame-${String(i + 1).padStart(Math.max(4, digits), '0')}.png`, data }));
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+}
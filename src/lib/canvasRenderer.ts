@@ -0,0 +1,93 @@
+import type { MandalaGeometry } from './geometry';
+import { CANVAS_SIZE, CENTER, type MandalaGradient } from './mandala';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Path2D objects parsed from template path data, shared across redraws
+const pathCache = new Map<string, Path2D>();
+const MAX_CACHED_PATHS = 2000;
+
+function path(d: string): Path2D {
+  let p = pathCache.get(d);
+  if (!p) {
+    if (pathCache.size >= MAX_CACHED_PATHS) pathCache.clear();
+    p = new Path2D(d);
+    pathCache.set(d, p);
+  }
+  return p;
+}
+
+function canvasGradient(ctx: Context2D, g: MandalaGradient): CanvasGradient {
+  const gradient = g.kind === 'radial'
+    ? ctx.createRadialGradient(g.cx, g.cy, 0, g.cx, g.cy, g.r)
+    : ctx.createLinearGradient(g.x1, g.y1, g.x2, g.y2);
+  for (const stop of g.stops) gradient.addColorStop(stop.offset, stop.color);
+  return gradient;
+}
+
+/**
+ * Draw a mandala onto a 2D canvas context. Works on the main thread and in a
+ * worker with an OffscreenCanvas; the result matches the SVG renderer.
+ * @param ctx - The context
+ * @param geometry - The geometry to draw
+ * @param size - Canvas width and height in pixels
+ * @param background - 'transparent' or a CSS colour
+ */
+export function drawMandala(ctx: Context2D, geometry: MandalaGeometry, size: number, background: string): void {
+  const paints = new Map(geometry.gradients.map((g) => [`url(#${g.id})`, canvasGradient(ctx, g)]));
+  const paint = (value: string) => paints.get(value) ?? value;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, size, size);
+  if (background !== 'transparent') {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size, size);
+  }
+  const scale = size / CANVAS_SIZE;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  const place = (rotate: number, mirror: boolean) => {
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    if (rotate !== 0) {
+      ctx.translate(CENTER, CENTER);
+      ctx.rotate((rotate * Math.PI) / 180);
+      ctx.translate(-CENTER, -CENTER);
+    }
+    if (mirror) ctx.transform(1, 0, 0, -1, 0, CANVAS_SIZE);
+  };
+
+  for (const { template, copies } of geometry.groups) {
+    ctx.globalAlpha = template.opacity;
+    if (template.kind === 'circle') {
+      ctx.fillStyle = paint(template.fill);
+      for (const copy of copies) {
+        place(copy.rotate, copy.mirror);
+        ctx.beginPath();
+        ctx.arc(template.cx, template.cy, template.r, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      continue;
+    }
+    const shape = path(template.d);
+    const filled = template.fill !== 'none';
+    if (filled) ctx.fillStyle = paint(template.fill);
+    if (template.stroke) {
+      ctx.strokeStyle = paint(template.stroke);
+      ctx.lineWidth = template.strokeWidth ?? 1;
+    }
+    for (const copy of copies) {
+      place(copy.rotate, copy.mirror);
+      if (filled) ctx.fill(shape);
+      if (template.stroke) ctx.stroke(shape);
+    }
+  }
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.globalAlpha = 0.3;
+  ctx.fillStyle = '#fff';
+  ctx.beginPath();
+  ctx.arc(CENTER, CENTER, 6, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.globalAlpha = 1;
+}
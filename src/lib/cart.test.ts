@@ -0,0 +1,196 @@
+import { describe, expect, test } from 'vitest';
+import {
+  addToCart,
+  cartItemCount,
+  changeQuantity,
+  formatMoney,
+  lineId,
+  priceLabel,
+  setQuantity,
+  STORE_ITEMS,
+  summarizeCart,
+  summarizeCheckout,
+  taxRuleById,
+  type CheckoutSettings
+} from './cart';
+import { DEFAULT_LICENSES } from './licenses';
+import { DEFAULT_SPEC, type MandalaSpec } from './mandala';
+import { createOrder, withdrawnProducts, type Order } from './orders';
+import type { CartItem, License, StoreItem } from '../types';
+
+const [standard, editorial, exclusive] = DEFAULT_LICENSES;
+const [printA4, printA3, svgPack] = STORE_ITEMS;
+
+function cartOf(...adds: [StoreItem, License][]): CartItem[] {
+  return adds.reduce<CartItem[]>((cart, [item, license]) => {
+    const result = addToCart(cart, item, license);
+    expect(result.error).toBeNull();
+    return result.cart;
+  }, []);
+}
+
+function settings(patch: Partial<CheckoutSettings> = {}): CheckoutSettings {
+  return { currency: 'USD', locale: 'en-US', taxRuleId: 'none', couponCode: '', ...patch };
+}
+
+describe('addToCart', () => {
+  test('merges a product bought twice under the same license into one line', () => {
+    const cart = cartOf([printA4, standard], [printA4, standard]);
+    expect(cart).toHaveLength(1);
+    expect(cart[0]).toMatchObject({ id: lineId(printA4.id, standard.id), quantity: 2, price: 39, kind: 'physical' });
+  });
+
+  test('keeps a product bought under two licenses on separate lines', () => {
+    const cart = cartOf([svgPack, standard], [svgPack, editorial]);
+    expect(cart.map((c) => c.licenseId)).toEqual([standard.id, editorial.id]);
+  });
+
+  test('refuses prints under a license that forbids them', () => {
+    const result = addToCart([], printA4, editorial);
+    expect(result.cart).toEqual([]);
+    expect(result.error).toBe('Editorial License does not allow prints');
+  });
+
+  test('refuses a print beyond the license print run', () => {
+    const full = setQuantity(cartOf([printA4, standard]), lineId(printA4.id, standard.id), 250);
+    const result = addToCart(full, printA4, standard);
+    expect(result.cart).toBe(full);
+    expect(result.error).toBe('Standard Commercial allows at most 250 prints per purchase');
+  });
+
+  test('counts the print run across every print product under the license', () => {
+    let cart = setQuantity(cartOf([printA4, standard]), lineId(printA4.id, standard.id), 200);
+    cart = setQuantity(addToCart(cart, printA3, standard).cart, lineId(printA3.id, standard.id), 50);
+    expect(addToCart(cart, printA3, standard).error).toBe('Standard Commercial allows at most 250 prints per purchase');
+    expect(addToCart(cart, svgPack, standard).error).toBeNull();
+
+    const over = setQuantity(cart, lineId(printA3.id, standard.id), 200);
+    const summary = summarizeCheckout(over, DEFAULT_LICENSES, settings());
+    expect(summary.blocked.map((l) => l.line.productId)).toEqual([printA4.id, printA3.id]);
+  });
+
+  test('refuses a product not offered under the license', () => {
+    const item: StoreItem = { id: 'asset-1', name: 'Lotus', price: 20, kind: 'digital', licenseIds: [standard.id] };
+    expect(addToCart([], item, editorial).error).toBe('Lotus is not offered under Editorial License');
+  });
+});
+
+describe('quantities', () => {
+  test('a quantity of zero or less removes the line', () => {
+    const cart = cartOf([svgPack, standard]);
+    const id = cart[0].id;
+    expect(changeQuantity(cart, id, -1)).toEqual([]);
+    expect(setQuantity(cart, id, Number.NaN)).toEqual([]);
+    expect(setQuantity(cart, id, 3.7)[0].quantity).toBe(3);
+  });
+
+  test('counts units, not lines', () => {
+    expect(cartItemCount(cartOf([printA4, standard], [printA4, standard], [svgPack, standard]))).toBe(3);
+    expect(cartItemCount([])).toBe(0);
+  });
+});
+
+describe('totals', () => {
+  const cart = cartOf([printA4, standard], [printA4, standard], [svgPack, standard]);
+
+  test('applies a percentage coupon before tax on every product kind', () => {
+    const summary = summarizeCheckout(cart, DEFAULT_LICENSES, settings({ couponCode: ' mandala10 ', taxRuleId: 'uk-vat' }));
+    expect(summary).toMatchObject({ subtotal: 90, discount: 9, tax: 16.2, total: 97.2, couponError: null });
+    expect(summary.coupon?.code).toBe('MANDALA10');
+  });
+
+  test('taxes only the kinds a rule covers, on the discounted amount', () => {
+    const summary = summarizeCheckout(cart, DEFAULT_LICENSES, settings({ couponCode: 'MANDALA10', taxRuleId: 'us-ca' }));
+    // 78 of prints, 10% off, at 7.25%
+    expect(summary.tax).toBe(5.09);
+    expect(summary.total).toBe(86.09);
+  });
+
+  test('prices lines with the license multiplier', () => {
+    const summary = summarizeCheckout(cartOf([svgPack, editorial]), DEFAULT_LICENSES, settings());
+    expect(summary.lines[0]).toMatchObject({ unitPrice: 7.2, total: 7.2, error: null });
+    expect(summary.total).toBe(7.2);
+  });
+
+  test('explains a coupon below its minimum subtotal', () => {
+    const summary = summarizeCheckout(cartOf([svgPack, standard]), DEFAULT_LICENSES, settings({ couponCode: 'WELCOME5' }));
+    expect(summary.discount).toBe(0);
+    expect(summary.couponError).toBe('Coupon WELCOME5 needs a subtotal of at least 20');
+  });
+
+  test('leaves on-request lines out of the totals', () => {
+    const summary = summarizeCheckout(cartOf([svgPack, exclusive], [svgPack, standard]), DEFAULT_LICENSES, settings());
+    expect(summary.onRequest.map((l) => l.line.licenseId)).toEqual([exclusive.id]);
+    expect(summary.total).toBe(12);
+  });
+
+  test('blocks lines whose license was retired or deleted', () => {
+    const lines = cartOf([svgPack, standard], [svgPack, editorial]);
+    const licenses = [{ ...standard, status: 'retired' as const }];
+    const summary = summarizeCart(lines, { licenses, taxRule: taxRuleById('none'), couponCode: '' });
+    expect(summary.blocked.map((l) => l.error)).toEqual([
+      'Standard Commercial is retired and can no longer be purchased',
+      'License editorial no longer exists'
+    ]);
+  });
+
+  test('falls back to no tax for an unknown rule', () => {
+    expect(taxRuleById('atlantis').id).toBe('none');
+  });
+});
+
+describe('money', () => {
+  test('converts from the base currency and formats for the locale', () => {
+    expect(formatMoney(12, { currency: 'USD', locale: 'en-US' })).toBe('$12.00');
+    expect(formatMoney(12, { currency: 'EUR', locale: 'de-DE' })).toBe('11,04\u00a0€');
+    expect(formatMoney(12, { currency: 'JPY', locale: 'en-US' })).toBe('¥1,800');
+  });
+
+  test('labels store prices under the selected license', () => {
+    expect(priceLabel(printA4, null, settings())).toBe('$39.00');
+    expect(priceLabel(printA4, editorial, settings({ currency: 'GBP', locale: 'en-GB' }))).toBe('£18.49');
+    expect(priceLabel(printA4, exclusive, settings())).toBe('Price on request');
+  });
+});
+
+describe('exclusive sales', () => {
+  // An exclusive license with a price, so it can be paid for at checkout
+  const buyout: License = { ...exclusive, id: 'buyout', name: 'Buyout', pricing: { kind: 'multiplier', multiplier: 10 } };
+  const licenses = [...DEFAULT_LICENSES, buyout];
+  const buyer = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+  function paidOrder(cart: CartItem[], design: MandalaSpec, status: Order['status'] = 'paid'): Order {
+    const summary = summarizeCheckout(cart, licenses, settings());
+    return { ...createOrder({ summary, settings: settings(), licenses, provider: 'Mock', buyer, design }), status };
+  }
+
+  test('withdraws every store product of a design bought exclusively', () => {
+    const design = DEFAULT_SPEC;
+    const orders = [paidOrder(cartOf([printA4, buyout]), design)];
+    expect(withdrawnProducts(orders, licenses, design)).toEqual(STORE_ITEMS.map((it) => it.id));
+    expect(withdrawnProducts(orders, licenses, { ...design, palette: ['#000000'] })).toEqual([]);
+  });
+
+  test('ignores unpaid, refunded and non-exclusive orders', () => {
+    const design = DEFAULT_SPEC;
+    const orders = [
+      paidOrder(cartOf([printA4, buyout]), design, 'failed'),
+      paidOrder(cartOf([printA4, buyout]), design, 'refunded'),
+      paidOrder(cartOf([printA4, standard]), design)
+    ];
+    expect(withdrawnProducts(orders, licenses, design)).toEqual([]);
+  });
+
+  test('withdraws only the published asset bought exclusively', () => {
+    const asset: StoreItem = { id: 'asset-1', name: 'Lotus', price: 20, kind: 'digital' };
+    const design = DEFAULT_SPEC;
+    expect(withdrawnProducts([paidOrder(cartOf([asset, buyout]), design)], licenses, design)).toEqual(['asset-1']);
+  });
+
+  test('blocks withdrawn products in the cart and at checkout', () => {
+    const withdrawn = [printA4.id];
+    expect(addToCart([], printA4, standard, withdrawn)).toEqual({ cart: [], error: 'Fine Art Print A4 is licensed exclusively and no longer for sale' });
+    const summary = summarizeCheckout(cartOf([printA4, standard], [svgPack, standard]), licenses, settings(), withdrawn);
+    expect(summary.blocked.map((l) => l.line.productId)).toEqual([printA4.id]);
+  });
+});
@@ -0,0 +1,321 @@
+import { findLicense, licenseRuleError } from './licenses';
+import { formatCurrency } from './utils';
+import type { CartItem, License, ProductKind, StoreItem } from '../types';
+
+export type TaxRule = {
+  id: string;
+  label: string;
+  /** Rate as a fraction, e.g. 0.2 for 20% */
+  rate: number;
+  /** Product kinds the rate applies to */
+  appliesTo: ProductKind[];
+};
+
+export type Coupon = {
+  code: string;
+  kind: 'percent' | 'fixed';
+  /** Percentage (0-100) or fixed amount in the base currency */
+  value: number;
+  /** Minimum subtotal in the base currency before the coupon applies */
+  minSubtotal?: number;
+};
+
+export type CurrencyOption = {
+  code: string;
+  label: string;
+  /** Units of this currency per unit of BASE_CURRENCY */
+  rate: number;
+};
+
+export type SummaryLine = {
+  line: CartItem;
+  /** Unit price after the license modifier, or null when priced on request */
+  unitPrice: number | null;
+  total: number | null;
+  /** License rule the line breaks, e.g. a print under a license without print rights */
+  error: string | null;
+};
+
+export type OrderSummary = {
+  lines: SummaryLine[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  /** Lines whose license is priced on request and excluded from the totals */
+  onRequest: SummaryLine[];
+  /** Lines that break their license's rules; checkout is blocked while any exist */
+  blocked: SummaryLine[];
+  coupon: Coupon | null;
+  couponError: string | null;
+  taxRule: TaxRule;
+};
+
+export const BASE_CURRENCY = 'USD';
+
+/** Fixed catalogue; published CMS assets are added as digital products */
+export const STORE_ITEMS: StoreItem[] = [
+  { id: 'print-a4', name: 'Fine Art Print A4', price: 39, kind: 'physical', printPreset: 'a4' },
+  { id: 'print-a3', name: 'Fine Art Print A3', price: 59, kind: 'physical', printPreset: 'a3' },
+  { id: 'svg-asset', name: 'SVG Asset Pack', price: 12, kind: 'digital' }
+];
+
+export const CURRENCIES: CurrencyOption[] = [
+  { code: 'USD', label: 'US dollar', rate: 1 },
+  { code: 'EUR', label: 'Euro', rate: 0.92 },
+  { code: 'GBP', label: 'Pound sterling', rate: 0.79 },
+  { code: 'JPY', label: 'Japanese yen', rate: 150 }
+];
+
+export const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'];
+
+export const TAX_RULES: TaxRule[] = [
+  { id: 'none', label: 'No tax', rate: 0, appliesTo: [] },
+  { id: 'us-ca', label: 'California sales tax (7.25%, physical goods)', rate: 0.0725, appliesTo: ['physical'] },
+  { id: 'uk-vat', label: 'UK VAT (20%)', rate: 0.2, appliesTo: ['physical', 'digital'] },
+  { id: 'de-vat', label: 'Germany VAT (19%)', rate: 0.19, appliesTo: ['physical', 'digital'] }
+];
+
+export const COUPONS: Coupon[] = [
+  { code: 'MANDALA10', kind: 'percent', value: 10 },
+  { code: 'WELCOME5', kind: 'fixed', value: 5, minSubtotal: 20 }
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Id of the cart line for a product bought under a license
+ * @param productId - The product id
+ * @param licenseId - The license id
+ * @returns The line id
+ */
+export function lineId(productId: string, licenseId: string): string {
+  return `${productId}:${licenseId}`;
+}
+
+/**
+ * Physical units bought under a license across the whole cart; print-run
+ * limits apply per purchase, not per product
+ * @param cart - The cart
+ * @param licenseId - The license id
+ * @returns The number of prints
+ */
+export function printsUnderLicense(cart: CartItem[], licenseId: string): number {
+  return cart.reduce((n, c) => n + (c.kind === 'physical' && c.licenseId === licenseId ? c.quantity : 0), 0);
+}
+
+const withdrawnError = (name: string) => `${name} is licensed exclusively and no longer for sale`;
+
+/**
+ * Add one unit of a product under a license, merging with an existing line
+ * @param cart - The cart
+ * @param item - The store product
+ * @param license - The license the product is bought under
+ * @param withdrawn - Ids of products sold under an exclusive license
+ * @returns The updated cart, unchanged with an error when the license forbids it
+ */
+export function addToCart(cart: CartItem[], item: StoreItem, license: License, withdrawn: string[] = []): { cart: CartItem[]; error: string | null } {
+  if (withdrawn.includes(item.id)) return { cart, error: withdrawnError(item.name) };
+  if (item.licenseIds && !item.licenseIds.includes(license.id)) return { cart, error: `${item.name} is not offered under ${license.name}` };
+  const id = lineId(item.id, license.id);
+  const existing = cart.find((c) => c.id === id);
+  const error = licenseRuleError(license, item, printsUnderLicense(cart, license.id) + 1);
+  if (error) return { cart, error };
+  if (existing) return { cart: changeQuantity(cart, id, 1), error: null };
+  return {
+    cart: [...cart, { id, productId: item.id, name: item.name, price: item.price, quantity: 1, licenseId: license.id, kind: item.kind }],
+    error: null
+  };
+}
+
+/**
+ * Set a line's quantity; zero or less removes the line
+ * @param cart - The cart
+ * @param id - The line id
+ * @param quantity - The new quantity
+ * @returns The updated cart
+ */
+export function setQuantity(cart: CartItem[], id: string, quantity: number): CartItem[] {
+  const q = Math.floor(quantity);
+  if (!Number.isFinite(q) || q <= 0) return removeLine(cart, id);
+  return cart.map((c) => (c.id === id ? { ...c, quantity: q } : c));
+}
+
+/**
+ * Increment or decrement a line's quantity
+ * @param cart - The cart
+ * @param id - The line id
+ * @param delta - Units to add (negative to remove)
+ * @returns The updated cart
+ */
+export function changeQuantity(cart: CartItem[], id: string, delta: number): CartItem[] {
+  const line = cart.find((c) => c.id === id);
+  return line ? setQuantity(cart, id, line.quantity + delta) : cart;
+}
+
+/**
+ * Remove one line
+ * @param cart - The cart
+ * @param id - The line id
+ * @returns The updated cart
+ */
+export function removeLine(cart: CartItem[], id: string): CartItem[] {
+  return cart.filter((c) => c.id !== id);
+}
+
+/**
+ * Unit price of a product under a license
+ * @param basePrice - Product price in the base currency
+ * @param license - The license, if known
+ * @returns The price, or null when the license is priced on request
+ */
+export function licensedUnitPrice(basePrice: number, license: License | undefined): number | null {
+  if (!license) return basePrice;
+  if (license.pricing.kind === 'on-request') return null;
+  return round2(basePrice * license.pricing.multiplier);
+}
+
+/**
+ * Look up a coupon code
+ * @param code - Code as typed by the customer
+ * @param subtotal - Current subtotal in the base currency
+ * @returns The coupon or a reason it cannot be used
+ */
+export function findCoupon(code: string, subtotal: number): { coupon: Coupon | null; error: string | null } {
+  const normalized = code.trim().toUpperCase();
+  if (!normalized) return { coupon: null, error: null };
+  const coupon = COUPONS.find((c) => c.code === normalized);
+  if (!coupon) return { coupon: null, error: `Coupon ${normalized} is not valid` };
+  if (coupon.minSubtotal && subtotal < coupon.minSubtotal) {
+    return { coupon: null, error: `Coupon ${normalized} needs a subtotal of at least ${coupon.minSubtotal}` };
+  }
+  return { coupon, error: null };
+}
+
+/**
+ * Price the cart: license modifiers, coupon discount (before tax) and tax.
+ * Amounts are in the base currency, rounded to cents.
+ * @param cart - The cart
+ * @param options - Licenses for lookup, tax rule, coupon code and products withdrawn by exclusive sales
+ * @returns The order summary
+ */
+export function summarizeCart(
+  cart: CartItem[],
+  options: { licenses: License[]; taxRule: TaxRule; couponCode: string; withdrawn?: string[] }
+): OrderSummary {
+  const lines = cart.map((line): SummaryLine => {
+    const license = findLicense(options.licenses, line.licenseId) ?? undefined;
+    const unitPrice = licensedUnitPrice(line.price, license);
+    return {
+      line,
+      unitPrice,
+      total: unitPrice === null ? null : round2(unitPrice * line.quantity),
+      error: options.withdrawn?.includes(line.productId)
+        ? withdrawnError(line.name)
+        : license ? licenseRuleError(license, line, printsUnderLicense(cart, license.id)) : `License ${line.licenseId} no longer exists`
+    };
+  });
+  const priced = lines.filter((l) => l.total !== null);
+  const subtotal = round2(priced.reduce((sum, l) => sum + (l.total ?? 0), 0));
+  const { coupon, error } = findCoupon(options.couponCode, subtotal);
+  const discount = !coupon
+    ? 0
+    : round2(Math.min(subtotal, coupon.kind === 'percent' ? (subtotal * coupon.value) / 100 : coupon.value));
+
+  // Spread the discount over lines by value so tax is charged on what is paid
+  const share = subtotal > 0 ? (subtotal - discount) / subtotal : 0;
+  const taxable = priced
+    .filter((l) => options.taxRule.appliesTo.includes(l.line.kind))
+    .reduce((sum, l) => sum + (l.total ?? 0) * share, 0);
+  const tax = round2(taxable * options.taxRule.rate);
+
+  return {
+    lines,
+    subtotal,
+    discount,
+    tax,
+    total: round2(subtotal - discount + tax),
+    onRequest: lines.filter((l) => l.total === null),
+    blocked: lines.filter((l) => l.error !== null),
+    coupon,
+    couponError: error,
+    taxRule: options.taxRule
+  };
+}
+
+/**
+ * Convert an amount from the base currency
+ * @param amount - Amount in BASE_CURRENCY
+ * @param currency - Target currency code
+ * @returns The converted amount
+ */
+export function convertAmount(amount: number, currency: string): number {
+  const rate = CURRENCIES.find((c) => c.code === currency)?.rate ?? 1;
+  return amount * rate;
+}
+
+export type CheckoutSettings = {
+  currency: string;
+  locale: string;
+  taxRuleId: string;
+  couponCode: string;
+};
+
+export const DEFAULT_CHECKOUT_SETTINGS: CheckoutSettings = {
+  currency: BASE_CURRENCY,
+  locale: 'en-US',
+  taxRuleId: 'none',
+  couponCode: ''
+};
+
+/**
+ * Tax rule chosen at checkout
+ * @param id - Tax rule id
+ * @returns The rule, or the first rule when the id is unknown
+ */
+export function taxRuleById(id: string): TaxRule {
+  return TAX_RULES.find((t) => t.id === id) ?? TAX_RULES[0];
+}
+
+/**
+ * Price the cart under the customer's checkout settings
+ * @param cart - The cart
+ * @param licenses - License catalog
+ * @param settings - Tax rule and coupon code
+ * @param withdrawn - Ids of products sold under an exclusive license
+ * @returns The order summary
+ */
+export function summarizeCheckout(cart: CartItem[], licenses: License[], settings: CheckoutSettings, withdrawn: string[] = []): OrderSummary {
+  return summarizeCart(cart, { licenses, taxRule: taxRuleById(settings.taxRuleId), couponCode: settings.couponCode, withdrawn });
+}
+
+/**
+ * Format a base-currency amount in the customer's currency and locale
+ * @param amount - Amount in BASE_CURRENCY
+ * @param display - Currency and locale
+ * @returns e.g. "€12.00"
+ */
+export function formatMoney(amount: number, display: Pick<CheckoutSettings, 'currency' | 'locale'>): string {
+  return formatCurrency(convertAmount(amount, display.currency), display.currency, display.locale);
+}
+
+/**
+ * Store price of a product under the selected license
+ * @param item - The product
+ * @param license - Selected license, if any
+ * @param display - Currency and locale
+ * @returns The formatted price, or "Price on request"
+ */
+export function priceLabel(item: Pick<StoreItem, 'price'>, license: License | null, display: Pick<CheckoutSettings, 'currency' | 'locale'>): string {
+  const price = licensedUnitPrice(item.price, license ?? undefined);
+  return price === null ? 'Price on request' : formatMoney(price, display);
+}
+
+/**
+ * Number of units in the cart
+ * @param cart - The cart
+ * @returns Sum of line quantities
+ */
+export function cartItemCount(cart: CartItem[]): number {
+  return cart.reduce((n, c) => n + c.quantity, 0);
+}
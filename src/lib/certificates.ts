@@ -0,0 +1,186 @@
+import { CANVAS_SIZE, mandalaMarkup, type MandalaSpec } from './mandala';
+import { licenseTerms } from './licenses';
+import type { Buyer, Order } from './orders';
+import { sha256Hex } from './sha256';
+import { escapeXml } from './svgExport';
+import type { License } from '../types';
+
+export type LicenseCertificate = {
+  /** Derived from the digest, so a certificate cannot keep its id once edited */
+  id: string;
+  orderId: string;
+  issuer: string;
+  buyer: Buyer;
+  license: { id: string; name: string; terms: string };
+  items: { productId: string; name: string; quantity: number }[];
+  /** SHA-256 of the design spec bought, in canonical JSON */
+  designFingerprint: string | null;
+  purchasedAt: number;
+  issuedAt: number;
+  /** SHA-256 of every other field in canonical JSON */
+  digest: string;
+};
+
+export type VerificationResult =
+  | { status: 'valid'; certificate: LicenseCertificate; order: Order | null }
+  | { status: 'revoked'; certificate: LicenseCertificate; order: Order }
+  | { status: 'tampered'; certificate: LicenseCertificate }
+  | { status: 'not_found'; id: string };
+
+export const CERTIFICATE_ISSUER = 'Mandala Portfolio';
+const ID_PREFIX = 'MLC';
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize (and hash) the same way
+ * @param value - Any JSON value
+ * @returns The canonical JSON text
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint a design
+ * @param spec - The mandala spec
+ * @returns SHA-256 hex of the spec's canonical JSON
+ */
+export function fingerprintSpec(spec: MandalaSpec): Promise<string> {
+  return sha256Hex(canonicalJSON(spec));
+}
+
+function idFromDigest(digest: string): string {
+  const groups = digest.slice(0, 16).toUpperCase().match(/.{4}/g) ?? [];
+  return [ID_PREFIX, ...groups].join('-');
+}
+
+/**
+ * Normalise a certificate id as typed by a person
+ * @param input - The id, in any case, with or without dashes
+ * @returns The id in canonical form
+ */
+export function normalizeCertificateId(input: string): string {
+  const raw = input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  const body = raw.startsWith(ID_PREFIX) ? raw.slice(ID_PREFIX.length) : raw;
+  return [ID_PREFIX, ...(body.match(/.{1,4}/g) ?? [])].join('-');
+}
+
+async function digestOf(cert: Omit<LicenseCertificate, 'id' | 'digest'>): Promise<string> {
+  return sha256Hex(canonicalJSON(cert));
+}
+
+/**
+ * Issue one certificate per license used in a paid order
+ * @param order - The order
+ * @param licenses - License catalog, for the terms
+ * @returns The certificates
+ */
+export async function issueCertificates(order: Order, licenses: License[]): Promise<LicenseCertificate[]> {
+  const issuedAt = Date.now();
+  const designFingerprint = order.design ? await fingerprintSpec(order.design) : null;
+  const licenseIds = Array.from(new Set(order.lines.map((l) => l.license.id)));
+  return Promise.all(licenseIds.map(async (licenseId) => {
+    const lines = order.lines.filter((l) => l.license.id === licenseId);
+    const license = licenses.find((l) => l.id === licenseId);
+    const body = {
+      orderId: order.id,
+      issuer: CERTIFICATE_ISSUER,
+      buyer: order.buyer,
+      license: { id: licenseId, name: license?.name ?? lines[0].license.name, terms: license ? licenseTerms(license) : '' },
+      items: lines.map((l) => ({ productId: l.productId, name: l.name, quantity: l.quantity })),
+      designFingerprint,
+      purchasedAt: order.paidAt ?? issuedAt,
+      issuedAt
+    };
+    const digest = await digestOf(body);
+    return { id: idFromDigest(digest), ...body, digest };
+  }));
+}
+
+/**
+ * Look a certificate up by id and check it has not been altered since it
+ * was issued, or revoked by a refund or cancellation of its order
+ * @param id - Certificate id as entered
+ * @param certificates - Issued certificates
+ * @param orders - Orders, for revocation
+ * @returns The verification result
+ */
+export async function verifyCertificate(id: string, certificates: LicenseCertificate[], orders: Order[]): Promise<VerificationResult> {
+  const wanted = normalizeCertificateId(id);
+  const certificate = certificates.find((c) => c.id === wanted);
+  if (!certificate) return { status: 'not_found', id: wanted };
+  const { id: _id, digest, ...body } = certificate;
+  const actual = await digestOf(body);
+  if (actual !== digest || idFromDigest(actual) !== certificate.id) return { status: 'tampered', certificate };
+  const order = orders.find((o) => o.id === certificate.orderId) ?? null;
+  if (order && (order.status === 'refunded' || order.status === 'canceled')) return { status: 'revoked', certificate, order };
+  return { status: 'valid', certificate, order };
+}
+
+/**
+ * Serialise a certificate for download
+ * @param cert - The certificate
+ * @returns Pretty-printed JSON
+ */
+export function certificateJSON(cert: LicenseCertificate): string {
+  return JSON.stringify({ format: 'mandala-license-certificate', version: 1, certificate: cert }, null, 2);
+}
+
+/**
+ * Render a certificate as a standalone printable page (print to PDF from
+ * the browser)
+ * @param cert - The certificate
+ * @param design - The licensed design, drawn on the page when known
+ * @returns HTML document
+ */
+export function certificateHTML(cert: LicenseCertificate, design: MandalaSpec | null): string {
+  const e = (s: string) => escapeXml(s, true);
+  const date = (t: number) => new Date(t).toLocaleDateString('en-GB', { year: 'numeric', month: 'long', day: 'numeric' });
+  const items = cert.items.map((i) => `<li>${e(i.name)} × ${i.quantity}</li>`).join('');
+  const artwork = design
+    ? `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}" width="160" height="160">${mandalaMarkup(design, null)}</svg>`
+    : '';
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>License certificate ${e(cert.id)}</title>
+<style>
+@page { size: A4; margin: 20mm; }
+body { font-family: Inter, system-ui, sans-serif; color: #111; max-width: 170mm; margin: 0 auto; }
+header { border-bottom: 4px solid #5200ff; padding-bottom: 8px; display: flex; justify-content: space-between; align-items: flex-end; }
+h1 { font-size: 24px; margin: 0; color: #5200ff; }
+.id { font-family: ui-monospace, monospace; font-size: 14px; background: #ffd600; padding: 2px 6px; }
+dl { display: grid; grid-template-columns: 40mm 1fr; gap: 6px 12px; }
+dt { color: #555; }
+dd { margin: 0; }
+.mono { font-family: ui-monospace, monospace; font-size: 11px; word-break: break-all; }
+.terms { border: 1px solid #ddd; padding: 8px 12px; }
+footer { margin-top: 24px; font-size: 11px; color: #555; }
+</style>
+</head>
+<body>
+<header><h1>License certificate</h1><span class="id">${e(cert.id)}</span></header>
+${artwork}
+<dl>
+<dt>Licensee</dt><dd>${e(cert.buyer.name || 'Unnamed buyer')}${cert.buyer.email ? ` &lt;${e(cert.buyer.email)}&gt;` : ''}</dd>
+<dt>License</dt><dd>${e(cert.license.name)}</dd>
+<dt>Items</dt><dd><ul>${items}</ul></dd>
+<dt>Purchased</dt><dd>${date(cert.purchasedAt)}</dd>
+<dt>Order</dt><dd class="mono">${e(cert.orderId)}</dd>
+<dt>Design fingerprint</dt><dd class="mono">${cert.designFingerprint ? `SHA-256 ${cert.designFingerprint}` : 'Not recorded'}</dd>
+</dl>
+<h2>Terms</h2>
+<p class="terms">${e(cert.license.terms)}</p>
+<footer>Issued by ${e(cert.issuer)} on ${date(cert.issuedAt)}. Verify this certificate by entering its id in the Orders view. Digest <span class="mono">${cert.digest}</span></footer>
+</body>
+</html>
+`;
+}
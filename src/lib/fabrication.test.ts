@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'vitest';
+import {
+  DEFAULT_FABRICATION_OPTIONS,
+  fabricationDXF,
+  fabricationGcode,
+  fabricationHPGL,
+  fabricationPlan,
+  fabricationSVG,
+  type FabricationOptions,
+  type FabricationPlan
+} from './fabrication';
+import { CANVAS_SIZE, CENTER, createLayer, type MandalaSpec } from './mandala';
+import type { Point } from './pathFlatten';
+
+// Six separate dots of radius 16 on a ring of radius 80
+const dots: MandalaSpec = {
+  symmetry: 'cyclic',
+  palette: ['#5200ff'],
+  layers: [createLayer({ motif: 'dot-ring', innerRadius: 60, outerRadius: 100, segments: 6, fill: { gradient: 'solid', from: 0, to: 0 } })],
+  motif: { segments: 6, strokes: [], color: 0 }
+};
+
+// Half the canvas size, so one canvas unit is half a millimetre
+const options = (partial: Partial<FabricationOptions> = {}): FabricationOptions => ({ ...DEFAULT_FABRICATION_OPTIONS, sizeMm: CANVAS_SIZE / 2, ...partial });
+
+function centroid(points: Point[]): Point {
+  return { x: points.reduce((n, p) => n + p.x, 0) / points.length, y: points.reduce((n, p) => n + p.y, 0) / points.length };
+}
+
+// Mean distance of a path's points from its centre, in millimetres
+function radius(points: Point[]): number {
+  const c = centroid(points);
+  return points.reduce((n, p) => n + Math.hypot(p.x - c.x, p.y - c.y), 0) / points.length;
+}
+
+describe('fabrication plan', () => {
+  test('cuts each separate shape as one closed outline', () => {
+    for (const mode of ['outlines', 'colors', 'silhouette'] as const) {
+      const plan = fabricationPlan(dots, options({ mode }), null);
+      expect(plan.paths).toHaveLength(6);
+      expect(plan.paths.every((p) => p.closed)).toBe(true);
+      for (const p of plan.paths) expect(radius(p.points)).toBeCloseTo(8, 1);
+    }
+  });
+
+  test('places outlines on the ring in millimetres', () => {
+    const plan = fabricationPlan(dots, options(), null);
+    for (const p of plan.paths) {
+      const c = centroid(p.points);
+      expect(Math.hypot(c.x - CENTER / 2, c.y - CENTER / 2)).toBeCloseTo(40, 1);
+    }
+    expect(plan.cutLength).toBeCloseTo(6 * 2 * Math.PI * 8, 0);
+  });
+
+  test('moves outer edges out by half the kerf', () => {
+    const plan = fabricationPlan(dots, options({ kerfMm: 1 }), null);
+    for (const p of plan.paths) expect(radius(p.points)).toBeCloseTo(8.5, 1);
+  });
+
+  test('orders paths to travel less than the unordered plan', () => {
+    const plan = fabricationPlan(dots, options(), null);
+    expect(plan.travel).toBeLessThanOrEqual(plan.travelUnordered);
+    expect(fabricationPlan(dots, options({ optimizeOrder: false }), null).travel).toBeCloseTo(plan.travelUnordered, 6);
+  });
+});
+
+// A closed 2 mm square and an open line on a 10 mm piece
+const plan: FabricationPlan = {
+  paths: [
+    { points: [{ x: 1, y: 1 }, { x: 3, y: 1 }, { x: 3, y: 3 }, { x: 1, y: 3 }], closed: true },
+    { points: [{ x: 5, y: 2 }, { x: 9, y: 2 }], closed: false }
+  ],
+  sizeMm: 10,
+  cutLength: 12,
+  travel: 0,
+  travelUnordered: 0
+};
+
+describe('fabrication writers', () => {
+  test('SVG draws closed paths with Z in a millimetre viewBox', () => {
+    const svg = fabricationSVG(plan);
+    expect(svg).toContain('width="10mm" height="10mm" viewBox="0 0 10 10"');
+    expect(svg).toContain('<path d="M1,1 L3,1 L3,3 L1,3 Z"/>');
+    expect(svg).toContain('<path d="M5,2 L9,2"/>');
+  });
+
+  test('DXF writes an R12 file with y up and no later header variables', () => {
+    const dxf = fabricationDXF(plan, 'CERT-1\nline two');
+    const lines = dxf.trimEnd().split('\n');
+    expect(lines.slice(0, 2)).toEqual(['999', 'CERT-1 line two']);
+    expect(dxf).toContain('$ACADVER\n1\nAC1009\n');
+    expect(dxf).not.toContain('$INSUNITS');
+    expect(lines.filter((l) => l === 'POLYLINE')).toHaveLength(2);
+    expect(lines.filter((l) => l === 'VERTEX')).toHaveLength(6);
+    expect(dxf).toContain('POLYLINE\n8\nCUT\n66\n1\n70\n1\n');
+    expect(dxf).toContain('VERTEX\n8\nCUT\n10\n1\n20\n9\n');
+    expect(lines.slice(-2)).toEqual(['0', 'EOF']);
+  });
+
+  test('HPGL lifts the pen between paths and closes the square', () => {
+    expect(fabricationHPGL(plan)).toBe('IN;\nSP1;\nPU40,360;\nPD120,360,120,280,40,280,40,360;\nPU200,320;\nPD360,320;\nPU0,0;\nSP0;\n');
+  });
+
+  test('G-code lifts a pen on Z or switches a laser', () => {
+    const pen = fabricationGcode(plan, 'pen', 1200).split('\n');
+    expect(pen.slice(0, 4)).toEqual(['; 2 paths, 12 mm', 'G21', 'G90', 'G0 Z5']);
+    expect(pen).toContain('G1 X1 Y9 F1200');
+    expect(pen.filter((l) => l === 'G1 Z0 F1200')).toHaveLength(2);
+    expect(pen.slice(-3)).toEqual(['G0 X0 Y0', 'M2', '']);
+
+    const laser = fabricationGcode(plan, 'laser', 600);
+    expect(laser).not.toContain('Z');
+    expect(laser.match(/^M3 S1000$/gm)).toHaveLength(2);
+    expect(laser.match(/^M5$/gm)).toHaveLength(3);
+  });
+});
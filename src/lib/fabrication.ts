@@ -0,0 +1,538 @@
+import { mandalaGeometry, type ShapeCopy } from './geometry';
+import { CANVAS_SIZE, CENTER, type MandalaSpec } from './mandala';
+import { circlePolyline, flattenPath, insideRings, type Point, type Polyline } from './pathFlatten';
+import { watermarkLayer, type WatermarkSettings } from './watermark';
+
+export type FabricationMode = 'outlines' | 'colors' | 'silhouette';
+export type FabricationFormat = 'svg' | 'dxf' | 'hpgl' | 'gcode';
+export type GcodeTool = 'pen' | 'laser';
+
+export type FabricationOptions = {
+  mode: FabricationMode;
+  format: FabricationFormat;
+  /** Width and height of the finished piece in millimetres */
+  sizeMm: number;
+  /** Width of material the cutter removes; outer edges move out by half of it */
+  kerfMm: number;
+  /** Reorder and reverse paths to shorten moves with the tool lifted */
+  optimizeOrder: boolean;
+  gcodeTool: GcodeTool;
+  /** G-code cutting or drawing speed in mm/min */
+  feedRate: number;
+};
+
+/** Cut paths in millimetres, y pointing down, in machine order */
+export type FabricationPlan = {
+  paths: Polyline[];
+  sizeMm: number;
+  /** Length drawn or cut, in millimetres */
+  cutLength: number;
+  /** Length moved with the tool lifted, from the origin through every path */
+  travel: number;
+  /** Travel the unordered paths would have needed */
+  travelUnordered: number;
+};
+
+export const FABRICATION_MODES: { id: FabricationMode; label: string; hint: string }[] = [
+  { id: 'outlines', label: 'Visible outlines', hint: 'Every shape edge that is not hidden behind a later shape' },
+  { id: 'colors', label: 'Merged by colour', hint: 'Touching and overlapping shapes of one colour become one outline' },
+  { id: 'silhouette', label: 'Silhouette', hint: 'Only the outer edge of the whole design, for cutting one piece' }
+];
+
+export const FABRICATION_FORMATS: { id: FabricationFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'svg', label: 'SVG (stroke only)', extension: 'svg', mime: 'image/svg+xml' },
+  { id: 'dxf', label: 'DXF', extension: 'dxf', mime: 'application/dxf' },
+  { id: 'hpgl', label: 'HPGL', extension: 'plt', mime: 'application/vnd.hp-hpgl' },
+  { id: 'gcode', label: 'G-code', extension: 'gcode', mime: 'text/x-gcode' }
+];
+
+export const DEFAULT_FABRICATION_OPTIONS: FabricationOptions = {
+  mode: 'colors',
+  format: 'svg',
+  sizeMm: 200,
+  kerfMm: 0,
+  optimizeOrder: true,
+  gcodeTool: 'pen',
+  feedRate: 1500
+};
+
+export const MIN_FABRICATION_SIZE = 20;
+export const MAX_FABRICATION_SIZE = 2000;
+export const MAX_KERF = 2;
+
+// Sample distance either side of an edge when deciding what lies on each side
+const SIDE = 0.02;
+// Endpoints closer than this are the same point when joining pieces into
+// paths; rotated copies of rounded templates miss each other by a few hundredths
+const JOIN = 0.02;
+const GRID = 16;
+// Paths shorter than this are slivers between nearly touching copies, not design
+const MIN_PATH = 0.1;
+
+type Region = { index: number; group: string; rings: Point[][]; box: Box };
+type Line = { index: number; points: Point[]; closed: boolean; filled: boolean; group: string };
+type Box = { x0: number; y0: number; x1: number; y1: number };
+/** A visible piece of an edge; shift is +1 or -1 to move it left or right for kerf, 0 to keep it centred */
+type Piece = { a: Point; b: Point; shift: number };
+
+function place(p: Point, copy: ShapeCopy): Point {
+  const y = copy.mirror ? CANVAS_SIZE - p.y : p.y;
+  if (copy.rotate === 0) return { x: p.x, y };
+  const t = (copy.rotate * Math.PI) / 180;
+  const dx = p.x - CENTER;
+  const dy = y - CENTER;
+  return { x: CENTER + dx * Math.cos(t) - dy * Math.sin(t), y: CENTER + dx * Math.sin(t) + dy * Math.cos(t) };
+}
+
+function boxOf(points: Point[]): Box {
+  const box = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+  for (const p of points) {
+    box.x0 = Math.min(box.x0, p.x);
+    box.y0 = Math.min(box.y0, p.y);
+    box.x1 = Math.max(box.x1, p.x);
+    box.y1 = Math.max(box.y1, p.y);
+  }
+  return box;
+}
+
+// Every shape of the design as outlines in paint order; filled shapes are
+// treated as opaque, whatever their opacity
+function collectShapes(spec: MandalaSpec): Line[] {
+  const lines: Line[] = [];
+  let index = 0;
+  for (const { template, copies } of mandalaGeometry(spec).groups) {
+    const outline = template.kind === 'circle' ? [circlePolyline(template.cx, template.cy, template.r)] : flattenPath(template.d);
+    const filled = template.fill !== 'none';
+    const group = template.fill !== 'none' ? template.fill : template.kind === 'path' && template.stroke ? template.stroke : '';
+    for (const copy of copies) {
+      for (const pl of outline) {
+        lines.push({ index, points: pl.points.map((p) => place(p, copy)), closed: pl.closed || filled, filled, group });
+      }
+      index++;
+    }
+  }
+  return lines;
+}
+
+class RegionIndex {
+  private cells = new Map<number, Region[]>();
+  readonly regions: Region[];
+
+  constructor(regions: Region[]) {
+    this.regions = regions;
+    for (const r of regions) {
+      for (const key of this.keys(r.box)) {
+        const cell = this.cells.get(key);
+        if (cell) cell.push(r);
+        else this.cells.set(key, [r]);
+      }
+    }
+    // Topmost first, so the first region that contains a point is its owner
+    for (const cell of this.cells.values()) cell.sort((a, b) => b.index - a.index);
+  }
+  private *keys(box: Box): Generator<number> {
+    const c0 = Math.max(0, Math.floor(box.x0 / GRID));
+    const c1 = Math.min(1000, Math.floor(box.x1 / GRID));
+    const r0 = Math.max(0, Math.floor(box.y0 / GRID));
+    const r1 = Math.min(1000, Math.floor(box.y1 / GRID));
+    for (let r = r0; r <= r1; r++) for (let c = c0; c <= c1; c++) yield r * 1001 + c;
+  }
+  /** The topmost region containing a point, or null */
+  owner(p: Point): Region | null {
+    const cell = this.cells.get(Math.floor(p.y / GRID) * 1001 + Math.floor(p.x / GRID));
+    if (!cell || p.x < 0 || p.y < 0) return null;
+    for (const r of cell) {
+      if (p.x >= r.box.x0 && p.x <= r.box.x1 && p.y >= r.box.y0 && p.y <= r.box.y1 && insideRings(p, r.rings)) return r;
+    }
+    return null;
+  }
+  /** Regions whose bounding box meets a box */
+  near(box: Box): Set<Region> {
+    const found = new Set<Region>();
+    for (const key of this.keys(box)) {
+      for (const r of this.cells.get(key) ?? []) {
+        if (r.box.x0 <= box.x1 && r.box.x1 >= box.x0 && r.box.y0 <= box.y1 && r.box.y1 >= box.y0) found.add(r);
+      }
+    }
+    return found;
+  }
+}
+
+// Parameters along a→b where it crosses or starts to overlap the edge c→d
+function splits(a: Point, b: Point, c: Point, d: Point, out: number[]) {
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+  const sx = d.x - c.x;
+  const sy = d.y - c.y;
+  const den = rx * sy - ry * sx;
+  const len2 = rx * rx + ry * ry;
+  if (Math.abs(den) < 1e-9 * Math.sqrt(len2 * (sx * sx + sy * sy))) {
+    // Parallel: if collinear, the other edge's ends split this one
+    if (Math.abs((c.x - a.x) * ry - (c.y - a.y) * rx) > 1e-6 * Math.sqrt(len2)) return;
+    for (const p of [c, d]) {
+      const t = ((p.x - a.x) * rx + (p.y - a.y) * ry) / len2;
+      if (t > 1e-6 && t < 1 - 1e-6) out.push(t);
+    }
+    return;
+  }
+  const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / den;
+  const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / den;
+  if (t > 1e-6 && t < 1 - 1e-6 && u >= -1e-9 && u <= 1 + 1e-9) out.push(t);
+}
+
+function edgesOf(points: Point[], closed: boolean): [Point, Point][] {
+  const edges: [Point, Point][] = [];
+  for (let i = 1; i < points.length; i++) edges.push([points[i - 1], points[i]]);
+  if (closed && points.length > 2) edges.push([points[points.length - 1], points[0]]);
+  return edges;
+}
+
+function visiblePieces(lines: Line[], mode: FabricationMode): Piece[] {
+  // A shape with several subpaths is one region with several rings
+  const byIndex = new Map<number, Region>();
+  for (const l of lines) {
+    if (!l.filled) continue;
+    const region = byIndex.get(l.index);
+    if (region) region.rings.push(l.points);
+    else byIndex.set(l.index, { index: l.index, group: l.group, rings: [l.points], box: boxOf([]) });
+  }
+  const regions = [...byIndex.values()];
+  for (const r of regions) r.box = boxOf(r.rings.flat());
+  const index = new RegionIndex(regions);
+  const key = (r: Region | null) => (r === null ? 'none' : mode === 'outlines' ? String(r.index) : mode === 'colors' ? r.group : 'filled');
+
+  const pieces: Piece[] = [];
+  for (const line of lines) {
+    for (const [a, b] of edgesOf(line.points, line.closed)) {
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length < 1e-9) continue;
+      const ts = [0, 1];
+      for (const r of index.near(boxOf([a, b]))) {
+        for (const ring of r.rings) for (const [c, d] of edgesOf(ring, true)) splits(a, b, c, d, ts);
+      }
+      ts.sort((x, y) => x - y);
+      const nx = -(b.y - a.y) / length;
+      const ny = (b.x - a.x) / length;
+      for (let i = 1; i < ts.length; i++) {
+        if (ts[i] - ts[i - 1] < 1e-9) continue;
+        const p = { x: a.x + (b.x - a.x) * ts[i - 1], y: a.y + (b.y - a.y) * ts[i - 1] };
+        const q = { x: a.x + (b.x - a.x) * ts[i], y: a.y + (b.y - a.y) * ts[i] };
+        const m = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+        if (!line.filled) {
+          // Open strokes show wherever no later filled shape covers them
+          const top = index.owner(m);
+          if (!top || top.index < line.index) pieces.push({ a: p, b: q, shift: 0 });
+          continue;
+        }
+        const left = index.owner({ x: m.x + nx * SIDE, y: m.y + ny * SIDE });
+        const right = index.owner({ x: m.x - nx * SIDE, y: m.y - ny * SIDE });
+        if (key(left) === key(right)) continue;
+        // Both shapes meeting at an edge see it; the upper one draws it
+        if (Math.max(left?.index ?? -1, right?.index ?? -1) !== line.index) continue;
+        pieces.push({ a: p, b: q, shift: left === null ? 1 : right === null ? -1 : 0 });
+      }
+    }
+  }
+  return pieces;
+}
+
+const near = (p: Point, q: Point) => Math.abs(p.x - q.x) < JOIN && Math.abs(p.y - q.y) < JOIN;
+
+// Join pieces that share endpoints into paths, keeping kerf sides consistent
+function chain(pieces: Piece[]): { points: Point[]; closed: boolean; shift: number }[] {
+  // Endpoints bucketed by JOIN-sized cells; a lookup checks the neighbouring cells too
+  const ends = new Map<string, number[]>();
+  const cell = (p: Point) => [Math.floor(p.x / JOIN), Math.floor(p.y / JOIN)];
+  pieces.forEach((piece, i) => {
+    for (const p of [piece.a, piece.b]) {
+      const k = cell(p).join(',');
+      const list = ends.get(k);
+      if (list) list.push(i);
+      else ends.set(k, [i]);
+    }
+  });
+  const around = function* (p: Point) {
+    const [cx, cy] = cell(p);
+    for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) yield* ends.get(`${cx + dx},${cy + dy}`) ?? [];
+  };
+  const used = new Uint8Array(pieces.length);
+  // The next unused piece touching p with the given kerf side, oriented to start at p
+  const next = (p: Point, shift: number): Piece | null => {
+    for (const i of around(p)) {
+      if (used[i]) continue;
+      const piece = pieces[i];
+      if (near(piece.a, p) && piece.shift === shift) {
+        used[i] = 1;
+        return piece;
+      }
+      if (near(piece.b, p) && -piece.shift === shift) {
+        used[i] = 1;
+        return { a: piece.b, b: piece.a, shift };
+      }
+    }
+    return null;
+  };
+
+  const paths: { points: Point[]; closed: boolean; shift: number }[] = [];
+  pieces.forEach((first, i) => {
+    if (used[i]) return;
+    used[i] = 1;
+    const points = [first.a, first.b];
+    for (let piece = next(first.b, first.shift); piece; piece = next(piece.b, first.shift)) points.push(piece.b);
+    // Extend backwards from the start with pieces reversed
+    for (let piece = next(points[0], -first.shift); piece; piece = next(piece.b, -first.shift)) points.unshift(piece.b);
+    const closed = points.length > 3 && near(points[0], points[points.length - 1]);
+    if (closed) points.pop();
+    paths.push({ points, closed, shift: first.shift });
+  });
+  return paths;
+}
+
+// Move a path sideways by distance, keeping corners sharp
+function offset(points: Point[], closed: boolean, distance: number): Point[] {
+  const n = points.length;
+  const normal = (i: number) => {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+  };
+  return points.map((p, i) => {
+    const before = closed || i > 0 ? normal((i - 1 + n) % n) : null;
+    const after = closed || i < n - 1 ? normal(i) : null;
+    const n1 = before ?? after!;
+    const n2 = after ?? before!;
+    const mx = n1.x + n2.x;
+    const my = n1.y + n2.y;
+    const ml = Math.hypot(mx, my);
+    if (ml < 1e-9) return { x: p.x + n1.x * distance, y: p.y + n1.y * distance };
+    // Miter length grows as 1/cos of half the turn; cap it at spikes
+    const scale = Math.min(3, 1 / Math.max(1e-3, (mx * n1.x + my * n1.y) / ml));
+    return { x: p.x + (mx / ml) * distance * scale, y: p.y + (my / ml) * distance * scale };
+  });
+}
+
+function clipToCanvas(a: Point, b: Point): [Point, Point] | null {
+  // Liang–Barsky against the design square
+  let t0 = 0;
+  let t1 = 1;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  for (const [p, q] of [[-dx, a.x], [dx, CANVAS_SIZE - a.x], [-dy, a.y], [dy, CANVAS_SIZE - a.y]]) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) t0 = Math.max(t0, r);
+    else t1 = Math.min(t1, r);
+    if (t0 > t1) return null;
+  }
+  return [{ x: a.x + dx * t0, y: a.y + dy * t0 }, { x: a.x + dx * t1, y: a.y + dy * t1 }];
+}
+
+// The watermark's text, plotted over the design and cropped to it; logos cannot be cut
+function watermarkPieces(watermark: WatermarkSettings): Piece[] {
+  const layer = watermarkLayer(watermark, CANVAS_SIZE, CANVAS_SIZE);
+  if (layer.mark.kind !== 'text') return [];
+  const strokes = flattenPath(layer.mark.d);
+  const pieces: Piece[] = [];
+  for (const p of layer.placements) {
+    const t = (p.rotate * Math.PI) / 180;
+    const at = (q: Point) => ({ x: p.x + q.x * Math.cos(t) - q.y * Math.sin(t), y: p.y + q.x * Math.sin(t) + q.y * Math.cos(t) });
+    for (const s of strokes) {
+      for (const [a, b] of edgesOf(s.points.map(at), s.closed)) {
+        const clipped = clipToCanvas(a, b);
+        if (clipped) pieces.push({ a: clipped[0], b: clipped[1], shift: 0 });
+      }
+    }
+  }
+  return pieces;
+}
+
+function pathLength(points: Point[], closed: boolean): number {
+  let length = 0;
+  for (const [a, b] of edgesOf(points, closed)) length += Math.hypot(b.x - a.x, b.y - a.y);
+  return length;
+}
+
+function travelOf(paths: Polyline[]): number {
+  let at = { x: 0, y: CANVAS_SIZE };
+  let travel = 0;
+  for (const path of paths) {
+    travel += Math.hypot(path.points[0].x - at.x, path.points[0].y - at.y);
+    at = path.closed ? path.points[0] : path.points[path.points.length - 1];
+  }
+  return travel;
+}
+
+// Greedy nearest neighbour from the machine origin; open paths may run either
+// way and closed paths may start at any vertex
+function orderPaths(paths: Polyline[]): Polyline[] {
+  const left = [...paths];
+  const ordered: Polyline[] = [];
+  let at = { x: 0, y: CANVAS_SIZE };
+  while (left.length > 0) {
+    let best = 0;
+    let bestStart = 0;
+    let bestDist = Infinity;
+    left.forEach((path, i) => {
+      const candidates = path.closed ? path.points.map((_, k) => k) : [0, path.points.length - 1];
+      for (const k of candidates) {
+        const d = Math.hypot(path.points[k].x - at.x, path.points[k].y - at.y);
+        if (d < bestDist) {
+          bestDist = d;
+          best = i;
+          bestStart = k;
+        }
+      }
+    });
+    const [path] = left.splice(best, 1);
+    const points = path.closed
+      ? [...path.points.slice(bestStart), ...path.points.slice(0, bestStart)]
+      : bestStart === 0 ? path.points : [...path.points].reverse();
+    ordered.push({ points, closed: path.closed });
+    at = path.closed ? points[0] : points[points.length - 1];
+  }
+  return ordered;
+}
+
+/**
+ * Turn a design into cut or plot paths: hidden edges removed, shapes merged
+ * according to the mode, outer edges offset for kerf and paths ordered to
+ * keep the tool down as much as possible
+ * @param spec - The mandala spec
+ * @param options - Fabrication options
+ * @param watermark - Watermark whose text is plotted over the design, or null for a clean file
+ * @returns The plan, in millimetres
+ */
+export function fabricationPlan(spec: MandalaSpec, options: FabricationOptions, watermark: WatermarkSettings | null): FabricationPlan {
+  const scale = options.sizeMm / CANVAS_SIZE;
+  const kerf = options.kerfMm / 2 / scale;
+  const pieces = visiblePieces(collectShapes(spec), options.mode);
+  if (watermark) pieces.push(...watermarkPieces(watermark));
+  const chained = chain(pieces).filter((p) => pathLength(p.points, p.closed) >= MIN_PATH).map((p) => ({
+    points: kerf > 0 && p.shift !== 0 ? offset(p.points, p.closed, kerf * p.shift) : p.points,
+    closed: p.closed
+  }));
+  const paths = options.optimizeOrder ? orderPaths(chained) : chained;
+  const mm = (p: Polyline): Polyline => ({ points: p.points.map((q) => ({ x: q.x * scale, y: q.y * scale })), closed: p.closed });
+  return {
+    paths: paths.map(mm),
+    sizeMm: options.sizeMm,
+    cutLength: paths.reduce((n, p) => n + pathLength(p.points, p.closed), 0) * scale,
+    travel: travelOf(paths) * scale,
+    travelUnordered: travelOf(chained) * scale
+  };
+}
+
+const mm = (n: number) => String(Math.round(n * 1000) / 1000);
+
+// Every path as a list of points, closed paths ending back at their start
+const drawn = (plan: FabricationPlan) => plan.paths.map((p) => (p.closed ? [...p.points, p.points[0]] : p.points));
+
+/**
+ * Stroke-only SVG sized in millimetres
+ * @param plan - The plan
+ * @returns SVG file contents
+ */
+export function fabricationSVG(plan: FabricationPlan): string {
+  const size = mm(plan.sizeMm);
+  const paths = plan.paths.map((p) => `<path d="M${p.points.map((q) => `${mm(q.x)},${mm(q.y)}`).join(' L')}${p.closed ? ' Z' : ''}"/>`);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}mm" height="${size}mm" viewBox="0 0 ${size} ${size}">`,
+    `<g fill="none" stroke="#000000" stroke-width="0.1" stroke-linecap="round" stroke-linejoin="round">${paths.join('')}</g>`,
+    '</svg>\n'
+  ].join('');
+}
+
+/**
+ * AutoCAD R12 DXF with one polyline per path, in millimetres with y up. R12
+ * has no header variable for units, so importers must be told millimetres.
+ * @param plan - The plan
+ * @param comment - Text recorded as a DXF comment, such as a licence id
+ * @returns DXF file contents
+ */
+export function fabricationDXF(plan: FabricationPlan, comment = ''): string {
+  const out: string[] = [];
+  const pair = (code: number, value: string | number) => out.push(String(code), typeof value === 'number' ? mm(value) : value);
+  if (comment) pair(999, comment.replace(/[\r\n]+/g, ' '));
+  pair(0, 'SECTION');
+  pair(2, 'HEADER');
+  pair(9, '$ACADVER');
+  pair(1, 'AC1009');
+  pair(0, 'ENDSEC');
+  pair(0, 'SECTION');
+  pair(2, 'ENTITIES');
+  for (const p of plan.paths) {
+    pair(0, 'POLYLINE');
+    pair(8, 'CUT');
+    pair(66, '1');
+    pair(70, p.closed ? '1' : '0');
+    for (const q of p.points) {
+      pair(0, 'VERTEX');
+      pair(8, 'CUT');
+      pair(10, q.x);
+      pair(20, plan.sizeMm - q.y);
+    }
+    pair(0, 'SEQEND');
+    pair(8, 'CUT');
+  }
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+  return `${out.join('\n')}\n`;
+}
+
+/**
+ * HPGL for pen plotters, in plotter units of 0.025 mm with y up
+ * @param plan - The plan
+ * @returns HPGL file contents
+ */
+export function fabricationHPGL(plan: FabricationPlan): string {
+  const unit = (n: number) => Math.round(n * 40);
+  const commands = ['IN', 'SP1'];
+  for (const points of drawn(plan)) {
+    const xy = points.map((q) => `${unit(q.x)},${unit(plan.sizeMm - q.y)}`);
+    commands.push(`PU${xy[0]}`, `PD${xy.slice(1).join(',')}`);
+  }
+  commands.push('PU0,0', 'SP0');
+  return `${commands.join(';\n')};\n`;
+}
+
+/**
+ * G-code in millimetres with y up: a pen lifted on Z, or a laser switched with M3/M5
+ * @param plan - The plan
+ * @param tool - Pen plotter or laser
+ * @param feedRate - Drawing or cutting speed in mm/min
+ * @returns G-code file contents
+ */
+export function fabricationGcode(plan: FabricationPlan, tool: GcodeTool, feedRate: number): string {
+  const up = tool === 'laser' ? 'M5' : 'G0 Z5';
+  const down = tool === 'laser' ? 'M3 S1000' : `G1 Z0 F${feedRate}`;
+  const lines = [`; ${plan.paths.length} paths, ${Math.round(plan.cutLength)} mm`, 'G21', 'G90', up];
+  for (const points of drawn(plan)) {
+    const [first, ...rest] = points;
+    lines.push(`G0 X${mm(first.x)} Y${mm(plan.sizeMm - first.y)}`, down);
+    for (const q of rest) lines.push(`G1 X${mm(q.x)} Y${mm(plan.sizeMm - q.y)} F${feedRate}`);
+    lines.push(up);
+  }
+  lines.push('G0 X0 Y0', 'M2');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render a plan in the chosen format
+ * @param plan - The plan
+ * @param options - Fabrication options
+ * @param comment - Note recorded in formats that support comments
+ * @returns The file
+ */
+export function fabricationFile(plan: FabricationPlan, options: FabricationOptions, comment = ''): Blob {
+  const format = FABRICATION_FORMATS.find((f) => f.id === options.format) ?? FABRICATION_FORMATS[0];
+  const text = options.format === 'dxf' ? fabricationDXF(plan, comment)
+    : options.format === 'hpgl' ? fabricationHPGL(plan)
+    : options.format === 'gcode' ? fabricationGcode(plan, options.gcodeTool, options.feedRate)
+    : fabricationSVG(plan);
+  return new Blob([text], { type: format.mime });
+}
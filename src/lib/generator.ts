@@ -0,0 +1,150 @@
+import {
+  DEFAULT_SPEC,
+  GRADIENT_KINDS,
+  MAX_LAYERS,
+  MAX_PALETTE_COLORS,
+  MAX_RADIUS,
+  MAX_SEGMENTS,
+  MIN_SEGMENTS,
+  MOTIF_SHAPES,
+  normalizeLayer,
+  type MandalaLayer,
+  type MandalaSpec,
+  type MotifStroke,
+  type SymmetryGroup
+} from './mandala';
+import { clamp } from './utils';
+
+export type GeneratorConstraints = {
+  minSegments: number;
+  maxSegments: number;
+  palette: string[];
+  /** 'any' lets the seed choose */
+  symmetry: SymmetryGroup | 'any';
+  /** MIN_COMPLEXITY (a few plain rings) to MAX_COMPLEXITY (many rings, gradients and a drawn motif) */
+  complexity: number;
+};
+
+export const MIN_COMPLEXITY = 1;
+export const MAX_COMPLEXITY = 5;
+
+export const DEFAULT_CONSTRAINTS: GeneratorConstraints = {
+  minSegments: 6,
+  maxSegments: 24,
+  palette: ['#5200ff', '#ffd600'],
+  symmetry: 'any',
+  complexity: 3
+};
+
+/**
+ * Seeded pseudo-random numbers (mulberry32 over an FNV-1a hash of the seed)
+ * @param seed - Any text; the same seed always gives the same sequence
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: string): () => number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193);
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Bring constraints into range: segment bounds inside MIN_SEGMENTS..MAX_SEGMENTS
+ * and ordered, complexity an integer step, and a usable palette
+ * @param c - Constraints as entered
+ * @returns Constraints the generator can always satisfy
+ */
+export function normalizeConstraints(c: GeneratorConstraints): GeneratorConstraints {
+  const a = Math.round(clamp(c.minSegments, MIN_SEGMENTS, MAX_SEGMENTS));
+  const b = Math.round(clamp(c.maxSegments, MIN_SEGMENTS, MAX_SEGMENTS));
+  return {
+    minSegments: Math.min(a, b),
+    maxSegments: Math.max(a, b),
+    palette: c.palette.length > 0 ? c.palette.slice(0, MAX_PALETTE_COLORS) : DEFAULT_SPEC.palette,
+    symmetry: c.symmetry,
+    complexity: Math.round(clamp(c.complexity, MIN_COMPLEXITY, MAX_COMPLEXITY))
+  };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Generate a mandala from a seed. Deterministic: the same seed and constraints
+ * always give the same spec, including layer and stroke ids.
+ * @param seed - Any text
+ * @param constraints - Segment range, palette, symmetry and complexity
+ * @returns A valid spec
+ */
+export function generateSpec(seed: string, constraints: GeneratorConstraints): MandalaSpec {
+  const c = normalizeConstraints(constraints);
+  const random = createRandom(seed);
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(list: readonly T[]): T => list[Math.floor(random() * list.length)];
+  const colour = () => int(0, c.palette.length - 1);
+
+  const symmetry = c.symmetry === 'any' ? pick(['cyclic', 'dihedral'] as const) : c.symmetry;
+  const base = int(c.minSegments, c.maxSegments);
+  // Rings share the base order or a multiple/divisor of it so they line up
+  const orders = [base, base * 2, base / 2, base * 3].filter((n) => Number.isInteger(n) && n >= c.minSegments && n <= c.maxSegments);
+
+  const count = Math.min(MAX_LAYERS, 1 + c.complexity + int(0, 1));
+  const gradientChance = (c.complexity - 1) * 0.15;
+  const layers: MandalaLayer[] = [];
+  let outer = MAX_RADIUS * (0.75 + random() * 0.2);
+  for (let i = 0; i < count && outer >= 12; i++) {
+    const last = i === count - 1;
+    const inner = last && random() < 0.5 ? 0 : outer * (0.35 + random() * 0.4);
+    const segments = pick(orders);
+    const from = colour();
+    const gradient = c.palette.length > 1 && random() < gradientChance ? pick(GRADIENT_KINDS.filter((g) => g.id !== 'solid')).id : 'solid';
+    layers.push(normalizeLayer({
+      id: `layer-${i + 1}`,
+      motif: pick(MOTIF_SHAPES).id,
+      innerRadius: Math.round(inner),
+      outerRadius: Math.round(outer),
+      segments,
+      // Half a step offsets the ring between its neighbour's segments
+      rotation: random() < 0.5 ? 0 : round2(180 / segments),
+      opacity: round2(0.45 + random() * 0.5),
+      fill: { gradient, from, to: gradient === 'solid' ? from : (from + int(1, c.palette.length - 1)) % c.palette.length }
+    }));
+    outer = inner + (outer - inner) * (0.2 + random() * 0.5);
+  }
+
+  const strokes: MotifStroke[] = [];
+  for (let i = 0; i < c.complexity - 2; i++) {
+    const points = Array.from({ length: int(3, 5) }, () => ({ r: round2(0.2 + random() * 0.75), t: round2(random()) }));
+    strokes.push({ id: `stroke-${i + 1}`, kind: random() < 0.7 ? 'bezier' : 'freeform', points, closed: random() < 0.4, width: round2(1 + random() * 2) });
+  }
+
+  return {
+    symmetry,
+    palette: c.palette,
+    layers,
+    motif: { segments: base, strokes, color: colour() }
+  };
+}
+
+/**
+ * Seeds for a grid of variations on one base seed
+ * @param base - The base seed
+ * @param count - Number of variations
+ * @returns base-1, base-2, ...
+ */
+export function variationSeeds(base: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${base}-${i + 1}`);
+}
+
+/**
+ * A fresh seed for "surprise me"
+ * @returns Six random base-36 characters
+ */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+}
@@ -0,0 +1,16 @@
+import { bench } from 'vitest';
+import { geometryMarkup, mandalaGeometry } from './geometry';
+import { MAX_LAYERS, updateLayer } from './mandala';
+import { largeSpec } from '../test/fixtures';
+
+// A slider step should recompute and serialise a 10k-shape design within one
+// 16 ms frame; compare the mean reported here against that budget
+let spec = largeSpec();
+let step = 0;
+geometryMarkup(mandalaGeometry(spec));
+
+bench('slider step at 10k shapes', () => {
+  spec = updateLayer(spec, spec.layers[step % MAX_LAYERS].id, { rotation: step });
+  step++;
+  geometryMarkup(mandalaGeometry(spec));
+});
@@ -0,0 +1,20 @@
+import { expect, test } from 'vitest';
+import { mandalaGeometry } from './geometry';
+import { mandalaShapes, updateLayer } from './mandala';
+import { largeSpec } from '../test/fixtures';
+
+test('geometry covers every shape of the design', () => {
+  const spec = largeSpec();
+  const geometry = mandalaGeometry(spec);
+  expect(geometry.shapeCount).toBe(mandalaShapes(spec).length);
+  expect(geometry.shapeCount).toBeGreaterThanOrEqual(10_000);
+});
+
+test('an edit to one ring reuses the cached geometry of the others', () => {
+  const spec = largeSpec();
+  const before = mandalaGeometry(spec);
+  const after = mandalaGeometry(updateLayer(spec, spec.layers[3].id, { rotation: 10 }));
+  expect(after.groups[3]).not.toBe(before.groups[3]);
+  expect(after.groups[4]).toBe(before.groups[4]);
+  expect(after.groups[after.groups.length - 1]).toBe(before.groups[before.groups.length - 1]);
+});
@@ -0,0 +1,143 @@
+import {
+  CANVAS_SIZE,
+  CENTER,
+  contentId,
+  gradientMarkup,
+  layerPaint,
+  layerShapes,
+  layerTemplate,
+  mandalaGradients,
+  paletteColor,
+  shapeMarkup,
+  strokePath,
+  type MandalaGradient,
+  type MandalaLayer,
+  type MandalaShape,
+  type MandalaSpec,
+  type SegmentMotif
+} from './mandala';
+
+/** One placement of a template: a rotation about the centre, optionally after a reflection */
+export type ShapeCopy = { rotate: number; mirror: boolean };
+
+/**
+ * A shape computed once and drawn many times. Copies are in paint order; the
+ * shape's own key and transform are not used.
+ */
+export type ShapeGroup = {
+  /** Content-derived id of the template, for <use href="#…"> */
+  id: string;
+  template: MandalaShape;
+  copies: ShapeCopy[];
+};
+
+export type MandalaGeometry = {
+  gradients: MandalaGradient[];
+  /** Rings back to front, then the motif strokes */
+  groups: ShapeGroup[];
+  /** Total number of shapes drawn */
+  shapeCount: number;
+};
+
+// Specs, layers and motifs are never mutated, only replaced, so object
+// identity is a safe cache key: dragging one ring's slider leaves every
+// other ring's geometry in the cache
+const specCache = new WeakMap<MandalaSpec, MandalaGeometry>();
+const layerCache = new WeakMap<MandalaLayer, { palette: string[]; groups: ShapeGroup[] }>();
+const motifCache = new WeakMap<SegmentMotif, { palette: string[]; symmetry: MandalaSpec['symmetry']; groups: ShapeGroup[] }>();
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+function rotations(segments: number, mirror: boolean): ShapeCopy[] {
+  const step = 360 / segments;
+  const copies: ShapeCopy[] = [];
+  for (let i = 0; i < segments; i++) {
+    copies.push({ rotate: i * step, mirror: false });
+    if (mirror) copies.push({ rotate: i * step, mirror: true });
+  }
+  return copies;
+}
+
+function templateId(template: MandalaShape): string {
+  return contentId({ ...template, key: '' }, 'ms');
+}
+
+function layerGroups(layer: MandalaLayer, palette: string[]): ShapeGroup[] {
+  const cached = layerCache.get(layer);
+  if (cached && cached.palette === palette) return cached.groups;
+  // A linear gradient runs across the whole ring, so rotated copies of one
+  // segment would turn it with them; such rings keep a shape per segment
+  const shapes = layerPaint(layer, palette).gradient?.kind === 'linear' ? layerShapes(layer, palette) : [layerTemplate(layer, palette)];
+  const copies = shapes.length === 1 ? rotations(layer.segments, false) : [{ rotate: 0, mirror: false }];
+  const groups = shapes.map((template) => ({ id: templateId(template), template, copies }));
+  layerCache.set(layer, { palette, groups });
+  return groups;
+}
+
+function motifGroups(spec: MandalaSpec): ShapeGroup[] {
+  const cached = motifCache.get(spec.motif);
+  if (cached && cached.palette === spec.palette && cached.symmetry === spec.symmetry) return cached.groups;
+  const color = paletteColor(spec.palette, spec.motif.color);
+  const copies = rotations(spec.motif.segments, spec.symmetry === 'dihedral');
+  const groups = spec.motif.strokes.filter((s) => s.points.length >= 2).map((stroke) => {
+    const template: MandalaShape = {
+      kind: 'path',
+      key: stroke.id,
+      d: strokePath(spec, stroke),
+      fill: stroke.closed ? color : 'none',
+      stroke: color,
+      strokeWidth: stroke.width,
+      opacity: 0.9
+    };
+    return { id: templateId(template), template, copies };
+  });
+  motifCache.set(spec.motif, { palette: spec.palette, symmetry: spec.symmetry, groups });
+  return groups;
+}
+
+/**
+ * Compute a mandala as templates plus placements. Each ring segment and each
+ * motif stroke is built once; results are cached per spec, per layer and per
+ * motif, so an edit only recomputes what it changed.
+ * @param spec - The mandala spec
+ * @returns The geometry
+ */
+export function mandalaGeometry(spec: MandalaSpec): MandalaGeometry {
+  const cached = specCache.get(spec);
+  if (cached) return cached;
+  const groups = [...spec.layers.flatMap((l) => layerGroups(l, spec.palette)), ...motifGroups(spec)];
+  const geometry = {
+    gradients: mandalaGradients(spec),
+    groups,
+    shapeCount: groups.reduce((n, g) => n + g.copies.length, 0)
+  };
+  specCache.set(spec, geometry);
+  return geometry;
+}
+
+/**
+ * SVG transform placing one copy of a template
+ * @param copy - The copy
+ * @returns A transform attribute value, empty for the template's own place
+ */
+export function copyTransform(copy: ShapeCopy): string {
+  const rotate = copy.rotate === 0 ? '' : `rotate(${fmt(copy.rotate)} ${CENTER} ${CENTER})`;
+  return copy.mirror ? `${rotate} matrix(1 0 0 -1 0 ${CANVAS_SIZE})`.trim() : rotate;
+}
+
+/**
+ * Serialise the geometry with each template defined once and drawn with <use>
+ * @param geometry - The geometry
+ * @returns SVG markup: a <defs> block followed by the <use> elements
+ */
+export function geometryMarkup(geometry: MandalaGeometry): string {
+  const defs = [
+    ...geometry.gradients.map(gradientMarkup),
+    ...geometry.groups.map((g) => shapeMarkup(g.template).replace(/^<(\w+)/, `<$1 id="${g.id}"`))
+  ];
+  const uses = geometry.groups.flatMap((g) => g.copies.map((c) => {
+    const transform = copyTransform(c);
+    return `<use href="#${g.id}"${transform ? ` transform="${transform}"` : ''}/>`;
+  }));
+  return `<defs>${defs.join('')}</defs>${uses.join('')}`;
+}
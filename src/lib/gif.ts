@@ -0,0 +1,238 @@
+export type GifFrame = {
+  /** RGBA pixels, width * height * 4 bytes */
+  data: Uint8ClampedArray;
+  /** Display time in milliseconds; GIF stores hundredths of a second */
+  delay: number;
+};
+
+type Box = { colors: number[] };
+
+// Pixels with alpha below this are written as the transparent index
+const ALPHA_CUTOFF = 128;
+const TRANSPARENT = 255;
+
+// 15-bit key: five bits per channel
+const key15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+function channelRange(colors: number[], shift: number): number {
+  let min = 31;
+  let max = 0;
+  for (const c of colors) {
+    const v = (c >> shift) & 31;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return max - min;
+}
+
+// Median cut over the 15-bit colours present in the frames, weighted by pixel count
+function medianCut(counts: Uint32Array, size: number): number[][] {
+  const present: number[] = [];
+  for (let k = 0; k < counts.length; k++) if (counts[k] > 0) present.push(k);
+  if (present.length === 0) return [[0, 0, 0]];
+  const boxes: Box[] = [{ colors: present }];
+  while (boxes.length < size) {
+    let pick = -1;
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.colors.length < 2) return;
+      const range = Math.max(channelRange(box.colors, 10), channelRange(box.colors, 5), channelRange(box.colors, 0));
+      if (range > widest) {
+        widest = range;
+        pick = i;
+      }
+    });
+    if (pick < 0) break;
+    const box = boxes[pick];
+    const ranges = [10, 5, 0].map((s) => ({ s, r: channelRange(box.colors, s) }));
+    const shift = ranges.reduce((a, b) => (b.r > a.r ? b : a)).s;
+    box.colors.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+    const total = box.colors.reduce((n, c) => n + counts[c], 0);
+    let seen = 0;
+    let cut = 1;
+    for (; cut < box.colors.length - 1; cut++) {
+      seen += counts[box.colors[cut - 1]];
+      if (seen >= total / 2) break;
+    }
+    boxes.splice(pick, 1, { colors: box.colors.slice(0, cut) }, { colors: box.colors.slice(cut) });
+  }
+  return boxes.map((box) => {
+    let n = 0;
+    const sum = [0, 0, 0];
+    for (const c of box.colors) {
+      const w = counts[c];
+      n += w;
+      sum[0] += (((c >> 10) & 31) << 3 | 4) * w;
+      sum[1] += (((c >> 5) & 31) << 3 | 4) * w;
+      sum[2] += ((c & 31) << 3 | 4) * w;
+    }
+    return sum.map((s) => Math.round(s / n));
+  });
+}
+
+function nearest(palette: number[][], r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  palette.forEach(([pr, pg, pb], i) => {
+    const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  });
+  return best;
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  byte(b: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = b & 255;
+  }
+  word(w: number) {
+    this.byte(w);
+    this.byte(w >> 8);
+  }
+  bytes(list: ArrayLike<number>) {
+    for (let i = 0; i < list.length; i++) this.byte(list[i]);
+  }
+  text(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+  // Data sub-blocks of at most 255 bytes, ended by an empty block
+  blocks(data: number[]) {
+    for (let i = 0; i < data.length; i += 255) {
+      const part = data.slice(i, i + 255);
+      this.byte(part.length);
+      this.bytes(part);
+    }
+    this.byte(0);
+  }
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Variable-width LZW as GIF uses it: codes packed least significant bit first
+function lzw(indices: Uint8Array, minCodeSize: number): number[] {
+  const out: number[] = [];
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let bits = 0;
+  let acc = 0;
+  let width = minCodeSize + 1;
+  let next = end + 1;
+  let dict = new Map<number, number>();
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += width;
+    while (bits >= 8) {
+      out.push(acc & 255);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const entry = (prefix << 8) | k;
+    const code = dict.get(entry);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next < 4096) {
+      dict.set(entry, next++);
+      if (next > 1 << width && width < 12) width++;
+    } else {
+      emit(clear);
+      dict = new Map();
+      next = end + 1;
+      width = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(end);
+  if (bits > 0) out.push(acc & 255);
+  return out;
+}
+
+/**
+ * Encode an animated GIF that loops forever. All frames share one 256-colour
+ * palette chosen by median cut; half-transparent pixels become fully
+ * transparent or opaque, as GIF has no partial alpha.
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @param frames - Frames in display order
+ * @returns The GIF file bytes
+ */
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+  const counts = new Uint32Array(1 << 15);
+  let transparent = false;
+  for (const frame of frames) {
+    const d = frame.data;
+    // Sample large animations; every pixel still gets mapped below
+    const step = Math.max(1, Math.floor((d.length / 4) * frames.length / 4_000_000)) * 4;
+    for (let i = 0; i < d.length; i += step) {
+      if (d[i + 3] < ALPHA_CUTOFF) transparent = true;
+      else counts[key15(d[i], d[i + 1], d[i + 2])]++;
+    }
+  }
+  const palette = medianCut(counts, transparent ? 255 : 256);
+  while (palette.length < 256) palette.push([0, 0, 0]);
+  const usable = transparent ? palette.slice(0, 255) : palette.slice();
+  const lookup = new Int16Array(1 << 15).fill(-1);
+
+  const w = new ByteWriter();
+  w.text('GIF89a');
+  w.word(width);
+  w.word(height);
+  // Global colour table of 256 entries, 8 bits per channel
+  w.byte(0xf7);
+  w.byte(0);
+  w.byte(0);
+  for (const [r, g, b] of palette) w.bytes([r, g, b]);
+  // NETSCAPE2.0 application extension: loop forever
+  w.bytes([0x21, 0xff, 11]);
+  w.text('NETSCAPE2.0');
+  w.bytes([3, 1, 0, 0, 0]);
+
+  const indices = new Uint8Array(width * height);
+  for (const frame of frames) {
+    const d = frame.data;
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      if (d[i + 3] < ALPHA_CUTOFF) {
+        indices[p] = TRANSPARENT;
+        continue;
+      }
+      const k = key15(d[i], d[i + 1], d[i + 2]);
+      if (lookup[k] < 0) lookup[k] = nearest(usable, d[i], d[i + 1], d[i + 2]);
+      indices[p] = lookup[k];
+    }
+    // Graphic control extension: disposal 2 (restore to background) so
+    // transparent frames do not pile up on top of each other
+    w.bytes([0x21, 0xf9, 4, (2 << 2) | (transparent ? 1 : 0)]);
+    w.word(Math.max(2, Math.round(frame.delay / 10)));
+    w.byte(transparent ? TRANSPARENT : 0);
+    w.byte(0);
+    w.byte(0x2c);
+    w.word(0);
+    w.word(0);
+    w.word(width);
+    w.word(height);
+    w.byte(0);
+    w.byte(8);
+    w.blocks(lzw(indices, 8));
+  }
+  w.byte(0x3b);
+  return w.result();
+}
@@ -0,0 +1,174 @@
+import { sha256Hex } from './sha256';
+import { putBlob } from './storage';
+import { workflowDefaults } from './workflow';
+import type { Asset, AssetFile } from '../types';
+
+export const ACCEPTED_TYPES: Record<string, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/gif': 'GIF',
+  'image/svg+xml': 'SVG'
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml'
+};
+
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
+export const THUMBNAIL_SIZE = 160;
+
+export type IngestResult =
+  | { fileName: string; status: 'added'; asset: Asset }
+  | { fileName: string; status: 'duplicate'; existing: Asset }
+  | { fileName: string; status: 'error'; message: string };
+
+export type IngestProgress = {
+  done: number;
+  total: number;
+  bytesDone: number;
+  bytesTotal: number;
+  /** Name of the file being processed */
+  current: string | null;
+};
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns e.g. "1.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * MIME type of an upload, falling back to the file extension when the
+ * browser does not report one
+ * @param file - The file
+ * @returns The MIME type, or '' when unknown
+ */
+export function fileType(file: File): string {
+  if (file.type) return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[ext] ?? '';
+}
+
+/**
+ * Check an upload against the accepted types and size limit
+ * @param file - The file
+ * @returns Why the file is rejected, or null when it can be ingested
+ */
+export function checkFile(file: File): string | null {
+  const type = fileType(file);
+  if (!ACCEPTED_TYPES[type]) {
+    return `Unsupported file type ${type || 'unknown'}; use ${Object.values(ACCEPTED_TYPES).join(', ')}`;
+  }
+  if (file.size === 0) return 'File is empty';
+  if (file.size > MAX_FILE_BYTES) return `File is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_FILE_BYTES)}`;
+  return null;
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.src = url;
+  return img.decode().then(
+    () => {
+      URL.revokeObjectURL(url);
+      return img;
+    },
+    () => {
+      URL.revokeObjectURL(url);
+      throw new Error('File could not be decoded as an image');
+    }
+  );
+}
+
+function thumbnail(img: HTMLImageElement, width: number, height: number): string {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available in this browser');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  // Browsers without WebP encoding fall back to PNG
+  return canvas.toDataURL('image/webp', 0.8);
+}
+
+async function describe(file: File, hash: string): Promise<AssetFile> {
+  const img = await loadImage(file);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  if (!width || !height) throw new Error('Image has no intrinsic size (SVGs need width and height attributes)');
+  return {
+    hash,
+    mimeType: fileType(file),
+    size: file.size,
+    width,
+    height,
+    thumbnail: thumbnail(img, width, height),
+    uploadedAt: Date.now()
+  };
+}
+
+/**
+ * Ingest uploaded images one at a time: validate, hash, skip duplicates,
+ * measure, thumbnail and store the bytes. A failing file never stops the
+ * batch; each file gets its own result.
+ * @param files - The uploads
+ * @param existing - Assets already in the CMS, for duplicate detection
+ * @param onProgress - Called before each file and once at the end
+ * @returns One result per file, in upload order
+ */
+export async function ingestFiles(files: File[], existing: Asset[], onProgress?: (p: IngestProgress) => void): Promise<IngestResult[]> {
+  const byHash = new Map<string, Asset>();
+  existing.forEach((a) => {
+    if (a.file) byHash.set(a.file.hash, a);
+  });
+  const bytesTotal = files.reduce((sum, f) => sum + f.size, 0);
+  const results: IngestResult[] = [];
+  let bytesDone = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    onProgress?.({ done: i, total: files.length, bytesDone, bytesTotal, current: file.name });
+    const problem = checkFile(file);
+    if (problem) {
+      results.push({ fileName: file.name, status: 'error', message: problem });
+    } else {
+      try {
+        const hash = await sha256Hex(await file.arrayBuffer());
+        const duplicate = byHash.get(hash);
+        if (duplicate) {
+          results.push({ fileName: file.name, status: 'duplicate', existing: duplicate });
+        } else {
+          const record = await describe(file, hash);
+          await putBlob(hash, file);
+          const asset: Asset = {
+            id: `asset-${record.uploadedAt}-${i}`,
+            name: file.name,
+            tags: [],
+            ...workflowDefaults(file.name.replace(/\.[^.]+$/, '')),
+            file: record,
+            createdAt: record.uploadedAt
+          };
+          byHash.set(hash, asset);
+          results.push({ fileName: file.name, status: 'added', asset });
+        }
+      } catch (e) {
+        results.push({ fileName: file.name, status: 'error', message: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    bytesDone += file.size;
+  }
+  onProgress?.({ done: files.length, total: files.length, bytesDone, bytesTotal, current: null });
+  return results;
+}
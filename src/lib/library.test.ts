@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import {
+  assetFromDesign,
+  DEFAULT_QUERY,
+  deleteCollection,
+  findDesign,
+  mergeTags,
+  moveToCollection,
+  parseTags,
+  renameTag,
+  searchAssets,
+  tagUsage
+} from './library';
+import { DEFAULT_SPEC } from './mandala';
+import { createSnapshot } from './snapshots';
+import { workflowDefaults } from './workflow';
+import type { Asset } from '../types';
+
+function asset(id: string, patch: Partial<Asset> = {}): Asset {
+  return { id, name: id, tags: [], ...workflowDefaults(id), createdAt: 0, ...patch };
+}
+
+const library: Asset[] = [
+  asset('lotus', { tags: ['floral', 'blue'], createdAt: 3, collectionId: 'c1', description: 'Petals at dawn' }),
+  asset('sun 10', { tags: ['blue'], createdAt: 1, file: { hash: 'h', mimeType: 'image/png', size: 900, width: 10, height: 10, thumbnail: '', uploadedAt: 1 } }),
+  asset('sun 9', { tags: ['floral'], createdAt: 2, status: 'published', design: DEFAULT_SPEC })
+];
+
+describe('tags', () => {
+  test('are normalised and de-duplicated', () => {
+    expect(parseTags(' Blue, floral,  blue ,, Deep   Sea')).toEqual(['blue', 'floral', 'deep sea']);
+  });
+
+  test('usage counts the most used first', () => {
+    expect(tagUsage(library)).toEqual([{ tag: 'blue', count: 2 }, { tag: 'floral', count: 2 }]);
+  });
+
+  test('renaming onto an existing tag merges them', () => {
+    const renamed = renameTag(library, 'floral', 'Blue');
+    expect(renamed.map((a) => a.tags)).toEqual([['blue'], ['blue'], ['blue']]);
+    expect(renamed[1]).toBe(library[1]);
+    expect(mergeTags(library, ['blue'], '  ')).toBe(library);
+  });
+});
+
+describe('collections', () => {
+  test('deleting a collection keeps its assets outside any collection', () => {
+    const next = deleteCollection([{ id: 'c1', name: 'Blues', description: '', createdAt: 0 }], library, 'c1');
+    expect(next.collections).toEqual([]);
+    expect(next.assets[0]).not.toHaveProperty('collectionId');
+    expect(moveToCollection(next.assets, ['lotus'], 'c2')[0].collectionId).toBe('c2');
+  });
+});
+
+describe('search', () => {
+  const names = (query: Partial<typeof DEFAULT_QUERY>) => searchAssets(library, { ...DEFAULT_QUERY, ...query }).map((a) => a.name);
+
+  test('matches every word against names, tags and descriptions', () => {
+    expect(names({ text: 'dawn BLUE' })).toEqual(['lotus']);
+    expect(names({ tags: ['floral'] })).toEqual(['lotus', 'sun 9']);
+  });
+
+  test('filters by kind, status and collection', () => {
+    expect(names({ kind: 'image' })).toEqual(['sun 10']);
+    expect(names({ kind: 'design' })).toEqual(['sun 9']);
+    expect(names({ status: 'published' })).toEqual(['sun 9']);
+    expect(names({ collectionId: 'none' })).toEqual(['sun 9', 'sun 10']);
+  });
+
+  test('sorts names numerically and files by size', () => {
+    expect(names({ sort: 'name' })).toEqual(['lotus', 'sun 9', 'sun 10']);
+    expect(names({ sort: 'oldest' })).toEqual(['sun 10', 'sun 9', 'lotus']);
+    expect(names({ sort: 'size' })[0]).toBe('sun 10');
+  });
+});
+
+describe('designs', () => {
+  test('saved designs become draft assets', () => {
+    const saved = assetFromDesign('  ', DEFAULT_SPEC);
+    expect(saved).toMatchObject({ name: 'Untitled design', status: 'draft', tags: ['design'], design: DEFAULT_SPEC });
+  });
+
+  test('design links open snapshots and library designs', () => {
+    const snapshot = createSnapshot('Blue', { ...DEFAULT_SPEC, palette: ['#0000ff'] });
+    expect(findDesign(snapshot.id, [snapshot], library)).toBe(snapshot.spec);
+    expect(findDesign('sun 9', [snapshot], library)).toBe(DEFAULT_SPEC);
+    expect(findDesign('lotus', [snapshot], library)).toBeNull();
+  });
+});
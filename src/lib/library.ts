@@ -0,0 +1,222 @@
+import type { MandalaSpec } from './mandala';
+import type { DesignSnapshot } from './snapshots';
+import { workflowDefaults } from './workflow';
+import type { Asset, AssetStatus, Collection } from '../types';
+
+export type AssetKind = 'all' | 'image' | 'design';
+export type AssetSort = 'newest' | 'oldest' | 'name' | 'size';
+
+export type AssetQuery = {
+  /** Free text matched against name, title, tags and description */
+  text: string;
+  /** Every listed tag must be present */
+  tags: string[];
+  /** A collection id, 'none' for assets outside any collection, or null for all */
+  collectionId: string | null;
+  kind: AssetKind;
+  /** Workflow state, or null for any */
+  status: AssetStatus | null;
+  sort: AssetSort;
+};
+
+export const DEFAULT_QUERY: AssetQuery = { text: '', tags: [], collectionId: null, kind: 'all', status: null, sort: 'newest' };
+
+export const SORTS: { id: AssetSort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'name', label: 'Name' },
+  { id: 'size', label: 'Largest first' }
+];
+
+/**
+ * Canonical form of a tag: trimmed, lower case, inner whitespace collapsed
+ * @param tag - Tag as typed
+ * @returns The normalised tag ('' when blank)
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse a comma-separated tag list
+ * @param input - e.g. "Blue, floral,  blue"
+ * @returns Unique normalised tags in input order
+ */
+export function parseTags(input: string): string[] {
+  return uniqueTags(input.split(','));
+}
+
+function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+/**
+ * Count how many assets use each tag
+ * @param assets - The library
+ * @returns Tags with counts, most used first
+ */
+export function tagUsage(assets: Asset[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  assets.forEach((a) => a.tags.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Rename a tag on every asset. Renaming onto an existing tag merges the two.
+ * @param assets - The library
+ * @param from - Current tag
+ * @param to - New tag
+ * @returns The updated library
+ */
+export function renameTag(assets: Asset[], from: string, to: string): Asset[] {
+  return mergeTags(assets, [from], to);
+}
+
+/**
+ * Replace several tags with one on every asset
+ * @param assets - The library
+ * @param sources - Tags to merge away
+ * @param target - Tag that replaces them
+ * @returns The updated library
+ */
+export function mergeTags(assets: Asset[], sources: string[], target: string): Asset[] {
+  const to = normalizeTag(target);
+  if (!to) return assets;
+  return assets.map((a) =>
+    a.tags.some((t) => sources.includes(t)) ? { ...a, tags: uniqueTags(a.tags.map((t) => (sources.includes(t) ? to : t))) } : a
+  );
+}
+
+/**
+ * Remove a tag from every asset
+ * @param assets - The library
+ * @param tag - The tag
+ * @returns The updated library
+ */
+export function deleteTag(assets: Asset[], tag: string): Asset[] {
+  return assets.map((a) => (a.tags.includes(tag) ? { ...a, tags: a.tags.filter((t) => t !== tag) } : a));
+}
+
+/**
+ * Add tags to the selected assets
+ * @param assets - The library
+ * @param ids - Selected asset ids
+ * @param tags - Tags to add
+ * @returns The updated library
+ */
+export function tagAssets(assets: Asset[], ids: string[], tags: string[]): Asset[] {
+  return assets.map((a) => (ids.includes(a.id) ? { ...a, tags: uniqueTags([...a.tags, ...tags]) } : a));
+}
+
+/**
+ * Move the selected assets into a collection
+ * @param assets - The library
+ * @param ids - Selected asset ids
+ * @param collectionId - Target collection, or null to take them out of any collection
+ * @returns The updated library
+ */
+export function moveToCollection(assets: Asset[], ids: string[], collectionId: string | null): Asset[] {
+  return assets.map((a) => {
+    if (!ids.includes(a.id)) return a;
+    const { collectionId: _previous, ...rest } = a;
+    return collectionId ? { ...rest, collectionId } : rest;
+  });
+}
+
+/**
+ * Delete the selected assets
+ * @param assets - The library
+ * @param ids - Selected asset ids
+ * @returns The remaining assets
+ */
+export function deleteAssets(assets: Asset[], ids: string[]): Asset[] {
+  return assets.filter((a) => !ids.includes(a.id));
+}
+
+let collectionCounter = 0;
+
+/**
+ * Create a collection
+ * @param name - Display name
+ * @returns The collection
+ */
+export function createCollection(name: string): Collection {
+  collectionCounter += 1;
+  const createdAt = Date.now();
+  return { id: `collection-${createdAt}-${collectionCounter}`, name: name.trim() || 'Untitled collection', description: '', createdAt };
+}
+
+/**
+ * Delete a collection; its assets stay in the library outside any collection
+ * @param collections - All collections
+ * @param assets - The library
+ * @param id - Collection id
+ * @returns The remaining collections and updated library
+ */
+export function deleteCollection(collections: Collection[], assets: Asset[], id: string): { collections: Collection[]; assets: Asset[] } {
+  return {
+    collections: collections.filter((c) => c.id !== id),
+    assets: moveToCollection(assets, assets.filter((a) => a.collectionId === id).map((a) => a.id), null)
+  };
+}
+
+let designCounter = 0;
+
+/**
+ * Turn a builder design into a library asset
+ * @param name - Display name
+ * @param spec - The design
+ * @returns The asset
+ */
+export function assetFromDesign(name: string, spec: MandalaSpec): Asset {
+  designCounter += 1;
+  const createdAt = Date.now();
+  const title = name.trim() || 'Untitled design';
+  return { id: `design-${createdAt}-${designCounter}`, name: title, tags: ['design'], ...workflowDefaults(title), design: spec, createdAt };
+}
+
+/**
+ * Find a design by id among saved snapshots and library assets, for
+ * /builder/:designId links
+ * @param id - Snapshot or asset id
+ * @param snapshots - Saved snapshots
+ * @param assets - The library
+ * @returns The design, or null when neither has it
+ */
+export function findDesign(id: string, snapshots: DesignSnapshot[], assets: Asset[]): MandalaSpec | null {
+  return snapshots.find((s) => s.id === id)?.spec ?? assets.find((a) => a.id === id)?.design ?? null;
+}
+
+const createdAt = (a: Asset) => a.createdAt ?? a.file?.uploadedAt ?? 0;
+
+/**
+ * Filter and sort the library. Every word of the text must appear in the
+ * name, title, a tag or the description.
+ * @param assets - The library
+ * @param query - Search text, filters and sort order
+ * @returns Matching assets in order
+ */
+export function searchAssets(assets: Asset[], query: AssetQuery): Asset[] {
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = assets.filter((a) => {
+    if (query.kind === 'image' && !a.file && !a.url) return false;
+    if (query.kind === 'design' && !a.design) return false;
+    if (query.status && a.status !== query.status) return false;
+    if (query.collectionId === 'none' ? a.collectionId : query.collectionId && a.collectionId !== query.collectionId) return false;
+    if (!query.tags.every((t) => a.tags.includes(t))) return false;
+    if (words.length === 0) return true;
+    const haystack = [a.name, a.title, ...a.tags, a.description ?? ''].join(' ').toLowerCase();
+    return words.every((w) => haystack.includes(w));
+  });
+  const sorted = [...matches];
+  switch (query.sort) {
+    case 'newest':
+      return sorted.sort((a, b) => createdAt(b) - createdAt(a));
+    case 'oldest':
+      return sorted.sort((a, b) => createdAt(a) - createdAt(b));
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    case 'size':
+      return sorted.sort((a, b) => (b.file?.size ?? 0) - (a.file?.size ?? 0));
+  }
+}
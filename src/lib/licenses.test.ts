@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'vitest';
+import {
+  activeLicenses,
+  coerceLicense,
+  createLicense,
+  DEFAULT_LICENSES,
+  findLicense,
+  licenseRuleError,
+  licenseTerms,
+  updateLicense,
+  validateLicense
+} from './licenses';
+
+const [standard, editorial, exclusive] = DEFAULT_LICENSES;
+
+describe('selection', () => {
+  test('finds the selected license, or none', () => {
+    expect(findLicense(DEFAULT_LICENSES, 'editorial')).toBe(editorial);
+    expect(findLicense(DEFAULT_LICENSES, 'gone')).toBeNull();
+    expect(findLicense(DEFAULT_LICENSES, null)).toBeNull();
+  });
+
+  test('offers only active licenses', () => {
+    const catalog = updateLicense(DEFAULT_LICENSES, editorial.id, { status: 'retired' });
+    expect(activeLicenses(catalog).map((l) => l.id)).toEqual([standard.id, exclusive.id]);
+    expect(catalog).toHaveLength(DEFAULT_LICENSES.length);
+  });
+});
+
+describe('rules', () => {
+  test('allows digital products under any active license', () => {
+    for (const license of DEFAULT_LICENSES) expect(licenseRuleError(license, { kind: 'digital', name: 'SVG' }, 5)).toBeNull();
+  });
+
+  test('enforces the print run on physical products', () => {
+    const print = { kind: 'physical' as const, name: 'Print' };
+    expect(licenseRuleError(standard, print, 250)).toBeNull();
+    expect(licenseRuleError(standard, print, 251)).toBe('Standard Commercial allows at most 250 prints per purchase');
+    expect(licenseRuleError(editorial, print, 1)).toBe('Editorial License does not allow prints');
+    expect(licenseRuleError(exclusive, print, 10_000)).toBeNull();
+  });
+});
+
+describe('terms', () => {
+  test('are written from the license fields', () => {
+    expect(licenseTerms(editorial)).toBe(
+      'For editorial and personal use only; commercial use is not permitted. Prints are not permitted. Valid worldwide. ' +
+      'The license is perpetual. Credit to the artist is required. Resale of licensed works is not permitted.'
+    );
+    expect(licenseTerms({ ...exclusive, territory: 'europe' })).toContain('Valid in Europe only. The license runs for 2 years from purchase.');
+  });
+});
+
+describe('validation', () => {
+  test('a new license is valid', () => {
+    expect(validateLicense(createLicense('  Museum  '))).toBeNull();
+    expect(createLicense('  Museum  ').name).toBe('Museum');
+  });
+
+  test('reports the first problem', () => {
+    expect(validateLicense({ ...standard, name: ' ' })).toBe('Name is required');
+    expect(validateLicense({ ...standard, printRunLimit: 2.5 })).toBe('Print run limit must be a whole number of 0 or more');
+    expect(validateLicense({ ...standard, durationMonths: 0 })).toBe('Duration must be a whole number of months');
+    expect(validateLicense({ ...standard, pricing: { kind: 'multiplier', multiplier: 0 } })).toBe('Price modifier must be greater than 0');
+  });
+
+  test('rejects untrusted licenses with missing or unknown fields', () => {
+    expect(coerceLicense(JSON.parse(JSON.stringify(standard)))).toEqual(standard);
+    expect(coerceLicense({ ...standard, territory: 'mars' })).toBeNull();
+    expect(coerceLicense({ ...standard, pricing: { kind: 'multiplier' } })).toBeNull();
+    expect(coerceLicense('standard')).toBeNull();
+    for (const multiplier of [0, -1, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(coerceLicense({ ...standard, pricing: { kind: 'multiplier', multiplier } })).toBeNull();
+    }
+    expect(coerceLicense({ ...standard, name: '' })).toBeNull();
+  });
+});
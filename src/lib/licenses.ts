@@ -0,0 +1,205 @@
+import type { License, LicenseTerritory, StoreItem } from '../types';
+
+export const TERRITORIES: { id: LicenseTerritory; label: string }[] = [
+  { id: 'worldwide', label: 'Worldwide' },
+  { id: 'north-america', label: 'North America' },
+  { id: 'europe', label: 'Europe' },
+  { id: 'uk', label: 'United Kingdom' },
+  { id: 'asia-pacific', label: 'Asia-Pacific' }
+];
+
+export const DEFAULT_LICENSES: License[] = [
+  {
+    id: 'standard-commercial',
+    name: 'Standard Commercial',
+    status: 'active',
+    commercialUse: true,
+    printRunLimit: 250,
+    territory: 'worldwide',
+    durationMonths: null,
+    attributionRequired: false,
+    resaleAllowed: false,
+    exclusive: false,
+    pricing: { kind: 'multiplier', multiplier: 1 }
+  },
+  {
+    id: 'editorial',
+    name: 'Editorial License',
+    status: 'active',
+    commercialUse: false,
+    printRunLimit: 0,
+    territory: 'worldwide',
+    durationMonths: null,
+    attributionRequired: true,
+    resaleAllowed: false,
+    exclusive: false,
+    pricing: { kind: 'multiplier', multiplier: 0.6 }
+  },
+  {
+    id: 'exclusive',
+    name: 'Exclusive',
+    status: 'active',
+    commercialUse: true,
+    printRunLimit: null,
+    territory: 'worldwide',
+    durationMonths: 24,
+    attributionRequired: false,
+    resaleAllowed: true,
+    exclusive: true,
+    pricing: { kind: 'on-request' }
+  }
+];
+
+let licenseCounter = 0;
+
+/**
+ * Create a license with conservative defaults: commercial, no prints,
+ * worldwide, perpetual, attribution required
+ * @param name - Display name
+ * @returns The new license
+ */
+export function createLicense(name: string): License {
+  licenseCounter += 1;
+  return {
+    id: `license-${Date.now()}-${licenseCounter}`,
+    name: name.trim() || 'New license',
+    status: 'active',
+    commercialUse: true,
+    printRunLimit: 0,
+    territory: 'worldwide',
+    durationMonths: null,
+    attributionRequired: true,
+    resaleAllowed: false,
+    exclusive: false,
+    pricing: { kind: 'multiplier', multiplier: 1 }
+  };
+}
+
+/**
+ * Update one license in the catalog
+ * @param catalog - The catalog
+ * @param id - The license id
+ * @param patch - Fields to change
+ * @returns The updated catalog
+ */
+export function updateLicense(catalog: License[], id: string, patch: Partial<Omit<License, 'id'>>): License[] {
+  return catalog.map((l) => (l.id === id ? { ...l, ...patch } : l));
+}
+
+/**
+ * Check a license's fields
+ * @param license - The license
+ * @returns A description of the first problem, or null when valid
+ */
+export function validateLicense(license: License): string | null {
+  if (!license.name.trim()) return 'Name is required';
+  if (license.printRunLimit !== null && (!Number.isInteger(license.printRunLimit) || license.printRunLimit < 0)) {
+    return 'Print run limit must be a whole number of 0 or more';
+  }
+  if (license.durationMonths !== null && (!Number.isInteger(license.durationMonths) || license.durationMonths <= 0)) {
+    return 'Duration must be a whole number of months';
+  }
+  if (license.pricing.kind === 'multiplier' && !(Number.isFinite(license.pricing.multiplier) && license.pricing.multiplier > 0)) {
+    return 'Price modifier must be greater than 0';
+  }
+  return null;
+}
+
+function duration(months: number): string {
+  if (months % 12 === 0) return months === 12 ? '1 year' : `${months / 12} years`;
+  return months === 1 ? '1 month' : `${months} months`;
+}
+
+/**
+ * Look up a license in the catalog
+ * @param catalog - All licenses
+ * @param id - License id
+ * @returns The license, or null when there is none with that id
+ */
+export function findLicense(catalog: License[], id: string | null): License | null {
+  return catalog.find((l) => l.id === id) ?? null;
+}
+
+/**
+ * Licenses that can still be bought; retired ones stay in the catalog for past orders
+ * @param catalog - All licenses
+ * @returns Active licenses in catalog order
+ */
+export function activeLicenses(catalog: License[]): License[] {
+  return catalog.filter((l) => l.status === 'active');
+}
+
+/**
+ * Human-readable terms generated from a license's fields
+ * @param license - The license
+ * @returns The terms text
+ */
+export function licenseTerms(license: License): string {
+  const territory = TERRITORIES.find((t) => t.id === license.territory)?.label ?? license.territory;
+  return [
+    license.commercialUse ? 'Commercial use is permitted.' : 'For editorial and personal use only; commercial use is not permitted.',
+    license.printRunLimit === 0
+      ? 'Prints are not permitted.'
+      : license.printRunLimit === null
+        ? 'Prints may be produced in unlimited runs.'
+        : `Prints are limited to ${license.printRunLimit} copies per purchase.`,
+    license.territory === 'worldwide' ? 'Valid worldwide.' : `Valid in ${territory} only.`,
+    license.durationMonths === null ? 'The license is perpetual.' : `The license runs for ${duration(license.durationMonths)} from purchase.`,
+    license.attributionRequired ? 'Credit to the artist is required.' : 'Attribution is not required.',
+    license.resaleAllowed ? 'Resale of licensed works is permitted.' : 'Resale of licensed works is not permitted.',
+    license.exclusive ? 'Exclusive: the design is withdrawn from sale to others once licensed.' : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Check whether a product may be bought under a license
+ * @param license - The license
+ * @param item - The product
+ * @param quantity - Prints bought under the license in the whole purchase
+ * @returns Why the purchase is not allowed, or null when it is
+ */
+export function licenseRuleError(license: License, item: Pick<StoreItem, 'kind' | 'name'>, quantity: number): string | null {
+  if (license.status === 'retired') return `${license.name} is retired and can no longer be purchased`;
+  if (item.kind === 'physical') {
+    if (license.printRunLimit === 0) return `${license.name} does not allow prints`;
+    if (license.printRunLimit !== null && quantity > license.printRunLimit) {
+      return `${license.name} allows at most ${license.printRunLimit} prints per purchase`;
+    }
+  }
+  return null;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isLimit = (v: unknown): v is number | null => v === null || (typeof v === 'number' && Number.isInteger(v) && v >= 0);
+
+/**
+ * Validate an untrusted license (storage, bundles). The result must also
+ * pass validateLicense, the same rules the license editor enforces.
+ * @param value - The parsed value
+ * @returns The license, or null when it is not a valid license
+ */
+export function coerceLicense(value: unknown): License | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  const pricing = value.pricing;
+  if (!isRecord(pricing) || !(pricing.kind === 'on-request' || (pricing.kind === 'multiplier' && typeof pricing.multiplier === 'number'))) {
+    return null;
+  }
+  if (!TERRITORIES.some((t) => t.id === value.territory)) return null;
+  if (!isLimit(value.printRunLimit) || !isLimit(value.durationMonths)) return null;
+  const flags = ['commercialUse', 'attributionRequired', 'resaleAllowed', 'exclusive'] as const;
+  if (!flags.every((f) => typeof value[f] === 'boolean')) return null;
+  const license: License = {
+    id: value.id,
+    name: value.name,
+    status: value.status === 'retired' ? 'retired' : 'active',
+    commercialUse: value.commercialUse as boolean,
+    printRunLimit: value.printRunLimit,
+    territory: value.territory as LicenseTerritory,
+    durationMonths: value.durationMonths,
+    attributionRequired: value.attributionRequired as boolean,
+    resaleAllowed: value.resaleAllowed as boolean,
+    exclusive: value.exclusive as boolean,
+    pricing: pricing.kind === 'on-request' ? { kind: 'on-request' } : { kind: 'multiplier', multiplier: pricing.multiplier as number }
+  };
+  return validateLicense(license) === null ? license : null;
+}
@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+import { geometryMarkup, mandalaGeometry } from './geometry';
+import { DEFAULT_LICENSES } from './licenses';
+import {
+  CANVAS_SIZE,
+  CENTER,
+  DEFAULT_SPEC,
+  fundamentalAngle,
+  mandalaMarkup,
+  mandalaShapes,
+  readSpecFromSVG,
+  updateLayer,
+  type MandalaLayer,
+  type MandalaSpec
+} from './mandala';
+import { buildSVGDocument, type SVGExportOptions } from './svgExport';
+import { DEFAULT_WATERMARK } from './watermark';
+
+// Snapshots live next to this file as .svg so a reviewer can open them and
+// see what changed; run `npm test -- -u` after an intended change
+const snapshot = (name: string) => `./__snapshots__/${name}.svg`;
+const standalone = (markup: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">${markup}</svg>\n`;
+
+function layer(id: string, patch: Partial<MandalaLayer>): MandalaLayer {
+  return { id, motif: 'wedge', innerRadius: 0, outerRadius: 100, segments: 8, rotation: 0, opacity: 1, fill: { gradient: 'solid', from: 0, to: 0 }, ...patch };
+}
+
+/** One ring of every motif and gradient kind, with a dihedral motif */
+const SHOWCASE: MandalaSpec = {
+  symmetry: 'dihedral',
+  palette: ['#5200ff', '#ffd600', '#ff7f50'],
+  layers: [
+    layer('wedges', { innerRadius: 150, outerRadius: 190, segments: 24, fill: { gradient: 'radial', from: 0, to: 1 }, opacity: 0.8 }),
+    layer('petals', { motif: 'petal', innerRadius: 90, outerRadius: 150, segments: 12, rotation: 15, fill: { gradient: 'linear', from: 1, to: 2 } }),
+    layer('drops', { motif: 'teardrop', innerRadius: 60, outerRadius: 95, segments: 10, fill: { gradient: 'solid', from: 2, to: 2 } }),
+    layer('arcs', { motif: 'arc', innerRadius: 40, outerRadius: 60, segments: 6, opacity: 0.5 }),
+    layer('lattice', { motif: 'lattice', innerRadius: 20, outerRadius: 40, segments: 8 }),
+    layer('dots', { motif: 'dot-ring', innerRadius: 10, outerRadius: 20, segments: 9, fill: { gradient: 'solid', from: 1, to: 1 } })
+  ],
+  motif: {
+    segments: 6,
+    color: 2,
+    strokes: [
+      { id: 'leaf', kind: 'bezier', points: [{ r: 0.5, t: 0.1 }, { r: 0.6, t: 0.6 }, { r: 0.7, t: 0.2 }], closed: false, width: 2 },
+      { id: 'kite', kind: 'freeform', points: [{ r: 0.3, t: 0 }, { r: 0.35, t: 0.5 }, { r: 0.4, t: 1 }], closed: true, width: 1.5 }
+    ]
+  }
+};
+
+const EXPORT_OPTIONS: SVGExportOptions = {
+  precision: 2,
+  variant: 'filled',
+  watermark: null,
+  fingerprint: null,
+  embedSpec: true,
+  metadata: {
+    title: 'Showcase & <friends>',
+    description: 'Every motif on one canvas',
+    artist: 'Studio',
+    license: DEFAULT_LICENSES[0],
+    createdAt: new Date(Date.UTC(2024, 0, 1))
+  }
+};
+
+describe('wedge geometry', () => {
+  test('a full wedge runs from the centre to the outer radius', () => {
+    const spec: MandalaSpec = { ...DEFAULT_SPEC, layers: [layer('w', { segments: 4 })] };
+    const [first] = mandalaShapes(spec);
+    // 4 segments of 90°: corners at 0° and 90° on a radius of 100
+    expect(first).toMatchObject({ kind: 'path', d: `M${CENTER},${CENTER} L${CENTER + 100},${CENTER} L${CENTER},${CENTER + 100} Z` });
+  });
+
+  test('a ring wedge has an inner edge', () => {
+    const spec: MandalaSpec = { ...DEFAULT_SPEC, layers: [layer('w', { innerRadius: 50, segments: 4 })] };
+    const [first] = mandalaShapes(spec);
+    expect(first.kind === 'path' && first.d).toBe(`M${CENTER + 50},${CENTER} L${CENTER + 100},${CENTER} L${CENTER},${CENTER + 100} L${CENTER},${CENTER + 50} Z`);
+  });
+
+  test('a ring has one shape per segment', () => {
+    const spec = updateLayer(DEFAULT_SPEC, DEFAULT_SPEC.layers[0].id, { segments: 7 });
+    expect(mandalaShapes({ ...spec, layers: [spec.layers[0]] })).toHaveLength(7);
+  });
+
+  test('the dihedral wedge is half a segment', () => {
+    expect(fundamentalAngle('cyclic', 12)).toBe(30);
+    expect(fundamentalAngle('dihedral', 12)).toBe(15);
+  });
+});
+
+describe('SVG snapshots', () => {
+  test('default design', async () => {
+    await expect(standalone(mandalaMarkup(DEFAULT_SPEC, null))).toMatchFileSnapshot(snapshot('default'));
+  });
+
+  test('every motif, gradient and the dihedral motif', async () => {
+    await expect(standalone(mandalaMarkup(SHOWCASE, null))).toMatchFileSnapshot(snapshot('showcase'));
+  });
+
+  test('watermarked preview', async () => {
+    await expect(standalone(mandalaMarkup(DEFAULT_SPEC, { ...DEFAULT_WATERMARK, pattern: 'single' }))).toMatchFileSnapshot(snapshot('watermarked'));
+  });
+
+  test('exported document', async () => {
+    await expect(buildSVGDocument(SHOWCASE, EXPORT_OPTIONS)).toMatchFileSnapshot(snapshot('export'));
+  });
+
+  test('plotter export', async () => {
+    await expect(buildSVGDocument(SHOWCASE, { ...EXPORT_OPTIONS, variant: 'stroke', embedSpec: false })).toMatchFileSnapshot(snapshot('export-plotter'));
+  });
+
+  test('template markup draws the same number of shapes', () => {
+    const geometry = mandalaGeometry(SHOWCASE);
+    expect(geometry.shapeCount).toBe(mandalaShapes(SHOWCASE).length);
+    expect(geometryMarkup(geometry).match(/<use /g)).toHaveLength(geometry.shapeCount);
+  });
+
+  test('an exported design can be imported back', () => {
+    expect(readSpecFromSVG(buildSVGDocument(SHOWCASE, EXPORT_OPTIONS))).toEqual(SHOWCASE);
+  });
+});
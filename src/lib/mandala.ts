@@ -0,0 +1,592 @@
+import { clamp } from './utils';
+import { watermarkMarkup, type WatermarkSettings } from './watermark';
+
+export type MotifShape = 'wedge' | 'petal' | 'teardrop' | 'arc' | 'dot-ring' | 'lattice';
+
+/** Radial gradients run from the inner to the outer radius of the ring, linear ones top to bottom across it */
+export type GradientKind = 'solid' | 'linear' | 'radial';
+
+/** Colours are indices into the spec's palette, wrapping when the palette is shorter; solid fills use `from` */
+export type LayerFill = { gradient: GradientKind; from: number; to: number };
+
+export type MandalaLayer = {
+  id: string;
+  motif: MotifShape;
+  innerRadius: number;
+  outerRadius: number;
+  segments: number;
+  /** Rotation offset in degrees, applied to every segment of the ring */
+  rotation: number;
+  opacity: number;
+  fill: LayerFill;
+};
+
+/** Cn repeats the motif by rotation only; Dn also reflects it across each segment axis */
+export type SymmetryGroup = 'cyclic' | 'dihedral';
+
+/** A point inside the fundamental wedge: r is a fraction of MAX_RADIUS, t a fraction of the wedge angle */
+export type MotifPoint = { r: number; t: number };
+
+export type MotifStroke = {
+  id: string;
+  kind: 'freeform' | 'bezier';
+  points: MotifPoint[];
+  closed: boolean;
+  width: number;
+};
+
+export type SegmentMotif = {
+  /** Order n of the symmetry group */
+  segments: number;
+  strokes: MotifStroke[];
+  /** Palette index of the motif strokes */
+  color: number;
+};
+
+export type MandalaSpec = {
+  symmetry: SymmetryGroup;
+  /** Hex colours the layers and motif pick from */
+  palette: string[];
+  /** Rings drawn back to front: the first layer is painted first */
+  layers: MandalaLayer[];
+  /** Hand-drawn motif repeated over every segment according to the symmetry group */
+  motif: SegmentMotif;
+};
+
+export type MandalaGradient =
+  | { kind: 'linear'; id: string; x1: number; y1: number; x2: number; y2: number; stops: { offset: number; color: string }[] }
+  | { kind: 'radial'; id: string; cx: number; cy: number; r: number; stops: { offset: number; color: string }[] };
+
+export type MandalaShape =
+  | { kind: 'path'; key: string; d: string; fill: string; stroke?: string; strokeWidth?: number; opacity: number; transform?: string }
+  | { kind: 'circle'; key: string; cx: number; cy: number; r: number; fill: string; opacity: number };
+
+export const CANVAS_SIZE = 420;
+export const CENTER = CANVAS_SIZE / 2;
+export const MAX_RADIUS = 200;
+export const MIN_SEGMENTS = 3;
+export const MAX_SEGMENTS = 48;
+export const MAX_LAYERS = 10;
+export const MAX_PALETTE_COLORS = 12;
+
+export const GRADIENT_KINDS: { id: GradientKind; label: string }[] = [
+  { id: 'solid', label: 'Solid' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'radial', label: 'Radial' }
+];
+
+export const MOTIF_SHAPES: { id: MotifShape; label: string }[] = [
+  { id: 'wedge', label: 'Wedge' },
+  { id: 'petal', label: 'Petal' },
+  { id: 'teardrop', label: 'Teardrop' },
+  { id: 'arc', label: 'Arc' },
+  { id: 'dot-ring', label: 'Dot ring' },
+  { id: 'lattice', label: 'Lattice' }
+];
+
+let layerCounter = 0;
+
+/**
+ * Create a layer with sensible defaults
+ * @param partial - Fields to override
+ * @returns A normalized layer with a fresh id
+ */
+export function createLayer(partial: Partial<MandalaLayer> = {}): MandalaLayer {
+  layerCounter += 1;
+  return normalizeLayer({
+    id: `layer-${Date.now()}-${layerCounter}`,
+    motif: 'petal',
+    innerRadius: 40,
+    outerRadius: 120,
+    segments: 12,
+    rotation: 0,
+    opacity: 0.7,
+    fill: { gradient: 'solid', from: 0, to: 0 },
+    ...partial
+  });
+}
+
+/**
+ * Clamp a layer into a drawable state: radii inside the canvas, inner below
+ * outer, an integer segment count and a rotation within one turn
+ * @param layer - The layer to normalize
+ * @returns The normalized layer
+ */
+export function normalizeLayer(layer: MandalaLayer): MandalaLayer {
+  const outerRadius = clamp(layer.outerRadius, 4, MAX_RADIUS);
+  const innerRadius = clamp(layer.innerRadius, 0, outerRadius - 2);
+  return {
+    ...layer,
+    innerRadius,
+    outerRadius,
+    segments: Math.round(clamp(layer.segments, MIN_SEGMENTS, MAX_SEGMENTS)),
+    // Only wrap when needed: the modulo adds float noise to in-range values
+    rotation: layer.rotation >= 0 && layer.rotation < 360 ? layer.rotation : ((layer.rotation % 360) + 360) % 360,
+    opacity: clamp(layer.opacity, 0, 1),
+    fill: { ...layer.fill, from: Math.max(0, Math.round(layer.fill.from)), to: Math.max(0, Math.round(layer.fill.to)) }
+  };
+}
+
+export const DEFAULT_SPEC: MandalaSpec = {
+  symmetry: 'cyclic',
+  palette: ['#ff7f50'],
+  layers: [
+    { id: 'layer-outer', motif: 'wedge', innerRadius: 0, outerRadius: 140, segments: 12, rotation: 0, opacity: 0.8, fill: { gradient: 'solid', from: 0, to: 0 } },
+    { id: 'layer-inner', motif: 'wedge', innerRadius: 0, outerRadius: 84, segments: 12, rotation: 0, opacity: 0.25, fill: { gradient: 'solid', from: 0, to: 0 } }
+  ],
+  motif: { segments: 12, strokes: [], color: 0 }
+};
+
+/**
+ * Append a new layer inside the innermost existing ring
+ * @param spec - The current spec
+ * @returns The spec with one more layer, or unchanged when full
+ */
+export function addLayer(spec: MandalaSpec): MandalaSpec {
+  if (spec.layers.length >= MAX_LAYERS) return spec;
+  const last = spec.layers[spec.layers.length - 1];
+  const outerRadius = last ? Math.max(12, last.outerRadius * 0.75) : 120;
+  const colour = spec.layers.length % Math.max(1, spec.palette.length);
+  const layer = createLayer({ outerRadius, innerRadius: outerRadius * 0.5, segments: last?.segments ?? 12, fill: { gradient: 'solid', from: colour, to: colour } });
+  return { ...spec, layers: [...spec.layers, layer] };
+}
+
+/**
+ * Remove a layer by id
+ * @param spec - The current spec
+ * @param id - The layer id
+ * @returns The spec without that layer
+ */
+export function removeLayer(spec: MandalaSpec, id: string): MandalaSpec {
+  return { ...spec, layers: spec.layers.filter((l) => l.id !== id) };
+}
+
+/**
+ * Move a layer up or down the paint order
+ * @param spec - The current spec
+ * @param id - The layer id
+ * @param offset - -1 to paint earlier, 1 to paint later
+ * @returns The reordered spec
+ */
+export function moveLayer(spec: MandalaSpec, id: string, offset: number): MandalaSpec {
+  const from = spec.layers.findIndex((l) => l.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= spec.layers.length) return spec;
+  const layers = [...spec.layers];
+  const [layer] = layers.splice(from, 1);
+  layers.splice(to, 0, layer);
+  return { ...spec, layers };
+}
+
+/**
+ * Patch a single layer, keeping it normalized
+ * @param spec - The current spec
+ * @param id - The layer id
+ * @param patch - Fields to change
+ * @returns The updated spec
+ */
+export function updateLayer(spec: MandalaSpec, id: string, patch: Partial<MandalaLayer>): MandalaSpec {
+  return {
+    ...spec,
+    layers: spec.layers.map((l) => (l.id === id ? normalizeLayer({ ...l, ...patch }) : l))
+  };
+}
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+function polar(r: number, deg: number): string {
+  return `${fmt(CENTER + Math.cos(rad(deg)) * r)},${fmt(CENTER + Math.sin(rad(deg)) * r)}`;
+}
+
+function motifPath(motif: MotifShape, r0: number, r1: number, a0: number, a1: number): string {
+  const am = (a0 + a1) / 2;
+  const rm = (r0 + r1) / 2;
+  switch (motif) {
+    case 'wedge':
+      return r0 <= 0
+        ? `M${fmt(CENTER)},${fmt(CENTER)} L${polar(r1, a0)} L${polar(r1, a1)} Z`
+        : `M${polar(r0, a0)} L${polar(r1, a0)} L${polar(r1, a1)} L${polar(r0, a1)} Z`;
+    case 'petal':
+      return `M${polar(r0, am)} Q${polar(rm, a0)} ${polar(r1, am)} Q${polar(rm, a1)} ${polar(r0, am)} Z`;
+    case 'teardrop': {
+      const rb = Math.max(r0, r0 + (r1 - r0) * 0.08);
+      return `M${polar(r1, am)} C${polar(rm, a0)} ${polar(rb, a0)} ${polar(rb, am)} C${polar(rb, a1)} ${polar(rm, a1)} ${polar(r1, am)} Z`;
+    }
+    case 'arc': {
+      const gap = (a1 - a0) * 0.08;
+      const ri = Math.max(r0, r1 - (r1 - r0) * 0.35);
+      const large = a1 - a0 - gap * 2 > 180 ? 1 : 0;
+      return `M${polar(r1, a0 + gap)} A${fmt(r1)},${fmt(r1)} 0 ${large} 1 ${polar(r1, a1 - gap)} L${polar(ri, a1 - gap)} A${fmt(ri)},${fmt(ri)} 0 ${large} 0 ${polar(ri, a0 + gap)} Z`;
+    }
+    case 'lattice':
+      return `M${polar(r0, a0)} L${polar(r1, a1)} M${polar(r0, a1)} L${polar(r1, a0)}`;
+    case 'dot-ring':
+      return '';
+  }
+}
+
+/**
+ * Look up a palette colour by index, wrapping around the palette
+ * @param palette - Hex colours
+ * @param index - Palette index
+ * @returns The colour; black for an empty palette
+ */
+export function paletteColor(palette: string[], index: number): string {
+  if (palette.length === 0) return '#000000';
+  return palette[((index % palette.length) + palette.length) % palette.length];
+}
+
+/**
+ * Derive an element id from content, so identical definitions in several
+ * mandalas on one page share an id without clashing
+ * @param value - The definition
+ * @param prefix - Id prefix
+ * @returns An id safe for use in url(#…) and href="#…"
+ */
+export function contentId(value: object, prefix = 'mg'): string {
+  const text = JSON.stringify(value);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return `${prefix}-${(h >>> 0).toString(36)}`;
+}
+
+/**
+ * Resolve a layer's fill against the palette
+ * @param layer - The layer
+ * @param palette - Hex colours
+ * @returns The fill attribute value and the gradient it references, if any
+ */
+export function layerPaint(layer: MandalaLayer, palette: string[]): { fill: string; gradient: MandalaGradient | null } {
+  const from = paletteColor(palette, layer.fill.from);
+  const to = paletteColor(palette, layer.fill.to);
+  if (layer.fill.gradient === 'solid' || from === to) return { fill: from, gradient: null };
+  const r1 = layer.outerRadius;
+  const gradient: MandalaGradient = layer.fill.gradient === 'radial'
+    ? { kind: 'radial', id: '', cx: CENTER, cy: CENTER, r: r1, stops: [{ offset: Math.round((layer.innerRadius / r1) * 1000) / 1000, color: from }, { offset: 1, color: to }] }
+    : { kind: 'linear', id: '', x1: CENTER, y1: CENTER - r1, x2: CENTER, y2: CENTER + r1, stops: [{ offset: 0, color: from }, { offset: 1, color: to }] };
+  gradient.id = contentId(gradient);
+  return { fill: `url(#${gradient.id})`, gradient };
+}
+
+/**
+ * Every gradient a mandala's shapes reference, once each
+ * @param spec - The mandala spec
+ * @returns Gradients to place in <defs>
+ */
+export function mandalaGradients(spec: MandalaSpec): MandalaGradient[] {
+  const byId = new Map<string, MandalaGradient>();
+  for (const layer of spec.layers) {
+    const { gradient } = layerPaint(layer, spec.palette);
+    if (gradient) byId.set(gradient.id, gradient);
+  }
+  return [...byId.values()];
+}
+
+// The shape of segment i of a ring, in canvas coordinates
+function segmentShape(layer: MandalaLayer, color: string, i: number): MandalaShape {
+  const { innerRadius: r0, outerRadius: r1, segments } = layer;
+  const step = 360 / segments;
+  const a0 = layer.rotation + i * step;
+  const a1 = a0 + step;
+  const key = `${layer.id}-${i}`;
+
+  if (layer.motif === 'dot-ring') {
+    const rm = (r0 + r1) / 2;
+    const am = rad((a0 + a1) / 2);
+    const r = Math.min((r1 - r0) / 2, rm * Math.sin(rad(step / 2))) * 0.8;
+    return { kind: 'circle', key, cx: CENTER + Math.cos(am) * rm, cy: CENTER + Math.sin(am) * rm, r: Math.max(r, 0.5), fill: color, opacity: layer.opacity };
+  }
+  if (layer.motif === 'lattice') {
+    return { kind: 'path', key, d: motifPath('lattice', r0, r1, a0, a1), fill: 'none', stroke: color, strokeWidth: 1.5, opacity: layer.opacity };
+  }
+  return { kind: 'path', key, d: motifPath(layer.motif, r0, r1, a0, a1), fill: color, opacity: layer.opacity };
+}
+
+/**
+ * Compute the drawable shapes for one ring. Every ring motif is symmetric about
+ * its segment bisector, so rings look the same under Cn and Dn.
+ * @param layer - The layer to draw
+ * @param palette - Palette the layer's fill indexes into
+ * @returns Shapes in paint order
+ */
+export function layerShapes(layer: MandalaLayer, palette: string[]): MandalaShape[] {
+  const color = layerPaint(layer, palette).fill;
+  return Array.from({ length: layer.segments }, (_, i) => segmentShape(layer, color, i));
+}
+
+/**
+ * The first segment of a ring; every other segment is this shape rotated
+ * about the centre by a multiple of 360/segments degrees
+ * @param layer - The layer to draw
+ * @param palette - Palette the layer's fill indexes into
+ * @returns The shape of segment 0
+ */
+export function layerTemplate(layer: MandalaLayer, palette: string[]): MandalaShape {
+  return segmentShape(layer, layerPaint(layer, palette).fill, 0);
+}
+
+/**
+ * Path data of a motif stroke in the fundamental wedge, before it is copied
+ * into the other segments
+ * @param spec - The mandala spec
+ * @param stroke - One of the spec's motif strokes
+ * @returns Path data in canvas coordinates
+ */
+export function strokePath(spec: MandalaSpec, stroke: MotifStroke): string {
+  const wedge = fundamentalAngle(spec.symmetry, spec.motif.segments);
+  const pts = stroke.points.map((pt) => ({
+    x: CENTER + Math.cos(rad(pt.t * wedge)) * pt.r * MAX_RADIUS,
+    y: CENTER + Math.sin(rad(pt.t * wedge)) * pt.r * MAX_RADIUS
+  }));
+  return smoothPath(pts, stroke.kind === 'bezier', stroke.closed);
+}
+
+/**
+ * Angle in degrees of the fundamental wedge the motif is drawn in
+ * @param symmetry - The symmetry group
+ * @param segments - The group order n
+ * @returns 360/n for Cn, 180/n for Dn
+ */
+export function fundamentalAngle(symmetry: SymmetryGroup, segments: number): number {
+  return symmetry === 'dihedral' ? 180 / segments : 360 / segments;
+}
+
+/**
+ * Short group name, e.g. C12 or D6
+ * @param symmetry - The symmetry group
+ * @param segments - The group order n
+ * @returns The group label
+ */
+export function symmetryLabel(symmetry: SymmetryGroup, segments: number): string {
+  return `${symmetry === 'dihedral' ? 'D' : 'C'}${segments}`;
+}
+
+/**
+ * Build an SVG path through points, as straight segments or a Catmull-Rom
+ * spline converted to cubic beziers
+ * @param points - Points in drawing space
+ * @param smooth - Fit a smooth curve through the points
+ * @param closed - Join the last point back to the first
+ * @returns Path data
+ */
+export function smoothPath(points: { x: number; y: number }[], smooth: boolean, closed: boolean): string {
+  if (points.length === 0) return '';
+  const p = (pt: { x: number; y: number }) => `${fmt(pt.x)},${fmt(pt.y)}`;
+  let d = `M${p(points[0])}`;
+  if (!smooth || points.length < 3) {
+    for (let i = 1; i < points.length; i++) d += ` L${p(points[i])}`;
+    return closed ? `${d} Z` : d;
+  }
+  const n = points.length;
+  const at = (i: number) => (closed ? points[(i + n) % n] : points[Math.max(0, Math.min(n - 1, i))]);
+  const last = closed ? n : n - 1;
+  for (let i = 0; i < last; i++) {
+    const p0 = at(i - 1);
+    const p1 = at(i);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    d += ` C${p(c1)} ${p(c2)} ${p(p2)}`;
+  }
+  return closed ? `${d} Z` : d;
+}
+
+/**
+ * Compute the motif shapes: each stroke's path is built once in the
+ * fundamental wedge and placed in every segment with rotate (Cn) or
+ * rotate plus reflect (Dn) transforms
+ * @param spec - The mandala spec
+ * @returns Motif shapes for the whole mandala
+ */
+export function motifShapes(spec: MandalaSpec): MandalaShape[] {
+  const { segments, strokes } = spec.motif;
+  const step = 360 / segments;
+  const color = paletteColor(spec.palette, spec.motif.color);
+  const shapes: MandalaShape[] = [];
+
+  for (const stroke of strokes) {
+    if (stroke.points.length < 2) continue;
+    const d = strokePath(spec, stroke);
+    const fill = stroke.closed ? color : 'none';
+    for (let i = 0; i < segments; i++) {
+      const rotate = `rotate(${fmt(i * step)} ${CENTER} ${CENTER})`;
+      shapes.push({ kind: 'path', key: `${stroke.id}-${i}`, d, fill, stroke: color, strokeWidth: stroke.width, opacity: 0.9, transform: rotate });
+      if (spec.symmetry === 'dihedral') {
+        shapes.push({ kind: 'path', key: `${stroke.id}-${i}-r`, d, fill, stroke: color, strokeWidth: stroke.width, opacity: 0.9, transform: `${rotate} matrix(1 0 0 -1 0 ${CANVAS_SIZE})` });
+      }
+    }
+  }
+  return shapes;
+}
+
+/**
+ * Compute every shape of a mandala, back to front
+ * @param spec - The mandala spec
+ * @returns All shapes for all layers
+ */
+export function mandalaShapes(spec: MandalaSpec): MandalaShape[] {
+  const shapes: MandalaShape[] = [];
+  for (const layer of spec.layers) {
+    shapes.push(...layerShapes(layer, spec.palette));
+  }
+  shapes.push(...motifShapes(spec));
+  return shapes;
+}
+
+let strokeCounter = 0;
+
+/**
+ * Create a motif stroke from points drawn in the fundamental wedge
+ * @param kind - Freeform polyline or smoothed bezier
+ * @param points - Points in wedge space, clamped to the wedge
+ * @param options - Whether the stroke is closed and its width
+ * @returns The stroke with a fresh id
+ */
+export function createStroke(
+  kind: MotifStroke['kind'],
+  points: MotifPoint[],
+  options: { closed?: boolean; width?: number } = {}
+): MotifStroke {
+  strokeCounter += 1;
+  return {
+    id: `stroke-${Date.now()}-${strokeCounter}`,
+    kind,
+    points: points.map((pt) => ({ r: clamp(pt.r, 0, 1), t: clamp(pt.t, 0, 1) })),
+    closed: options.closed ?? false,
+    width: options.width ?? 2
+  };
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const isIndex = (v: unknown): v is number => isNum(v) && v >= 0;
+
+// Layers saved before palettes existed had no fill and used the only colour
+function coerceFill(v: unknown): LayerFill {
+  if (!isRecord(v) || !GRADIENT_KINDS.some((g) => g.id === v.gradient)) return { gradient: 'solid', from: 0, to: 0 };
+  const from = isIndex(v.from) ? v.from : 0;
+  return { gradient: v.gradient as GradientKind, from, to: isIndex(v.to) ? v.to : from };
+}
+
+function coerceLayer(v: unknown, index: number): MandalaLayer | null {
+  if (!isRecord(v)) return null;
+  if (!MOTIF_SHAPES.some((m) => m.id === v.motif)) return null;
+  if (![v.innerRadius, v.outerRadius, v.segments, v.rotation, v.opacity].every(isNum)) return null;
+  return normalizeLayer({
+    id: typeof v.id === 'string' ? v.id : `layer-${index}`,
+    motif: v.motif as MotifShape,
+    innerRadius: v.innerRadius as number,
+    outerRadius: v.outerRadius as number,
+    segments: v.segments as number,
+    rotation: v.rotation as number,
+    opacity: v.opacity as number,
+    fill: coerceFill(v.fill)
+  });
+}
+
+function coerceStroke(v: unknown, index: number): MotifStroke | null {
+  if (!isRecord(v) || !Array.isArray(v.points)) return null;
+  if (v.kind !== 'freeform' && v.kind !== 'bezier') return null;
+  const points = v.points.filter((pt): pt is MotifPoint => isRecord(pt) && isNum(pt.r) && isNum(pt.t));
+  return {
+    id: typeof v.id === 'string' ? v.id : `stroke-${index}`,
+    kind: v.kind,
+    points: points.map((pt) => ({ r: clamp(pt.r, 0, 1), t: clamp(pt.t, 0, 1) })),
+    closed: v.closed === true,
+    width: isNum(v.width) ? clamp(v.width, 0.5, 12) : 2
+  };
+}
+
+/**
+ * Validate untrusted data (imported files, saved designs) as a MandalaSpec.
+ * Specs from before palettes had a single `color`, which becomes a one-colour palette.
+ * @param value - Parsed JSON
+ * @returns A normalized spec, or null when the data is not a mandala spec
+ */
+export function coerceSpec(value: unknown): MandalaSpec | null {
+  if (!isRecord(value) || !Array.isArray(value.layers)) return null;
+  if (value.symmetry !== 'cyclic' && value.symmetry !== 'dihedral') return null;
+  const palette = Array.isArray(value.palette) ? value.palette : [value.color];
+  if (palette.length === 0 || palette.length > MAX_PALETTE_COLORS) return null;
+  if (!palette.every((c): c is string => typeof c === 'string' && HEX_COLOR.test(c))) return null;
+  const layers = value.layers.map(coerceLayer);
+  if (layers.some((l) => l === null) || layers.length > MAX_LAYERS) return null;
+  const motif = isRecord(value.motif) ? value.motif : {};
+  const strokes = Array.isArray(motif.strokes) ? motif.strokes.map(coerceStroke) : [];
+  if (strokes.some((s) => s === null)) return null;
+  return {
+    symmetry: value.symmetry,
+    palette: palette.map((c) => c.toLowerCase()),
+    layers: layers as MandalaLayer[],
+    motif: {
+      segments: Math.round(clamp(isNum(motif.segments) ? motif.segments : 12, MIN_SEGMENTS, MAX_SEGMENTS)),
+      strokes: strokes as MotifStroke[],
+      color: isIndex(motif.color) ? Math.round(motif.color) : 0
+    }
+  };
+}
+
+/** Id of the <metadata> element that carries the spec inside exported SVGs */
+export const SPEC_METADATA_ID = 'mandala-spec';
+
+/**
+ * Recover the spec embedded in an exported SVG
+ * @param source - SVG markup
+ * @returns The embedded spec, or null when missing or invalid
+ */
+export function readSpecFromSVG(source: string): MandalaSpec | null {
+  const doc = new DOMParser().parseFromString(source, 'image/svg+xml');
+  const node = doc.getElementById(SPEC_METADATA_ID);
+  if (!node?.textContent) return null;
+  try {
+    return coerceSpec(JSON.parse(node.textContent));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialise one shape as an SVG element
+ * @param s - The shape
+ * @returns SVG markup
+ */
+export function shapeMarkup(s: MandalaShape): string {
+  if (s.kind === 'circle') {
+    return `<circle cx="${fmt(s.cx)}" cy="${fmt(s.cy)}" r="${fmt(s.r)}" fill="${s.fill}" opacity="${fmt(s.opacity)}"/>`;
+  }
+  const stroke = s.stroke ? ` stroke="${s.stroke}" stroke-width="${s.strokeWidth ?? 1}" stroke-linecap="round" stroke-linejoin="round"` : '';
+  const transform = s.transform ? ` transform="${s.transform}"` : '';
+  return `<path d="${s.d}" fill="${s.fill}"${stroke} opacity="${fmt(s.opacity)}"${transform}/>`;
+}
+
+/**
+ * Serialise a gradient as an SVG element for <defs>
+ * @param g - The gradient
+ * @returns SVG markup
+ */
+export function gradientMarkup(g: MandalaGradient): string {
+  const stops = g.stops.map((s) => `<stop offset="${fmt(s.offset)}" stop-color="${s.color}"/>`).join('');
+  return g.kind === 'radial'
+    ? `<radialGradient id="${g.id}" gradientUnits="userSpaceOnUse" cx="${fmt(g.cx)}" cy="${fmt(g.cy)}" r="${fmt(g.r)}">${stops}</radialGradient>`
+    : `<linearGradient id="${g.id}" gradientUnits="userSpaceOnUse" x1="${fmt(g.x1)}" y1="${fmt(g.y1)}" x2="${fmt(g.x2)}" y2="${fmt(g.y2)}">${stops}</linearGradient>`;
+}
+
+/**
+ * Serialise a mandala as SVG elements in canvas coordinates (0..CANVAS_SIZE),
+ * without a root element, so callers can place it in any document
+ * @param spec - The mandala spec
+ * @param watermark - Watermark drawn over the canvas, or null for a clean image
+ * @returns SVG markup
+ */
+export function mandalaMarkup(spec: MandalaSpec, watermark: WatermarkSettings | null): string {
+  const gradients = mandalaGradients(spec);
+  const parts = gradients.length > 0 ? [`<defs>${gradients.map(gradientMarkup).join('')}</defs>`] : [];
+  parts.push(...mandalaShapes(spec).map(shapeMarkup));
+  parts.push(`<circle cx="${CENTER}" cy="${CENTER}" r="6" fill="#fff" opacity="0.3"/>`);
+  if (watermark) parts.push(watermarkMarkup(watermark, CANVAS_SIZE, CANVAS_SIZE));
+  return parts.join('');
+}
@@ -0,0 +1,157 @@
+import { BASE_CURRENCY, STORE_ITEMS, type CheckoutSettings, type OrderSummary } from './cart';
+import type { MandalaSpec } from './mandala';
+import type { PaymentEvent, PaymentIntent } from './payments';
+import type { License, ProductKind } from '../types';
+
+export type OrderStatus = 'pending' | 'requires_action' | 'paid' | 'failed' | 'canceled' | 'refunded' | 'partially_refunded';
+
+export type OrderLine = {
+  productId: string;
+  name: string;
+  kind: ProductKind;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  license: { id: string; name: string };
+};
+
+export type Buyer = {
+  name: string;
+  email: string;
+};
+
+export type Order = {
+  id: string;
+  status: OrderStatus;
+  buyer: Buyer;
+  /** The design being bought, as it was at checkout */
+  design: MandalaSpec | null;
+  lines: OrderLine[];
+  /** Amounts in BASE_CURRENCY */
+  totals: { subtotal: number; discount: number; tax: number; total: number; refunded: number };
+  currency: string;
+  /** Currency and locale the customer viewed prices in */
+  display: { currency: string; locale: string };
+  couponCode: string | null;
+  taxRuleId: string;
+  paymentProvider: string;
+  paymentIntentId: string | null;
+  failureReason: string | null;
+  createdAt: number;
+  updatedAt: number;
+  paidAt: number | null;
+};
+
+type OrderInput = {
+  summary: OrderSummary;
+  /** Checkout currency, locale, tax and coupon */
+  settings: CheckoutSettings;
+  /** Licenses for name lookup */
+  licenses: License[];
+  /** Name of the payment provider */
+  provider: string;
+  buyer: Buyer;
+  design: MandalaSpec;
+};
+
+/**
+ * Create a pending order from a priced cart. Lines priced on request are
+ * left out; the cart panel blocks checkout while any exist.
+ * @param input - Summary, settings, buyer and design
+ * @returns The order
+ */
+export function createOrder({ summary, settings, licenses, provider, buyer, design }: OrderInput): Order {
+  const createdAt = Date.now();
+  return {
+    id: `order-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    status: 'pending',
+    buyer: { name: buyer.name.trim(), email: buyer.email.trim() },
+    design,
+    lines: summary.lines.flatMap(({ line, unitPrice, total }) =>
+      unitPrice === null || total === null
+        ? []
+        : [{
+            productId: line.productId,
+            name: line.name,
+            kind: line.kind,
+            quantity: line.quantity,
+            unitPrice,
+            total,
+            license: { id: line.licenseId, name: licenses.find((l) => l.id === line.licenseId)?.name ?? line.licenseId }
+          }]
+    ),
+    totals: { subtotal: summary.subtotal, discount: summary.discount, tax: summary.tax, total: summary.total, refunded: 0 },
+    currency: BASE_CURRENCY,
+    display: { currency: settings.currency, locale: settings.locale },
+    couponCode: summary.coupon?.code ?? null,
+    taxRuleId: summary.taxRule.id,
+    paymentProvider: provider,
+    paymentIntentId: null,
+    failureReason: null,
+    createdAt,
+    updatedAt: createdAt,
+    paidAt: null
+  };
+}
+
+/**
+ * Products withdrawn from sale by a paid exclusive license: every store
+ * product of a design bought exclusively, and published assets bought
+ * exclusively. A full refund puts them back on sale.
+ * @param orders - All orders
+ * @param licenses - License catalog, to tell which licenses are exclusive
+ * @param design - The design the store products are currently made from
+ * @returns Ids of the products no longer for sale
+ */
+export function withdrawnProducts(orders: Order[], licenses: License[], design: MandalaSpec): string[] {
+  const exclusive = new Set(licenses.filter((l) => l.exclusive).map((l) => l.id));
+  const storeIds = STORE_ITEMS.map((it) => it.id);
+  const current = JSON.stringify(design);
+  const withdrawn = new Set<string>();
+  for (const order of orders) {
+    if (order.status !== 'paid' && order.status !== 'partially_refunded') continue;
+    for (const line of order.lines) {
+      if (!exclusive.has(line.license.id)) continue;
+      if (!storeIds.includes(line.productId)) withdrawn.add(line.productId);
+      else if (JSON.stringify(order.design) === current) storeIds.forEach((id) => withdrawn.add(id));
+    }
+  }
+  return [...withdrawn];
+}
+
+function statusForIntent(intent: PaymentIntent): OrderStatus {
+  switch (intent.status) {
+    case 'requires_action':
+      return 'requires_action';
+    case 'succeeded':
+      return intent.amountRefunded > 0 ? 'partially_refunded' : 'paid';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'canceled';
+    case 'refunded':
+      return 'refunded';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Bring an order in line with a payment status event
+ * @param order - The order the payment belongs to
+ * @param event - The provider event
+ * @returns The updated order
+ */
+export function applyPaymentEvent(order: Order, event: PaymentEvent): Order {
+  const { intent } = event;
+  const status = statusForIntent(intent);
+  return {
+    ...order,
+    status,
+    paymentIntentId: intent.id,
+    failureReason: status === 'failed' ? intent.failureReason : null,
+    totals: { ...order.totals, refunded: intent.amountRefunded / 100 },
+    updatedAt: event.createdAt,
+    paidAt: order.paidAt ?? (status === 'paid' ? event.createdAt : null)
+  };
+}
@@ -0,0 +1,380 @@
+import { CANVAS_SIZE, layerPaint, MAX_PALETTE_COLORS, paletteColor, type MandalaSpec } from './mandala';
+import { strokeTextWidth } from './strokeFont';
+import { DEFAULT_WATERMARK, type WatermarkSettings } from './watermark';
+import { clamp } from './utils';
+
+export type SavedPalette = {
+  id: string;
+  name: string;
+  colors: string[];
+};
+
+export type HarmonyKind = 'complementary' | 'analogous' | 'triadic' | 'tetradic' | 'monochrome';
+
+export const HARMONIES: { id: HarmonyKind; label: string }[] = [
+  { id: 'complementary', label: 'Complementary' },
+  { id: 'analogous', label: 'Analogous' },
+  { id: 'triadic', label: 'Triadic' },
+  { id: 'tetradic', label: 'Tetradic' },
+  { id: 'monochrome', label: 'Monochrome ramp' }
+];
+
+export const PALETTE_FILE_FORMAT = 'mandala-palette';
+
+type RGB = { r: number; g: number; b: number };
+type HSL = { h: number; s: number; l: number };
+
+/**
+ * Parse a #rrggbb colour
+ * @param hex - The colour
+ * @returns Channels 0..255
+ */
+export function hexToRgb(hex: string): RGB {
+  const n = parseInt(hex.slice(1, 7), 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+/**
+ * Format channels as a #rrggbb colour
+ * @param rgb - Channels 0..255, clamped and rounded
+ * @returns Lower-case hex colour
+ */
+export function rgbToHex({ r, g, b }: RGB): string {
+  return `#${[r, g, b].map((c) => Math.round(clamp(c, 0, 255)).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function rgbToHsl({ r, g, b }: RGB): HSL {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return { h: h * 60, s, l };
+}
+
+function hslToRgb({ h, s, l }: HSL): RGB {
+  const hue = ((h % 360) + 360) % 360;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] = hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] : hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+}
+
+/**
+ * Generate a colour harmony around a base colour, which always comes first
+ * @param base - #rrggbb base colour
+ * @param kind - The harmony
+ * @returns Hex colours
+ */
+export function harmony(base: string, kind: HarmonyKind): string[] {
+  const hsl = rgbToHsl(hexToRgb(base));
+  const rotate = (deg: number) => rgbToHex(hslToRgb({ ...hsl, h: hsl.h + deg }));
+  switch (kind) {
+    case 'complementary':
+      return [base, rotate(180)];
+    case 'analogous':
+      return [base, rotate(-30), rotate(30)];
+    case 'triadic':
+      return [base, rotate(120), rotate(240)];
+    case 'tetradic':
+      return [base, rotate(90), rotate(180), rotate(270)];
+    case 'monochrome':
+      // Five lightness steps from dark to light, with the base in its own place
+      return [0.2, 0.35, 0.5, 0.65, 0.8].map((l, i) => (i === 2 ? base : rgbToHex(hslToRgb({ ...hsl, l: clamp(hsl.l + (l - 0.5), 0.05, 0.95) }))));
+  }
+}
+
+/** Palettes every workspace starts with, built from the brand colours */
+export const BRAND_PALETTES: SavedPalette[] = [
+  { id: 'brand', name: 'Brand', colors: ['#5200ff', '#ffd600'] },
+  { id: 'brand-violet-ramp', name: 'Brand violet ramp', colors: harmony('#5200ff', 'monochrome') },
+  { id: 'brand-triad', name: 'Brand triad', colors: harmony('#5200ff', 'triadic') }
+];
+
+let paletteCounter = 0;
+
+/**
+ * Create a saved palette
+ * @param name - Display name; "Palette" when blank
+ * @param colors - Hex colours, truncated to MAX_PALETTE_COLORS
+ * @returns The palette with a fresh id
+ */
+export function createPalette(name: string, colors: string[]): SavedPalette {
+  paletteCounter += 1;
+  return {
+    id: `palette-${Date.now()}-${paletteCounter}`,
+    name: name.trim() || 'Palette',
+    colors: colors.slice(0, MAX_PALETTE_COLORS).map((c) => c.toLowerCase())
+  };
+}
+
+/**
+ * Remove one palette colour, keeping every fill on the colour it showed;
+ * fills that used the removed colour fall back to the first one
+ * @param spec - The mandala spec
+ * @param index - Palette index to remove
+ * @returns The updated spec, or unchanged when it is the last colour
+ */
+export function removePaletteColor(spec: MandalaSpec, index: number): MandalaSpec {
+  const n = spec.palette.length;
+  if (n <= 1 || index < 0 || index >= n) return spec;
+  const remap = (i: number) => {
+    const at = i % n;
+    return at === index ? 0 : at > index ? at - 1 : at;
+  };
+  return {
+    ...spec,
+    palette: spec.palette.filter((_, i) => i !== index),
+    layers: spec.layers.map((l) => ({ ...l, fill: { ...l.fill, from: remap(l.fill.from), to: remap(l.fill.to) } })),
+    motif: { ...spec.motif, color: remap(spec.motif.color) }
+  };
+}
+
+/**
+ * Give each ring its own palette colour, back to front, with gradients running
+ * to the next colour; the motif takes the last colour
+ * @param spec - The mandala spec
+ * @returns The updated spec
+ */
+export function spreadPalette(spec: MandalaSpec): MandalaSpec {
+  const n = spec.palette.length;
+  return {
+    ...spec,
+    layers: spec.layers.map((l, i) => ({ ...l, fill: { ...l.fill, from: i % n, to: l.fill.gradient === 'solid' ? i % n : (i + 1) % n } })),
+    motif: { ...spec.motif, color: n - 1 }
+  };
+}
+
+// WCAG 2 relative luminance
+function luminance({ r, g, b }: RGB): number {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG contrast ratio between two colours
+ * @param a - #rrggbb
+ * @param b - #rrggbb
+ * @returns 1 (no contrast) to 21 (black on white)
+ */
+export function contrastRatio(a: string, b: string): number {
+  const [hi, lo] = [luminance(hexToRgb(a)), luminance(hexToRgb(b))].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+export type ContrastCheck = {
+  /** The fill as it appears: the palette colour at the layer's opacity over white */
+  color: string;
+  ratio: number;
+  /** The watermark is large text, so AA needs 3:1 and AAA 4.5:1 */
+  level: 'AAA' | 'AA' | 'fail';
+};
+
+// Rings a watermark is drawn over: all of them for the repeating patterns,
+// those reaching inside the mark for a single centred one
+function watermarkRadius(watermark: WatermarkSettings): number {
+  if (watermark.pattern !== 'single' || watermark.position !== 'center') return Infinity;
+  const height = watermark.size * CANVAS_SIZE;
+  return (watermark.logo ? height * 3 : strokeTextWidth(watermark.text.trim() || DEFAULT_WATERMARK.text, height)) / 2;
+}
+
+/**
+ * Contrast between the watermark and each fill it is drawn over. The
+ * watermark colour is checked at full strength; its low opacity is deliberate.
+ * @param spec - The mandala spec
+ * @param watermark - Watermark settings
+ * @returns One check per distinct fill colour, lowest contrast first
+ */
+export function watermarkContrast(spec: MandalaSpec, watermark: WatermarkSettings): ContrastCheck[] {
+  const seen = new Map<string, ContrastCheck>();
+  const radius = watermarkRadius(watermark);
+  for (const layer of spec.layers) {
+    if (layer.innerRadius >= radius) continue;
+    const { gradient } = layerPaint(layer, spec.palette);
+    const colors = gradient ? gradient.stops.map((s) => s.color) : [paletteColor(spec.palette, layer.fill.from)];
+    for (const c of colors) {
+      const rgb = hexToRgb(c);
+      const color = rgbToHex({
+        r: rgb.r * layer.opacity + 255 * (1 - layer.opacity),
+        g: rgb.g * layer.opacity + 255 * (1 - layer.opacity),
+        b: rgb.b * layer.opacity + 255 * (1 - layer.opacity)
+      });
+      if (seen.has(color)) continue;
+      const ratio = contrastRatio(watermark.color, color);
+      seen.set(color, { color, ratio, level: ratio >= 4.5 ? 'AAA' : ratio >= 3 ? 'AA' : 'fail' });
+    }
+  }
+  return [...seen.values()].sort((a, b) => a.ratio - b.ratio);
+}
+
+// --- Import / export -------------------------------------------------------
+
+/**
+ * Serialise a palette as JSON
+ * @param palette - The palette
+ * @returns JSON text
+ */
+export function paletteToJSON(palette: SavedPalette): string {
+  return JSON.stringify({ format: PALETTE_FILE_FORMAT, version: 1, name: palette.name, colors: palette.colors }, null, 2);
+}
+
+/**
+ * Serialise a palette as a GIMP/Inkscape .gpl file
+ * @param palette - The palette
+ * @returns File contents
+ */
+export function paletteToGPL(palette: SavedPalette): string {
+  const rows = palette.colors.map((c) => {
+    const { r, g, b } = hexToRgb(c);
+    return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${c}`;
+  });
+  return ['GIMP Palette', `Name: ${palette.name.replace(/[\r\n]+/g, ' ')}`, 'Columns: 0', '#', ...rows, ''].join('\n');
+}
+
+// ASE block types
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+
+/**
+ * Serialise a palette as an Adobe Swatch Exchange file: one group named after
+ * the palette holding an RGB global swatch per colour
+ * @param palette - The palette
+ * @returns File bytes
+ */
+export function paletteToASE(palette: SavedPalette): Uint8Array<ArrayBuffer> {
+  const blocks: number[][] = [];
+  const name = (text: string) => {
+    const units = [...text].flatMap((ch) => {
+      const code = ch.codePointAt(0) as number;
+      return code > 0xffff ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)] : [code];
+    });
+    return [...u16(units.length + 1), ...units.flatMap(u16), 0, 0];
+  };
+  blocks.push([...u16(ASE_GROUP_START), ...withLength(name(palette.name))]);
+  for (const c of palette.colors) {
+    const { r, g, b } = hexToRgb(c);
+    const body = [...name(c), ...[...'RGB '].map((ch) => ch.charCodeAt(0)), ...f32(r / 255), ...f32(g / 255), ...f32(b / 255), ...u16(0)];
+    blocks.push([...u16(ASE_COLOR), ...withLength(body)]);
+  }
+  blocks.push([...u16(ASE_GROUP_END), ...u32(0)]);
+  return Uint8Array.from([...[...'ASEF'].map((ch) => ch.charCodeAt(0)), ...u16(1), ...u16(0), ...u32(blocks.length), ...blocks.flat()]);
+}
+
+function u16(n: number): number[] {
+  return [(n >> 8) & 255, n & 255];
+}
+
+function u32(n: number): number[] {
+  return [(n >>> 24) & 255, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function f32(n: number): number[] {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, n);
+  return [view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3)];
+}
+
+function withLength(body: number[]): number[] {
+  return [...u32(body.length), ...body];
+}
+
+// CIELAB (D50, as Adobe stores it) to sRGB
+function labToRgb(l: number, a: number, b: number): RGB {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inv = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const [x, y, z] = [0.9642 * inv(fx), inv(fy), 0.8251 * inv(fz)];
+  const lin = [
+    3.1339 * x - 1.6169 * y - 0.4906 * z,
+    -0.9788 * x + 1.9161 * y + 0.0334 * z,
+    0.0719 * x - 0.229 * y + 1.4052 * z
+  ].map((c) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.max(c, 0) ** (1 / 2.4) - 0.055));
+  return { r: lin[0], g: lin[1], b: lin[2] };
+}
+
+function parseASE(bytes: Uint8Array, fallbackName: string): { name: string; colors: string[] } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = (at: number) => {
+    const units = view.getUint16(at);
+    let out = '';
+    for (let i = 0; i < units - 1; i++) out += String.fromCharCode(view.getUint16(at + 2 + i * 2));
+    return { value: out, end: at + 2 + units * 2 };
+  };
+  const count = view.getUint32(8);
+  let name = '';
+  const colors: string[] = [];
+  let at = 12;
+  for (let i = 0; i < count; i++) {
+    const type = view.getUint16(at);
+    const length = view.getUint32(at + 2);
+    const body = at + 6;
+    if (type === ASE_GROUP_START && !name) {
+      name = text(body).value;
+    } else if (type === ASE_COLOR) {
+      const { end } = text(body);
+      const model = String.fromCharCode(...bytes.subarray(end, end + 4));
+      const v = (k: number) => view.getFloat32(end + 4 + k * 4);
+      if (model === 'RGB ') colors.push(rgbToHex({ r: v(0) * 255, g: v(1) * 255, b: v(2) * 255 }));
+      else if (model === 'CMYK') colors.push(rgbToHex({ r: 255 * (1 - v(0)) * (1 - v(3)), g: 255 * (1 - v(1)) * (1 - v(3)), b: 255 * (1 - v(2)) * (1 - v(3)) }));
+      else if (model === 'Gray') colors.push(rgbToHex({ r: v(0) * 255, g: v(0) * 255, b: v(0) * 255 }));
+      else if (model === 'LAB ') colors.push(rgbToHex(labToRgb(v(0) * 100, v(1), v(2))));
+    }
+    at = body + length;
+  }
+  return { name: name || fallbackName, colors };
+}
+
+function parseGPL(text: string, fallbackName: string): { name: string; colors: string[] } {
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const header = /^Name:\s*(.+)$/.exec(line);
+    if (header) {
+      name = header[1].trim();
+      continue;
+    }
+    const row = /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/.exec(line);
+    if (row) colors.push(rgbToHex({ r: Number(row[1]), g: Number(row[2]), b: Number(row[3]) }));
+  }
+  return { name, colors };
+}
+
+function parsePaletteJSON(text: string, fallbackName: string): { name: string; colors: string[] } {
+  const parsed: unknown = JSON.parse(text);
+  const record = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  const list = Array.isArray(parsed) ? parsed : record && Array.isArray(record.colors) ? record.colors : [];
+  return {
+    name: record && typeof record.name === 'string' ? record.name : fallbackName,
+    colors: list.filter((c): c is string => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c))
+  };
+}
+
+/**
+ * Read a palette file; the format is detected from its contents
+ * @param fileName - Used as the palette name when the file has none
+ * @param bytes - File contents: .ase, .gpl or .json (a palette object or an array of hex colours)
+ * @returns The palette, or an error explaining why the file cannot be read
+ */
+export function parsePaletteFile(fileName: string, bytes: Uint8Array): { palette: SavedPalette | null; error: string | null } {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '');
+  const head = String.fromCharCode(...bytes.subarray(0, 12));
+  let parsed: { name: string; colors: string[] };
+  try {
+    if (head.startsWith('ASEF')) parsed = parseASE(bytes, fallbackName);
+    else if (head.startsWith('GIMP Palette')) parsed = parseGPL(new TextDecoder().decode(bytes), fallbackName);
+    else parsed = parsePaletteJSON(new TextDecoder().decode(bytes), fallbackName);
+  } catch {
+    return { palette: null, error: `${fileName} is not an ASE, GPL or JSON palette` };
+  }
+  if (parsed.colors.length === 0) return { palette: null, error: `${fileName} has no RGB colours` };
+  return { palette: createPalette(parsed.name, parsed.colors), error: null };
+}
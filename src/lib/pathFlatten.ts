@@ -0,0 +1,175 @@
+export type Point = { x: number; y: number };
+
+/** A run of straight segments; closed polylines end where they start */
+export type Polyline = { points: Point[]; closed: boolean };
+
+const TOKEN = /[MLQCAZ]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+// Segments per curve, from the length of its control polygon, so small
+// curves stay cheap and large ones stay smooth at about one unit per segment
+function steps(...pts: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < pts.length; i++) length += Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y);
+  return Math.max(2, Math.min(48, Math.ceil(length / 1.5)));
+}
+
+function arcPoints(from: Point, rx: number, ry: number, rotation: number, large: boolean, sweep: boolean, to: Point): Point[] {
+  // Endpoint to centre parameterisation, SVG 1.1 appendix F.6.5
+  if (rx === 0 || ry === 0) return [to];
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const k = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = (k * rx * y1) / ry;
+  const cy1 = (-k * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+  const n = Math.max(2, Math.min(96, Math.ceil((Math.abs(delta) * Math.max(rx, ry)) / 1.5)));
+  const out: Point[] = [];
+  for (let i = 1; i <= n; i++) {
+    const t = start + (delta * i) / n;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    out.push(i === n ? to : { x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  return out;
+}
+
+/**
+ * Flatten SVG path data into polylines. Handles the absolute commands the
+ * mandala generators write: M, L, Q, C, A and Z.
+ * @param d - Path data
+ * @returns One polyline per subpath
+ */
+export function flattenPath(d: string): Polyline[] {
+  const tokens = d.match(TOKEN) ?? [];
+  const lines: Polyline[] = [];
+  let current: Polyline | null = null;
+  let at: Point = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+  const num = () => Number(tokens[i++]);
+  const pt = () => ({ x: num(), y: num() });
+
+  while (i < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[i])) command = tokens[i++].toUpperCase();
+    switch (command) {
+      case 'M':
+        at = pt();
+        current = { points: [at], closed: false };
+        lines.push(current);
+        // Further coordinate pairs after a moveto are linetos
+        command = 'L';
+        break;
+      case 'L':
+        at = pt();
+        current?.points.push(at);
+        break;
+      case 'Q': {
+        const c = pt();
+        const to = pt();
+        const n = steps(at, c, to);
+        for (let s = 1; s <= n; s++) {
+          const t = s / n;
+          const u = 1 - t;
+          current?.points.push(s === n ? to : { x: u * u * at.x + 2 * u * t * c.x + t * t * to.x, y: u * u * at.y + 2 * u * t * c.y + t * t * to.y });
+        }
+        at = to;
+        break;
+      }
+      case 'C': {
+        const c1 = pt();
+        const c2 = pt();
+        const to = pt();
+        const n = steps(at, c1, c2, to);
+        for (let s = 1; s <= n; s++) {
+          const t = s / n;
+          const u = 1 - t;
+          const a = u * u * u;
+          const b = 3 * u * u * t;
+          const c = 3 * u * t * t;
+          const e = t * t * t;
+          current?.points.push(s === n ? to : { x: a * at.x + b * c1.x + c * c2.x + e * to.x, y: a * at.y + b * c1.y + c * c2.y + e * to.y });
+        }
+        at = to;
+        break;
+      }
+      case 'A': {
+        const rx = num();
+        const ry = num();
+        const rotation = num();
+        const large = num() !== 0;
+        const sweep = num() !== 0;
+        const to = pt();
+        current?.points.push(...arcPoints(at, rx, ry, rotation, large, sweep, to));
+        at = to;
+        break;
+      }
+      case 'Z':
+        if (current) {
+          current.closed = true;
+          at = current.points[0];
+        }
+        command = '';
+        break;
+      default:
+        // Unknown command or stray number: skip it rather than loop forever
+        i++;
+    }
+  }
+  // A closing segment back to the start is implied, not stored
+  for (const line of lines) {
+    const [first] = line.points;
+    const last = line.points[line.points.length - 1];
+    if (line.closed && line.points.length > 1 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-6) line.points.pop();
+  }
+  return lines.filter((l) => l.points.length > 1);
+}
+
+/**
+ * A circle as a closed polyline
+ * @param cx - Centre x
+ * @param cy - Centre y
+ * @param r - Radius
+ * @returns The polyline
+ */
+export function circlePolyline(cx: number, cy: number, r: number): Polyline {
+  const n = Math.max(12, Math.min(96, Math.ceil((Math.PI * 2 * r) / 1.5)));
+  return { points: Array.from({ length: n }, (_, i) => ({ x: cx + r * Math.cos((i / n) * Math.PI * 2), y: cy + r * Math.sin((i / n) * Math.PI * 2) })), closed: true };
+}
+
+/**
+ * Even-odd point in polygon test over several rings
+ * @param p - The point
+ * @param rings - Closed rings, without the repeated first point
+ * @returns True when the point is inside
+ */
+export function insideRings(p: Point, rings: Point[][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+    }
+  }
+  return inside;
+}
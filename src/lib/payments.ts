@@ -0,0 +1,263 @@
+export type PaymentStatus =
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'refunded';
+
+export type PaymentIntent = {
+  id: string;
+  orderId: string;
+  /** Amount in minor units (cents) */
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  /** Present while status is 'requires_action' */
+  nextAction: { kind: 'three_d_secure'; challengeId: string } | null;
+  failureReason: string | null;
+  amountRefunded: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PaymentMethod = {
+  /** Card number; the mock provider reads behaviour from its test numbers */
+  card: string;
+};
+
+export type PaymentEventType =
+  | 'payment_intent.created'
+  | 'payment_intent.requires_action'
+  | 'payment_intent.succeeded'
+  | 'payment_intent.payment_failed'
+  | 'payment_intent.canceled'
+  | 'charge.refunded';
+
+/** Status change notification, shaped like a provider webhook */
+export type PaymentEvent = {
+  id: string;
+  type: PaymentEventType;
+  intent: PaymentIntent;
+  createdAt: number;
+};
+
+export type PaymentListener = (event: PaymentEvent) => void;
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(input: { orderId: string; amount: number; currency: string }): Promise<PaymentIntent>;
+  /** Attach a payment method and attempt the charge */
+  confirm(intentId: string, method: PaymentMethod): Promise<PaymentIntent>;
+  /** Resolve a pending customer action such as a 3-D Secure challenge */
+  completeAction(intentId: string, approved: boolean): Promise<PaymentIntent>;
+  cancel(intentId: string): Promise<PaymentIntent>;
+  /** Refund all of a succeeded payment, or `amount` minor units of it */
+  refund(intentId: string, amount?: number): Promise<PaymentIntent>;
+  /** Subscribe to status events; returns the unsubscribe function */
+  subscribe(listener: PaymentListener): () => void;
+}
+
+export type PaymentErrorCode = 'not_found' | 'invalid_state' | 'invalid_amount' | 'timeout';
+
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+  }
+}
+
+/** Test card numbers understood by the mock provider */
+export const MOCK_CARDS = [
+  { number: '4242424242424242', label: 'Succeeds' },
+  { number: '4000000000003220', label: 'Requires 3-D Secure' },
+  { number: '4000000000000002', label: 'Declined' },
+  { number: '4000000000009995', label: 'Declined (insufficient funds)' },
+  { number: '4000000000000119', label: 'Never responds (timeout)' }
+];
+
+type CardBehaviour = { kind: 'succeed' } | { kind: '3ds' } | { kind: 'decline'; reason: string } | { kind: 'hang' };
+
+function cardBehaviour(card: string): CardBehaviour {
+  switch (card.replace(/\D/g, '')) {
+    case '4242424242424242':
+      return { kind: 'succeed' };
+    case '4000000000003220':
+      return { kind: '3ds' };
+    case '4000000000009995':
+      return { kind: 'decline', reason: 'Your card has insufficient funds.' };
+    case '4000000000000119':
+      return { kind: 'hang' };
+    default:
+      return { kind: 'decline', reason: 'Your card was declined.' };
+  }
+}
+
+const EVENT_FOR_STATUS: Partial<Record<PaymentStatus, PaymentEventType>> = {
+  requires_action: 'payment_intent.requires_action',
+  succeeded: 'payment_intent.succeeded',
+  failed: 'payment_intent.payment_failed',
+  canceled: 'payment_intent.canceled',
+  refunded: 'charge.refunded'
+};
+
+/**
+ * Create an in-process payment provider for development. Outcomes depend
+ * only on the card number (see MOCK_CARDS), ids come from a counter and
+ * time from `now`, so a given sequence of calls always gives the same result.
+ * @param options - Simulated network latency and clock
+ * @returns The provider
+ */
+export function createMockProvider(options: { latencyMs?: number; now?: () => number } = {}): PaymentProvider {
+  const latencyMs = options.latencyMs ?? 400;
+  const now = options.now ?? Date.now;
+  const intents = new Map<string, PaymentIntent>();
+  const listeners = new Set<PaymentListener>();
+  let counter = 0;
+  const nextId = (prefix: string) => `${prefix}_mock_${String(++counter).padStart(4, '0')}`;
+
+  const delay = () => new Promise<void>((resolve) => setTimeout(resolve, latencyMs));
+
+  const emit = (type: PaymentEventType, intent: PaymentIntent) => {
+    const event: PaymentEvent = { id: nextId('evt'), type, intent, createdAt: now() };
+    listeners.forEach((l) => l(event));
+  };
+
+  const get = (id: string): PaymentIntent => {
+    const intent = intents.get(id);
+    if (!intent) throw new PaymentError('not_found', `No payment ${id}`);
+    return intent;
+  };
+
+  const update = (id: string, patch: Partial<PaymentIntent>): PaymentIntent => {
+    const intent: PaymentIntent = { ...get(id), ...patch, updatedAt: now() };
+    intents.set(id, intent);
+    const type = patch.status ? EVENT_FOR_STATUS[patch.status] : undefined;
+    if (type) emit(type, intent);
+    return intent;
+  };
+
+  const expect = (intent: PaymentIntent, allowed: PaymentStatus[], action: string) => {
+    if (!allowed.includes(intent.status)) {
+      throw new PaymentError('invalid_state', `Cannot ${action} a payment that is ${intent.status.replace(/_/g, ' ')}`);
+    }
+  };
+
+  return {
+    name: 'Mock gateway',
+
+    async createIntent({ orderId, amount, currency }) {
+      if (!Number.isInteger(amount) || amount <= 0) {
+        throw new PaymentError('invalid_amount', 'Amount must be a positive whole number of minor units');
+      }
+      await delay();
+      const t = now();
+      const intent: PaymentIntent = {
+        id: nextId('pi'),
+        orderId,
+        amount,
+        currency,
+        status: 'requires_confirmation',
+        nextAction: null,
+        failureReason: null,
+        amountRefunded: 0,
+        createdAt: t,
+        updatedAt: t
+      };
+      intents.set(intent.id, intent);
+      emit('payment_intent.created', intent);
+      return intent;
+    },
+
+    async confirm(intentId, method) {
+      expect(get(intentId), ['requires_confirmation', 'failed'], 'confirm');
+      update(intentId, { status: 'processing', failureReason: null });
+      await delay();
+      const behaviour = cardBehaviour(method.card);
+      switch (behaviour.kind) {
+        case 'succeed':
+          return update(intentId, { status: 'succeeded' });
+        case '3ds':
+          return update(intentId, { status: 'requires_action', nextAction: { kind: 'three_d_secure', challengeId: nextId('3ds') } });
+        case 'decline':
+          return update(intentId, { status: 'failed', failureReason: behaviour.reason });
+        case 'hang':
+          // The gateway never answers; callers are expected to time out and cancel
+          return new Promise<PaymentIntent>(() => {});
+      }
+    },
+
+    async completeAction(intentId, approved) {
+      expect(get(intentId), ['requires_action'], 'authenticate');
+      await delay();
+      return approved
+        ? update(intentId, { status: 'succeeded', nextAction: null })
+        : update(intentId, { status: 'failed', nextAction: null, failureReason: '3-D Secure authentication failed.' });
+    },
+
+    async cancel(intentId) {
+      expect(get(intentId), ['requires_confirmation', 'requires_action', 'processing', 'failed'], 'cancel');
+      return update(intentId, { status: 'canceled', nextAction: null });
+    },
+
+    async refund(intentId, amount) {
+      const intent = get(intentId);
+      expect(intent, ['succeeded'], 'refund');
+      const refundable = intent.amount - intent.amountRefunded;
+      const value = amount ?? refundable;
+      if (!Number.isInteger(value) || value <= 0 || value > refundable) {
+        throw new PaymentError('invalid_amount', `Refund must be between 1 and ${refundable} minor units`);
+      }
+      await delay();
+      const amountRefunded = intent.amountRefunded + value;
+      if (amountRefunded < intent.amount) {
+        const partial = update(intentId, { amountRefunded });
+        emit('charge.refunded', partial);
+        return partial;
+      }
+      return update(intentId, { amountRefunded, status: 'refunded' });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+/**
+ * Reject with a PaymentError when a provider call takes longer than `ms`
+ * @param promise - The provider call
+ * @param ms - Time limit in milliseconds
+ * @returns The call's result
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new PaymentError('timeout', 'The payment provider did not respond in time.')), ms);
+    promise.then(
+      (v) => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(timer);
+        reject(e);
+      }
+    );
+  });
+}
+
+/**
+ * Convert a base-unit amount to minor units
+ * @param amount - Amount, e.g. 12.5
+ * @returns Whole minor units, e.g. 1250
+ */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
@@ -0,0 +1,331 @@
+import { CANVAS_SIZE, mandalaMarkup, type MandalaSpec } from './mandala';
+import { crc32 } from './crc32';
+import { embedPixelFingerprint, watermarkMarkup, type WatermarkSettings } from './watermark';
+
+export type PaperSize = 'a4' | 'a3' | 'square' | 'custom';
+export type RasterFormat = 'png' | 'webp' | 'jpeg';
+export type PrintDpi = 150 | 300 | 600;
+
+export type RasterOptions = {
+  paper: PaperSize;
+  /** Trim size in millimetres, used when paper is 'custom' */
+  customMm: { width: number; height: number };
+  dpi: PrintDpi;
+  /** Extra artwork past the trim line on every side, in millimetres */
+  bleedMm: number;
+  cropMarks: boolean;
+  /** 'transparent' or a CSS colour */
+  background: string;
+  format: RasterFormat;
+  /** Encoder quality between 0 and 1 for WebP and JPEG */
+  quality: number;
+  /** Empty space between the trim edge and the mandala, in millimetres */
+  marginMm: number;
+};
+
+export type PrintLayout = {
+  /** Full image size in pixels, including bleed and crop mark area */
+  width: number;
+  height: number;
+  trim: { x: number; y: number; width: number; height: number };
+  bleed: number;
+  /** Distance from the trim line to the image edge */
+  slug: number;
+};
+
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'custom'>, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4 (210 × 297 mm)', widthMm: 210, heightMm: 297 },
+  a3: { label: 'A3 (297 × 420 mm)', widthMm: 297, heightMm: 420 },
+  square: { label: 'Square (300 × 300 mm)', widthMm: 300, heightMm: 300 }
+};
+
+export const DPI_PRESETS: PrintDpi[] = [150, 300, 600];
+
+/** Allowed custom trim sides, in millimetres */
+export const MIN_CUSTOM_MM = 10;
+export const MAX_CUSTOM_MM = 2000;
+export const MAX_BLEED_MM = 20;
+
+export const FORMAT_MIME: Record<RasterFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg'
+};
+
+export const DEFAULT_RASTER_OPTIONS: RasterOptions = {
+  paper: 'a4',
+  customMm: { width: 200, height: 200 },
+  dpi: 300,
+  bleedMm: 3,
+  cropMarks: true,
+  background: '#ffffff',
+  format: 'png',
+  quality: 0.92,
+  marginMm: 15
+};
+
+// Crop marks sit outside the bleed: a gap, then a mark of this length
+const MARK_GAP_MM = 2;
+const MARK_LENGTH_MM = 6;
+// Largest canvas area current browsers reliably allocate (Chromium/Firefox)
+export const MAX_CANVAS_PIXELS = 268_435_456;
+export const MAX_CANVAS_SIDE = 32_767;
+
+const mmToPx = (mm: number, dpi: number) => Math.round((mm / 25.4) * dpi);
+
+/**
+ * Trim size in millimetres for the chosen paper
+ * @param options - Raster options
+ * @returns Width and height in mm
+ */
+export function paperMm(options: RasterOptions): { width: number; height: number } {
+  if (options.paper === 'custom') return options.customMm;
+  const p = PAPER_SIZES[options.paper];
+  return { width: p.widthMm, height: p.heightMm };
+}
+
+/**
+ * Compute the pixel layout of a print file
+ * @param options - Raster options
+ * @returns Image size and the trim box inside it
+ */
+export function printLayout(options: RasterOptions): PrintLayout {
+  const { width, height } = paperMm(options);
+  const bleed = mmToPx(options.bleedMm, options.dpi);
+  const slug = options.cropMarks ? bleed + mmToPx(MARK_GAP_MM + MARK_LENGTH_MM, options.dpi) : bleed;
+  const trimW = mmToPx(width, options.dpi);
+  const trimH = mmToPx(height, options.dpi);
+  return {
+    width: trimW + slug * 2,
+    height: trimH + slug * 2,
+    trim: { x: slug, y: slug, width: trimW, height: trimH },
+    bleed,
+    slug
+  };
+}
+
+/**
+ * Check a layout has a positive size within browser canvas limits
+ * @param layout - The print layout
+ * @returns An error message, or null when the canvas can be allocated
+ */
+export function layoutError(layout: PrintLayout): string | null {
+  if (!(layout.trim.width > 0 && layout.trim.height > 0)) return 'Paper width and height must be above zero';
+  if (layout.width > MAX_CANVAS_SIDE || layout.height > MAX_CANVAS_SIDE) {
+    return `Image would be ${layout.width} × ${layout.height} px; browsers cannot draw more than ${MAX_CANVAS_SIDE} px per side`;
+  }
+  if (layout.width * layout.height > MAX_CANVAS_PIXELS) {
+    return `Image would be ${Math.round((layout.width * layout.height) / 1e6)} megapixels, above the browser canvas limit`;
+  }
+  return null;
+}
+
+function cropMarks(layout: PrintLayout, dpi: number): string {
+  const { x, y, width, height } = layout.trim;
+  const gap = layout.bleed + mmToPx(MARK_GAP_MM, dpi);
+  const len = mmToPx(MARK_LENGTH_MM, dpi);
+  const lines: string[] = [];
+  for (const cx of [x, x + width]) {
+    lines.push(`M${cx},${y - gap - len} V${y - gap}`, `M${cx},${y + height + gap} V${y + height + gap + len}`);
+  }
+  for (const cy of [y, y + height]) {
+    lines.push(`M${x - gap - len},${cy} H${x - gap}`, `M${x + width + gap},${cy} H${x + width + gap + len}`);
+  }
+  const stroke = Math.max(1, mmToPx(0.25, dpi));
+  return `<path d="${lines.join(' ')}" stroke="#000" stroke-width="${stroke}" fill="none"/>`;
+}
+
+/**
+ * Build the print document as SVG at final pixel size: background over the
+ * trim and bleed, the mandala centred in the trim box, the watermark over
+ * the whole sheet, and crop marks
+ * @param spec - The mandala spec
+ * @param options - Raster options
+ * @param watermark - Watermark settings, or null for a licensed print file
+ * @returns SVG markup
+ */
+export function buildPrintSVG(spec: MandalaSpec, options: RasterOptions, watermark: WatermarkSettings | null): string {
+  const layout = printLayout(options);
+  const { x, y, width, height } = layout.trim;
+  const margin = mmToPx(options.marginMm, options.dpi);
+  const size = Math.max(1, Math.min(width, height) - margin * 2);
+  const scale = size / CANVAS_SIZE;
+  const ox = x + (width - size) / 2;
+  const oy = y + (height - size) / 2;
+  const b = layout.bleed;
+  const background = options.background === 'transparent'
+    ? ''
+    : `<rect x="${x - b}" y="${y - b}" width="${width + b * 2}" height="${height + b * 2}" fill="${options.background}"/>`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">`,
+    background,
+    `<g transform="translate(${ox} ${oy}) scale(${scale})">${mandalaMarkup(spec, null)}</g>`,
+    watermark ? watermarkMarkup(watermark, layout.width, layout.height) : '',
+    options.cropMarks ? cropMarks(layout, options.dpi) : '',
+    '</svg>'
+  ].join('');
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The browser could not render the SVG'));
+    img.src = src;
+  });
+}
+
+/**
+ * Draw SVG markup onto a canvas and encode it
+ * @param svg - SVG markup with explicit width and height
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @param format - Output format
+ * @param quality - Encoder quality for lossy formats
+ * @param fingerprint - Id hidden in the pixels (PNG only; lossy encoders destroy it)
+ * @returns The encoded image
+ */
+export async function rasterizeSVG(svg: string, width: number, height: number, format: RasterFormat, quality: number, fingerprint: string | null = null): Promise<Blob> {
+  if (fingerprint && format !== 'png') throw new Error('Fingerprinted files must be PNG; lossy formats lose the hidden id');
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    if (format === 'jpeg') {
+      // JPEG has no alpha channel; transparent areas would otherwise turn black
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    if (fingerprint) {
+      const pixels = ctx.getImageData(0, 0, width, height);
+      if (!embedPixelFingerprint(pixels.data, fingerprint)) throw new Error('The image has too few opaque pixels to carry a fingerprint');
+      ctx.putImageData(pixels, 0, 0);
+    }
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, FORMAT_MIME[format], quality));
+    if (!blob) throw new Error(`The browser could not encode ${format.toUpperCase()} at this size`);
+    if (blob.type !== FORMAT_MIME[format]) throw new Error(`This browser cannot encode ${format.toUpperCase()}`);
+    return blob;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Draw SVG markup onto a canvas and read back the pixels, for encoders the
+ * browser does not provide
+ * @param svg - SVG markup with explicit width and height
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @returns The pixels
+ */
+export async function renderPixels(svg: string, width: number, height: number): Promise<ImageData> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Decode an image file to RGBA pixels, without colour management so the
+ * stored values come back unchanged
+ * @param blob - PNG, JPEG, WebP or GIF
+ * @returns The pixels
+ */
+export async function imagePixels(blob: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+function pngWithDpi(bytes: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+  // pHYs chunk: pixels per metre on both axes, unit = metre; inserted right after IHDR
+  const ppm = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1;
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const ihdrEnd = 8 + 8 + 13 + 4;
+  const out = new Uint8Array(bytes.length + chunk.length);
+  out.set(bytes.subarray(0, ihdrEnd), 0);
+  out.set(chunk, ihdrEnd);
+  out.set(bytes.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+}
+
+function jpegWithDpi(bytes: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+  // Patch the JFIF APP0 density fields when the encoder wrote one
+  const isJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF';
+  if (!isJfif) return bytes;
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  out[13] = 1;
+  view.setUint16(14, dpi);
+  view.setUint16(16, dpi);
+  return out;
+}
+
+/**
+ * Record the print resolution in the file so print software opens it at the right physical size
+ * @param blob - Encoded PNG or JPEG (WebP is returned unchanged)
+ * @param dpi - Dots per inch
+ * @returns The image with resolution metadata
+ */
+export async function withDpiMetadata(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (blob.type === 'image/png') return new Blob([pngWithDpi(bytes, dpi)], { type: blob.type });
+  if (blob.type === 'image/jpeg') return new Blob([jpegWithDpi(bytes, dpi)], { type: blob.type });
+  return blob;
+}
+
+/**
+ * Render the mandala as a print-ready raster file
+ * @param spec - The mandala spec
+ * @param options - Raster options
+ * @param watermark - Watermark settings, or null for a licensed print file
+ * @param fingerprint - Certificate or order id to hide in the pixels of a licensed PNG
+ * @returns The encoded image
+ */
+export async function exportRaster(spec: MandalaSpec, options: RasterOptions, watermark: WatermarkSettings | null, fingerprint: string | null = null): Promise<Blob> {
+  const layout = printLayout(options);
+  const error = layoutError(layout);
+  if (error) throw new Error(error);
+  const svg = buildPrintSVG(spec, options, watermark);
+  const blob = await rasterizeSVG(svg, layout.width, layout.height, options.format, options.quality, fingerprint);
+  return withDpiMetadata(blob, options.dpi);
+}
+
+/**
+ * Print settings for a paper preset, as used by the print products in the store
+ * @param paper - Paper preset
+ * @returns Raster options at 300 DPI with 3 mm bleed and crop marks
+ */
+export function printPresetOptions(paper: PaperSize): RasterOptions {
+  return { ...DEFAULT_RASTER_OPTIONS, paper, dpi: 300, bleedMm: 3, cropMarks: true };
+}
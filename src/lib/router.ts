@@ -0,0 +1,82 @@
+export type Route =
+  | { name: 'builder'; designId: string | null }
+  | { name: 'generate' }
+  | { name: 'licenses' }
+  | { name: 'store' }
+  | { name: 'orders' }
+  | { name: 'cms'; assetId: string | null }
+  | { name: 'seo' }
+  /** A design packed into the URL by encodeSpec */
+  | { name: 'share'; code: string }
+  | { name: 'not-found'; path: string };
+
+export type RouteName = Route['name'];
+
+/** Sections in the main navigation, in order */
+export const NAV_ROUTES: { route: Route; label: string }[] = [
+  { route: { name: 'builder', designId: null }, label: 'Builder' },
+  { route: { name: 'generate' }, label: 'Generate' },
+  { route: { name: 'licenses' }, label: 'Licensing' },
+  { route: { name: 'store' }, label: 'Store' },
+  { route: { name: 'orders' }, label: 'Orders' },
+  { route: { name: 'cms', assetId: null }, label: 'CMS' },
+  { route: { name: 'seo' }, label: 'SEO' }
+];
+
+/**
+ * Match a URL path against the app's routes
+ * @param pathname - e.g. /cms/assets/design-1700000000000-1
+ * @returns The route; unknown paths give 'not-found'
+ */
+export function parseRoute(pathname: string): Route {
+  const parts = pathname.split('/').filter(Boolean).map((p) => {
+    try {
+      return decodeURIComponent(p);
+    } catch {
+      return p;
+    }
+  });
+  const [section, ...rest] = parts;
+  switch (section) {
+    case undefined:
+      return { name: 'builder', designId: null };
+    case 'builder':
+      if (rest.length <= 1) return { name: 'builder', designId: rest[0] ?? null };
+      break;
+    case 'generate':
+    case 'licenses':
+    case 'store':
+    case 'orders':
+    case 'seo':
+      if (rest.length === 0) return { name: section };
+      break;
+    case 'cms':
+      if (rest.length === 0) return { name: 'cms', assetId: null };
+      if (rest.length === 2 && rest[0] === 'assets') return { name: 'cms', assetId: rest[1] };
+      break;
+    case 'share':
+      if (rest.length === 1) return { name: 'share', code: rest[0] };
+      break;
+  }
+  return { name: 'not-found', path: pathname };
+}
+
+/**
+ * URL path of a route
+ * @param route - The route
+ * @returns Path starting with a slash
+ */
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'builder':
+      return route.designId ? `/builder/${encodeURIComponent(route.designId)}` : '/builder';
+    case 'cms':
+      return route.assetId ? `/cms/assets/${encodeURIComponent(route.assetId)}` : '/cms';
+    case 'share':
+      return `/share/${encodeURIComponent(route.code)}`;
+    case 'not-found':
+      return route.path;
+    default:
+      return `/${route.name}`;
+  }
+}
@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+import { STORE_ITEMS } from './cart';
+import { DEFAULT_LICENSES } from './licenses';
+import {
+  absoluteUrl,
+  applyHeadTags,
+  DEFAULT_SEO,
+  headHTML,
+  headTags,
+  pageMeta,
+  robotsTxt,
+  routePage,
+  siteUrlError,
+  slugPath,
+  type SEOContext
+} from './seo';
+import type { SEOState } from '../types';
+
+const seo: SEOState = { ...DEFAULT_SEO, siteUrl: 'https://mandalas.example/', twitterHandle: '@mandalas' };
+const context: SEOContext = { licenses: DEFAULT_LICENSES, products: STORE_ITEMS, assets: [] };
+
+describe('page metadata', () => {
+  test('uses the site defaults with the page name in the title', () => {
+    const meta = pageMeta(seo, 'store', context);
+    expect(meta).toMatchObject({
+      title: 'Store · Mandala Portfolio',
+      description: DEFAULT_SEO.description,
+      canonical: 'https://mandalas.example/store',
+      image: 'https://mandalas.example/og/store.png',
+      noindex: false
+    });
+    expect(meta.jsonLd.map((d) => d.name)).toEqual(STORE_ITEMS.map((p) => p.name));
+  });
+
+  test('page overrides win over the defaults', () => {
+    const meta = pageMeta({ ...seo, pages: { home: { title: ' Hand-drawn mandalas ', description: '', noindex: true } } }, 'home', context);
+    expect(meta.title).toBe('Hand-drawn mandalas');
+    expect(meta.description).toBe(DEFAULT_SEO.description);
+    expect(meta.noindex).toBe(true);
+  });
+
+  test('the licenses page describes the active licenses only', () => {
+    const licenses = DEFAULT_LICENSES.map((l) => (l.id === 'exclusive' ? { ...l, status: 'retired' as const } : l));
+    const meta = pageMeta(seo, 'licenses', { ...context, licenses });
+    expect(meta.jsonLd.map((d) => d.name)).toEqual(['Standard Commercial', 'Editorial License']);
+  });
+
+  test('app-only routes share the home page metadata', () => {
+    expect(routePage('store')).toBe('store');
+    expect(routePage('builder')).toBe('builder');
+    expect(routePage('cms')).toBe('home');
+    expect(routePage('not-found')).toBe('home');
+  });
+});
+
+describe('head tags', () => {
+  test('include Open Graph, Twitter and JSON-LD', () => {
+    const tags = headTags(seo, pageMeta(seo, 'home', context));
+    expect(tags[0]).toEqual({ tag: 'title', text: 'Mandala Portfolio' });
+    expect(tags).toContainEqual({ tag: 'link', rel: 'canonical', href: 'https://mandalas.example/' });
+    expect(tags).toContainEqual({ tag: 'meta', property: 'og:image:width', content: '1200' });
+    expect(tags).toContainEqual({ tag: 'meta', name: 'twitter:site', content: '@mandalas' });
+    expect(tags.filter((t) => t.tag === 'script')).toHaveLength(1);
+  });
+
+  test('leave out the share image without a site URL to make it absolute', () => {
+    const meta = pageMeta({ ...seo, siteUrl: '' }, 'home', context);
+    expect(meta.image).toBeNull();
+    const tags = headTags(seo, meta);
+    expect(tags.some((t) => t.tag === 'meta' && 'property' in t && t.property.startsWith('og:image'))).toBe(false);
+    expect(tags.some((t) => t.tag === 'meta' && 'name' in t && t.name.startsWith('twitter:image'))).toBe(false);
+    expect(tags).toContainEqual({ tag: 'meta', name: 'twitter:card', content: 'summary' });
+  });
+
+  test('escape markup in static HTML', () => {
+    const html = headHTML([
+      { tag: 'title', text: 'Lotus & <Sun>' },
+      { tag: 'meta', name: 'description', content: '"quoted"' },
+      { tag: 'script', json: { name: '</script><script>alert(1)</script>' } }
+    ]);
+    expect(html).toContain('<title>Lotus &amp; &lt;Sun&gt;</title>');
+    expect(html).toContain('content="&quot;quoted&quot;"');
+    expect(html).not.toContain('</script><script>');
+  });
+
+  test('replace the previous page tags in the live document', () => {
+    applyHeadTags(document, headTags(seo, pageMeta(seo, 'store', context)));
+    applyHeadTags(document, headTags(seo, pageMeta(seo, 'licenses', context)));
+    expect(document.title).toBe('Licenses · Mandala Portfolio');
+    expect(document.head.querySelectorAll('link[rel="canonical"]')).toHaveLength(1);
+    expect(document.head.querySelector('meta[name="description"]')?.getAttribute('content')).toBe(DEFAULT_SEO.description);
+    const ld = Array.from(document.head.querySelectorAll('script[type="application/ld+json"]'), (s) => JSON.parse(s.textContent ?? ''));
+    expect(ld.map((d) => d['@type'])).toEqual(['CreativeWork', 'CreativeWork', 'CreativeWork']);
+  });
+});
+
+describe('site URLs', () => {
+  test('join the site URL and paths', () => {
+    expect(absoluteUrl('https://mandalas.example//', '/store')).toBe('https://mandalas.example/store');
+    expect(absoluteUrl('', '/store')).toBe('/store');
+  });
+
+  test('slug paths are stable and distinct for equal titles', () => {
+    expect(slugPath('art', 'Blue Lótus!', 'a1')).toBe(slugPath('art', 'Blue Lótus!', 'a1'));
+    expect(slugPath('art', 'Blue Lótus!', 'a1')).toMatch(/^\/art\/blue-lotus-[a-z0-9]+$/);
+    expect(slugPath('art', 'Blue Lótus!', 'a1')).not.toBe(slugPath('art', 'Blue Lótus!', 'a2'));
+  });
+
+  test('robots.txt hides the admin areas and points at the sitemap', () => {
+    expect(robotsTxt(seo)).toBe('User-agent: *\nAllow: /\nDisallow: /cms\nDisallow: /orders\nDisallow: /seo\n\nSitemap: https://mandalas.example/sitemap.xml\n');
+  });
+
+  test('the site URL must be an http origin', () => {
+    expect(siteUrlError('https://mandalas.example')).toBeNull();
+    expect(siteUrlError('ftp://mandalas.example')).toBe('The site URL must start with https://');
+    expect(siteUrlError('https://mandalas.example/shop')).toBe('The site URL should be the origin only, e.g. https://mandalas.example');
+  });
+});
@@ -0,0 +1,429 @@
+import { BASE_CURRENCY } from './cart';
+import { activeLicenses, licenseTerms } from './licenses';
+import { CANVAS_SIZE, mandalaMarkup, type MandalaSpec } from './mandala';
+import type { RouteName } from './router';
+import { escapeXml } from './svgExport';
+import { watermarkMarkup, type WatermarkSettings } from './watermark';
+import type { Asset, License, PageId, PageMeta, SEOState, StoreItem } from '../types';
+
+export const PAGES: { id: PageId; label: string; path: string }[] = [
+  { id: 'home', label: 'Home', path: '/' },
+  { id: 'builder', label: 'Builder', path: '/builder' },
+  { id: 'store', label: 'Store', path: '/store' },
+  { id: 'licenses', label: 'Licenses', path: '/licenses' }
+];
+
+// Admin areas that crawlers should not visit
+const PRIVATE_PATHS = ['/cms', '/orders', '/seo'];
+
+/** Open Graph's recommended share image size */
+export const SHARE_IMAGE = { width: 1200, height: 630 };
+
+export const DEFAULT_SEO: SEOState = {
+  title: 'Mandala Portfolio',
+  description: 'A handcrafted mandala portfolio',
+  keywords: 'mandala, portfolio, art',
+  siteUrl: '',
+  twitterHandle: '',
+  pages: {}
+};
+
+export type ResolvedMeta = PageMeta & {
+  /** Absolute URL when the site URL is set, else a root-relative path */
+  canonical: string;
+  /**
+   * Absolute URL of the PNG share card; null when there is none social
+   * networks accept (no site URL, or no raster image was published)
+   */
+  image: string | null;
+  /** Pixel size of the image; SHARE_IMAGE when absent */
+  imageSize?: { width: number; height: number };
+  imageAlt: string;
+  type: 'website' | 'product';
+  jsonLd: Record<string, unknown>[];
+};
+
+export type HeadTag =
+  | { tag: 'title'; text: string }
+  | { tag: 'meta'; name: string; content: string }
+  | { tag: 'meta'; property: string; content: string }
+  | { tag: 'link'; rel: string; href: string }
+  | { tag: 'script'; json: Record<string, unknown> };
+
+/** What the structured data of a page can describe */
+export type SEOContext = {
+  licenses: License[];
+  /** Products listed on the store page */
+  products: StoreItem[];
+  /** The library; published assets get their own pages */
+  assets: Asset[];
+};
+
+/**
+ * URL-safe slug
+ * @param text - Any text
+ * @returns Lower-case ASCII words joined by hyphens
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Short stable suffix so assets with the same title get different URLs
+function idSuffix(id: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36).slice(0, 6);
+}
+
+/**
+ * Stable public path for a titled item
+ * @param section - Leading path segment, e.g. 'art'
+ * @param title - Title to slug
+ * @param id - Item id, hashed into a short suffix so equal titles get different paths
+ * @returns e.g. /art/blue-lotus-k3x9a1
+ */
+export function slugPath(section: string, title: string, id: string): string {
+  return `/${section}/${slugify(title) || 'untitled'}-${idSuffix(id)}`;
+}
+
+/**
+ * Public path of an asset's page
+ * @param asset - The asset
+ * @returns e.g. /art/blue-lotus-k3x9a1
+ */
+export function assetPath(asset: Asset): string {
+  return slugPath('art', asset.title || asset.name, asset.id);
+}
+
+/**
+ * Public path of a store product's page
+ * @param item - The product
+ * @returns e.g. /store/fine-art-print-a4-2m9f0c
+ */
+export function productPath(item: StoreItem): string {
+  return slugPath('store', item.name, item.id);
+}
+
+/**
+ * Path of the share image for a page or asset, relative to the site root
+ * @param key - Page id, or an asset path from assetPath
+ * @returns e.g. /og/home.png or /og/art/blue-lotus-k3x9a1.png
+ */
+export function shareImagePath(key: string): string {
+  return `/og/${key.replace(/^\//, '')}.png`;
+}
+
+/**
+ * Join the site URL and a path
+ * @param siteUrl - Public origin, possibly with a trailing slash; may be empty
+ * @param path - Root-relative path
+ * @returns Absolute URL, or the path when no site URL is set
+ */
+export function absoluteUrl(siteUrl: string, path: string): string {
+  return siteUrl.trim().replace(/\/+$/, '') + path;
+}
+
+function pick(override: string | undefined, fallback: string): string {
+  return override && override.trim() ? override.trim() : fallback;
+}
+
+/**
+ * schema.org CreativeWork describing a license
+ * @param seo - SEO settings (for the license page URL)
+ * @param license - The license
+ * @returns JSON-LD node
+ */
+export function licenseLD(seo: SEOState, license: License): Record<string, unknown> {
+  return {
+    '@type': 'CreativeWork',
+    '@id': absoluteUrl(seo.siteUrl, `/licenses#${license.id}`),
+    name: license.name,
+    text: licenseTerms(license)
+  };
+}
+
+/**
+ * schema.org Offer in the base currency
+ * @param price - Price in BASE_CURRENCY
+ * @param url - Page the offer is made on
+ * @returns JSON-LD node
+ */
+export function offerLD(price: number, url: string): Record<string, unknown> {
+  return { '@type': 'Offer', price: price.toFixed(2), priceCurrency: BASE_CURRENCY, availability: 'https://schema.org/InStock', url };
+}
+
+/**
+ * Site page whose metadata describes an app route; app-only routes use the home page's
+ * @param route - Route name
+ * @returns The page
+ */
+export function routePage(route: RouteName): PageId {
+  return route === 'builder' || route === 'store' || route === 'licenses' ? route : 'home';
+}
+
+/**
+ * Resolve the metadata of a site page: overrides over site defaults, plus
+ * its structured data
+ * @param seo - SEO settings
+ * @param page - The page
+ * @param context - Licenses and products the page describes
+ * @returns The page metadata
+ */
+export function pageMeta(seo: SEOState, page: PageId, context: SEOContext): ResolvedMeta {
+  const o = seo.pages[page] ?? {};
+  const info = PAGES.find((p) => p.id === page) ?? PAGES[0];
+  const canonical = absoluteUrl(seo.siteUrl, info.path);
+  const title = pick(o.title, page === 'home' ? seo.title : `${info.label} · ${seo.title}`);
+  const meta = {
+    title,
+    description: pick(o.description, seo.description),
+    keywords: pick(o.keywords, seo.keywords),
+    noindex: o.noindex ?? false,
+    canonical,
+    image: seo.siteUrl.trim() ? absoluteUrl(seo.siteUrl, shareImagePath(page)) : null,
+    imageAlt: `Mandala artwork from ${seo.title}`,
+    type: 'website' as const
+  };
+  let jsonLd: Record<string, unknown>[] = [];
+  if (page === 'home') {
+    jsonLd = [{ '@type': 'WebSite', name: seo.title, description: meta.description, url: canonical }];
+  } else if (page === 'store') {
+    jsonLd = context.products.map((p) => {
+      const asset = context.assets.find((a) => a.id === p.id);
+      const url = absoluteUrl(seo.siteUrl, asset ? assetPath(asset) : productPath(p));
+      return { '@type': 'Product', name: p.name, url, offers: offerLD(p.price, url) };
+    });
+  } else if (page === 'licenses') {
+    jsonLd = activeLicenses(context.licenses).map((l) => licenseLD(seo, l));
+  }
+  return { ...meta, jsonLd: jsonLd.map((d) => ({ '@context': 'https://schema.org', ...d })) };
+}
+
+/**
+ * Resolve the metadata of an asset's public page. The structured data is a
+ * VisualArtwork with its licenses, and a Product with an Offer when priced.
+ * @param seo - SEO settings
+ * @param asset - The asset
+ * @param context - Licenses the asset refers to
+ * @returns The page metadata
+ */
+export function assetMeta(seo: SEOState, asset: Asset, context: Pick<SEOContext, 'licenses'>): ResolvedMeta {
+  const o = asset.seo ?? {};
+  const path = assetPath(asset);
+  const canonical = absoluteUrl(seo.siteUrl, path);
+  const name = asset.title || asset.name;
+  const image = seo.siteUrl.trim() ? absoluteUrl(seo.siteUrl, shareImagePath(path)) : undefined;
+  const description = pick(o.description, asset.description?.trim() || seo.description);
+  const licenses = asset.licenseIds.flatMap((id) => context.licenses.filter((l) => l.id === id)).map((l) => licenseLD(seo, l));
+  const artwork: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'VisualArtwork',
+    name,
+    description,
+    image,
+    url: canonical,
+    keywords: asset.tags.join(', ') || undefined,
+    artform: 'Digital art',
+    dateCreated: asset.createdAt ? new Date(asset.createdAt).toISOString() : undefined,
+    license: licenses.length > 0 ? licenses : undefined
+  };
+  const jsonLd = [artwork];
+  if (asset.price !== null && asset.status === 'published') {
+    jsonLd.push({ '@context': 'https://schema.org', '@type': 'Product', name, description, image, url: canonical, offers: offerLD(asset.price, canonical) });
+  }
+  return {
+    title: pick(o.title, `${name} · ${seo.title}`),
+    description,
+    keywords: pick(o.keywords, [...asset.tags, seo.keywords].filter(Boolean).join(', ')),
+    noindex: o.noindex ?? false,
+    canonical,
+    image: image ?? null,
+    imageAlt: asset.altText.trim() || name,
+    type: asset.price !== null ? 'product' : 'website',
+    jsonLd: jsonLd.map((d) => JSON.parse(JSON.stringify(d)) as Record<string, unknown>)
+  };
+}
+
+/**
+ * The head elements for resolved metadata: title, description, canonical
+ * link, Open Graph, Twitter card and JSON-LD
+ * @param seo - SEO settings (site name and Twitter account)
+ * @param meta - Resolved page metadata
+ * @returns Head elements in document order
+ */
+export function headTags(seo: SEOState, meta: ResolvedMeta): HeadTag[] {
+  const tags: HeadTag[] = [
+    { tag: 'title', text: meta.title },
+    { tag: 'meta', name: 'description', content: meta.description },
+    { tag: 'link', rel: 'canonical', href: meta.canonical }
+  ];
+  if (meta.keywords) tags.push({ tag: 'meta', name: 'keywords', content: meta.keywords });
+  if (meta.noindex) tags.push({ tag: 'meta', name: 'robots', content: 'noindex, follow' });
+  tags.push(
+    { tag: 'meta', property: 'og:type', content: meta.type },
+    { tag: 'meta', property: 'og:site_name', content: seo.title },
+    { tag: 'meta', property: 'og:title', content: meta.title },
+    { tag: 'meta', property: 'og:description', content: meta.description },
+    { tag: 'meta', property: 'og:url', content: meta.canonical }
+  );
+  if (meta.image) {
+    tags.push(
+      { tag: 'meta', property: 'og:image', content: meta.image },
+      { tag: 'meta', property: 'og:image:width', content: String((meta.imageSize ?? SHARE_IMAGE).width) },
+      { tag: 'meta', property: 'og:image:height', content: String((meta.imageSize ?? SHARE_IMAGE).height) },
+      { tag: 'meta', property: 'og:image:alt', content: meta.imageAlt }
+    );
+  }
+  tags.push(
+    { tag: 'meta', name: 'twitter:card', content: meta.image ? 'summary_large_image' : 'summary' },
+    { tag: 'meta', name: 'twitter:title', content: meta.title },
+    { tag: 'meta', name: 'twitter:description', content: meta.description }
+  );
+  if (meta.image) {
+    tags.push(
+      { tag: 'meta', name: 'twitter:image', content: meta.image },
+      { tag: 'meta', name: 'twitter:image:alt', content: meta.imageAlt }
+    );
+  }
+  if (seo.twitterHandle.trim()) tags.push({ tag: 'meta', name: 'twitter:site', content: seo.twitterHandle.trim() });
+  meta.jsonLd.forEach((json) => tags.push({ tag: 'script', json }));
+  return tags;
+}
+
+// JSON inside <script> must not contain "</script" or an HTML comment opener
+function scriptJSON(json: unknown): string {
+  return JSON.stringify(json, null, 2).replace(/</g, '\\u003c');
+}
+
+/**
+ * Serialise head elements as HTML, for static pages
+ * @param tags - Head elements
+ * @returns HTML, one element per line
+ */
+export function headHTML(tags: HeadTag[]): string {
+  return tags
+    .map((t) => {
+      switch (t.tag) {
+        case 'title':
+          return `<title>${escapeXml(t.text)}</title>`;
+        case 'meta':
+          return 'name' in t
+            ? `<meta name="${escapeXml(t.name, true)}" content="${escapeXml(t.content, true)}">`
+            : `<meta property="${escapeXml(t.property, true)}" content="${escapeXml(t.content, true)}">`;
+        case 'link':
+          return `<link rel="${escapeXml(t.rel, true)}" href="${escapeXml(t.href, true)}">`;
+        case 'script':
+          return `<script type="application/ld+json">${scriptJSON(t.json)}</script>`;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Replace the document's managed head elements with these
+ * @param doc - The document
+ * @param tags - Head elements
+ */
+export function applyHeadTags(doc: Document, tags: HeadTag[]): void {
+  doc.head.querySelectorAll('[data-seo], meta[name="description"]').forEach((el) => el.remove());
+  for (const t of tags) {
+    if (t.tag === 'title') {
+      doc.title = t.text;
+      continue;
+    }
+    const el = doc.createElement(t.tag);
+    el.setAttribute('data-seo', '');
+    if (t.tag === 'meta') {
+      el.setAttribute('name' in t ? 'name' : 'property', 'name' in t ? t.name : t.property);
+      el.setAttribute('content', t.content);
+    } else if (t.tag === 'link') {
+      el.setAttribute('rel', t.rel);
+      el.setAttribute('href', t.href);
+    } else {
+      el.setAttribute('type', 'application/ld+json');
+      el.textContent = scriptJSON(t.json);
+    }
+    doc.head.appendChild(el);
+  }
+}
+
+function lastModified(asset: Asset): number | null {
+  const times = [asset.publishAt ?? 0, ...asset.audit.map((e) => e.at)];
+  const latest = Math.max(...times);
+  return latest > 0 ? latest : null;
+}
+
+/**
+ * sitemap.xml listing the indexable pages and published assets
+ * @param seo - SEO settings; the site URL should be set, since sitemaps need absolute URLs
+ * @param assets - The library
+ * @param options - Which site pages exist (default all of PAGES) and further paths to list
+ * @returns The sitemap XML
+ */
+export function sitemapXML(seo: SEOState, assets: Asset[], options: { pages?: PageId[]; extraPaths?: string[] } = {}): string {
+  const pages = options.pages ? PAGES.filter((p) => options.pages?.includes(p.id)) : PAGES;
+  const entries: { loc: string; lastmod: number | null }[] = [
+    ...pages.filter((p) => !seo.pages[p.id]?.noindex).map((p) => ({ loc: absoluteUrl(seo.siteUrl, p.path), lastmod: null })),
+    ...assets
+      .filter((a) => a.status === 'published' && !a.seo?.noindex)
+      .map((a) => ({ loc: absoluteUrl(seo.siteUrl, assetPath(a)), lastmod: lastModified(a) })),
+    ...(options.extraPaths ?? []).map((path) => ({ loc: absoluteUrl(seo.siteUrl, path), lastmod: null }))
+  ];
+  const urls = entries.map((e) =>
+    `  <url>\n    <loc>${escapeXml(e.loc)}</loc>\n` +
+    (e.lastmod !== null ? `    <lastmod>${new Date(e.lastmod).toISOString().slice(0, 10)}</lastmod>\n` : '') +
+    '  </url>'
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`;
+}
+
+/**
+ * robots.txt that keeps crawlers out of the admin areas and points at the sitemap
+ * @param seo - SEO settings
+ * @returns The robots.txt text
+ */
+export function robotsTxt(seo: SEOState): string {
+  const lines = ['User-agent: *', 'Allow: /', ...PRIVATE_PATHS.map((p) => `Disallow: ${p}`)];
+  if (seo.siteUrl.trim()) lines.push('', `Sitemap: ${absoluteUrl(seo.siteUrl, '/sitemap.xml')}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Problems with the site URL, which every canonical URL and the sitemap depend on
+ * @param siteUrl - The configured site URL
+ * @returns An error message, or null when it is usable
+ */
+export function siteUrlError(siteUrl: string): string | null {
+  if (!siteUrl.trim()) return 'Set the site URL so canonical links, share images and the sitemap use absolute URLs';
+  try {
+    const url = new URL(siteUrl.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'The site URL must start with https://';
+    if (url.pathname !== '/' || url.search || url.hash) return 'The site URL should be the origin only, e.g. https://mandalas.example';
+    return null;
+  } catch {
+    return 'The site URL is not a valid URL';
+  }
+}
+
+/**
+ * Share image: the mandala centred on a 1200×630 card, watermarked
+ * @param spec - The design
+ * @param watermark - Watermark settings, drawn over the whole card
+ * @param background - Card colour
+ * @returns SVG markup with explicit pixel size, ready for rasterizeSVG
+ */
+export function shareImageSVG(spec: MandalaSpec, watermark: WatermarkSettings, background = '#ffffff'): string {
+  const { width, height } = SHARE_IMAGE;
+  const scale = (height * 0.9) / CANVAS_SIZE;
+  const x = (width - CANVAS_SIZE * scale) / 2;
+  const y = (height - CANVAS_SIZE * scale) / 2;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" fill="${escapeXml(background, true)}"/>` +
+    `<g transform="translate(${x} ${y}) scale(${scale})">${mandalaMarkup(spec, null)}</g>` +
+    `${watermarkMarkup(watermark, width, height)}</svg>`;
+}
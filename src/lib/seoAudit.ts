@@ -0,0 +1,193 @@
+import { assetMeta, pageMeta, PAGES, siteUrlError, type ResolvedMeta, type SEOContext } from './seo';
+import type { Asset, PageId, SEOState } from '../types';
+
+/** Desktop result widths at which Google truncates with an ellipsis */
+export const SERP_LIMITS = {
+  title: { maxPx: 600, fontSize: 20 },
+  description: { maxPx: 920, fontSize: 14 }
+};
+// Shorter than this reads as a stub rather than a summary
+const MIN_TITLE_CHARS = 15;
+const MIN_DESCRIPTION_CHARS = 70;
+const ERROR_PENALTY = 25;
+const WARNING_PENALTY = 10;
+
+// Arial advance widths for ASCII 32..126, in thousandths of an em
+const ARIAL_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+function charWidth(ch: string): number {
+  const code = ch.codePointAt(0) ?? 0;
+  if (code >= 32 && code <= 126) return ARIAL_WIDTHS[code - 32];
+  // CJK and other full-width characters take a whole em
+  if (code >= 0x1100 && (code <= 0x115f || (code >= 0x2e80 && code <= 0xa4cf) || (code >= 0xac00 && code <= 0xd7a3) || (code >= 0xf900 && code <= 0xfaff) || code >= 0x1f300)) return 1000;
+  return 556;
+}
+
+/**
+ * Estimated rendered width of text in Arial, the font of search results
+ * @param text - The text
+ * @param fontSize - Font size in pixels
+ * @returns Width in pixels
+ */
+export function textWidthPx(text: string, fontSize: number): number {
+  let total = 0;
+  for (const ch of text) total += charWidth(ch);
+  return (total * fontSize) / 1000;
+}
+
+/**
+ * Cut text to fit a width, the way a search result does
+ * @param text - The text
+ * @param maxPx - Available width in pixels
+ * @param fontSize - Font size in pixels
+ * @returns The text, ending in an ellipsis when it was cut at a word boundary
+ */
+export function truncateToWidth(text: string, maxPx: number, fontSize: number): string {
+  if (textWidthPx(text, fontSize) <= maxPx) return text;
+  const limit = maxPx - textWidthPx(' ...', fontSize);
+  let width = 0;
+  let end = 0;
+  for (const ch of text) {
+    width += (charWidth(ch) * fontSize) / 1000;
+    if (width > limit) break;
+    end += ch.length;
+  }
+  const cut = text.slice(0, end);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > end / 2 ? cut.slice(0, space) : cut).trimEnd()} ...`;
+}
+
+export type AuditTarget = { kind: 'site' } | { kind: 'page'; page: PageId } | { kind: 'asset'; assetId: string };
+
+/** Field the fix for an issue is in */
+export type AuditField = 'siteUrl' | 'title' | 'description' | 'keywords' | 'altText';
+
+export type SEOIssue = {
+  severity: 'error' | 'warning';
+  target: AuditTarget;
+  field: AuditField;
+  message: string;
+};
+
+export type SEOReport = {
+  target: AuditTarget;
+  label: string;
+  meta: ResolvedMeta;
+  /** 0..100 */
+  score: number;
+  issues: SEOIssue[];
+};
+
+/**
+ * Score a set of issues
+ * @param issues - Issues found on one page
+ * @returns 100 minus a penalty per issue, at least 0
+ */
+export function scoreIssues(issues: SEOIssue[]): number {
+  return Math.max(0, 100 - issues.reduce((n, i) => n + (i.severity === 'error' ? ERROR_PENALTY : WARNING_PENALTY), 0));
+}
+
+function parseKeywords(keywords: string): string[] {
+  return keywords.split(',').map((k) => k.trim().toLowerCase()).filter(Boolean);
+}
+
+function lengthIssues(target: AuditTarget, meta: ResolvedMeta): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const title = meta.title.trim();
+  const titlePx = textWidthPx(title, SERP_LIMITS.title.fontSize);
+  if (!title) {
+    issues.push({ severity: 'error', target, field: 'title', message: 'Add a title' });
+  } else if (titlePx > SERP_LIMITS.title.maxPx) {
+    const over = Math.ceil(((titlePx - SERP_LIMITS.title.maxPx) / titlePx) * title.length);
+    issues.push({ severity: 'warning', target, field: 'title',
+      message: `Title is about ${Math.round(titlePx)} px wide and will be cut at ${SERP_LIMITS.title.maxPx} px; remove roughly ${over} characters` });
+  } else if (title.length < MIN_TITLE_CHARS) {
+    issues.push({ severity: 'warning', target, field: 'title', message: `Title is only ${title.length} characters; describe the page in a few more words` });
+  }
+  const description = meta.description.trim();
+  const descriptionPx = textWidthPx(description, SERP_LIMITS.description.fontSize);
+  if (!description) {
+    issues.push({ severity: 'error', target, field: 'description', message: 'Add a meta description' });
+  } else if (descriptionPx > SERP_LIMITS.description.maxPx) {
+    const over = Math.ceil(((descriptionPx - SERP_LIMITS.description.maxPx) / descriptionPx) * description.length);
+    issues.push({ severity: 'warning', target, field: 'description',
+      message: `Description is about ${Math.round(descriptionPx)} px wide and will be cut at ${SERP_LIMITS.description.maxPx} px; remove roughly ${over} characters` });
+  } else if (description.length < MIN_DESCRIPTION_CHARS) {
+    issues.push({ severity: 'warning', target, field: 'description',
+      message: `Description is only ${description.length} characters; aim for ${MIN_DESCRIPTION_CHARS}–160` });
+  }
+  return issues;
+}
+
+function keywordIssues(target: AuditTarget, meta: ResolvedMeta): SEOIssue[] {
+  const keywords = parseKeywords(meta.keywords);
+  if (keywords.length === 0) return [{ severity: 'warning', target, field: 'keywords', message: 'Add at least one keyword to check the copy against' }];
+  const title = meta.title.toLowerCase();
+  const description = meta.description.toLowerCase();
+  const issues: SEOIssue[] = [];
+  // The first keyword is the one the page should rank for
+  if (!title.includes(keywords[0])) {
+    issues.push({ severity: 'warning', target, field: 'title', message: `Main keyword “${keywords[0]}” is not in the title` });
+  }
+  const unused = keywords.filter((k) => !title.includes(k) && !description.includes(k));
+  if (unused.length === keywords.length) {
+    issues.push({ severity: 'warning', target, field: 'description', message: 'None of the keywords appear in the title or description' });
+  } else if (unused.length > 0 && !description.includes(keywords[0])) {
+    issues.push({ severity: 'warning', target, field: 'description', message: `Main keyword “${keywords[0]}” is not in the description` });
+  }
+  return issues;
+}
+
+/**
+ * Audit every public page and every asset that is not archived: snippet
+ * lengths, keyword use, duplicate titles and image alt text
+ * @param seo - SEO settings
+ * @param context - Licenses, store products and the library
+ * @returns Site-wide issues, then one report per page and asset
+ */
+export function auditSite(seo: SEOState, context: SEOContext): { site: SEOIssue[]; reports: SEOReport[] } {
+  const siteTarget: AuditTarget = { kind: 'site' };
+  const urlError = siteUrlError(seo.siteUrl);
+  const site: SEOIssue[] = urlError ? [{ severity: 'error', target: siteTarget, field: 'siteUrl', message: urlError }] : [];
+
+  const reports: SEOReport[] = [
+    ...PAGES.map((p) => ({ target: { kind: 'page', page: p.id } as AuditTarget, label: p.label, meta: pageMeta(seo, p.id, context) })),
+    ...context.assets
+      .filter((a) => a.status !== 'archived')
+      .map((a) => ({ target: { kind: 'asset', assetId: a.id } as AuditTarget, label: a.title || a.name, meta: assetMeta(seo, a, context) }))
+  ].map((r) => ({ ...r, score: 100, issues: [...lengthIssues(r.target, r.meta), ...keywordIssues(r.target, r.meta)] }));
+
+  // Pages hidden from search cannot compete with the others
+  const titles = new Map<string, SEOReport[]>();
+  reports.filter((r) => !r.meta.noindex && r.meta.title.trim()).forEach((r) => {
+    const key = r.meta.title.trim().toLowerCase();
+    titles.set(key, [...(titles.get(key) ?? []), r]);
+  });
+  titles.forEach((group) => {
+    if (group.length < 2) return;
+    group.forEach((r) => {
+      const others = group.filter((o) => o !== r).map((o) => o.label);
+      r.issues.push({ severity: 'warning', target: r.target, field: 'title', message: `Same title as ${others.join(', ')}` });
+    });
+  });
+
+  const assets = new Map<string, Asset>(context.assets.map((a) => [a.id, a]));
+  reports.forEach((r) => {
+    if (r.target.kind !== 'asset') return;
+    const asset = assets.get(r.target.assetId);
+    if (asset && (asset.file || asset.url) && !asset.altText.trim()) {
+      r.issues.push({ severity: 'error', target: r.target, field: 'altText', message: 'Image has no alt text for screen readers and image search' });
+    }
+  });
+  reports.forEach((r) => {
+    r.score = scoreIssues(r.issues);
+  });
+  return { site, reports };
+}
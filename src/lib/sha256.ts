@@ -0,0 +1,10 @@
+/**
+ * SHA-256 digest
+ * @param data - Text (hashed as UTF-8) or raw bytes
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
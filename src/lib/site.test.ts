@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+import { DEFAULT_LICENSES } from './licenses';
+import { DEFAULT_SPEC } from './mandala';
+import { DEFAULT_SEO } from './seo';
+import { buildSite, type SiteInput } from './site';
+import { DEFAULT_WATERMARK } from './watermark';
+import { workflowDefaults } from './workflow';
+import type { Asset } from '../types';
+
+const decoder = new TextDecoder();
+
+const input: SiteInput = {
+  seo: { ...DEFAULT_SEO, siteUrl: 'https://mandalas.example' },
+  spec: DEFAULT_SPEC,
+  assets: [],
+  licenses: DEFAULT_LICENSES,
+  snapshots: [],
+  watermark: DEFAULT_WATERMARK,
+  loadMedia: async () => null
+};
+
+async function page(site: SiteInput, path = 'index.html'): Promise<string> {
+  const files = await buildSite(site, { includeSnapshots: false });
+  const file = files.find((f) => f.path === path);
+  if (!file) throw new Error(`${path} was not built`);
+  return decoder.decode(file.data);
+}
+
+// A stand-in encoder: the bytes only need to be distinct per image
+const rasterize = async (svg: string) => new TextEncoder().encode(`PNG ${svg.length}`);
+
+describe('share images', () => {
+  test('point at an absolute PNG card when an encoder is available', async () => {
+    const html = await page({ ...input, rasterize });
+    expect(html).toMatch(/<meta property="og:image" content="https:\/\/mandalas\.example\/og\/site\.\w+\.png">/);
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image">');
+  });
+
+  test('are left out rather than published as SVG', async () => {
+    const files = await buildSite(input, { includeSnapshots: false });
+    expect(files.filter((f) => f.path.startsWith('og/'))).toEqual([]);
+    const html = await page(input);
+    expect(html).not.toContain('og:image');
+    expect(html).toContain('<meta name="twitter:card" content="summary">');
+  });
+
+  test('are left out without a site URL', async () => {
+    const html = await page({ ...input, seo: DEFAULT_SEO, rasterize });
+    expect(html).not.toContain('og:image');
+    expect(html).not.toContain('twitter:image');
+  });
+});
+
+describe('uploads', () => {
+  // The "original" is recognisable bytes; the thumbnail is a different data URL
+  const ORIGINAL = new TextEncoder().encode('ORIGINAL-UPLOAD-BYTES');
+  const THUMBNAIL = 'data:image/webp;base64,VEhVTUI=';
+  const lotus: Asset = {
+    id: 'lotus',
+    name: 'lotus.png',
+    tags: [],
+    ...workflowDefaults('Lotus'),
+    status: 'published',
+    publishAt: 1,
+    createdAt: 1,
+    file: { hash: 'a'.repeat(64), mimeType: 'image/png', size: ORIGINAL.length, width: 4000, height: 3000, thumbnail: THUMBNAIL, uploadedAt: 1 }
+  };
+
+  test('are published from the thumbnail without an encoder, never from the original', async () => {
+    const requested: string[] = [];
+    const files = await buildSite(
+      { ...input, assets: [lotus], loadMedia: async (hash) => (requested.push(hash), ORIGINAL) },
+      { includeSnapshots: false }
+    );
+    expect(requested).toEqual([]);
+    const previews = files.filter((f) => f.path.startsWith('media/'));
+    expect(previews).toHaveLength(1);
+    const svg = decoder.decode(previews[0].data);
+    expect(svg).toContain('href="data:image/webp;base64,VEhVTUI="');
+    expect(svg).toContain('width="160" height="120"');
+    expect(svg).not.toContain('T1JJR0lOQUwtVVBMT0FELUJZVEVT');
+  });
+
+  test('are flattened with the watermark at preview size when an encoder is available', async () => {
+    const drawn: string[] = [];
+    const files = await buildSite(
+      { ...input, assets: [lotus], loadMedia: async () => ORIGINAL, rasterize: async (svg, width, height) => (drawn.push(`${width}x${height}`), rasterize(svg)) },
+      { includeSnapshots: false }
+    );
+    expect(drawn).toContain('1600x1200');
+    expect(files.filter((f) => f.path.startsWith('media/')).map((f) => f.path)).toEqual([expect.stringMatching(/\.png$/)]);
+  });
+});
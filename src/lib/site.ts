@@ -0,0 +1,407 @@
+import { licensedUnitPrice, STORE_ITEMS } from './cart';
+import { activeLicenses, licenseTerms } from './licenses';
+import { CANVAS_SIZE, mandalaMarkup, type MandalaSpec } from './mandala';
+import {
+  absoluteUrl,
+  assetMeta,
+  assetPath,
+  headHTML,
+  headTags,
+  licenseLD,
+  offerLD,
+  pageMeta,
+  productPath,
+  robotsTxt,
+  SHARE_IMAGE,
+  shareImageSVG,
+  sitemapXML,
+  slugify,
+  slugPath,
+  type ResolvedMeta,
+  type SEOContext
+} from './seo';
+import { sha256Hex } from './sha256';
+import type { DesignSnapshot } from './snapshots';
+import { escapeXml } from './svgExport';
+import { formatCurrency } from './utils';
+import { watermarkMarkup, type WatermarkSettings } from './watermark';
+import { publishedProducts } from './workflow';
+import type { Asset, License, SEOState, StoreItem } from '../types';
+
+export type SiteFile = {
+  /** Path inside the site, without a leading slash */
+  path: string;
+  data: Uint8Array;
+};
+
+export type SiteInput = {
+  seo: SEOState;
+  /** Design shown on the share cards of the gallery, store and license pages */
+  spec: MandalaSpec;
+  assets: Asset[];
+  licenses: License[];
+  snapshots: DesignSnapshot[];
+  /** Drawn over every published image; originals are never published */
+  watermark: WatermarkSettings;
+  /**
+   * Original bytes of an upload by content hash, or null to fall back to its
+   * thumbnail. Only read with rasterize; SVG previews always use the thumbnail.
+   */
+  loadMedia: (hash: string) => Promise<Uint8Array | null>;
+  /**
+   * PNG encoder for share images and upload previews. Without one previews
+   * are published as SVG and pages carry no share image, since social
+   * networks do not accept SVG cards.
+   */
+  rasterize?: (svg: string, width: number, height: number) => Promise<Uint8Array>;
+};
+
+export type SiteOptions = {
+  /** Publish saved builder snapshots as a "Mandalas" section */
+  includeSnapshots: boolean;
+};
+
+type Image = { src: string; width: number; height: number };
+
+// A gallery entry: a published asset or a saved mandala
+type Work = {
+  title: string;
+  description: string;
+  path: string;
+  image: Image;
+  /** PNG share card, null without a rasterizer */
+  share: Image | null;
+  alt: string;
+  asset?: Asset;
+  snapshot?: DesignSnapshot;
+};
+
+// Size of the thumbnails made at upload, the fallback when originals are missing
+const THUMBNAIL_SIZE = 160;
+// Longest side of the watermarked previews published in place of uploads
+const PREVIEW_SIZE = 1600;
+
+const STYLESHEET = `*{box-sizing:border-box}
+body{margin:0;font-family:Inter,ui-sans-serif,system-ui,sans-serif;color:#111;background:#fff;line-height:1.5}
+a{color:#5200ff}
+header{background:#5200ff;color:#fff}
+header .bar,main,footer{max-width:72rem;margin:0 auto;padding:1rem}
+header .bar{display:flex;align-items:center;justify-content:space-between;gap:1rem}
+header a{color:#fff;text-decoration:none;margin-left:1rem}
+header .brand{font-weight:600;font-size:1.25rem;margin:0}
+h1{font-size:1.75rem;margin:.5rem 0 1rem}
+h2{font-size:1.25rem;margin:2rem 0 .75rem}
+.grid{display:grid;grid-template-columns:repeat(auto-fill,minmax(14rem,1fr));gap:1rem}
+.card{display:block;border:1px solid #e5e7eb;border-radius:.5rem;padding:.75rem;text-decoration:none;color:inherit}
+.card img{width:100%;aspect-ratio:1;object-fit:contain;background:#f9fafb;border-radius:.25rem}
+.card .title{font-weight:500;margin-top:.5rem}
+.muted{color:#6b7280;font-size:.875rem}
+.detail{display:grid;grid-template-columns:minmax(0,1fr) minmax(0,1fr);gap:2rem}
+.detail img{width:100%;background:#f9fafb;border-radius:.5rem}
+.tag{display:inline-block;border:1px solid #e5e7eb;border-radius:999px;padding:0 .5rem;margin:0 .25rem .25rem 0;font-size:.75rem}
+table{border-collapse:collapse;width:100%}
+td,th{border-bottom:1px solid #e5e7eb;padding:.5rem;text-align:left}
+.price{font-weight:600}
+.license{border:1px solid #e5e7eb;border-radius:.5rem;padding:1rem;margin-bottom:1rem}
+.license:target{border-color:#5200ff}
+.badge{display:inline-block;background:#ffd600;color:#000;border-radius:.25rem;padding:0 .5rem;font-size:.75rem}
+footer{border-top:1px solid #e5e7eb;margin-top:3rem;color:#6b7280;font-size:.875rem;text-align:center}
+@media (max-width:40rem){.detail{grid-template-columns:1fr}}
+`;
+
+const encoder = new TextEncoder();
+const html = (s: string) => escapeXml(s, true);
+
+/**
+ * Decode a base64 data URL
+ * @param url - e.g. data:image/webp;base64,...
+ * @returns The bytes and MIME type, or null for other URLs
+ */
+export function dataUrlBytes(url: string): { bytes: Uint8Array<ArrayBuffer>; mimeType: string } | null {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(url);
+  if (!match) return null;
+  if (!match[2]) return { bytes: encoder.encode(decodeURIComponent(match[3])), mimeType: match[1] };
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType: match[1] };
+}
+
+function base64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+/**
+ * Encode bytes as a base64 data URL
+ * @param bytes - The bytes
+ * @param mimeType - Their MIME type
+ * @returns data:<mimeType>;base64,...
+ */
+export function bytesDataUrl(bytes: Uint8Array, mimeType: string): string {
+  return `data:${mimeType};base64,${base64(bytes)}`;
+}
+
+/**
+ * Standalone, watermarked SVG of a design for public pages
+ * @param spec - The design
+ * @param watermark - Watermark settings
+ * @returns SVG document
+ */
+export function designSVG(spec: MandalaSpec, watermark: WatermarkSettings): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">` +
+    `${mandalaMarkup(spec, watermark)}</svg>`;
+}
+
+// Fit width × height inside a square of side `max`, never enlarging
+function fitSize(width: number, height: number, max: number): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * An image with the watermark drawn over it
+ * @param bytes - Image file bytes
+ * @param mimeType - Image MIME type
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @param watermark - Watermark settings
+ * @returns SVG document with explicit pixel size, ready for rasterizing
+ */
+export function watermarkedImageSVG(bytes: Uint8Array, mimeType: string, width: number, height: number, watermark: WatermarkSettings): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<image href="data:${mimeType};base64,${base64(bytes)}" width="${width}" height="${height}" preserveAspectRatio="none"/>` +
+    `${watermarkMarkup(watermark, width, height)}</svg>`;
+}
+
+function priceLabel(item: StoreItem, license: License): string {
+  const price = licensedUnitPrice(item.price, license);
+  return price === null ? 'Price on request' : formatCurrency(price);
+}
+
+function offeredLicenses(item: StoreItem, licenses: License[]): License[] {
+  return licenses.filter((l) => l.status === 'active' && (!item.licenseIds || item.licenseIds.includes(l.id)));
+}
+
+function layout(seo: SEOState, meta: ResolvedMeta, stylesheet: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${headHTML(headTags(seo, meta))}
+<link rel="stylesheet" href="/${stylesheet}">
+</head>
+<body>
+<header><div class="bar"><a class="brand" href="/">${html(seo.title)}</a><nav><a href="/">Gallery</a><a href="/store">Store</a><a href="/licenses">Licenses</a></nav></div></header>
+<main>
+${body}
+</main>
+<footer>© ${html(seo.title)}</footer>
+</body>
+</html>
+`;
+}
+
+function workCard(work: Work): string {
+  const price = work.asset?.price != null ? `<div class="muted">From ${html(formatCurrency(work.asset.price))}</div>` : '';
+  return `<a class="card" href="${html(work.path)}"><img src="/${html(work.image.src)}" alt="${html(work.alt)}" width="${work.image.width}" height="${work.image.height}" loading="lazy">` +
+    `<div class="title">${html(work.title)}</div>${price}</a>`;
+}
+
+function licenseTable(item: StoreItem, licenses: License[]): string {
+  const rows = offeredLicenses(item, licenses)
+    .map((l) => `<tr><td><a href="/licenses#${html(l.id)}">${html(l.name)}</a></td><td class="price">${html(priceLabel(item, l))}</td></tr>`)
+    .join('\n');
+  return rows ? `<table><thead><tr><th>License</th><th>Price</th></tr></thead><tbody>\n${rows}\n</tbody></table>` : '<p class="muted">Not currently offered.</p>';
+}
+
+/**
+ * Build the public portfolio: gallery, artwork pages, store and product
+ * pages, the license page, sitemap.xml and robots.txt. Images and the
+ * stylesheet get content-hashed file names so they can be cached forever.
+ * @param input - Workspace data and media access
+ * @param options - What to publish
+ * @returns Files to write, sorted by path
+ */
+export async function buildSite(input: SiteInput, options: SiteOptions): Promise<SiteFile[]> {
+  const { seo, licenses } = input;
+  const files = new Map<string, Uint8Array>();
+  const emit = (path: string, data: Uint8Array | string) => files.set(path, typeof data === 'string' ? encoder.encode(data) : data);
+  const hashed = async (dir: string, base: string, ext: string, data: Uint8Array | string): Promise<string> => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    const path = `${dir}/${slugify(base) || 'file'}.${(await sha256Hex(bytes.slice().buffer)).slice(0, 10)}.${ext}`;
+    emit(path, bytes);
+    return path;
+  };
+  // Share cards must be raster images; without an encoder there are none
+  const shareImage = async (name: string, spec: MandalaSpec): Promise<Image | null> => {
+    if (!input.rasterize) return null;
+    const png = await input.rasterize(shareImageSVG(spec, input.watermark), SHARE_IMAGE.width, SHARE_IMAGE.height);
+    return { src: await hashed('og', name, 'png', png), ...SHARE_IMAGE };
+  };
+
+  const stylesheet = await hashed('assets', 'site', 'css', STYLESHEET);
+  const siteShare = await shareImage('site', input.spec);
+  // Point the meta tags and structured data at the published image
+  // Crawlers need an absolute URL, so without a site URL pages carry no image
+  const withImage = (meta: ResolvedMeta, image: Image | null): ResolvedMeta => {
+    const url = image && seo.siteUrl.trim() ? absoluteUrl(seo.siteUrl, `/${image.src}`) : null;
+    return {
+      ...meta,
+      image: url,
+      imageSize: image ? { width: image.width, height: image.height } : undefined,
+      jsonLd: meta.jsonLd.map((node) => {
+        if (!('image' in node)) return node;
+        const { image: _, ...rest } = node;
+        return url ? { ...rest, image: url } : rest;
+      })
+    };
+  };
+
+  // Published assets, newest first
+  const published = input.assets
+    .filter((a) => a.status === 'published')
+    .sort((a, b) => (b.publishAt ?? 0) - (a.publishAt ?? 0));
+  const works: Work[] = [];
+  for (const asset of published) {
+    const title = asset.title || asset.name;
+    let image: Image;
+    let share: Image | null;
+    if (asset.file) {
+      // Only a watermarked preview is published, never the upload itself. The
+      // original is used only when it is flattened into a PNG with the
+      // watermark; an SVG would carry its bytes next to a deletable watermark
+      const original = input.rasterize ? await input.loadMedia(asset.file.hash) : null;
+      const thumb = dataUrlBytes(asset.file.thumbnail);
+      const bytes = original ?? thumb?.bytes ?? new Uint8Array();
+      const mimeType = original ? asset.file.mimeType : thumb?.mimeType ?? 'image/webp';
+      const { width, height } = fitSize(asset.file.width, asset.file.height, original ? PREVIEW_SIZE : THUMBNAIL_SIZE);
+      const svg = watermarkedImageSVG(bytes, mimeType, width, height, input.watermark);
+      image = input.rasterize
+        ? { src: await hashed('media', title, 'png', await input.rasterize(svg, width, height)), width, height }
+        : { src: await hashed('media', title, 'svg', svg), width, height };
+      share = input.rasterize ? image : null;
+    } else if (asset.design) {
+      image = { src: await hashed('media', title, 'svg', designSVG(asset.design, input.watermark)), width: CANVAS_SIZE, height: CANVAS_SIZE };
+      share = await shareImage(title, asset.design);
+    } else {
+      // Remote assets are linked where they live
+      image = { src: asset.url ?? '', width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE };
+      share = siteShare;
+    }
+    works.push({ title, description: asset.description ?? '', path: assetPath(asset), image, share, alt: asset.altText.trim() || title, asset });
+  }
+  const mandalas: Work[] = [];
+  if (options.includeSnapshots) {
+    for (const snapshot of input.snapshots) {
+      const image = { src: await hashed('media', snapshot.name, 'svg', designSVG(snapshot.spec, input.watermark)), width: CANVAS_SIZE, height: CANVAS_SIZE };
+      mandalas.push({
+        title: snapshot.name,
+        description: '',
+        path: slugPath('mandalas', snapshot.name, snapshot.id),
+        image,
+        share: await shareImage(snapshot.name, snapshot.spec),
+        alt: `Mandala design “${snapshot.name}”`,
+        snapshot
+      });
+    }
+  }
+
+  const products = [...STORE_ITEMS, ...publishedProducts(input.assets)];
+  const context: SEOContext = { licenses, products, assets: input.assets };
+  const page = (path: string, meta: ResolvedMeta, body: string) => emit(path, layout(seo, meta, stylesheet, body));
+
+  // Gallery
+  page('index.html', withImage(pageMeta(seo, 'home', context), siteShare), [
+    `<h1>${html(seo.title)}</h1>`,
+    seo.description ? `<p>${html(seo.description)}</p>` : '',
+    works.length > 0 ? `<h2>Artwork</h2>\n<div class="grid">\n${works.map(workCard).join('\n')}\n</div>` : '<p class="muted">No artwork published yet.</p>',
+    mandalas.length > 0 ? `<h2>Mandalas</h2>\n<div class="grid">\n${mandalas.map(workCard).join('\n')}\n</div>` : ''
+  ].filter(Boolean).join('\n'));
+
+  // Artwork detail pages; priced artwork doubles as its product page
+  for (const work of works) {
+    const asset = work.asset as Asset;
+    const product = products.find((p) => p.id === asset.id);
+    const tags = asset.tags.map((t) => `<span class="tag">${html(t)}</span>`).join('');
+    page(`${work.path.slice(1)}/index.html`, withImage(assetMeta(seo, asset, context), work.share), `<div class="detail">
+<img src="/${html(work.image.src)}" alt="${html(work.alt)}" width="${work.image.width}" height="${work.image.height}">
+<div>
+<h1>${html(work.title)}</h1>
+${work.description ? `<p>${html(work.description)}</p>` : ''}
+${tags ? `<p>${tags}</p>` : ''}
+${product ? `<h2>Licensing</h2>\n${licenseTable(product, licenses)}` : ''}
+</div>
+</div>`);
+  }
+
+  for (const work of mandalas) {
+    const canonical = absoluteUrl(seo.siteUrl, work.path);
+    const meta: ResolvedMeta = {
+      title: `${work.title} · ${seo.title}`,
+      description: `Mandala design “${work.title}” from ${seo.title}`,
+      keywords: seo.keywords,
+      noindex: false,
+      canonical,
+      image: '',
+      imageAlt: work.alt,
+      type: 'website',
+      jsonLd: [{ '@context': 'https://schema.org', '@type': 'VisualArtwork', name: work.title, url: canonical, artform: 'Digital art',
+        dateCreated: new Date((work.snapshot as DesignSnapshot).createdAt).toISOString() }]
+    };
+    page(`${work.path.slice(1)}/index.html`, withImage(meta, work.share), `<div class="detail">
+<img src="/${html(work.image.src)}" alt="${html(work.alt)}" width="${work.image.width}" height="${work.image.height}">
+<div><h1>${html(work.title)}</h1><p class="muted">Saved ${html(new Date((work.snapshot as DesignSnapshot).createdAt).toISOString().slice(0, 10))}</p></div>
+</div>`);
+  }
+
+  // Store and product pages
+  const productLink = (item: StoreItem) => {
+    const asset = input.assets.find((a) => a.id === item.id);
+    return asset ? assetPath(asset) : productPath(item);
+  };
+  page('store/index.html', withImage(pageMeta(seo, 'store', context), siteShare), `<h1>Store</h1>
+<table><thead><tr><th>Product</th><th>Type</th><th>From</th></tr></thead><tbody>
+${products.map((p) => `<tr><td><a href="${html(productLink(p))}">${html(p.name)}</a></td><td>${p.kind === 'physical' ? 'Print' : 'Digital'}</td><td class="price">${html(formatCurrency(p.price))}</td></tr>`).join('\n')}
+</tbody></table>`);
+  for (const item of STORE_ITEMS) {
+    const path = productPath(item);
+    const canonical = absoluteUrl(seo.siteUrl, path);
+    const description = `${item.name}: ${item.kind === 'physical' ? 'a fine art print' : 'a digital download'} of any mandala from ${seo.title}`;
+    const meta: ResolvedMeta = {
+      title: `${item.name} · ${seo.title}`,
+      description,
+      keywords: seo.keywords,
+      noindex: false,
+      canonical,
+      image: '',
+      imageAlt: item.name,
+      type: 'product',
+      jsonLd: [{ '@context': 'https://schema.org', '@type': 'Product', name: item.name, description, url: canonical, offers: offerLD(item.price, canonical) }]
+    };
+    page(`${path.slice(1)}/index.html`, withImage(meta, siteShare), `<h1>${html(item.name)}</h1>
+<p>${html(description)}.</p>
+<p><span class="badge">${item.kind === 'physical' ? 'Print' : 'Digital'}</span></p>
+<h2>Licensing</h2>
+${licenseTable(item, licenses)}`);
+  }
+
+  // Licenses
+  const active = activeLicenses(licenses);
+  const licensesMeta = withImage(pageMeta(seo, 'licenses', context), siteShare);
+  page('licenses/index.html', { ...licensesMeta, jsonLd: active.map((l) => ({ '@context': 'https://schema.org', ...licenseLD(seo, l) })) }, `<h1>Licenses</h1>
+${active.map((l) => `<section class="license" id="${html(l.id)}"><h2>${html(l.name)}</h2><p>${html(licenseTerms(l))}</p></section>`).join('\n')}`);
+
+  page('404.html', { ...withImage(pageMeta(seo, 'home', context), siteShare), title: `Page not found · ${seo.title}`, noindex: true, jsonLd: [] },
+    '<h1>Page not found</h1>\n<p><a href="/">Back to the gallery</a></p>');
+
+  emit('sitemap.xml', sitemapXML(seo, input.assets, {
+    pages: ['home', 'store', 'licenses'],
+    extraPaths: [...mandalas.map((m) => m.path), ...STORE_ITEMS.map(productPath)]
+  }));
+  emit('robots.txt', robotsTxt(seo));
+
+  return Array.from(files, ([path, data]) => ({ path, data })).sort((a, b) => a.path.localeCompare(b.path));
+}
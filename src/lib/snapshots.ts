@@ -0,0 +1,24 @@
+import type { MandalaSpec } from './mandala';
+
+export type DesignSnapshot = {
+  id: string;
+  name: string;
+  spec: MandalaSpec;
+  createdAt: number;
+};
+
+/**
+ * Capture a named copy of a design
+ * @param name - Display name; a timestamped name is used when blank
+ * @param spec - The spec to capture
+ * @returns The snapshot
+ */
+export function createSnapshot(name: string, spec: MandalaSpec): DesignSnapshot {
+  const createdAt = Date.now();
+  return {
+    id: `snapshot-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || `Snapshot ${new Date(createdAt).toLocaleString()}`,
+    spec,
+    createdAt
+  };
+}
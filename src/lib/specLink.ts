@@ -0,0 +1,182 @@
+import { coerceSpec, GRADIENT_KINDS, MOTIF_SHAPES, type MandalaSpec } from './mandala';
+
+/**
+ * Share codes look like `3.<base64url>`: the format version, a dot, then the
+ * packed spec. Bump the version whenever the packed layout changes and keep a
+ * decoder for every version links are still expected to arrive in.
+ */
+export const SPEC_LINK_VERSION = 3;
+
+/** Oldest format still accepted; older links are rejected rather than guessed at */
+export const MIN_SPEC_LINK_VERSION = 1;
+
+/** `format` field of exported spec JSON files */
+export const SPEC_FILE_FORMAT = 'mandala-spec';
+
+// Packed layout, version 3 (ids are dropped and regenerated on decode):
+// [symmetry, 'rrggbb,rrggbb...', [[motif, inner, outer, segments, rotation, opacity, gradient, from, to]...],
+//  [motifSegments, motifColor], [[kind, closed, width, r0, t0, r1, t1...]...]]
+// Version 2 had a watermark flag after the palette, which is ignored now that
+// watermarks are applied on export. Version 1 also had a single colour in
+// place of the palette, no layer fills and a bare motifSegments.
+type PackedV3 = [number, string, number[][], [number, number], number[][]];
+
+const SYMMETRIES = ['cyclic', 'dihedral'] as const;
+const STROKE_KINDS = ['freeform', 'bezier'] as const;
+
+// 4 decimals keeps points within 0.02px on the canvas while keeping links short
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+function pack(spec: MandalaSpec): PackedV3 {
+  return [
+    SYMMETRIES.indexOf(spec.symmetry),
+    spec.palette.map((c) => c.slice(1).toLowerCase()).join(','),
+    spec.layers.map((l) => [
+      MOTIF_SHAPES.findIndex((m) => m.id === l.motif),
+      round(l.innerRadius),
+      round(l.outerRadius),
+      l.segments,
+      round(l.rotation),
+      round(l.opacity),
+      GRADIENT_KINDS.findIndex((g) => g.id === l.fill.gradient),
+      l.fill.from,
+      l.fill.to
+    ]),
+    [spec.motif.segments, spec.motif.color],
+    spec.motif.strokes.map((s) => [
+      STROKE_KINDS.indexOf(s.kind),
+      s.closed ? 1 : 0,
+      round(s.width),
+      ...s.points.flatMap((pt) => [round(pt.r), round(pt.t)])
+    ])
+  ];
+}
+
+const pick = <T>(list: readonly T[], index: unknown): T | undefined => (typeof index === 'number' ? list[index] : undefined);
+
+function unpackStrokes(strokes: unknown[][]) {
+  return strokes.map(([kind, closed, width, ...coords], i) => {
+    const points = [];
+    for (let j = 0; j + 1 < coords.length; j += 2) points.push({ r: coords[j], t: coords[j + 1] });
+    return { id: `stroke-${i + 1}`, kind: pick(STROKE_KINDS, kind), closed: closed === 1, width, points };
+  });
+}
+
+// coerceSpec does the range checks; the unpackers only restore names and nesting
+function unpack(value: unknown, version: 1 | 2 | 3): MandalaSpec | null {
+  if (!Array.isArray(value) || value.length !== (version < 3 ? 6 : 5)) return null;
+  const [symmetry, colors, layers, motif, strokes] = version < 3 ? [...value.slice(0, 2), ...value.slice(3)] : value;
+  if (!Array.isArray(layers) || !Array.isArray(strokes) || typeof colors !== 'string') return null;
+  if (!layers.every(Array.isArray) || !strokes.every(Array.isArray)) return null;
+  const [segments, color] = version === 1 ? [motif, 0] : Array.isArray(motif) ? motif : [];
+  return coerceSpec({
+    symmetry: pick(SYMMETRIES, symmetry),
+    palette: colors.split(',').map((c) => `#${c}`),
+    layers: (layers as unknown[][]).map(([shape, innerRadius, outerRadius, segs, rotation, opacity, gradient, from, to], i) => ({
+      id: `layer-${i + 1}`,
+      motif: pick(MOTIF_SHAPES, shape)?.id,
+      innerRadius,
+      outerRadius,
+      segments: segs,
+      rotation,
+      opacity,
+      fill: version === 1 ? undefined : { gradient: pick(GRADIENT_KINDS, gradient)?.id, from, to }
+    })),
+    motif: { segments, color, strokes: unpackStrokes(strokes as unknown[][]) }
+  });
+}
+
+const DECODERS: Record<number, (value: unknown) => MandalaSpec | null> = {
+  1: (value) => unpack(value, 1),
+  2: (value) => unpack(value, 2),
+  3: (value) => unpack(value, 3)
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pack a spec into a compact, URL-safe share code
+ * @param spec - The mandala spec
+ * @returns The versioned code, e.g. 3.WzAsImZmN2Y1MCIsW1sw...
+ */
+export function encodeSpec(spec: MandalaSpec): string {
+  return `${SPEC_LINK_VERSION}.${toBase64Url(new TextEncoder().encode(JSON.stringify(pack(spec))))}`;
+}
+
+/**
+ * Unpack a share code, or a link containing one
+ * @param input - The code, or a full share URL
+ * @returns The spec, or an error explaining why the code cannot be opened
+ */
+export function decodeSpec(input: string): { spec: MandalaSpec | null; error: string | null } {
+  const text = input.trim();
+  if (!text) return { spec: null, error: 'Paste a share link or code' };
+  const code = /\/share\/([^/?#\s]+)/.exec(text)?.[1] ?? text;
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(code);
+  if (!match) return { spec: null, error: 'This is not a mandala share link' };
+  const version = Number(match[1]);
+  if (version > SPEC_LINK_VERSION) {
+    return { spec: null, error: `This link was made by a newer version of the builder (format ${version}); reload the app to open it` };
+  }
+  const decode = version >= MIN_SPEC_LINK_VERSION ? DECODERS[version] : undefined;
+  if (!decode) return { spec: null, error: `Format ${version} links are no longer supported; ask for a new link` };
+  const bytes = fromBase64Url(match[2]);
+  let value: unknown = null;
+  try {
+    value = bytes && JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    value = null;
+  }
+  const spec = decode(value);
+  return spec ? { spec, error: null } : { spec: null, error: 'The link is damaged or incomplete; ask for it to be sent again' };
+}
+
+/**
+ * Serialise a spec as a downloadable JSON file
+ * @param spec - The mandala spec
+ * @returns JSON text
+ */
+export function specFileJSON(spec: MandalaSpec): string {
+  return JSON.stringify({ format: SPEC_FILE_FORMAT, version: SPEC_LINK_VERSION, spec }, null, 2);
+}
+
+/**
+ * Read a spec JSON file; bare specs (as embedded in exported SVGs) are accepted too
+ * @param text - File contents
+ * @returns The spec, or an error explaining why the file cannot be opened
+ */
+export function parseSpecFile(text: string): { spec: MandalaSpec | null; error: string | null } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { spec: null, error: 'The file is not valid JSON' };
+  }
+  const isFile = typeof parsed === 'object' && parsed !== null && (parsed as Record<string, unknown>).format === SPEC_FILE_FORMAT;
+  if (isFile) {
+    const { version, spec } = parsed as Record<string, unknown>;
+    if (typeof version !== 'number' || version < MIN_SPEC_LINK_VERSION) {
+      return { spec: null, error: `Spec files of format ${String(version)} are no longer supported` };
+    }
+    if (version > SPEC_LINK_VERSION) {
+      return { spec: null, error: `This file was made by a newer version of the builder (format ${version}); reload the app to open it` };
+    }
+    parsed = spec;
+  }
+  const spec = coerceSpec(parsed);
+  return spec ? { spec, error: null } : { spec: null, error: 'The file does not contain a mandala design' };
+}
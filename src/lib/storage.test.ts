@@ -0,0 +1,90 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, test } from 'vitest';
+import {
+  collectBundleFiles,
+  createWorkspaceBundle,
+  getBlob,
+  loadWorkspace,
+  putBlob,
+  readWorkspaceBundle,
+  restoreBundleFiles,
+  saveSlices,
+  type Workspace
+} from './storage';
+import { workflowDefaults } from './workflow';
+import type { Asset } from '../types';
+
+const LOTUS = 'a'.repeat(64);
+const SUN = 'b'.repeat(64);
+
+function upload(id: string, hash: string): Asset {
+  return {
+    id,
+    name: `${id}.png`,
+    tags: [],
+    ...workflowDefaults(id),
+    createdAt: 1,
+    file: { hash, mimeType: 'image/png', size: 3, width: 1, height: 1, thumbnail: 'data:image/webp;base64,AAAA', uploadedAt: 1 }
+  };
+}
+
+const png = (...bytes: number[]) => new Blob([new Uint8Array(bytes)], { type: 'image/png' });
+
+async function bytesOf(hash: string): Promise<number[] | null> {
+  const blob = await getBlob(hash);
+  return blob ? Array.from(new Uint8Array(await blob.arrayBuffer())) : null;
+}
+
+// A tab running an older build keeps the version 1 database open and never yields
+function openOldTab(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('mandala-portfolio', 1);
+    req.onupgradeneeded = () => req.result.createObjectStore('workspace');
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+describe('storage', () => {
+  // Runs first: the database does not exist yet
+  test('reports an upgrade blocked by another tab, then opens once it closes', async () => {
+    const oldTab = await openOldTab();
+    await expect(loadWorkspace()).rejects.toThrow('close other tabs of this app and reload');
+    oldTab.close();
+    await expect(loadWorkspace()).resolves.toBeNull();
+  });
+
+  test('deletes the bytes of uploads whose asset is deleted', async () => {
+    await putBlob(LOTUS, png(1, 2, 3));
+    await putBlob(SUN, png(4, 5, 6));
+    await saveSlices({ assets: [upload('lotus', LOTUS), upload('sun', SUN)] });
+
+    await saveSlices({ assets: [upload('sun', SUN)] });
+    expect(await bytesOf(LOTUS)).toBeNull();
+    expect(await bytesOf(SUN)).toEqual([4, 5, 6]);
+
+    // Saving other slices leaves uploads alone
+    await saveSlices({ editorName: 'ana' });
+    expect(await bytesOf(SUN)).toEqual([4, 5, 6]);
+  });
+
+  test('workspace bundles carry the uploaded files', async () => {
+    await putBlob(SUN, png(4, 5, 6));
+    const ws = { assets: [upload('sun', SUN), upload('missing', LOTUS)] } as Workspace;
+    const files = await collectBundleFiles(ws);
+    expect(files).toEqual({ [SUN]: 'data:image/png;base64,BAUG' });
+
+    const bundle = readWorkspaceBundle(createWorkspaceBundle(ws, files));
+    expect(bundle.workspace.assets?.map((a) => a.id)).toEqual(['sun', 'missing']);
+    await saveSlices({ assets: [] });
+    expect(await bytesOf(SUN)).toBeNull();
+    expect(await restoreBundleFiles(bundle.files)).toBe(1);
+    expect(await bytesOf(SUN)).toEqual([4, 5, 6]);
+    expect((await getBlob(SUN))?.type).toBe('image/png');
+  });
+
+  test('ignores bundle files that are not keyed by a content hash', () => {
+    const text = JSON.stringify({ format: 'mandala-workspace', schemaVersion: 1, data: {}, files: { 'x.png': 'data:image/png;base64,AAAA', [SUN]: 42 } });
+    expect(readWorkspaceBundle(text).files).toEqual({});
+  });
+});
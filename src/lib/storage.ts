@@ -0,0 +1,478 @@
+import { coerceAnimation, type MandalaAnimation } from './animation';
+import { coerceSpec, type MandalaSpec } from './mandala';
+import type { LicenseCertificate } from './certificates';
+import { coerceLicense } from './licenses';
+import type { Order } from './orders';
+import type { SavedPalette } from './palette';
+import { PAGES } from './seo';
+import { bytesDataUrl, dataUrlBytes } from './site';
+import type { DesignSnapshot } from './snapshots';
+import { coerceWatermark, type WatermarkSettings } from './watermark';
+import { STATUS_LABELS, workflowDefaults } from './workflow';
+import type { Asset, CartItem, Collection, License, PageMeta, SEOState } from '../types';
+
+/**
+ * Version of the persisted data shape. Bump it whenever a slice changes shape
+ * and register a migration from the previous version in MIGRATIONS.
+ */
+export const SCHEMA_VERSION = 6;
+
+const DB_NAME = 'mandala-portfolio';
+// IndexedDB layout version (object stores), independent of SCHEMA_VERSION
+const DB_VERSION = 2;
+const STORE = 'workspace';
+// Uploaded image bytes, keyed by content hash
+const BLOB_STORE = 'blobs';
+const META_KEY = '__meta';
+const BUNDLE_FORMAT = 'mandala-workspace';
+
+export type Workspace = {
+  spec: MandalaSpec;
+  licenses: License[];
+  licenseId: string | null;
+  cart: CartItem[];
+  assets: Asset[];
+  collections: Collection[];
+  seo: SEOState;
+  snapshots: DesignSnapshot[];
+  orders: Order[];
+  certificates: LicenseCertificate[];
+  /** Name recorded in asset audit trails */
+  editorName: string;
+  palettes: SavedPalette[];
+  /** Applied to previews, the published site and every unlicensed export */
+  watermark: WatermarkSettings;
+  /** Ring motion for animated exports */
+  animation: MandalaAnimation;
+};
+
+export type SliceName = keyof Workspace;
+
+export const SLICES: SliceName[] = ['spec', 'licenses', 'licenseId', 'cart', 'assets', 'collections', 'seo', 'snapshots', 'orders', 'certificates', 'editorName', 'palettes', 'watermark', 'animation'];
+
+type RawWorkspace = Partial<Record<SliceName, unknown>>;
+type Migration = (ws: RawWorkspace) => RawWorkspace;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// Version 0 is unversioned data from before layers existed: a single
+// `segments` count and 'radial' | 'mirror' symmetry
+function upgradeLegacySpec(spec: unknown): unknown {
+  if (!isRecord(spec) || Array.isArray(spec.layers)) return spec;
+  const segments = typeof spec.segments === 'number' ? spec.segments : 12;
+  return {
+    symmetry: spec.symmetry === 'mirror' ? 'dihedral' : 'cyclic',
+    color: spec.color,
+    showWatermark: spec.showWatermark,
+    layers: [
+      { id: 'layer-outer', motif: 'wedge', innerRadius: 0, outerRadius: 140, segments, rotation: 0, opacity: 0.8 },
+      { id: 'layer-inner', motif: 'wedge', innerRadius: 0, outerRadius: 84, segments, rotation: 0, opacity: 0.25 }
+    ],
+    motif: { segments, strokes: [] }
+  };
+}
+
+// Version 5 specs had one `color` for every layer and the motif; it becomes a
+// one-colour palette that every fill points at
+function upgradeSpecColor(spec: unknown): unknown {
+  if (!isRecord(spec) || Array.isArray(spec.palette) || !Array.isArray(spec.layers)) return spec;
+  const { color, ...rest } = spec;
+  return {
+    ...rest,
+    palette: [color],
+    layers: spec.layers.map((l) => (isRecord(l) ? { fill: { gradient: 'solid', from: 0, to: 0 }, ...l } : l)),
+    motif: isRecord(spec.motif) ? { color: 0, ...spec.motif } : spec.motif
+  };
+}
+
+// Version 1 cart lines were keyed by product id with no license or product
+// kind; the products that existed then were two prints and one SVG file
+function upgradeLegacyCartLine(line: unknown): unknown {
+  if (!isRecord(line) || typeof line.id !== 'string' || 'productId' in line) return line;
+  const licenseId = 'standard-commercial';
+  return {
+    ...line,
+    id: `${line.id}:${licenseId}`,
+    productId: line.id,
+    licenseId,
+    kind: line.id.startsWith('print-') ? 'physical' : 'digital'
+  };
+}
+
+/** MIGRATIONS[n] upgrades data written at schema version n to version n + 1 */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (ws) => ({
+    ...ws,
+    spec: upgradeLegacySpec(ws.spec),
+    snapshots: Array.isArray(ws.snapshots)
+      ? ws.snapshots.map((s) => (isRecord(s) ? { ...s, spec: upgradeLegacySpec(s.spec) } : s))
+      : ws.snapshots
+  }),
+  1: (ws) => ({
+    ...ws,
+    cart: Array.isArray(ws.cart) ? ws.cart.map(upgradeLegacyCartLine) : ws.cart
+  }),
+  // Version 2 orders had no buyer or design
+  2: (ws) => ({
+    ...ws,
+    orders: Array.isArray(ws.orders)
+      ? ws.orders.map((o) => (isRecord(o) ? { buyer: { name: '', email: '' }, design: null, ...o } : o))
+      : ws.orders
+  }),
+  // Version 3 assets had no publishing workflow; they start as drafts
+  3: (ws) => ({
+    ...ws,
+    assets: Array.isArray(ws.assets)
+      ? ws.assets.map((a) => (isRecord(a) && typeof a.name === 'string' ? { ...workflowDefaults(a.name), ...a } : a))
+      : ws.assets
+  }),
+  // Version 4 SEO was one set of site-wide fields
+  4: (ws) => ({
+    ...ws,
+    seo: isRecord(ws.seo) ? { siteUrl: '', twitterHandle: '', pages: {}, ...ws.seo } : ws.seo
+  }),
+  5: (ws) => {
+    const inRecords = (list: unknown, key: string) =>
+      Array.isArray(list) ? list.map((item) => (isRecord(item) && key in item ? { ...item, [key]: upgradeSpecColor(item[key]) } : item)) : list;
+    return {
+      ...ws,
+      spec: upgradeSpecColor(ws.spec),
+      snapshots: inRecords(ws.snapshots, 'spec'),
+      assets: inRecords(ws.assets, 'design'),
+      orders: inRecords(ws.orders, 'design')
+    };
+  }
+};
+
+/**
+ * Run every migration between the stored version and SCHEMA_VERSION
+ * @param raw - Slices as stored
+ * @param fromVersion - Schema version the slices were written with
+ * @returns Slices in the current shape (still unvalidated)
+ */
+export function migrateWorkspace(raw: RawWorkspace, fromVersion: number): RawWorkspace {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Saved data is from a newer version of the app (schema ${fromVersion}, this app reads up to ${SCHEMA_VERSION})`);
+  }
+  let ws = raw;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from schema version ${v}`);
+    ws = migrate(ws);
+  }
+  return ws;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+// Keep the well-typed fields of a page's SEO overrides
+function coercePageMeta(value: unknown): Partial<PageMeta> | null {
+  if (!isRecord(value)) return null;
+  const meta: Partial<PageMeta> = {};
+  for (const key of ['title', 'description', 'keywords'] as const) {
+    if (isString(value[key])) meta[key] = value[key];
+  }
+  if (typeof value.noindex === 'boolean') meta.noindex = value.noindex;
+  return meta;
+}
+
+/**
+ * Validate migrated slices. A slice that fails validation is dropped so the
+ * app falls back to its default instead of loading corrupt data.
+ * @param raw - Migrated slices
+ * @returns The valid slices
+ */
+export function validateWorkspace(raw: RawWorkspace): Partial<Workspace> {
+  const ws: Partial<Workspace> = {};
+  const spec = coerceSpec(raw.spec);
+  if (spec) ws.spec = spec;
+  if (Array.isArray(raw.licenses)) {
+    const licenses = raw.licenses.map(coerceLicense).filter((l): l is License => l !== null);
+    if (licenses.length > 0) ws.licenses = licenses;
+  }
+  if (raw.licenseId === null || isString(raw.licenseId)) ws.licenseId = raw.licenseId;
+  if (Array.isArray(raw.cart)) {
+    ws.cart = raw.cart.filter((c): c is CartItem =>
+      isRecord(c) && isString(c.id) && isString(c.productId) && isString(c.name) && typeof c.price === 'number' &&
+      typeof c.quantity === 'number' && isString(c.licenseId) && (c.kind === 'physical' || c.kind === 'digital'));
+  }
+  if (Array.isArray(raw.assets)) {
+    ws.assets = raw.assets.filter((a): a is Asset =>
+      isRecord(a) && isString(a.id) && isString(a.name) && Array.isArray(a.tags) && a.tags.every(isString) &&
+      isString(a.status) && a.status in STATUS_LABELS && isString(a.title) && isString(a.altText) &&
+      (a.price === null || typeof a.price === 'number') && Array.isArray(a.licenseIds) && a.licenseIds.every(isString) &&
+      (a.publishAt === null || typeof a.publishAt === 'number') && Array.isArray(a.audit) &&
+      (a.file === undefined || (isRecord(a.file) && isString(a.file.hash) && isString(a.file.thumbnail) &&
+        typeof a.file.width === 'number' && typeof a.file.height === 'number' && typeof a.file.size === 'number')))
+      .map((a) => {
+        const { design: _design, seo: _seo, ...rest } = a;
+        const design = a.design === undefined ? null : coerceSpec(a.design);
+        const seo = coercePageMeta(a.seo);
+        return { ...rest, ...(design && { design }), ...(seo && { seo }) };
+      });
+  }
+  if (Array.isArray(raw.collections)) {
+    ws.collections = raw.collections.filter((c): c is Collection =>
+      isRecord(c) && isString(c.id) && isString(c.name) && isString(c.description) && typeof c.createdAt === 'number');
+  }
+  if (isRecord(raw.seo) && isString(raw.seo.title) && isString(raw.seo.description) && isString(raw.seo.keywords) &&
+    isString(raw.seo.siteUrl) && isString(raw.seo.twitterHandle) && isRecord(raw.seo.pages)) {
+    const pages: SEOState['pages'] = {};
+    for (const page of PAGES) {
+      const meta = coercePageMeta(raw.seo.pages[page.id]);
+      if (meta) pages[page.id] = meta;
+    }
+    ws.seo = {
+      title: raw.seo.title,
+      description: raw.seo.description,
+      keywords: raw.seo.keywords,
+      siteUrl: raw.seo.siteUrl,
+      twitterHandle: raw.seo.twitterHandle,
+      pages
+    };
+  }
+  if (Array.isArray(raw.snapshots)) {
+    ws.snapshots = raw.snapshots.flatMap((s) => {
+      if (!isRecord(s) || !isString(s.id) || !isString(s.name)) return [];
+      const snapSpec = coerceSpec(s.spec);
+      return snapSpec ? [{ id: s.id, name: s.name, spec: snapSpec, createdAt: typeof s.createdAt === 'number' ? s.createdAt : 0 }] : [];
+    });
+  }
+  if (Array.isArray(raw.orders)) {
+    ws.orders = raw.orders.filter((o): o is Order =>
+      isRecord(o) && isString(o.id) && isString(o.status) && isRecord(o.buyer) && Array.isArray(o.lines) && isRecord(o.totals) &&
+      typeof o.totals.total === 'number' && typeof o.createdAt === 'number')
+      .map((o) => ({ ...o, design: o.design === null ? null : coerceSpec(o.design) }));
+  }
+  if (Array.isArray(raw.certificates)) {
+    ws.certificates = raw.certificates.filter((c): c is LicenseCertificate =>
+      isRecord(c) && isString(c.id) && isString(c.orderId) && isString(c.digest) && isRecord(c.license) && isRecord(c.buyer) &&
+      Array.isArray(c.items));
+  }
+  if (isString(raw.editorName)) ws.editorName = raw.editorName;
+  if (Array.isArray(raw.palettes)) {
+    ws.palettes = raw.palettes.filter((p): p is SavedPalette =>
+      isRecord(p) && isString(p.id) && isString(p.name) && Array.isArray(p.colors) && p.colors.length > 0 &&
+      p.colors.every((c) => isString(c) && /^#[0-9a-f]{6}$/i.test(c)));
+  }
+  const watermark = coerceWatermark(raw.watermark);
+  if (watermark) ws.watermark = watermark;
+  const animation = coerceAnimation(raw.animation);
+  if (animation) ws.animation = animation;
+  return ws;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let blocked = false;
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const name of [STORE, BLOB_STORE]) {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+        }
+      };
+      // Another tab still has the old layout open; it closes its connection on
+      // versionchange, but one running an older build may not
+      req.onblocked = () => {
+        blocked = true;
+        reject(new Error('Storage is being upgraded; close other tabs of this app and reload'));
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Content hashes of the uploads referenced by a stored (possibly unvalidated) asset list
+function fileHashes(assets: unknown): Set<string> {
+  const hashes = new Set<string>();
+  if (Array.isArray(assets)) {
+    assets.forEach((a) => {
+      if (isRecord(a) && isRecord(a.file) && typeof a.file.hash === 'string') hashes.add(a.file.hash);
+    });
+  }
+  return hashes;
+}
+
+/**
+ * Write several slices and the schema version in one transaction. Saving
+ * the asset list also deletes the stored bytes of uploads it no longer has.
+ * @param slices - Slices to write
+ */
+export async function saveSlices(slices: Partial<Workspace>): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE, BLOB_STORE], 'readwrite');
+  const store = tx.objectStore(STORE);
+  if (slices.assets) {
+    const kept = fileHashes(slices.assets);
+    // Queued before the put below, so this reads the previous list
+    const previous = store.get('assets');
+    previous.onsuccess = () => {
+      fileHashes(previous.result).forEach((hash) => {
+        if (!kept.has(hash)) tx.objectStore(BLOB_STORE).delete(hash);
+      });
+    };
+  }
+  for (const name of SLICES) {
+    if (name in slices) store.put(slices[name], name);
+  }
+  store.put({ schemaVersion: SCHEMA_VERSION, savedAt: Date.now() }, META_KEY);
+  await done(tx);
+}
+
+/**
+ * Read, migrate and validate the stored workspace. Data that needed a
+ * migration is written back in the current shape.
+ * @returns The stored slices, or null when nothing has been saved yet
+ */
+export async function loadWorkspace(): Promise<Partial<Workspace> | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  // Issue every read up front so the transaction stays active
+  const [meta, ...values] = await Promise.all([META_KEY, ...SLICES].map((key) => request(store.get(key))));
+  const raw: RawWorkspace = {};
+  SLICES.forEach((name, i) => {
+    if (values[i] !== undefined) raw[name] = values[i];
+  });
+  if (meta === undefined && Object.keys(raw).length === 0) return null;
+  const fromVersion = isRecord(meta) && typeof meta.schemaVersion === 'number' ? meta.schemaVersion : 0;
+  const ws = validateWorkspace(migrateWorkspace(raw, fromVersion));
+  if (fromVersion < SCHEMA_VERSION) await saveSlices(ws);
+  return ws;
+}
+
+/**
+ * Store file bytes
+ * @param key - Content hash of the bytes
+ * @param blob - The file
+ */
+export async function putBlob(key: string, blob: Blob): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(BLOB_STORE, 'readwrite');
+  tx.objectStore(BLOB_STORE).put(blob, key);
+  await done(tx);
+}
+
+/**
+ * Read stored file bytes
+ * @param key - Content hash of the bytes
+ * @returns The file, or null when it is not stored
+ */
+export async function getBlob(key: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const value = await request(db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).get(key));
+  return value instanceof Blob ? value : null;
+}
+
+/** Uploaded files carried in a bundle: data URLs keyed by content hash */
+export type BundleFiles = Record<string, string>;
+
+/**
+ * Read the stored bytes of every upload in the workspace, for a bundle.
+ * Uploads whose bytes are missing are left out.
+ * @param ws - The workspace
+ * @returns The files, keyed by content hash
+ */
+export async function collectBundleFiles(ws: Pick<Workspace, 'assets'>): Promise<BundleFiles> {
+  const files: BundleFiles = {};
+  for (const hash of fileHashes(ws.assets)) {
+    const blob = await getBlob(hash);
+    if (blob) files[hash] = bytesDataUrl(new Uint8Array(await blob.arrayBuffer()), blob.type || 'application/octet-stream');
+  }
+  return files;
+}
+
+/**
+ * Store the uploaded files of an imported bundle
+ * @param files - Files from readWorkspaceBundle
+ * @returns How many files were stored
+ */
+export async function restoreBundleFiles(files: BundleFiles): Promise<number> {
+  let stored = 0;
+  for (const [hash, url] of Object.entries(files)) {
+    const file = dataUrlBytes(url);
+    if (!file) continue;
+    await putBlob(hash, new Blob([file.bytes], { type: file.mimeType }));
+    stored++;
+  }
+  return stored;
+}
+
+/**
+ * Serialise the whole workspace as a portable JSON bundle
+ * @param ws - The workspace
+ * @param files - Uploaded files to carry along, from collectBundleFiles
+ * @returns Bundle JSON text
+ */
+export function createWorkspaceBundle(ws: Workspace, files: BundleFiles = {}): string {
+  return JSON.stringify({ format: BUNDLE_FORMAT, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data: ws, files }, null, 2);
+}
+
+/**
+ * Parse a workspace bundle and the uploaded files it carries
+ * @param text - Bundle JSON text
+ * @returns The valid slices and the files (empty for bundles exported without them)
+ * @throws Error when the text is not a workspace bundle
+ */
+export function readWorkspaceBundle(text: string): { workspace: Partial<Workspace>; files: BundleFiles } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(parsed) || parsed.format !== BUNDLE_FORMAT || !isRecord(parsed.data)) {
+    throw new Error('The file is not a Mandala Portfolio workspace bundle');
+  }
+  const fromVersion = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0;
+  const files: BundleFiles = {};
+  if (isRecord(parsed.files)) {
+    for (const [hash, url] of Object.entries(parsed.files)) {
+      if (/^[0-9a-f]{64}$/.test(hash) && typeof url === 'string' && url.startsWith('data:')) files[hash] = url;
+    }
+  }
+  return { workspace: validateWorkspace(migrateWorkspace(parsed.data as RawWorkspace, fromVersion)), files };
+}
+
+/**
+ * Parse a workspace bundle, migrating it from older schema versions
+ * @param text - Bundle JSON text
+ * @returns The valid slices from the bundle
+ * @throws Error when the text is not a workspace bundle
+ */
+export function parseWorkspaceBundle(text: string): Partial<Workspace> {
+  return readWorkspaceBundle(text).workspace;
+}
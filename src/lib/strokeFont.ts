@@ -0,0 +1,108 @@
+// Single-stroke vector font on a 4 × 6 grid (y down, baseline at 6). Each
+// glyph is a list of polylines separated by '|'. Text drawn with it needs no
+// installed font, so it survives outlining, plotting and cutting.
+const GLYPHS: Record<string, string> = {
+  A: '0,6 2,0 4,6|1,3.5 3,3.5',
+  B: '0,6 0,0 3,0 4,1 4,2 3,3 0,3|3,3 4,4 4,5 3,6 0,6',
+  C: '4,1 3,0 1,0 0,1 0,5 1,6 3,6 4,5',
+  D: '0,0 0,6 3,6 4,5 4,1 3,0 0,0',
+  E: '4,0 0,0 0,6 4,6|0,3 3,3',
+  F: '4,0 0,0 0,6|0,3 3,3',
+  G: '4,1 3,0 1,0 0,1 0,5 1,6 3,6 4,5 4,3 2,3',
+  H: '0,0 0,6|4,0 4,6|0,3 4,3',
+  I: '1,0 3,0|2,0 2,6|1,6 3,6',
+  J: '4,0 4,5 3,6 1,6 0,5',
+  K: '0,0 0,6|4,0 0,3.5|1.5,2.5 4,6',
+  L: '0,0 0,6 4,6',
+  M: '0,6 0,0 2,3 4,0 4,6',
+  N: '0,6 0,0 4,6 4,0',
+  O: '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0',
+  P: '0,6 0,0 3,0 4,1 4,2 3,3 0,3',
+  Q: '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0|2.5,4.5 4,6',
+  R: '0,6 0,0 3,0 4,1 4,2 3,3 0,3|2,3 4,6',
+  S: '4,1 3,0 1,0 0,1 0,2 1,3 3,3 4,4 4,5 3,6 1,6 0,5',
+  T: '0,0 4,0|2,0 2,6',
+  U: '0,0 0,5 1,6 3,6 4,5 4,0',
+  V: '0,0 2,6 4,0',
+  W: '0,0 1,6 2,3 3,6 4,0',
+  X: '0,0 4,6|4,0 0,6',
+  Y: '0,0 2,3 4,0|2,3 2,6',
+  Z: '0,0 4,0 0,6 4,6',
+  0: '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0|0,5 4,1',
+  1: '1,1 2,0 2,6|1,6 3,6',
+  2: '0,1 1,0 3,0 4,1 4,2 0,6 4,6',
+  3: '0,1 1,0 3,0 4,1 4,2 3,3 4,4 4,5 3,6 1,6 0,5|1,3 3,3',
+  4: '3,6 3,0 0,4 4,4',
+  5: '4,0 0,0 0,3 3,3 4,4 4,5 3,6 0,6',
+  6: '4,1 3,0 1,0 0,1 0,5 1,6 3,6 4,5 4,4 3,3 0,3',
+  7: '0,0 4,0 1,6',
+  8: '1,0 3,0 4,1 4,2 3,3 1,3 0,2 0,1 1,0|1,3 0,4 0,5 1,6 3,6 4,5 4,4 3,3',
+  9: '4,3 1,3 0,2 0,1 1,0 3,0 4,1 4,5 3,6 1,6',
+  '-': '1,3 3,3',
+  '.': '2,5.6 2,6',
+  ':': '2,1.5 2,2|2,4.5 2,5',
+  '/': '0,6 4,0',
+  '_': '0,6 4,6',
+  ' ': ''
+};
+
+const GLYPH_HEIGHT = 6;
+const ADVANCE = 5;
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+/**
+ * Width of text drawn with the stroke font
+ * @param text - The text
+ * @param size - Cap height in user units
+ * @returns Advance width in user units
+ */
+export function strokeTextWidth(text: string, size: number): number {
+  return Math.max(0, text.length * ADVANCE - 1) * (size / GLYPH_HEIGHT);
+}
+
+/**
+ * Convert text to polylines in the stroke font. Characters without a glyph
+ * are skipped but keep their advance.
+ * @param text - The text (drawn upper-case)
+ * @param x - Anchor x
+ * @param y - Baseline y
+ * @param size - Cap height in user units
+ * @param anchor - Horizontal alignment relative to x
+ * @returns One point list per stroke
+ */
+export function strokeTextPolylines(text: string, x: number, y: number, size: number, anchor: TextAnchor = 'start'): { x: number; y: number }[][] {
+  const unit = size / GLYPH_HEIGHT;
+  const width = strokeTextWidth(text, size);
+  const left = anchor === 'middle' ? x - width / 2 : anchor === 'end' ? x - width : x;
+  const top = y - size;
+  const lines: { x: number; y: number }[][] = [];
+  [...text.toUpperCase()].forEach((ch, i) => {
+    const glyph = GLYPHS[ch];
+    if (!glyph) return;
+    for (const stroke of glyph.split('|')) {
+      const pts = stroke.split(' ').map((pair) => {
+        const [gx, gy] = pair.split(',').map(Number);
+        return { x: left + (i * ADVANCE + gx) * unit, y: top + gy * unit };
+      });
+      if (pts.length > 1) lines.push(pts);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Convert text to SVG path data in the stroke font
+ * @param text - The text (drawn upper-case)
+ * @param x - Anchor x
+ * @param y - Baseline y
+ * @param size - Cap height in user units
+ * @param anchor - Horizontal alignment relative to x
+ * @returns Path data to be stroked
+ */
+export function strokeTextPath(text: string, x: number, y: number, size: number, anchor: TextAnchor = 'start'): string {
+  const r = (n: number) => Math.round(n * 100) / 100;
+  return strokeTextPolylines(text, x, y, size, anchor)
+    .map((pts) => pts.map((p, i) => `${i === 0 ? 'M' : 'L'}${r(p.x)},${r(p.y)}`).join(' '))
+    .join(' ');
+}
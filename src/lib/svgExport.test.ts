@@ -0,0 +1,13 @@
+import { describe, expect, test } from 'vitest';
+import { roundNumbers } from './svgExport';
+
+describe('roundNumbers', () => {
+  test('rounds every number in path data and transforms', () => {
+    expect(roundNumbers('M10.126,-3.004 L.555 7', 2)).toBe('M10.13,-3 L0.56 7');
+    expect(roundNumbers('rotate(22.5049 250 250)', 1)).toBe('rotate(22.5 250 250)');
+  });
+
+  test('keeps exponents with their number', () => {
+    expect(roundNumbers('M1e-7,250 L2.5E+2,1.25e1', 2)).toBe('M0,250 L250,12.5');
+  });
+});
@@ -0,0 +1,164 @@
+import { CANVAS_SIZE, CENTER, gradientMarkup, mandalaGradients, mandalaShapes, SPEC_METADATA_ID, type MandalaShape, type MandalaSpec } from './mandala';
+import { licenseTerms } from './licenses';
+import { embedSVGFingerprint, placementTransform, watermarkLayer, watermarkMarkup, type WatermarkSettings } from './watermark';
+import type { License } from '../types';
+
+export type SVGMetadata = {
+  title: string;
+  description: string;
+  artist: string;
+  license: License | null;
+  createdAt: Date;
+};
+
+export type SVGExportOptions = {
+  /** Decimal places kept in coordinates */
+  precision: number;
+  /** 'stroke' emits unfilled single-colour outlines for pen plotters */
+  variant: 'filled' | 'stroke';
+  /** Null only for licensed downloads */
+  watermark: WatermarkSettings | null;
+  /** Certificate or order id hidden in the path coordinates; see embedSVGFingerprint */
+  fingerprint: string | null;
+  /** Embed the spec so the file can be imported back into the builder */
+  embedSpec: boolean;
+  metadata: SVGMetadata;
+};
+
+export const PLOTTER_STROKE = '#000';
+export const PLOTTER_STROKE_WIDTH = 0.75;
+
+/**
+ * Escape text for XML. Quotes are only escaped for attribute values, which
+ * keeps embedded JSON compact in element content.
+ * @param s - Raw text
+ * @param attribute - The text goes inside a double-quoted attribute
+ * @returns Escaped text
+ */
+export function escapeXml(s: string, attribute = false): string {
+  return s.replace(attribute ? /[<>&"]/g : /[<>&]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c] as string);
+}
+
+// A number in path data or a transform, including an exponent such as 1e-7
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/**
+ * Round every number in an attribute value (path data, transforms)
+ * @param value - The attribute value
+ * @param precision - Decimal places to keep
+ * @returns The value with rounded numbers
+ */
+export function roundNumbers(value: string, precision: number): string {
+  const f = 10 ** precision;
+  return value.replace(NUMBER, (n) => String(Math.round(Number(n) * f) / f));
+}
+
+type Styled = { style: string; markup: string };
+
+function styledShape(s: MandalaShape, options: SVGExportOptions): Styled {
+  const r = (n: number) => roundNumbers(String(n), options.precision);
+  const stroke = options.variant === 'stroke';
+  const opacity = !stroke && s.opacity !== 1 ? ` opacity="${r(s.opacity)}"` : '';
+  if (s.kind === 'circle') {
+    return {
+      style: stroke ? `fill="none" stroke="${PLOTTER_STROKE}" stroke-width="${PLOTTER_STROKE_WIDTH}"` : `fill="${s.fill}"`,
+      markup: `<circle cx="${r(s.cx)}" cy="${r(s.cy)}" r="${r(s.r)}"${opacity}/>`
+    };
+  }
+  const transform = s.transform ? ` transform="${roundNumbers(s.transform, options.precision)}"` : '';
+  let style: string;
+  if (stroke) {
+    style = `fill="none" stroke="${PLOTTER_STROKE}" stroke-width="${PLOTTER_STROKE_WIDTH}"`;
+  } else {
+    style = `fill="${s.fill}"`;
+    if (s.stroke && s.stroke !== 'none') {
+      style += ` stroke="${s.stroke}" stroke-width="${r(s.strokeWidth ?? 1)}" stroke-linecap="round" stroke-linejoin="round"`;
+    }
+  }
+  return { style, markup: `<path d="${roundNumbers(s.d, options.precision)}"${opacity}${transform}/>` };
+}
+
+// Consecutive shapes sharing fill and stroke attributes are wrapped in one
+// <g> so each element only carries its geometry. Paint order is unchanged.
+function groupRuns(items: Styled[]): string {
+  const out: string[] = [];
+  let i = 0;
+  while (i < items.length) {
+    const style = items[i].style;
+    let j = i;
+    const body: string[] = [];
+    while (j < items.length && items[j].style === style) body.push(items[j++].markup);
+    out.push(`<g ${style}>${body.join('')}</g>`);
+    i = j;
+  }
+  return out.join('');
+}
+
+function exportWatermark(options: SVGExportOptions): string {
+  if (!options.watermark) return '';
+  if (options.variant !== 'stroke') return watermarkMarkup(options.watermark, CANVAS_SIZE, CANVAS_SIZE);
+  // Plotters draw text marks in the pen colour; logos cannot be plotted
+  const layer = watermarkLayer(options.watermark, CANVAS_SIZE, CANVAS_SIZE);
+  if (layer.mark.kind !== 'text') return '';
+  const d = roundNumbers(layer.mark.d, options.precision);
+  const copies = layer.placements.map((p) => `<path d="${d}" transform="${placementTransform(p)}"/>`).join('');
+  return `<g fill="none" stroke="${PLOTTER_STROKE}" stroke-width="${PLOTTER_STROKE_WIDTH}">${copies}</g>`;
+}
+
+function rdfMetadata(meta: SVGMetadata): string {
+  const license = meta.license;
+  const rights = license ? `${license.name}: ${licenseTerms(license)}` : 'All rights reserved';
+  return [
+    '<metadata id="rights">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:cc="http://creativecommons.org/ns#">',
+    '<cc:Work rdf:about="">',
+    '<dc:format>image/svg+xml</dc:format>',
+    '<dc:type rdf:resource="http://purl.org/dc/dcmitype/StillImage"/>',
+    `<dc:title>${escapeXml(meta.title)}</dc:title>`,
+    `<dc:description>${escapeXml(meta.description)}</dc:description>`,
+    `<dc:creator><cc:Agent><dc:title>${escapeXml(meta.artist)}</dc:title></cc:Agent></dc:creator>`,
+    `<dc:date>${meta.createdAt.toISOString()}</dc:date>`,
+    `<dc:rights>${escapeXml(rights)}</dc:rights>`,
+    license ? `<dc:identifier>${escapeXml(license.id)}</dc:identifier>` : '',
+    license ? `<cc:license rdf:resource="urn:mandala-portfolio:license:${encodeURIComponent(license.id)}"/>` : '',
+    '</cc:Work>',
+    '</rdf:RDF>',
+    '</metadata>'
+  ].join('');
+}
+
+/**
+ * Build a standalone SVG document for a mandala: one root element, rounded
+ * coordinates, shared styles grouped, and title/desc/Dublin Core metadata
+ * @param spec - The mandala spec
+ * @param options - Export options
+ * @returns SVG file contents
+ * @throws When the design has too few coordinates to carry the fingerprint
+ */
+export function buildSVGDocument(spec: MandalaSpec, options: SVGExportOptions): string {
+  const meta = options.metadata;
+  const shapes = mandalaShapes(spec).map((s) => styledShape(s, options));
+  const gradients = options.variant === 'stroke' ? [] : mandalaGradients(spec);
+  const centre = options.variant === 'stroke'
+    ? `<circle cx="${CENTER}" cy="${CENTER}" r="6" fill="none" stroke="${PLOTTER_STROKE}" stroke-width="${PLOTTER_STROKE_WIDTH}"/>`
+    : `<circle cx="${CENTER}" cy="${CENTER}" r="6" fill="#fff" opacity="0.3"/>`;
+  let artwork = groupRuns(shapes);
+  if (options.fingerprint) {
+    const marked = embedSVGFingerprint(artwork, options.fingerprint);
+    if (marked === null) throw new Error('The design is too simple to carry a fingerprint');
+    artwork = marked;
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}" role="img" aria-labelledby="title desc">`,
+    `<title id="title">${escapeXml(meta.title)}</title>`,
+    `<desc id="desc">${escapeXml(meta.description)}</desc>`,
+    rdfMetadata(meta),
+    options.embedSpec ? `<metadata id="${SPEC_METADATA_ID}">${escapeXml(JSON.stringify(spec))}</metadata>` : '',
+    gradients.length > 0 ? `<defs>${gradients.map(gradientMarkup).join('')}</defs>` : '',
+    artwork,
+    centre,
+    exportWatermark(options),
+    '</svg>\n'
+  ].join('');
+}
@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest';
+import { capitalize, clamp, formatCurrency, formatNumber, truncate } from './utils';
+
+describe('clamp', () => {
+  test('keeps numbers inside the inclusive range', () => {
+    expect(clamp(5, 0, 10)).toBe(5);
+    expect(clamp(-1, 0, 10)).toBe(0);
+    expect(clamp(11, 0, 10)).toBe(10);
+    expect(clamp(10, 0, 10)).toBe(10);
+  });
+});
+
+describe('formatting', () => {
+  test('formats currency for the locale', () => {
+    expect(formatCurrency(1234.5)).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'GBP', 'en-GB')).toBe('£1,234.50');
+    expect(formatCurrency(1234.5, 'EUR', 'de-DE')).toBe('1.234,50 €');
+  });
+
+  test('groups thousands', () => {
+    expect(formatNumber(10080)).toBe('10,080');
+  });
+
+  test('shortens and capitalises text', () => {
+    expect(truncate('Mandala', 4)).toBe('Mand...');
+    expect(truncate('Lotus', 5)).toBe('Lotus');
+    expect(capitalize('lOTUS')).toBe('Lotus');
+  });
+});
@@ -83,4 +83,31 @@ export function truncate(
 export function capitalize(str: string): string {
   if (!str) return str;
   return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
-}
\ No newline at end of file
+}
+
+/**
+ * Constrain a number to an inclusive range
+ * @param n - The number to constrain
+ * @param min - The lower bound
+ * @param max - The upper bound
+ * @returns The clamped number
+ */
+export function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+/**
+ * Save a blob through the browser's download flow
+ * @param blob - The file contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
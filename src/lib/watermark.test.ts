@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest';
+import { coerceWatermark, DEFAULT_WATERMARK, embedSVGFingerprint, MIN_WATERMARK_OPACITY, readSVGFingerprint, watermarkLayer, watermarkMarkup } from './watermark';
+
+// Enough coordinates to carry a short id
+const pathData = (n: number, format: (i: number) => string) => Array.from({ length: n }, (_, i) => `L${format(i)},${format(i + 1)}`).join(' ');
+const svg = (d: string) => `<svg xmlns="http://www.w3.org/2000/svg"><path d="M0,0 ${d}"/></svg>`;
+
+describe('SVG fingerprint', () => {
+  test('reads back the id it hides', () => {
+    const marked = embedSVGFingerprint(svg(pathData(200, (i) => `${i}.5`)), 'ORD-42');
+    expect(marked).not.toBeNull();
+    expect(readSVGFingerprint(marked as string)).toBe('ORD-42');
+  });
+
+  test('marks the mantissa of a number with an exponent', () => {
+    const marked = embedSVGFingerprint(svg(pathData(200, (i) => `${i + 1}e-3`)), 'ORD-42') as string;
+    expect(marked).toMatch(/L1\.\de-3,2\.\de-3/);
+    expect(readSVGFingerprint(marked)).toBe('ORD-42');
+  });
+
+  test('leaves arc flags as 0 or 1 so the marked path still parses', () => {
+    const arcs = Array.from({ length: 80 }, (_, i) => `A${i}.5,${i}.5 30 1,0 ${i}.25,${i + 1}.25`).join(' ');
+    const marked = embedSVGFingerprint(svg(arcs), 'ORD-42') as string;
+    const d = (marked.match(/ d="([^"]*)"/) as RegExpMatchArray)[1];
+    const segments = d.split('A').slice(1).map((segment) => segment.trim().split(/[\s,]+/));
+    expect(segments).toHaveLength(80);
+    for (const args of segments) {
+      expect(args).toHaveLength(7);
+      expect(args.slice(3, 5)).toEqual(['1', '0']);
+      expect(args.every((arg) => Number.isFinite(Number(arg)))).toBe(true);
+    }
+    expect(d).not.toBe(`M0,0 ${arcs}`);
+    expect(readSVGFingerprint(marked)).toBe('ORD-42');
+  });
+
+  test('refuses a drawing too small to carry the id', () => {
+    expect(embedSVGFingerprint(svg('L1,1'), 'ORD-42')).toBeNull();
+  });
+});
+
+describe('watermark layer', () => {
+  test('draws the default text when the text is cleared', () => {
+    const layer = watermarkLayer({ ...DEFAULT_WATERMARK, text: '  ' }, 400, 400);
+    expect(layer).toEqual(watermarkLayer(DEFAULT_WATERMARK, 400, 400));
+    expect(watermarkMarkup({ ...DEFAULT_WATERMARK, text: '' }, 400, 400)).toContain('<g class="watermark"');
+  });
+
+  test('cannot be faded out by an imported opacity', () => {
+    expect(coerceWatermark({ ...DEFAULT_WATERMARK, opacity: 0 })?.opacity).toBe(MIN_WATERMARK_OPACITY);
+    expect(coerceWatermark({ ...DEFAULT_WATERMARK, opacity: -3 })?.opacity).toBe(MIN_WATERMARK_OPACITY);
+    expect(watermarkLayer({ ...DEFAULT_WATERMARK, opacity: 0 }, 400, 400).opacity).toBe(MIN_WATERMARK_OPACITY);
+  });
+});
@@ -0,0 +1,343 @@
+import { crc32 } from './crc32';
+import { strokeTextPath, strokeTextWidth } from './strokeFont';
+import { clamp } from './utils';
+
+export type WatermarkPattern = 'single' | 'tiled' | 'diagonal';
+export type WatermarkPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type WatermarkSettings = {
+  /** Drawn in the stroke font, so it needs no installed font and cannot be selected as text */
+  text: string;
+  /** Logo as an image data URL; drawn instead of the text when set */
+  logo: string | null;
+  pattern: WatermarkPattern;
+  /** Where a 'single' mark sits; the repeating patterns cover the whole image */
+  position: WatermarkPosition;
+  opacity: number;
+  /** Mark height as a fraction of the image's shorter side */
+  size: number;
+  color: string;
+};
+
+/** One copy of the mark, centred on (x, y) and rotated by `rotate` degrees */
+export type WatermarkPlacement = { x: number; y: number; rotate: number };
+
+export type WatermarkLayer = {
+  color: string;
+  opacity: number;
+  /** The mark, drawn centred on the origin */
+  mark:
+    | { kind: 'text'; d: string; strokeWidth: number }
+    | { kind: 'logo'; href: string; width: number; height: number };
+  placements: WatermarkPlacement[];
+};
+
+export const WATERMARK_PATTERNS: { id: WatermarkPattern; label: string }[] = [
+  { id: 'diagonal', label: 'Diagonal tiles' },
+  { id: 'tiled', label: 'Tiles' },
+  { id: 'single', label: 'Single mark' }
+];
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'center', label: 'Centre' },
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-right', label: 'Bottom right' }
+];
+
+export const MIN_WATERMARK_SIZE = 0.03;
+export const MAX_WATERMARK_SIZE = 0.3;
+export const MAX_WATERMARK_TEXT = 40;
+// Exports are always watermarked, so the mark can be faded but not hidden
+export const MIN_WATERMARK_OPACITY = 0.05;
+// Logos are stored in the workspace, so keep them small
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  text: 'MANDALA',
+  logo: null,
+  pattern: 'diagonal',
+  position: 'center',
+  opacity: 0.2,
+  size: 0.06,
+  color: '#ffffff'
+};
+
+const DIAGONAL_ANGLE = -30;
+// Plenty to cover an image; smaller marks are spaced further apart than this allows
+const MAX_PLACEMENTS = 400;
+
+/**
+ * Validate stored watermark settings
+ * @param value - Parsed JSON
+ * @returns Settings with every field in range, or null when the value is not settings at all
+ */
+export function coerceWatermark(value: unknown): WatermarkSettings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  const num = (n: unknown, fallback: number) => (typeof n === 'number' && Number.isFinite(n) ? n : fallback);
+  return {
+    text: typeof v.text === 'string' ? v.text.slice(0, MAX_WATERMARK_TEXT) : DEFAULT_WATERMARK.text,
+    logo: typeof v.logo === 'string' && v.logo.startsWith('data:image/') ? v.logo : null,
+    pattern: WATERMARK_PATTERNS.some((p) => p.id === v.pattern) ? (v.pattern as WatermarkPattern) : DEFAULT_WATERMARK.pattern,
+    position: WATERMARK_POSITIONS.some((p) => p.id === v.position) ? (v.position as WatermarkPosition) : DEFAULT_WATERMARK.position,
+    opacity: clamp(num(v.opacity, DEFAULT_WATERMARK.opacity), MIN_WATERMARK_OPACITY, 1),
+    size: clamp(num(v.size, DEFAULT_WATERMARK.size), MIN_WATERMARK_SIZE, MAX_WATERMARK_SIZE),
+    color: typeof v.color === 'string' && /^#[0-9a-f]{6}$/i.test(v.color) ? v.color : DEFAULT_WATERMARK.color
+  };
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function markSize(settings: WatermarkSettings, text: string, height: number): { width: number; height: number } {
+  // Logos get a 3:1 box and keep their own aspect ratio inside it
+  return settings.logo ? { width: height * 3, height } : { width: strokeTextWidth(text, height), height };
+}
+
+/**
+ * Lay the watermark out over an image
+ * @param settings - Watermark settings
+ * @param width - Image width in user units
+ * @param height - Image height in user units
+ * @returns The mark and where to draw it; empty text draws the default text
+ */
+export function watermarkLayer(settings: WatermarkSettings, width: number, height: number): WatermarkLayer {
+  const text = settings.text.trim() || DEFAULT_WATERMARK.text;
+  const h = Math.max(1, clamp(settings.size, MIN_WATERMARK_SIZE, MAX_WATERMARK_SIZE) * Math.min(width, height));
+  const size = markSize(settings, text, h);
+  const mark: WatermarkLayer['mark'] = settings.logo
+    ? { kind: 'logo', href: settings.logo, width: round(size.width), height: round(size.height) }
+    : { kind: 'text', d: strokeTextPath(text, 0, h / 2, h, 'middle'), strokeWidth: round(h / 8) };
+
+  const placements: WatermarkPlacement[] = [];
+  if (settings.pattern === 'single') {
+    const mx = h + size.width / 2;
+    const my = h + size.height / 2;
+    const x = settings.position.endsWith('left') ? mx : settings.position.endsWith('right') ? width - mx : width / 2;
+    const y = settings.position.startsWith('top') ? my : settings.position.startsWith('bottom') ? height - my : height / 2;
+    placements.push({ x: round(x), y: round(y), rotate: 0 });
+  } else {
+    // Rows of marks in a frame rotated about the centre; odd rows are offset
+    // by half a step so no straight gap runs through the image
+    const angle = settings.pattern === 'diagonal' ? DIAGONAL_ANGLE : 0;
+    const rad = (angle * Math.PI) / 180;
+    const stepX = size.width + h * 3;
+    const stepY = size.height + h * 3;
+    const reach = Math.hypot(width, height) / 2 + Math.max(stepX, stepY);
+    const cx = width / 2;
+    const cy = height / 2;
+    const pad = Math.max(size.width, size.height) / 2;
+    for (let row = -Math.ceil(reach / stepY); row * stepY <= reach; row++) {
+      const shift = Math.abs(row) % 2 === 1 ? stepX / 2 : 0;
+      for (let col = -Math.ceil(reach / stepX); col * stepX <= reach; col++) {
+        const u = col * stepX + shift;
+        const v = row * stepY;
+        const x = cx + u * Math.cos(rad) - v * Math.sin(rad);
+        const y = cy + u * Math.sin(rad) + v * Math.cos(rad);
+        if (x < -pad || x > width + pad || y < -pad || y > height + pad) continue;
+        placements.push({ x: round(x), y: round(y), rotate: angle });
+        if (placements.length >= MAX_PLACEMENTS) break;
+      }
+      if (placements.length >= MAX_PLACEMENTS) break;
+    }
+  }
+  return { color: settings.color, opacity: clamp(settings.opacity, MIN_WATERMARK_OPACITY, 1), mark, placements };
+}
+
+/**
+ * Transform that moves a mark drawn at the origin into place
+ * @param p - The placement
+ * @returns SVG transform attribute value
+ */
+export function placementTransform(p: WatermarkPlacement): string {
+  return p.rotate ? `translate(${p.x} ${p.y}) rotate(${p.rotate})` : `translate(${p.x} ${p.y})`;
+}
+
+/**
+ * Serialise the watermark as SVG elements over a width × height image
+ * @param settings - Watermark settings
+ * @param width - Image width in user units
+ * @param height - Image height in user units
+ * @returns SVG markup
+ */
+export function watermarkMarkup(settings: WatermarkSettings, width: number, height: number): string {
+  const layer = watermarkLayer(settings, width, height);
+  const { mark } = layer;
+  const copies = layer.placements.map((p) => {
+    const transform = placementTransform(p);
+    return mark.kind === 'text'
+      ? `<path d="${mark.d}" transform="${transform}"/>`
+      : `<image href="${mark.href}" x="${-mark.width / 2}" y="${-mark.height / 2}" width="${mark.width}" height="${mark.height}" preserveAspectRatio="xMidYMid meet" transform="${transform}"/>`;
+  });
+  const style = mark.kind === 'text'
+    ? ` fill="none" stroke="${layer.color}" stroke-width="${mark.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`
+    : '';
+  return `<g class="watermark" opacity="${layer.opacity}"${style} pointer-events="none">${copies.join('')}</g>`;
+}
+
+// --- Invisible fingerprint --------------------------------------------------
+//
+// Licensed downloads carry the certificate (or order) id they were made for.
+// The id is framed as 'MLF1', a length byte, the UTF-8 id and its CRC-32, and
+// the frame's bits are hidden in the file without visibly changing it: in the
+// last decimal of path coordinates for SVG, and in the low bit of colour
+// channels for PNG.
+
+const MAGIC = [0x4d, 0x4c, 0x46, 0x31];
+const HEADER_BITS = (MAGIC.length + 1) * 8;
+const MAX_FRAME_BITS = HEADER_BITS + (255 + 4) * 8;
+const SEARCH_COPIES = 64;
+
+function toBits(bytes: number[]): number[] {
+  return bytes.flatMap((b) => Array.from({ length: 8 }, (_, i) => (b >> (7 - i)) & 1));
+}
+
+function toBytes(bits: number[]): number[] {
+  const out: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) out.push(bits.slice(i, i + 8).reduce((b, bit) => (b << 1) | bit, 0));
+  return out;
+}
+
+/**
+ * Frame an id for embedding
+ * @param id - Certificate or order id, at most 255 bytes of UTF-8
+ * @returns The frame as bits, most significant first
+ */
+export function fingerprintBits(id: string): number[] {
+  const body = new TextEncoder().encode(id);
+  if (body.length === 0 || body.length > 255) throw new Error('Fingerprint ids must be 1–255 bytes');
+  const crc = crc32(body);
+  return toBits([...MAGIC, body.length, ...body, crc >>> 24, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff]);
+}
+
+// Reads one frame starting at `offset`; null unless magic and checksum match
+function readFrame(bits: number[], offset: number): string | null {
+  const header = toBytes(bits.slice(offset, offset + HEADER_BITS));
+  if (header.length < MAGIC.length + 1 || MAGIC.some((m, i) => header[i] !== m)) return null;
+  const length = header[MAGIC.length];
+  const rest = toBytes(bits.slice(offset + HEADER_BITS, offset + HEADER_BITS + (length + 4) * 8));
+  if (length === 0 || rest.length < length + 4) return null;
+  const body = Uint8Array.from(rest.slice(0, length));
+  const crc = ((rest[length] << 24) | (rest[length + 1] << 16) | (rest[length + 2] << 8) | rest[length + 3]) >>> 0;
+  if (crc32(body) !== crc) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(body);
+  } catch {
+    return null;
+  }
+}
+
+const PATH_DATA = /\sd="([^"]*)"/g;
+// A path command letter, or a number split into mantissa and exponent so 1e-7 stays one number
+const PATH_TOKEN = /([MmLlHhVvCcSsQqTtAaZz])|((-?(?:\d+\.?\d*|\.\d+))([eE][-+]?\d+)?)/g;
+
+// Rewrite the numbers of path data that can carry a digit: every coordinate,
+// radius and angle, but not the large-arc and sweep flags of an arc, which
+// must stay 0 or 1
+function mapPathNumbers(d: string, map: (n: string, mantissa: string, exponent: string) => string): string {
+  let command = '';
+  let arg = 0;
+  return d.replace(PATH_TOKEN, (token: string, letter?: string, n?: string, mantissa?: string, exponent?: string) => {
+    if (letter) {
+      command = letter;
+      arg = 0;
+      return token;
+    }
+    const index = arg++;
+    if ((command === 'A' || command === 'a') && (index % 7 === 3 || index % 7 === 4)) return token;
+    return map(n as string, mantissa as string, exponent ?? '');
+  });
+}
+
+// Appended decimal for each pair of bits; read back by range so a digit
+// nudged by one still decodes
+const PAIR_DIGITS = ['1', '3', '6', '8'];
+const digitPair = (digit: number) => (digit <= 2 ? [0, 0] : digit <= 4 ? [0, 1] : digit <= 7 ? [1, 0] : [1, 1]);
+
+/**
+ * Hide an id in an SVG document by appending one extra decimal, carrying two
+ * bits, to the coordinates of its paths. That moves points by less than the
+ * export precision, so the drawing does not change.
+ * @param svg - The SVG document
+ * @param id - Certificate or order id
+ * @returns The fingerprinted document, or null when it has too few coordinates to carry the id
+ */
+export function embedSVGFingerprint(svg: string, id: string): string | null {
+  const bits = fingerprintBits(id);
+  let i = 0;
+  const out = svg.replace(PATH_DATA, (attr: string, d: string) => {
+    if (i >= bits.length) return attr;
+    const marked = mapPathNumbers(d, (n, mantissa, exponent) => {
+      if (i >= bits.length) return n;
+      const digit = PAIR_DIGITS[bits[i] * 2 + bits[i + 1]];
+      i += 2;
+      return (mantissa.includes('.') ? mantissa + digit : `${mantissa}.${digit}`) + exponent;
+    });
+    return attr.replace(d, marked);
+  });
+  return i === bits.length ? out : null;
+}
+
+/**
+ * Read an id hidden by embedSVGFingerprint
+ * @param svg - The SVG document
+ * @returns The id, or null when the file carries none (or was re-saved with rounded coordinates)
+ */
+export function readSVGFingerprint(svg: string): string | null {
+  const bits: number[] = [];
+  for (const [, d] of svg.matchAll(PATH_DATA)) {
+    mapPathNumbers(d, (n, mantissa) => {
+      bits.push(...digitPair(Number(mantissa[mantissa.length - 1])));
+      return n;
+    });
+  }
+  return readFrame(bits, 0);
+}
+
+// Only fully opaque pixels are used: canvases store colour premultiplied, so
+// the low bits of translucent pixels do not survive a round trip
+function opaqueChannels(data: Uint8ClampedArray): number[] {
+  const channels: number[] = [];
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] === 255) channels.push(p, p + 1, p + 2);
+  }
+  return channels;
+}
+
+/**
+ * Hide an id in the low bit of the colour channels of RGBA pixels, repeated
+ * as often as fits so a damaged copy can be skipped. Survives PNG only;
+ * lossy encoders discard the low bits.
+ * @param data - Pixels from getImageData, changed in place
+ * @param id - Certificate or order id
+ * @returns Whether the image had enough opaque pixels for one copy
+ */
+export function embedPixelFingerprint(data: Uint8ClampedArray, id: string): boolean {
+  const bits = fingerprintBits(id);
+  const channels = opaqueChannels(data);
+  if (channels.length < bits.length) return false;
+  const usable = channels.length - (channels.length % bits.length);
+  for (let i = 0; i < usable; i++) data[channels[i]] = (data[channels[i]] & 0xfe) | bits[i % bits.length];
+  return true;
+}
+
+/**
+ * Read an id hidden by embedPixelFingerprint
+ * @param data - Pixels from getImageData
+ * @returns The id from the first intact copy, or null
+ */
+export function readPixelFingerprint(data: Uint8ClampedArray): string | null {
+  const channels = opaqueChannels(data);
+  const bits = channels.map((c) => data[c] & 1);
+  const first = readFrame(bits, 0);
+  if (first !== null) return first;
+  // Copies are back to back; the frame length is unknown when the first
+  // header is damaged, so try every byte-aligned offset over the first few copies
+  const end = Math.min(bits.length, SEARCH_COPIES * MAX_FRAME_BITS);
+  for (let offset = 8; offset + HEADER_BITS <= end; offset += 8) {
+    const id = readFrame(bits, offset);
+    if (id !== null) return id;
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+export type WebPFrame = {
+  /** A complete still WebP file, as canvas.toBlob('image/webp') produces */
+  bytes: Uint8Array;
+  /** Display time in milliseconds */
+  delay: number;
+};
+
+type Chunk = { fourcc: string; data: Uint8Array };
+
+const ascii = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+
+function readChunks(file: Uint8Array): Chunk[] {
+  if (file.length < 12 || ascii(file, 0) !== 'RIFF' || ascii(file, 8) !== 'WEBP') throw new Error('Not a WebP file');
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  for (let at = 12; at + 8 <= file.length; ) {
+    const size = view.getUint32(at + 4, true);
+    chunks.push({ fourcc: ascii(file, at), data: file.subarray(at + 8, at + 8 + size) });
+    at += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function chunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  for (let i = 0; i < 4; i++) out[i] = fourcc.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+const uint24 = (view: DataView, at: number, value: number) => {
+  view.setUint8(at, value & 255);
+  view.setUint8(at + 1, (value >> 8) & 255);
+  view.setUint8(at + 2, (value >> 16) & 255);
+};
+
+/**
+ * Combine still WebP images into one animated WebP that loops forever. The
+ * stills are used as encoded, so the browser's own encoder does the heavy work.
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @param frames - Full-canvas frames in display order
+ * @returns The animated WebP file bytes
+ */
+export function muxAnimatedWebP(width: number, height: number, frames: WebPFrame[]): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+  let alpha = false;
+  const anmf = frames.map((frame) => {
+    // Keep only the image data: ALPH with VP8, or VP8L on its own
+    const image = readChunks(frame.bytes).filter((c) => c.fourcc === 'ALPH' || c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+    if (!image.some((c) => c.fourcc !== 'ALPH')) throw new Error('A frame has no image data');
+    // VP8L carries alpha in its own header; bit 28 of the first word after the signature
+    alpha ||= image.some((c) => c.fourcc === 'ALPH' || (c.fourcc === 'VP8L' && (c.data[4] & 0x10) !== 0));
+    const header = new Uint8Array(16);
+    const view = new DataView(header.buffer);
+    uint24(view, 6, width - 1);
+    uint24(view, 9, height - 1);
+    uint24(view, 12, Math.max(1, Math.round(frame.delay)));
+    // Do not blend with the previous frame; dispose to background
+    header[15] = 0b11;
+    const parts = [header, ...image.map((c) => chunk(c.fourcc, c.data))];
+    const body = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    parts.reduce((at, p) => (body.set(p, at), at + p.length), 0);
+    return chunk('ANMF', body);
+  });
+
+  const vp8x = new Uint8Array(10);
+  const vx = new DataView(vp8x.buffer);
+  vp8x[0] = 0x02 | (alpha ? 0x10 : 0);
+  uint24(vx, 4, width - 1);
+  uint24(vx, 7, height - 1);
+  // Transparent background, loop forever
+  const anim = new Uint8Array(6);
+
+  const parts = [chunk('VP8X', vp8x), chunk('ANIM', anim), ...anmf];
+  const size = 4 + parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(8 + size);
+  out.set([0x52, 0x49, 0x46, 0x46], 0);
+  new DataView(out.buffer).setUint32(4, size, true);
+  out.set([0x57, 0x45, 0x42, 0x50], 8);
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 12);
+  return out;
+}
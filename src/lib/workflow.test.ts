@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'vitest';
+import { publishDue, publishedProducts, publishProblems, recordChanges, SCHEDULER_ACTOR, transition, workflowDefaults } from './workflow';
+import type { Asset } from '../types';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+function asset(patch: Partial<Asset> = {}): Asset {
+  return { id: 'a1', name: 'lotus.png', tags: [], ...workflowDefaults('Lotus'), ...patch };
+}
+
+const ready = asset({ status: 'review', price: 20, licenseIds: ['standard-commercial'] });
+
+describe('publishing', () => {
+  test('lists what an asset still needs', () => {
+    expect(publishProblems(asset({ title: ' ', url: 'https://img' }))).toEqual(['a title', 'alt text', 'a price', 'at least one license']);
+    expect(publishProblems(ready)).toEqual([]);
+  });
+
+  test('only follows the allowed transitions', () => {
+    const result = transition(asset(), 'published', { actor: 'ana', now: NOW });
+    expect(result.error).toBe('Draft assets cannot move to published');
+    expect(result.asset.status).toBe('draft');
+  });
+
+  test('refuses to publish an incomplete asset', () => {
+    expect(transition({ ...ready, price: null }, 'published', { actor: 'ana', now: NOW }).error).toBe('Add a price before publishing');
+  });
+
+  test('publishes scheduled assets once they are due, as the scheduler', () => {
+    const scheduled = transition(ready, 'scheduled', { actor: 'ana', now: NOW, publishAt: NOW + 1000 });
+    expect(scheduled.error).toBeNull();
+    const library = [scheduled.asset];
+    expect(publishDue(library, NOW + 999)).toBe(library);
+    const [published] = publishDue(library, NOW + 1000);
+    expect(published).toMatchObject({ status: 'published', publishAt: NOW + 1000 });
+    expect(published.audit.at(-1)).toMatchObject({ actor: SCHEDULER_ACTOR, from: 'scheduled', to: 'published' });
+  });
+
+  test('published assets with a price become store products', () => {
+    const published = transition(ready, 'published', { actor: 'ana', now: NOW }).asset;
+    expect(publishedProducts([published, asset({ id: 'a2' })])).toEqual([
+      { id: 'a1', name: 'Lotus', price: 20, kind: 'digital', licenseIds: ['standard-commercial'] }
+    ]);
+  });
+});
+
+describe('audit trail', () => {
+  test('records creation and edits, coalescing quick edits of one field', () => {
+    const [created] = recordChanges([], [asset()], 'ana', NOW);
+    expect(created.audit).toEqual([{ at: NOW, actor: 'ana', action: 'create', from: null, to: 'Lotus' }]);
+    const [typed] = recordChanges([created], [{ ...created, title: 'Lot' }], 'ana', NOW + 1000);
+    const [done] = recordChanges([typed], [{ ...typed, title: 'Lotus at dawn' }], 'ana', NOW + 2000);
+    expect(done.audit).toHaveLength(2);
+    expect(done.audit[1]).toMatchObject({ action: 'edit', field: 'title', from: 'Lotus', to: 'Lotus at dawn', at: NOW + 2000 });
+    const [other] = recordChanges([done], [{ ...done, title: 'Dawn' }], 'ben', NOW + 3000);
+    expect(other.audit).toHaveLength(3);
+  });
+});
@@ -0,0 +1,169 @@
+import type { Asset, AssetStatus, AuditEntry, StoreItem } from '../types';
+
+export const STATUS_LABELS: Record<AssetStatus, string> = {
+  draft: 'Draft',
+  review: 'In review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived'
+};
+
+/** Allowed next states for each state */
+export const TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
+  draft: ['review', 'archived'],
+  review: ['draft', 'scheduled', 'published'],
+  scheduled: ['review', 'published'],
+  published: ['draft', 'archived'],
+  archived: ['draft']
+};
+
+/** Verb for the action that moves an asset into a state */
+export const TRANSITION_LABELS: Record<AssetStatus, string> = {
+  draft: 'Back to draft',
+  review: 'Submit for review',
+  scheduled: 'Schedule',
+  published: 'Publish now',
+  archived: 'Archive'
+};
+
+// Actor name used for changes made by the publish scheduler
+export const SCHEDULER_ACTOR = 'scheduler';
+// Edits by the same person to the same field within this window form one audit entry
+const AUDIT_COALESCE_MS = 60000;
+const AUDITED_FIELDS = ['name', 'title', 'description', 'altText', 'price', 'licenseIds', 'tags', 'collectionId'] as const;
+
+/**
+ * Workflow fields for a new asset: a draft titled after its name
+ * @param title - Initial title
+ * @returns Fields to spread into the asset
+ */
+export function workflowDefaults(title: string): Pick<Asset, 'status' | 'title' | 'altText' | 'price' | 'licenseIds' | 'publishAt' | 'audit'> {
+  return { status: 'draft', title, altText: '', price: null, licenseIds: [], publishAt: null, audit: [] };
+}
+
+/**
+ * Check that an asset has everything it needs to go live
+ * @param asset - The asset
+ * @returns What is missing, empty when the asset can be published
+ */
+export function publishProblems(asset: Asset): string[] {
+  const problems: string[] = [];
+  if (!asset.title.trim()) problems.push('a title');
+  if ((asset.file || asset.url) && !asset.altText.trim()) problems.push('alt text');
+  if (asset.price === null || !(asset.price > 0)) problems.push('a price');
+  if (asset.licenseIds.length === 0) problems.push('at least one license');
+  return problems;
+}
+
+function describe(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  return String(value);
+}
+
+/**
+ * Move an asset to another state, enforcing TRANSITIONS and the publishing
+ * requirements, and record it in the audit trail
+ * @param asset - The asset
+ * @param to - Target state
+ * @param options - Who makes the change, when, and the publish-at time when scheduling
+ * @returns The updated asset, or the unchanged asset and why the move is not allowed
+ */
+export function transition(
+  asset: Asset,
+  to: AssetStatus,
+  options: { actor: string; now: number; publishAt?: number | null }
+): { asset: Asset; error: string | null } {
+  if (!TRANSITIONS[asset.status].includes(to)) {
+    return { asset, error: `${STATUS_LABELS[asset.status]} assets cannot move to ${STATUS_LABELS[to].toLowerCase()}` };
+  }
+  if (to === 'scheduled' || to === 'published') {
+    const problems = publishProblems(asset);
+    if (problems.length > 0) return { asset, error: `Add ${problems.join(', ')} before publishing` };
+  }
+  let publishAt = asset.publishAt;
+  if (to === 'scheduled') {
+    publishAt = options.publishAt ?? asset.publishAt;
+    if (publishAt === null || publishAt <= options.now) return { asset, error: 'Pick a publish date in the future' };
+  } else if (to === 'published') {
+    publishAt = asset.status === 'scheduled' && asset.publishAt !== null ? asset.publishAt : options.now;
+  } else if (to === 'draft' || to === 'review') {
+    publishAt = null;
+  }
+  const entry: AuditEntry = { at: options.now, actor: options.actor, action: 'status', from: asset.status, to };
+  return { asset: { ...asset, status: to, publishAt, audit: [...asset.audit, entry] }, error: null };
+}
+
+/**
+ * Publish every scheduled asset whose publish-at time has passed
+ * @param assets - The library
+ * @param now - Current time
+ * @returns The updated library (the same array when nothing was due)
+ */
+export function publishDue(assets: Asset[], now: number): Asset[] {
+  if (!assets.some((a) => a.status === 'scheduled' && a.publishAt !== null && a.publishAt <= now)) return assets;
+  return assets.map((a) =>
+    a.status === 'scheduled' && a.publishAt !== null && a.publishAt <= now
+      ? transition(a, 'published', { actor: SCHEDULER_ACTOR, now }).asset
+      : a
+  );
+}
+
+// Index of this person's last edit of the field if it is recent and nothing
+// but other edits by them came after it, else -1
+function recentEdit(audit: AuditEntry[], field: string, actor: string, now: number): number {
+  for (let i = audit.length - 1; i >= 0; i--) {
+    const entry = audit[i];
+    if (entry.action !== 'edit' || entry.actor !== actor || now - entry.at >= AUDIT_COALESCE_MS) return -1;
+    if (entry.field === field) return i;
+  }
+  return -1;
+}
+
+/**
+ * Append audit entries for every tracked field that differs between two
+ * versions of the library. Repeated edits of one field by one person in
+ * quick succession (typing) update a single entry.
+ * @param prev - Library before the change
+ * @param next - Library after the change
+ * @param actor - Who made the change
+ * @param now - When
+ * @returns `next` with audit trails updated
+ */
+export function recordChanges(prev: Asset[], next: Asset[], actor: string, now: number): Asset[] {
+  if (prev === next) return next;
+  const before = new Map(prev.map((a) => [a.id, a]));
+  return next.map((asset) => {
+    const old = before.get(asset.id);
+    if (old === asset) return asset;
+    if (!old) {
+      return asset.audit.length > 0 ? asset : { ...asset, audit: [{ at: now, actor, action: 'create', from: null, to: asset.title || asset.name }] };
+    }
+    let audit = asset.audit;
+    for (const field of AUDITED_FIELDS) {
+      const from = describe(old[field]);
+      const to = describe(asset[field]);
+      if (from === to) continue;
+      const i = recentEdit(audit, field, actor, now);
+      if (i >= 0) {
+        audit = audit.map((entry, j) => (j === i ? { ...entry, at: now, to } : entry));
+      } else {
+        audit = [...audit, { at: now, actor, action: 'edit', field, from, to }];
+      }
+    }
+    return audit === asset.audit ? asset : { ...asset, audit };
+  });
+}
+
+/**
+ * Store products for the published assets that have a price
+ * @param assets - The library
+ * @returns Digital products, one per published asset
+ */
+export function publishedProducts(assets: Asset[]): StoreItem[] {
+  return assets.flatMap((a) =>
+    a.status === 'published' && a.price !== null
+      ? [{ id: a.id, name: a.title || a.name, price: a.price, kind: 'digital' as const, licenseIds: a.licenseIds }]
+      : []
+  );
+}
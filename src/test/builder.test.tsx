@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { downloads } from './setup';
+import App from '../App';
+import { DEFAULT_SPEC, readSpecFromSVG } from '../lib/mandala';
+
+// The animation preview is a second canvas further down the page
+function canvas() {
+  return within(screen.getByLabelText('Mandala SVG canvas')).getByRole('img', { name: 'Mandala canvas' });
+}
+
+// Every segment copy is drawn with one <use> of its ring's template
+function drawnShapes() {
+  return canvas().querySelectorAll('use').length;
+}
+
+function layers() {
+  return within(screen.getByRole('list', { name: 'Mandala layers' })).getAllByRole('listitem');
+}
+
+describe('builder', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/builder');
+    render(<App />);
+  });
+
+  test('draws the default design', () => {
+    expect(drawnShapes()).toBe(DEFAULT_SPEC.layers.reduce((n, l) => n + l.segments, 0));
+    expect(layers()).toHaveLength(DEFAULT_SPEC.layers.length);
+  });
+
+  test('redraws as rings are edited, with undo and redo', () => {
+    fireEvent.change(screen.getAllByRole('slider')[0], { target: { value: '20' } });
+    expect(screen.getByText('Segments: 20')).toBeTruthy();
+    expect(drawnShapes()).toBe(20 + 12);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add layer' }));
+    expect(layers()).toHaveLength(3);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(layers()).toHaveLength(2);
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    expect(drawnShapes()).toBe(24);
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true });
+    expect(drawnShapes()).toBe(32);
+  });
+
+  test('records a slider drag as one undo step and separate drags as separate steps', () => {
+    const slider = screen.getAllByRole('slider')[0];
+    const drag = (...values: string[]) => {
+      fireEvent.pointerDown(slider);
+      values.forEach((value) => fireEvent.input(slider, { target: { value } }));
+      fireEvent.pointerUp(slider);
+    };
+    drag('14', '18', '22');
+    drag('26');
+    expect(drawnShapes()).toBe(26 + 12);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(drawnShapes()).toBe(22 + 12);
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(drawnShapes()).toBe(DEFAULT_SPEC.layers.reduce((n, l) => n + l.segments, 0));
+    expect(screen.getByRole('button', { name: 'Undo' })).toHaveProperty('disabled', true);
+  });
+
+  test('exports a watermarked SVG that opens back into the builder', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Dn kaleidoscope' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export mandala as SVG' }));
+    expect(downloads).toHaveLength(1);
+    const svg = await downloads[0].text();
+    expect(svg).toContain('<g class="watermark"');
+    expect(readSpecFromSVG(svg)).toEqual({ ...DEFAULT_SPEC, symmetry: 'dihedral' });
+  });
+});
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import './setup';
+import App from '../App';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+function upload(...files: File[]) {
+  fireEvent.change(screen.getByLabelText('Bulk upload images'), { target: { files } });
+}
+
+describe('CMS upload', () => {
+  beforeEach(() => {
+    // jsdom cannot decode or draw images; give uploads a size and a thumbnail
+    vi.spyOn(HTMLImageElement.prototype, 'naturalWidth', 'get').mockReturnValue(640);
+    vi.spyOn(HTMLImageElement.prototype, 'naturalHeight', 'get').mockReturnValue(480);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: () => undefined } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/webp;base64,AAAA');
+    window.history.replaceState(null, '', '/cms');
+    render(<App />);
+  });
+
+  test('adds new images, and reports unsupported files and duplicates', async () => {
+    fireEvent.change(screen.getByRole('textbox', { name: 'Editor name' }), { target: { value: 'ana' } });
+    upload(
+      new File([PNG_BYTES], 'lotus.png', { type: 'image/png' }),
+      new File(['hello'], 'notes.txt', { type: 'text/plain' }),
+      new File([PNG_BYTES], 'lotus-copy.png', { type: 'image/png' })
+    );
+
+    expect(await screen.findByText('Added 1 of 3 files')).toBeTruthy();
+    const problems = within(screen.getByRole('list', { name: 'Upload problems' })).getAllByRole('listitem').map((li) => li.textContent);
+    expect(problems).toEqual([
+      'notes.txt: Unsupported file type text/plain; use PNG, JPEG, WebP, GIF, SVG',
+      'lotus-copy.png: duplicate of lotus.png'
+    ]);
+
+    // The image is measured on the way in
+    expect(screen.getByText('640×480 · 12 B')).toBeTruthy();
+
+    // The upload is a draft whose audit trail names the editor
+    fireEvent.click(screen.getByRole('button', { name: 'Edit publishing for lotus.png' }));
+    const editor = screen.getByLabelText('Publishing lotus');
+    expect(within(editor).getByText('Audit trail (1)')).toBeTruthy();
+    expect(within(editor).getByText(/ana/)).toBeTruthy();
+    expect(window.location.pathname).toMatch(/^\/cms\/assets\/asset-/);
+  });
+
+  test('skips a file uploaded again in a later batch', async () => {
+    upload(new File([PNG_BYTES], 'lotus.png', { type: 'image/png' }));
+    expect(await screen.findByText('Added 1 of 1 files')).toBeTruthy();
+    upload(new File([PNG_BYTES], 'lotus-again.png', { type: 'image/png' }));
+    await waitFor(() => expect(screen.getByText('Added 0 of 1 files')).toBeTruthy());
+    expect(screen.getByText(/duplicate of lotus\.png/)).toBeTruthy();
+    expect(screen.getAllByRole('button', { name: /^Edit publishing for / }).map((b) => b.getAttribute('aria-label'))).toEqual([
+      'Edit publishing for lotus.png',
+      'Edit publishing for Sample Mandala Asset'
+    ]);
+  });
+});
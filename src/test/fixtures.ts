@@ -0,0 +1,23 @@
+import { createLayer, createStroke, MAX_LAYERS, MAX_SEGMENTS, type MandalaSpec } from '../lib/mandala';
+
+// 10 rings of 48 segments plus 100 motif strokes mirrored into 48 segments: 10,080 shapes
+export function largeSpec(): MandalaSpec {
+  const layers = Array.from({ length: MAX_LAYERS }, (_, i) => createLayer({
+    motif: i % 2 === 0 ? 'petal' : 'teardrop',
+    innerRadius: i * 18,
+    outerRadius: i * 18 + 30,
+    segments: MAX_SEGMENTS,
+    fill: { gradient: i % 3 === 0 ? 'radial' : 'solid', from: i, to: i + 1 }
+  }));
+  const strokes = Array.from({ length: 100 }, (_, i) => createStroke('bezier', [
+    { r: 0.1 + (i % 10) * 0.08, t: 0.1 },
+    { r: 0.15 + (i % 10) * 0.08, t: 0.5 },
+    { r: 0.1 + (i % 10) * 0.08, t: 0.9 }
+  ]));
+  return {
+    symmetry: 'dihedral',
+    palette: ['#5200ff', '#ffd600', '#ff7f50', '#1b998b'],
+    layers,
+    motif: { segments: MAX_SEGMENTS, strokes, color: 1 }
+  };
+}
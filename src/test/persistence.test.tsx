@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { expect, test } from 'vitest';
+import './setup';
+import App from '../App';
+import { DEFAULT_SPEC } from '../lib/mandala';
+import { saveSlices } from '../lib/storage';
+
+function storedMeta(): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('mandala-portfolio');
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const get = req.result.transaction('workspace', 'readonly').objectStore('workspace').get('__meta');
+      get.onsuccess = () => {
+        req.result.close();
+        resolve(get.result);
+      };
+    };
+  });
+}
+
+function writeMeta(meta: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('mandala-portfolio');
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const tx = req.result.transaction('workspace', 'readwrite');
+      tx.objectStore('workspace').put(meta, '__meta');
+      tx.oncomplete = () => {
+        req.result.close();
+        resolve();
+      };
+    };
+  });
+}
+
+test('work saved by a newer version is reported and never overwritten', async () => {
+  await saveSlices({ spec: { ...DEFAULT_SPEC, symmetry: 'dihedral' } });
+  await writeMeta({ schemaVersion: 99, savedAt: 1 });
+  window.history.replaceState(null, '', '/builder');
+  render(<App />);
+
+  expect((await screen.findByText(/Saved work could not be loaded/)).textContent).toMatch(/newer version of the app \(schema 99/);
+  // Longer than the save debounce
+  await new Promise((resolve) => setTimeout(resolve, 500));
+  expect(await storedMeta()).toEqual({ schemaVersion: 99, savedAt: 1 });
+});
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+
+// Shared by the jsdom component tests: the browser APIs the app uses that
+// jsdom does not implement. IndexedDB comes from fake-indexeddb.
+
+/** Files handed to downloadBlob, newest last */
+export const downloads: Blob[] = [];
+
+function read<T>(blob: Blob, as: 'readAsText' | 'readAsArrayBuffer'): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    reader[as](blob);
+  });
+}
+
+Blob.prototype.text = function (this: Blob) {
+  return read<string>(this, 'readAsText');
+};
+Blob.prototype.arrayBuffer = function (this: Blob) {
+  return read<ArrayBuffer>(this, 'readAsArrayBuffer');
+};
+// Node's WebCrypto rejects a bare ArrayBuffer under jsdom but takes a view of it
+const digest = crypto.subtle.digest.bind(crypto.subtle);
+crypto.subtle.digest = (algorithm, data) => digest(algorithm, data instanceof ArrayBuffer ? new Uint8Array(data) : data);
+// Decoding always succeeds; tests that need a size stub naturalWidth and naturalHeight
+HTMLImageElement.prototype.decode = () => Promise.resolve();
+
+Object.defineProperty(window, 'matchMedia', {
+  configurable: true,
+  // Reduced motion keeps the animation preview from playing on its own
+  value: (query: string) => ({
+    matches: query === '(prefers-reduced-motion: reduce)',
+    media: query,
+    addEventListener: () => undefined,
+    removeEventListener: () => undefined
+  })
+});
+window.scrollTo = () => undefined;
+URL.createObjectURL = (blob: Blob | MediaSource) => {
+  if (blob instanceof Blob) downloads.push(blob);
+  return `blob:test/${downloads.length}`;
+};
+URL.revokeObjectURL = () => undefined;
+// jsdom cannot navigate to the blob: URL of a download link
+const click = HTMLAnchorElement.prototype.click;
+HTMLAnchorElement.prototype.click = function (this: HTMLAnchorElement) {
+  if (!this.download) click.call(this);
+};
+
+// Empty the app's IndexedDB so one test's saved workspace is not restored into the next
+function clearDatabase(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('mandala-portfolio');
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const db = req.result;
+      const names = Array.from(db.objectStoreNames);
+      if (names.length === 0) {
+        db.close();
+        resolve();
+        return;
+      }
+      const tx = db.transaction(names, 'readwrite');
+      names.forEach((name) => tx.objectStore(name).clear());
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+}
+
+afterEach(async () => {
+  cleanup();
+  downloads.length = 0;
+  vi.restoreAllMocks();
+  window.history.replaceState(null, '', '/');
+  await clearDatabase();
+});
@@ -0,0 +1,169 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import './setup';
+import App from '../App';
+
+// The mock payment provider answers after 400 ms per call
+const PAYMENT_TIMEOUT = { timeout: 5000 };
+
+function product(name: string) {
+  const store = screen.getByRole('region', { name: 'Store' });
+  return within(store).getByText(name, { selector: '.font-medium' }).closest('div.border') as HTMLElement;
+}
+
+// Each Select button sits in a <label>, which names it after the license
+function selectLicense(name: string) {
+  fireEvent.click(within(screen.getByLabelText('Licenses')).getByRole('button', { name }));
+}
+
+function cart() {
+  return screen.getByRole('complementary', { name: 'Cart' });
+}
+
+function total(label: string) {
+  const row = within(within(cart()).getByLabelText('Order summary')).getByText(label).parentElement as HTMLElement;
+  return row.querySelector('dd')?.textContent;
+}
+
+describe('store checkout', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/store');
+    render(<App />);
+  });
+
+  test('prices products under the selected license', () => {
+    expect(within(product('Fine Art Print A4')).getByText('$39.00')).toBeTruthy();
+    selectLicense('Editorial License');
+    expect(within(product('Fine Art Print A4')).getByText('$23.40')).toBeTruthy();
+    selectLicense('Exclusive');
+    expect(within(product('Fine Art Print A4')).getByText('Price on request')).toBeTruthy();
+  });
+
+  test('merges repeat adds and refuses prints the license forbids', () => {
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    expect(within(cart()).getByText('2 items')).toBeTruthy();
+    expect(within(cart()).getByRole('spinbutton', { name: 'Quantity of Fine Art Print A4' })).toHaveProperty('value', '2');
+
+    selectLicense('Editorial License');
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    expect(screen.getByRole('alert').textContent).toBe('Editorial License does not allow prints');
+    expect(within(cart()).getByText('2 items')).toBeTruthy();
+  });
+
+  test('keeps a line while its quantity is retyped', () => {
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    const quantity = within(cart()).getByRole('spinbutton', { name: 'Quantity of Fine Art Print A4' });
+    expect(within(cart()).getByRole('button', { name: 'Decrease Fine Art Print A4' })).toHaveProperty('disabled', true);
+
+    fireEvent.change(quantity, { target: { value: '' } });
+    fireEvent.change(quantity, { target: { value: '3' } });
+    expect(within(cart()).getByText('1 items')).toBeTruthy();
+    fireEvent.blur(quantity);
+    expect(within(cart()).getByText('3 items')).toBeTruthy();
+
+    fireEvent.change(quantity, { target: { value: '0' } });
+    fireEvent.blur(quantity);
+    expect(quantity).toHaveProperty('value', '3');
+    fireEvent.click(within(cart()).getByRole('button', { name: 'Remove Fine Art Print A4' }));
+    expect(within(cart()).getByText('Cart is empty')).toBeTruthy();
+  });
+
+  test('totals the cart and pays for it', async () => {
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    fireEvent.click(within(product('SVG Asset Pack')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Coupon code' }), { target: { value: 'mandala10' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Tax rule' }), { target: { value: 'uk-vat' } });
+    expect(total('Subtotal')).toBe('$90.00');
+    expect(total('Discount (MANDALA10)')).toBe('−$9.00');
+    expect(total('Total')).toBe('$97.20');
+
+    const pay = screen.getByRole('button', { name: 'Pay $97.20' });
+    expect(pay).toHaveProperty('disabled', true);
+    fireEvent.change(screen.getByPlaceholderText('Full name'), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ada@example.com' } });
+    fireEvent.click(pay);
+
+    expect((await screen.findByRole('status', {}, PAYMENT_TIMEOUT)).textContent).toMatch(/Payment received\. Order \S+ is confirmed/);
+    expect(within(cart()).getByText('Cart is empty')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('link', { name: 'Orders' }));
+    const orders = screen.getByRole('list', { name: 'Orders' });
+    expect(within(orders).getByText('paid')).toBeTruthy();
+    expect(within(orders).getByText(/Ada Lovelace · ada@example.com/)).toBeTruthy();
+    expect(within(orders).getByText('$97.20')).toBeTruthy();
+    expect(await within(orders).findAllByRole('button', { name: 'Certificate' })).toHaveLength(1);
+  });
+
+  test('shows a declined card and lets the buyer retry', async () => {
+    fireEvent.click(within(product('SVG Asset Pack')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByPlaceholderText('Full name'), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ada@example.com' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Test card' }), { target: { value: '4000000000000002' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Pay $12.00' }));
+
+    expect((await screen.findByRole('alert', {}, PAYMENT_TIMEOUT)).textContent).toBe('Your card was declined.');
+    expect(screen.getByRole('button', { name: 'Retry $12.00' })).toBeTruthy();
+    expect(within(cart()).getByText('1 items')).toBeTruthy();
+  });
+
+  test('sends a changed cart back to review instead of charging it on retry', async () => {
+    fireEvent.click(within(product('SVG Asset Pack')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByPlaceholderText('Full name'), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ada@example.com' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Test card' }), { target: { value: '4000000000000002' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Pay $12.00' }));
+    await screen.findByRole('alert', {}, PAYMENT_TIMEOUT);
+
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Test card' }), { target: { value: '4242424242424242' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Retry $51.00' }));
+    expect((await screen.findByText(/Your cart changed/)).getAttribute('role')).toBe('alert');
+    expect(within(cart()).getByText('2 items')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pay $51.00' }));
+    await screen.findByRole('status', {}, PAYMENT_TIMEOUT);
+
+    fireEvent.click(screen.getByRole('link', { name: 'Orders' }));
+    const orders = Array.from(screen.getByRole('list', { name: 'Orders' }).children) as HTMLElement[];
+    expect(orders).toHaveLength(2);
+    expect(within(orders[0]).getByText('paid')).toBeTruthy();
+    expect(within(orders[0]).getByText('$51.00')).toBeTruthy();
+    expect(await within(orders[1]).findByText('canceled')).toBeTruthy();
+  });
+
+  test('will not retry a cart that can no longer be paid for', async () => {
+    fireEvent.click(within(product('SVG Asset Pack')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByPlaceholderText('Full name'), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ada@example.com' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Test card' }), { target: { value: '4000000000000002' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Pay $12.00' }));
+    await screen.findByRole('alert', {}, PAYMENT_TIMEOUT);
+
+    selectLicense('Exclusive');
+    fireEvent.click(within(product('Fine Art Print A4')).getByRole('button', { name: 'Add' }));
+    expect(screen.getByRole('button', { name: /^Retry/ })).toHaveProperty('disabled', true);
+
+    fireEvent.click(within(cart()).getByRole('button', { name: 'Remove Fine Art Print A4' }));
+    fireEvent.click(within(cart()).getByRole('button', { name: 'Remove SVG Asset Pack' }));
+    expect(within(cart()).getByText('Cart is empty')).toBeTruthy();
+    expect(screen.getByRole('button', { name: /^Retry/ })).toHaveProperty('disabled', true);
+  });
+
+  test('reports a certificate that could not be issued and retries it', async () => {
+    const digest = vi.spyOn(crypto.subtle, 'digest').mockRejectedValue(new Error('crypto.subtle is not available'));
+    fireEvent.click(within(product('SVG Asset Pack')).getByRole('button', { name: 'Add' }));
+    fireEvent.change(screen.getByPlaceholderText('Full name'), { target: { value: 'Ada Lovelace' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ada@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Pay $12.00' }));
+
+    expect((await screen.findByRole('alert', {}, PAYMENT_TIMEOUT)).textContent).toBe('License certificate not issued: crypto.subtle is not available');
+    digest.mockRestore();
+    fireEvent.click(screen.getByRole('button', { name: 'Retry certificate' }));
+    fireEvent.click(screen.getByRole('link', { name: 'Orders' }));
+    expect(await screen.findAllByRole('button', { name: 'Certificate' })).toHaveLength(1);
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+});
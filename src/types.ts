@@ -0,0 +1,134 @@
+import type { MandalaSpec } from './lib/mandala';
+import type { PaperSize } from './lib/rasterExport';
+
+export type LicenseTerritory = 'worldwide' | 'north-america' | 'europe' | 'uk' | 'asia-pacific';
+
+export type LicensePricing = { kind: 'multiplier'; multiplier: number } | { kind: 'on-request' };
+
+export type License = {
+  id: string;
+  name: string;
+  /** Retired licenses stay readable for past orders but cannot be bought */
+  status: 'active' | 'retired';
+  commercialUse: boolean;
+  /** Most prints per purchase: null for unlimited, 0 when prints are not allowed */
+  printRunLimit: number | null;
+  territory: LicenseTerritory;
+  /** Term in months, or null for perpetual */
+  durationMonths: number | null;
+  attributionRequired: boolean;
+  resaleAllowed: boolean;
+  exclusive: boolean;
+  /** How the license changes a product's price */
+  pricing: LicensePricing;
+};
+
+export type ProductKind = 'physical' | 'digital';
+
+/** An uploaded image; its bytes live in the blob store under `hash` */
+export type AssetFile = {
+  /** SHA-256 of the file contents */
+  hash: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  width: number;
+  height: number;
+  /** Small WebP or PNG data URL for grids */
+  thumbnail: string;
+  uploadedAt: number;
+};
+
+export type AssetStatus = 'draft' | 'review' | 'scheduled' | 'published' | 'archived';
+
+export type AuditEntry = {
+  at: number;
+  actor: string;
+  action: 'create' | 'edit' | 'status';
+  /** Field changed by an edit */
+  field?: string;
+  from: string | null;
+  to: string | null;
+};
+
+export type Asset = {
+  id: string;
+  /** Internal name, e.g. the uploaded file name */
+  name: string;
+  tags: string[];
+  status: AssetStatus;
+  /** Public title shown in the store */
+  title: string;
+  description?: string;
+  altText: string;
+  /** Price in the base currency; null until set */
+  price: number | null;
+  /** Licenses the asset can be bought under */
+  licenseIds: string[];
+  /** When a scheduled asset goes live */
+  publishAt: number | null;
+  audit: AuditEntry[];
+  /** Collection (series) the asset belongs to */
+  collectionId?: string;
+  /** Remote location, for assets not uploaded into the blob store */
+  url?: string;
+  file?: AssetFile;
+  /** Builder design, for assets saved from the builder */
+  design?: MandalaSpec;
+  createdAt?: number;
+  /** Search and social overrides for the asset's public page */
+  seo?: Partial<PageMeta>;
+};
+
+export type Collection = {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: number;
+};
+
+export type CartItem = {
+  /** Line id: one line per product and license */
+  id: string;
+  productId: string;
+  name: string;
+  /** Base unit price before the license modifier */
+  price: number;
+  quantity: number;
+  licenseId: string;
+  kind: ProductKind;
+};
+
+/** Public pages of the site */
+export type PageId = 'home' | 'builder' | 'store' | 'licenses';
+
+export type PageMeta = {
+  title: string;
+  description: string;
+  keywords: string;
+  /** Keep the page out of search results and the sitemap */
+  noindex: boolean;
+};
+
+/** Site-wide defaults plus per-page overrides; empty overrides fall back to the defaults */
+export type SEOState = {
+  title: string;
+  description: string;
+  keywords: string;
+  /** Public origin the site is served from, e.g. https://mandalas.example */
+  siteUrl: string;
+  /** Account for twitter:site, e.g. @mandalas */
+  twitterHandle: string;
+  pages: Partial<Record<PageId, Partial<PageMeta>>>;
+};
+
+export type StoreItem = {
+  id: string;
+  name: string;
+  price: number;
+  kind: ProductKind;
+  /** Paper preset of the print file for physical print products */
+  printPreset?: PaperSize;
+  /** Licenses the product is offered under; any license when absent */
+  licenseIds?: string[];
+};
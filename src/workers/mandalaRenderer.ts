@@ -0,0 +1,34 @@
+import { drawMandala } from '../lib/canvasRenderer';
+import { mandalaGeometry } from '../lib/geometry';
+import type { MandalaSpec } from '../lib/mandala';
+
+/** Messages the preview renderer worker accepts */
+export type RendererMessage =
+  | { kind: 'init'; canvas: OffscreenCanvas }
+  | { kind: 'draw'; spec: MandalaSpec; size: number; background: string };
+
+let canvas: OffscreenCanvas | null = null;
+let pending: Extract<RendererMessage, { kind: 'draw' }> | null = null;
+let scheduled = false;
+
+// Slider drags post faster than a large design draws; only the latest spec is drawn
+function flush() {
+  scheduled = false;
+  if (!canvas || !pending) return;
+  const { spec, size, background } = pending;
+  pending = null;
+  if (canvas.width !== size) canvas.width = size;
+  if (canvas.height !== size) canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (ctx) drawMandala(ctx, mandalaGeometry(spec), size, background);
+}
+
+addEventListener('message', (ev: MessageEvent<RendererMessage>) => {
+  const message = ev.data;
+  if (message.kind === 'init') canvas = message.canvas;
+  else pending = message;
+  if (!scheduled) {
+    scheduled = true;
+    setTimeout(flush, 0);
+  }
+});
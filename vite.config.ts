@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -21,4 +22,9 @@ export default defineConfig({
       protocol: 'wss',
     },
   },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    // Unit tests run in Node; component tests opt into jsdom with a @vitest-environment comment
+    environment: 'node',
+  },
 });
\ No newline at end of file